@@ -0,0 +1,51 @@
+// @vitest-environment node
+/**
+ * ERG Export Route Tests
+ *
+ * @see app/api/workouts/export/erg/route.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/workouts/export/erg/route";
+
+function exportRequest(body: unknown): NextRequest {
+  return new NextRequest("http://localhost/api/workouts/export/erg", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const intervals = (repeat: number) => ({
+  type: "intervals",
+  repeat,
+  on_duration_s: 30,
+  off_duration_s: 30,
+  on_power_pct: 150,
+  off_power_pct: 50,
+});
+
+describe("POST /api/workouts/export/erg", () => {
+  it("exports a course in watts", async () => {
+    const response = await POST(exportRequest({ workout: { name: "Sprints", steps: [intervals(2)] }, ftp: 200 }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toContain(".erg");
+    expect(await response.text()).toContain("[COURSE DATA]");
+  });
+
+  it("rejects repetitions past the limit before building the course", async () => {
+    const response = await POST(exportRequest({ workout: { name: "Huge", steps: [intervals(1e9)] }, ftp: 200 }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("VALIDATION_ERROR");
+  });
+
+  it("rejects nested blocks too large once expanded", async () => {
+    const block = (steps: unknown[]) => ({ type: "repeat", repeat: 100, steps });
+    const response = await POST(exportRequest({ workout: { name: "Huge", steps: [block([block([intervals(100)])])] }, ftp: 200 }));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment node
+/**
+ * ZIP Export Route Tests
+ *
+ * @see app/api/workouts/export/zip/route.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/workouts/export/zip/route";
+import { EXPORT_WARNINGS_HEADER, EXPORT_WARNING_COUNT_HEADER } from "@/lib/services/export-warnings";
+
+function exportRequest(body: unknown): NextRequest {
+  return new NextRequest("http://localhost/api/workouts/export/zip", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+const bandWorkout = (name: string) => ({
+  name,
+  steps: [{ type: "steady", duration_s: 600, power_pct: 91, power_low_pct: 88, power_high_pct: 94 }],
+});
+
+describe("POST /api/workouts/export/zip", () => {
+  it("lists warnings in a manifest inside the archive and only counts them in a header", async () => {
+    const workouts = Array.from({ length: 50 }, (_, i) => bandWorkout(`Sweet Spot ${i + 1}`));
+    const response = await POST(exportRequest({ workouts }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get(EXPORT_WARNINGS_HEADER)).toBeNull();
+    expect(response.headers.get(EXPORT_WARNING_COUNT_HEADER)).toBe("50");
+
+    // Entries are stored uncompressed: the manifest reads as is
+    const archive = Buffer.from(await response.arrayBuffer()).toString("utf8");
+    expect(archive).toContain("warnings.json");
+    expect(archive).toContain('"file": "sweet-spot-50.zwo"');
+    expect(archive).toContain('"code": "BAND_FTP"');
+  });
+
+  it("adds no manifest without warnings", async () => {
+    const response = await POST(exportRequest({
+      workouts: [{ name: "Steady", steps: [{ type: "steady", duration_s: 600, power_pct: 90 }] }],
+    }));
+
+    expect(response.headers.get(EXPORT_WARNING_COUNT_HEADER)).toBeNull();
+    expect(Buffer.from(await response.arrayBuffer()).toString("utf8")).not.toContain("warnings.json");
+  });
+});
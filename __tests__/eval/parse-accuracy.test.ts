@@ -0,0 +1,53 @@
+// @vitest-environment node
+/**
+ * Parse Accuracy Evaluation
+ *
+ * Scores the golden fixtures of fixtures/eval and prints the per-case and
+ * aggregate accuracy. Runs offline with the recorded model answers; with
+ * EVAL_PROVIDER=live it calls the vision provider configured in the shell
+ * environment (VISION_PROVIDER, OPENAI_API_KEY...), and EVAL_RECORD=true
+ * then saves its answers as the new recordings.
+ *
+ * Every prompt version is scored on its own: offline the versions with
+ * recordings, live all of them, or the ones listed in EVAL_PROMPT_VERSIONS
+ * ("2026-10-2,2026-10-3"). Fails when an aggregate score is under
+ * EVAL_MIN_SCORE (default 0.8).
+ *
+ *   npm run eval
+ *   EVAL_PROVIDER=live EVAL_PROMPT_VERSIONS=2026-10-3 EVAL_RECORD=true npm run eval
+ *
+ * @see lib/services/parse-eval.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { loadEvalCases, runEvaluation, formatEvalReport } from "@/lib/services/parse-eval";
+import { PROMPT_VERSIONS } from "@/lib/prompts";
+
+const FIXTURES_DIR = "fixtures/eval";
+const MODE = process.env.EVAL_PROVIDER === "live" ? "live" : "recorded";
+const MIN_SCORE = Number(process.env.EVAL_MIN_SCORE ?? 0.8);
+
+const cases = await loadEvalCases(FIXTURES_DIR);
+const VERSIONS =
+  process.env.EVAL_PROMPT_VERSIONS?.split(",").map((version) => version.trim()) ??
+  (MODE === "live"
+    ? PROMPT_VERSIONS
+    : PROMPT_VERSIONS.filter((version) => cases.some((evalCase) => version in evalCase.recorded)));
+
+// Live models take a while per image, with repairs
+const TIMEOUT_MS = MODE === "live" ? 10 * 60_000 : 30_000;
+
+describe("Parse accuracy", () => {
+  it.each(VERSIONS)(`scores the golden fixtures with prompt %s (${MODE})`, { timeout: TIMEOUT_MS }, async (promptVersion) => {
+    const report = await runEvaluation(cases, {
+      mode: MODE,
+      promptVersion,
+      record: process.env.EVAL_RECORD === "true",
+    });
+
+    console.log(formatEvalReport(report));
+
+    expect(report.cases.filter((result) => result.error)).toEqual([]);
+    expect(report.aggregate.score).toBeGreaterThanOrEqual(MIN_SCORE);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Prompt Template Tests
+ *
+ * @see lib/prompts/index.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROMPT_VERSION,
+  PROMPT_VERSIONS,
+  getPromptTemplate,
+  isPromptVersion,
+  parsePromptSplit,
+  selectPromptVersion,
+} from "@/lib/prompts";
+
+describe("Prompt Templates", () => {
+  describe("getPromptTemplate", () => {
+    it("returns the default version when none is given", () => {
+      expect(getPromptTemplate().version).toBe(DEFAULT_PROMPT_VERSION);
+      expect(PROMPT_VERSIONS).toContain(DEFAULT_PROMPT_VERSION);
+    });
+
+    it("rejects unknown versions", () => {
+      expect(isPromptVersion("1999-01-1")).toBe(false);
+      expect(() => getPromptTemplate("1999-01-1")).toThrow(/Unknown prompt version/);
+    });
+
+    it("builds user prompts from the context", () => {
+      const template = getPromptTemplate();
+
+      expect(template.buildUserPrompt({})).not.toContain("may be in");
+      expect(template.buildUserPrompt({ locale: "fr", notes: "FTP 250" })).toMatch(/may be in fr.*FTP 250/);
+    });
+
+    it("asks for the printed total from 2026-10-3 on", () => {
+      expect(getPromptTemplate("2026-10-2").systemPrompt).not.toContain("total_duration_s");
+      expect(getPromptTemplate("2026-10-3").systemPrompt).toContain("total_duration_s");
+    });
+
+    it("lists the issues in repair prompts", () => {
+      expect(getPromptTemplate().buildRepairPrompt(["steps: required"])).toContain("steps: required");
+    });
+  });
+
+  describe("selectPromptVersion", () => {
+    it("uses the pinned version, then the default", () => {
+      expect(selectPromptVersion("user", { version: "pinned" })).toBe("pinned");
+      expect(selectPromptVersion("user")).toBe(DEFAULT_PROMPT_VERSION);
+    });
+
+    it("keeps a key on the same version", () => {
+      const split = [
+        { version: "a", weight: 1 },
+        { version: "b", weight: 1 },
+      ];
+
+      const versions = ["user-1", "user-2", "user-3"].map((key) => selectPromptVersion(key, { split }));
+      expect(["user-1", "user-2", "user-3"].map((key) => selectPromptVersion(key, { split }))).toEqual(versions);
+      expect(selectPromptVersion(Buffer.from("image"), { split })).toBe(selectPromptVersion("image", { split }));
+    });
+
+    it("splits keys by weight", () => {
+      const split = [
+        { version: "a", weight: 90 },
+        { version: "b", weight: 10 },
+      ];
+
+      const keys = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+      const share = keys.filter((key) => selectPromptVersion(key, { split }) === "b").length / keys.length;
+      expect(share).toBeGreaterThan(0.05);
+      expect(share).toBeLessThan(0.15);
+    });
+
+    it("ignores versions without weight", () => {
+      const split = [
+        { version: "a", weight: 0 },
+        { version: "b", weight: 5 },
+      ];
+
+      expect(selectPromptVersion("user", { split })).toBe("b");
+      expect(selectPromptVersion("user", { version: "a", split: [{ version: "b", weight: 0 }] })).toBe("a");
+    });
+  });
+
+  describe("parsePromptSplit", () => {
+    it("parses weighted versions", () => {
+      expect(parsePromptSplit(" 2026-10-2=90, 2026-11-1 = 10 ,")).toEqual([
+        { version: "2026-10-2", weight: 90 },
+        { version: "2026-11-1", weight: 10 },
+      ]);
+    });
+
+    it.each(["2026-10-2", "2026-10-2=", "=10", "2026-10-2=ten", "2026-10-2=-1"])("rejects %j", (value) => {
+      expect(() => parsePromptSplit(value)).toThrow(/Invalid prompt split entry/);
+    });
+  });
+});
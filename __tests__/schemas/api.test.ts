@@ -35,8 +35,14 @@ describe("API Schemas", () => {
           steps: [{ type: "freeride", duration_s: 300 }],
         },
         warnings: [
-          "Step 1: Duration unclear, estimated 5 minutes",
-          "Overall: Some text partially obscured",
+          {
+            code: "DEFAULT_DURATION",
+            severity: "warning",
+            step_index: 0,
+            params: { value: 300 },
+            message: "No duration given, default 300s used",
+          },
+          { code: "MODEL_NOTE", severity: "info", params: { note: "Some text partially obscured" }, message: "Some text partially obscured" },
         ],
         confidence: 0.72,
       });
@@ -46,6 +52,19 @@ describe("API Schemas", () => {
       }
     });
 
+    it("rejects plain string warnings and unknown codes", () => {
+      const workout = { name: "Test", steps: [{ type: "freeride", duration_s: 60 }] };
+
+      expect(ParseResponseSchema.safeParse({ workout, warnings: ["Unclear"], confidence: 0.5 }).success).toBe(false);
+      expect(
+        ParseResponseSchema.safeParse({
+          workout,
+          warnings: [{ code: "SOMETHING", severity: "info", params: {}, message: "?" }],
+          confidence: 0.5,
+        }).success
+      ).toBe(false);
+    });
+
     it("rejects confidence over 1.0", () => {
       const result = ParseResponseSchema.safeParse({
         workout: {
@@ -69,6 +88,24 @@ describe("API Schemas", () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it("lists the workouts of an image holding several", () => {
+      const workout = { name: "Test", steps: [{ type: "freeride", duration_s: 60 }] };
+      const detected = (day: string) => ({ day, workout, warnings: [], confidence: 0.8 });
+
+      expect(
+        ParseResponseSchema.safeParse({
+          workout,
+          warnings: [],
+          confidence: 0.8,
+          workouts: [detected("Monday"), detected("Tuesday")],
+        }).success
+      ).toBe(true);
+      // A single workout keeps the plain shape
+      expect(
+        ParseResponseSchema.safeParse({ workout, warnings: [], confidence: 0.8, workouts: [detected("Monday")] }).success
+      ).toBe(false);
+    });
   });
 
   describe("ParseErrorSchema", () => {
@@ -11,6 +11,7 @@ import {
   SteadyStepSchema,
   IntervalsStepSchema,
   FreerideStepSchema,
+  RepeatStepSchema,
   StepSchema,
 } from "@/lib/schemas/step";
 
@@ -77,6 +78,81 @@ describe("Step Schemas", () => {
       });
       expect(result.success).toBe(true);
     });
+
+    it("accepts an optional cadence target or range", () => {
+      expect(SteadyStepSchema.safeParse({
+        type: "steady",
+        duration_s: 300,
+        power_pct: 90,
+        cadence_rpm: 60,
+      }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({
+        type: "steady",
+        duration_s: 300,
+        power_pct: 90,
+        cadence_low_rpm: 85,
+        cadence_high_rpm: 95,
+      }).success).toBe(true);
+    });
+
+    it("rejects inverted cadence ranges", () => {
+      const result = SteadyStepSchema.safeParse({
+        type: "steady",
+        duration_s: 300,
+        power_pct: 90,
+        cadence_low_rpm: 95,
+        cadence_high_rpm: 85,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects out-of-range cadence", () => {
+      const result = SteadyStepSchema.safeParse({
+        type: "steady",
+        duration_s: 300,
+        power_pct: 90,
+        cadence_rpm: 250,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("accepts timed messages and rejects blank ones", () => {
+      const step = { type: "steady", duration_s: 300, power_pct: 90 };
+      expect(SteadyStepSchema.safeParse({
+        ...step,
+        messages: [{ offset_s: 0, message: "Stay seated" }],
+      }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({
+        ...step,
+        messages: [{ offset_s: 0, message: "   " }],
+      }).success).toBe(false);
+      expect(SteadyStepSchema.safeParse({
+        ...step,
+        messages: [{ offset_s: -5, message: "Too early" }],
+      }).success).toBe(false);
+    });
+
+    it("checks targets against the limits of their unit", () => {
+      const step = { type: "steady", duration_s: 300 };
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 300, target_unit: "watts" }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 300 }).success).toBe(false);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 150, target_unit: "bpm" }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 250, target_unit: "bpm" }).success).toBe(false);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 90, target_unit: "rpe" }).success).toBe(false);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 270, target_unit: "sec_per_km" }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({ ...step, power_pct: 30, target_unit: "sec_per_km" }).success).toBe(false);
+    });
+
+    it("accepts power bands and known zones only", () => {
+      const step = { type: "steady", duration_s: 300, power_pct: 83 };
+      expect(SteadyStepSchema.safeParse({
+        ...step,
+        power_low_pct: 76,
+        power_high_pct: 90,
+        power_zone: "Z3",
+      }).success).toBe(true);
+      expect(SteadyStepSchema.safeParse({ ...step, power_zone: "Z8" }).success).toBe(false);
+    });
   });
 
   describe("IntervalsStepSchema", () => {
@@ -104,6 +180,18 @@ describe("Step Schemas", () => {
       expect(result.success).toBe(false);
     });
 
+    it("rejects more than 100 repetitions", () => {
+      const result = IntervalsStepSchema.safeParse({
+        type: "intervals",
+        repeat: 1e9,
+        on_duration_s: 180,
+        off_duration_s: 180,
+        on_power_pct: 120,
+        off_power_pct: 50,
+      });
+      expect(result.success).toBe(false);
+    });
+
     it("requires integer repetitions", () => {
       const result = IntervalsStepSchema.safeParse({
         type: "intervals",
@@ -127,6 +215,51 @@ describe("Step Schemas", () => {
     });
   });
 
+  describe("RepeatStepSchema", () => {
+    it("validates nested repeat blocks", () => {
+      const result = RepeatStepSchema.safeParse({
+        type: "repeat",
+        repeat: 3,
+        steps: [
+          {
+            type: "repeat",
+            repeat: 4,
+            steps: [
+              { type: "steady", duration_s: 30, power_pct: 150 },
+              { type: "steady", duration_s: 30, power_pct: 50 },
+            ],
+          },
+          { type: "steady", duration_s: 300, power_pct: 55 },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects an empty block", () => {
+      const result = RepeatStepSchema.safeParse({
+        type: "repeat",
+        repeat: 2,
+        steps: [],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("validates child steps recursively", () => {
+      const result = RepeatStepSchema.safeParse({
+        type: "repeat",
+        repeat: 2,
+        steps: [
+          {
+            type: "repeat",
+            repeat: 2,
+            steps: [{ type: "steady", duration_s: 60, power_pct: 250 }],
+          },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("StepSchema (discriminated union)", () => {
     it("parses warmup step correctly", () => {
       const result = StepSchema.safeParse({
@@ -49,6 +49,15 @@ describe("WorkoutSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("accepts bike and run workouts only", () => {
+    const workout = {
+      name: "Threshold Run",
+      steps: [{ type: "steady", duration_s: 600, power_pct: 270, target_unit: "sec_per_km" }],
+    };
+    expect(WorkoutSchema.safeParse({ ...workout, sport: "run" }).success).toBe(true);
+    expect(WorkoutSchema.safeParse({ ...workout, sport: "swim" }).success).toBe(false);
+  });
+
   it("rejects empty name", () => {
     const result = WorkoutSchema.safeParse({
       name: "",
@@ -85,4 +94,28 @@ describe("WorkoutSchema", () => {
     });
     expect(result.success).toBe(false);
   });
+
+  describe("size limits", () => {
+    const block = (steps: unknown[]) => ({ type: "repeat", repeat: 10, steps });
+    const steady = { type: "steady", duration_s: 30, power_pct: 100 };
+
+    it("accepts repeat blocks nested 3 deep", () => {
+      const result = WorkoutSchema.safeParse({ name: "Nested", steps: [block([block([block([steady])])])] });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects repeat blocks nested deeper", () => {
+      const result = WorkoutSchema.safeParse({ name: "Nested", steps: [block([block([block([block([steady])])])])] });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects a workout too large once repeats are expanded", () => {
+      const result = WorkoutSchema.safeParse({
+        name: "Oversized",
+        steps: [block([block([{ type: "intervals", repeat: 100, on_duration_s: 30, off_duration_s: 30, on_power_pct: 150, off_power_pct: 50 }])])],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toContain("2000 steps");
+    });
+  });
 });
@@ -0,0 +1,113 @@
+/**
+ * Edit History Service Tests
+ *
+ * @see lib/services/edit-history.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createHistory,
+  getCurrentState,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  goToEntry,
+  mapHistory,
+  canUndo,
+  canRedo,
+  MAX_HISTORY_ENTRIES,
+  COALESCE_WINDOW_MS,
+  type EditHistory,
+} from "@/lib/services/edit-history";
+
+const T0 = 1_000_000;
+
+function start(state = "a"): EditHistory<string> {
+  return createHistory(state, { label: "historyOriginal" }, T0);
+}
+
+describe("Edit History Service", () => {
+  it("records edits and moves back and forth through them", () => {
+    let history = start();
+    history = recordEdit(history, "b", { label: "historyRename" }, T0 + 5000);
+    history = recordEdit(history, "c", { label: "historyDeleteStep", stepIndex: 1 }, T0 + 10_000);
+
+    expect(getCurrentState(history)).toBe("c");
+    expect(canRedo(history)).toBe(false);
+
+    history = undoEdit(undoEdit(history));
+    expect(getCurrentState(history)).toBe("a");
+    expect(canUndo(history)).toBe(false);
+    expect(undoEdit(history)).toBe(history);
+
+    history = redoEdit(history);
+    expect(getCurrentState(history)).toBe("b");
+    expect(canRedo(history)).toBe(true);
+  });
+
+  it("drops the undone edits on a new edit", () => {
+    let history = recordEdit(start(), "b", { label: "historyRename" }, T0 + 5000);
+    history = recordEdit(undoEdit(history), "c", { label: "historySport" }, T0 + 10_000);
+
+    expect(history.entries.map((entry) => entry.state)).toEqual(["a", "c"]);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it("coalesces rapid edits of the same field", () => {
+    const edit = { label: "historyEditStep" as const, stepIndex: 0, coalesceKey: "step-0" };
+    let history = start();
+    history = recordEdit(history, "ab", edit, T0 + 5000);
+    history = recordEdit(history, "abc", edit, T0 + 5000 + COALESCE_WINDOW_MS);
+    history = recordEdit(history, "abcd", edit, T0 + 5000 + 2 * COALESCE_WINDOW_MS);
+
+    expect(history.entries.map((entry) => entry.state)).toEqual(["a", "abcd"]);
+    expect(getCurrentState(undoEdit(history))).toBe("a");
+  });
+
+  it("starts a new entry after a pause, another field or an undo", () => {
+    const step0 = { label: "historyEditStep" as const, coalesceKey: "step-0" };
+    const step1 = { label: "historyEditStep" as const, coalesceKey: "step-1" };
+
+    let history = recordEdit(start(), "b", step0, T0 + 5000);
+    history = recordEdit(history, "c", step0, T0 + 5000 + COALESCE_WINDOW_MS + 1);
+    history = recordEdit(history, "d", step1, T0 + 5000 + COALESCE_WINDOW_MS + 2);
+    expect(history.entries).toHaveLength(4);
+
+    history = recordEdit(undoEdit(history), "e", step0, T0 + 5000 + COALESCE_WINDOW_MS + 3);
+    expect(history.entries.map((entry) => entry.state)).toEqual(["a", "b", "c", "e"]);
+  });
+
+  it("never coalesces into the initial state", () => {
+    const history = recordEdit(start(), "b", { label: "historyRename", coalesceKey: "name" }, T0);
+
+    expect(history.entries).toHaveLength(2);
+  });
+
+  it("keeps the newest entries", () => {
+    let history = start("0");
+    for (let i = 1; i <= MAX_HISTORY_ENTRIES + 10; i++) {
+      history = recordEdit(history, String(i), { label: "historyAddStep" }, T0 + i * 5000);
+    }
+
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.index).toBe(MAX_HISTORY_ENTRIES - 1);
+    expect(getCurrentState(history)).toBe(String(MAX_HISTORY_ENTRIES + 10));
+  });
+
+  it("goes to any entry, within bounds", () => {
+    let history = start();
+    history = recordEdit(history, "b", { label: "historyRename" }, T0 + 5000);
+    history = recordEdit(history, "c", { label: "historySport" }, T0 + 10_000);
+
+    expect(getCurrentState(goToEntry(history, 0))).toBe("a");
+    expect(goToEntry(history, 10).index).toBe(2);
+  });
+
+  it("maps every state without recording an edit", () => {
+    const history = undoEdit(recordEdit(start(), "b", { label: "historyRename" }, T0 + 5000));
+    const mapped = mapHistory(history, (state) => state.toUpperCase());
+
+    expect(mapped.entries.map((entry) => entry.state)).toEqual(["A", "B"]);
+    expect(mapped.index).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * ERG / MRC Generator Tests
+ *
+ * @see lib/services/erg.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { workoutToErg, workoutToMrc } from "@/lib/services/erg";
+import type { Workout } from "@/lib/schemas";
+
+function courseData(content: string): string[] {
+  const lines = content.split("\r\n");
+  return lines.slice(lines.indexOf("[COURSE DATA]") + 1, lines.indexOf("[END COURSE DATA]"));
+}
+
+describe("ERG / MRC Generator", () => {
+  describe("workoutToMrc", () => {
+    it("writes a course header in percent units", () => {
+      const mrc = workoutToMrc({
+        name: "Sweet Spot",
+        steps: [{ type: "steady", duration_s: 60, power_pct: 88 }],
+      });
+
+      expect(mrc).toContain("[COURSE HEADER]\r\nVERSION = 2\r\nUNITS = ENGLISH\r\n");
+      expect(mrc).toContain("DESCRIPTION = Sweet Spot\r\n");
+      expect(mrc).toContain("FILE NAME = sweet-spot.mrc\r\n");
+      expect(mrc).toContain("MINUTES PERCENT\r\n[END COURSE HEADER]");
+      expect(mrc).not.toContain("FTP =");
+      expect(mrc.endsWith("[END COURSE DATA]\r\n")).toBe(true);
+    });
+
+    it("renders ramps as sloped segments and steady steps as flat ones", () => {
+      const mrc = workoutToMrc({
+        name: "Ramp",
+        steps: [
+          { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+          { type: "steady", duration_s: 300, power_pct: 88 },
+          { type: "cooldown", duration_s: 90, power_start_pct: 60, power_end_pct: 40 },
+        ],
+      });
+
+      expect(courseData(mrc)).toEqual([
+        "0.00\t50",
+        "10.00\t75",
+        "10.00\t88",
+        "15.00\t88",
+        "15.00\t60",
+        "16.50\t40",
+      ]);
+    });
+
+    it("expands intervals into on/off points", () => {
+      const mrc = workoutToMrc({
+        name: "Intervals",
+        steps: [
+          {
+            type: "intervals",
+            repeat: 2,
+            on_duration_s: 60,
+            off_duration_s: 30,
+            on_power_pct: 120,
+            off_power_pct: 50,
+          },
+        ],
+      });
+
+      expect(courseData(mrc)).toEqual([
+        "0.00\t120",
+        "1.00\t120",
+        "1.00\t50",
+        "1.50\t50",
+        "1.50\t120",
+        "2.50\t120",
+        "2.50\t50",
+        "3.00\t50",
+      ]);
+    });
+
+    it("uses 50% for free ride and single-line descriptions", () => {
+      const mrc = workoutToMrc({
+        name: "Free",
+        description: "Line one\nLine [two]",
+        steps: [{ type: "freeride", duration_s: 120 }],
+      });
+
+      expect(mrc).toContain("DESCRIPTION = Line one Line two\r\n");
+      expect(courseData(mrc)).toEqual(["0.00\t50", "2.00\t50"]);
+    });
+  });
+
+  describe("workoutToErg", () => {
+    const workout: Workout = {
+      name: "Threshold",
+      steps: [
+        { type: "warmup", duration_s: 300, power_start_pct: 50, power_end_pct: 70 },
+        { type: "steady", duration_s: 600, power_pct: 95 },
+      ],
+    };
+
+    it("converts %FTP to watts with the rider's FTP", () => {
+      const erg = workoutToErg(workout, { ftp: 250 });
+
+      expect(erg).toContain("FTP = 250\r\nMINUTES WATTS\r\n");
+      expect(courseData(erg)).toEqual([
+        "0.00\t125",
+        "5.00\t175",
+        "5.00\t238",
+        "15.00\t238",
+      ]);
+    });
+
+    it("requires a positive FTP", () => {
+      expect(() => workoutToErg(workout, { ftp: 0 })).toThrow("FTP is required");
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Export Warnings Tests
+ *
+ * @see lib/services/export-warnings.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  EXPORT_WARNINGS_HEADER,
+  MAX_EXPORT_WARNINGS_HEADER_LENGTH,
+  exportWarningsHeaders,
+  exportWarningsManifest,
+  formatExportWarning,
+  getExportWarnings,
+  readExportWarnings,
+  toExportWorkout,
+  type ExportWarning,
+} from "@/lib/services/export-warnings";
+import { translations } from "@/lib/i18n/translations";
+import type { Workout } from "@/lib/schemas";
+
+/** Warnings as the English app shows them */
+function english(warnings: ExportWarning[]): string[] {
+  return warnings.map((warning) => formatExportWarning(warning, (key) => translations.en[key]));
+}
+
+const BAND_WORKOUT: Workout = {
+  name: "Sweet Spot Bands",
+  steps: [
+    { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+    { type: "steady", duration_s: 1200, power_pct: 91, power_low_pct: 88, power_high_pct: 94 },
+    {
+      type: "repeat",
+      repeat: 2,
+      steps: [
+        {
+          type: "intervals",
+          repeat: 3,
+          on_duration_s: 300,
+          off_duration_s: 120,
+          on_power_pct: 83,
+          on_power_low_pct: 76,
+          on_power_high_pct: 90,
+          on_power_zone: "Z3",
+          off_power_pct: 55,
+        },
+      ],
+    },
+  ],
+};
+
+describe("Export Warnings", () => {
+  describe("getExportWarnings", () => {
+    it("reports bands exported as their midpoint", () => {
+      expect(english(getExportWarnings(BAND_WORKOUT, "zwo"))).toEqual([
+        "Step 2: 88-94% exported as 91% FTP",
+        "Step 3.1 (on): Z3 (76-90%) exported as 83% FTP",
+      ]);
+      expect(getExportWarnings(BAND_WORKOUT, "erg")).toHaveLength(2);
+    });
+
+    it("has nothing to report for formats that keep bands", () => {
+      expect(getExportWarnings(BAND_WORKOUT, "fit")).toEqual([]);
+    });
+
+    it("has nothing to report for single targets", () => {
+      expect(getExportWarnings({
+        name: "Steady",
+        steps: [{ type: "steady", duration_s: 600, power_pct: 90 }],
+      }, "mrc")).toEqual([]);
+    });
+  });
+
+  describe("target units", () => {
+    const UNIT_WORKOUT: Workout = {
+      name: "Units",
+      steps: [
+        { type: "steady", duration_s: 600, power_pct: 250, target_unit: "watts" },
+        {
+          type: "intervals",
+          repeat: 3,
+          on_duration_s: 300,
+          off_duration_s: 120,
+          on_power_pct: 100,
+          off_power_pct: 80,
+          target_unit: "lthr_pct",
+          messages: [{ offset_s: 0, message: "Stay smooth" }],
+        },
+      ],
+    };
+
+    it("converts watts to %FTP and rides heart rate steps as free ride", () => {
+      expect(toExportWorkout(UNIT_WORKOUT, "zwo", { ftp: 250 }).steps).toEqual([
+        { type: "steady", duration_s: 600, power_pct: 100 },
+        { type: "freeride", duration_s: 1260, messages: [{ offset_s: 0, message: "Stay smooth" }] },
+      ]);
+      expect(english(getExportWarnings(UNIT_WORKOUT, "zwo", { ftp: 250 }))).toEqual([
+        "Step 1: watt targets converted to %FTP with FTP 250 W",
+        "Step 2: heart rate targets cannot be exported to .zwo, exported as free ride",
+      ]);
+    });
+
+    it("rides watt steps as free ride without an FTP", () => {
+      expect(toExportWorkout(UNIT_WORKOUT, "mrc").steps[0]).toEqual({ type: "freeride", duration_s: 600 });
+      expect(english(getExportWarnings(UNIT_WORKOUT, "mrc"))[0]).toBe("Step 1: watt targets need an FTP, exported as free ride");
+    });
+
+    it("keeps native units for .fit and reports %LTHR conversion", () => {
+      expect(toExportWorkout(UNIT_WORKOUT, "fit")).toBe(UNIT_WORKOUT);
+      expect(english(getExportWarnings(UNIT_WORKOUT, "fit", { lthr: 170 }))).toEqual([
+        "Step 2: %LTHR targets converted to bpm with LTHR 170 bpm",
+      ]);
+    });
+  });
+
+  describe("run workouts", () => {
+    const RUN_WORKOUT: Workout = {
+      name: "Threshold Run",
+      sport: "run",
+      steps: [
+        { type: "steady", duration_s: 600, power_pct: 300, target_unit: "sec_per_km" },
+        { type: "steady", duration_s: 1200, power_pct: 105, target_unit: "pace_pct" },
+        { type: "steady", duration_s: 300, power_pct: 250, target_unit: "watts" },
+      ],
+    };
+
+    it("converts pace to % threshold pace for .zwo", () => {
+      expect(toExportWorkout(RUN_WORKOUT, "zwo", { ftp: 250, thresholdPace: 270 }).steps).toEqual([
+        { type: "steady", duration_s: 600, power_pct: 90, target_unit: "pace_pct" },
+        { type: "steady", duration_s: 1200, power_pct: 105, target_unit: "pace_pct" },
+        { type: "freeride", duration_s: 300 },
+      ]);
+      expect(english(getExportWarnings(RUN_WORKOUT, "zwo", { ftp: 250, thresholdPace: 270 }))).toEqual([
+        "Step 1: pace targets converted to % threshold pace with threshold pace 4:30/km",
+        "Step 3: power targets cannot be exported to a run .zwo, exported as free ride",
+      ]);
+    });
+
+    it("rides pace steps as free ride in power-only formats", () => {
+      expect(toExportWorkout(RUN_WORKOUT, "erg", { ftp: 250 }).steps[1]).toEqual({ type: "freeride", duration_s: 1200 });
+      expect(english(getExportWarnings(RUN_WORKOUT, "erg", { ftp: 250 }))[1]).toBe(
+        "Step 2: pace targets cannot be exported to a bike .erg, exported as free ride"
+      );
+    });
+  });
+
+  it("sends codes and params for the app to translate", () => {
+    const [band] = getExportWarnings(BAND_WORKOUT, "zwo");
+
+    expect(band).toEqual({ code: "BAND_FTP", params: { step: "2", band: "88-94%", value: 91 } });
+    expect(formatExportWarning(band, (key) => translations.fr[key])).toBe("Étape 2: 88-94% exporté à 91 % FTP");
+  });
+
+  describe("exportWarningsHeaders", () => {
+    it("encodes warnings as an ASCII header", () => {
+      const warnings = getExportWarnings(BAND_WORKOUT, "zwo");
+      const headers = exportWarningsHeaders(warnings);
+
+      expect(headers[EXPORT_WARNINGS_HEADER]).toMatch(/^[\x20-\x7e]+$/);
+      expect(readExportWarnings(new Headers(headers))).toEqual({ warnings, count: 2 });
+    });
+
+    it("caps the header and still counts every warning", () => {
+      const warnings: ExportWarning[] = Array.from({ length: 500 }, (_, i) => ({
+        code: "BAND_FTP",
+        params: { step: String(i + 1), band: "Z3 (76-90%)", value: 83 },
+      }));
+      const headers = exportWarningsHeaders(warnings);
+      const received = readExportWarnings(new Headers(headers));
+
+      expect(headers[EXPORT_WARNINGS_HEADER].length).toBeLessThanOrEqual(MAX_EXPORT_WARNINGS_HEADER_LENGTH);
+      expect(received.count).toBe(500);
+      expect(received.warnings.length).toBeGreaterThan(0);
+      expect(received.warnings).toEqual(warnings.slice(0, received.warnings.length));
+    });
+
+    it("adds no header without warnings", () => {
+      expect(exportWarningsHeaders([])).toEqual({});
+      expect(readExportWarnings(new Headers())).toEqual({ warnings: [], count: 0 });
+    });
+  });
+
+  describe("exportWarningsManifest", () => {
+    it("lists the warnings of each file with their English message", () => {
+      const manifest = exportWarningsManifest([
+        { file: "sweet-spot-bands.zwo", warnings: getExportWarnings(BAND_WORKOUT, "zwo") },
+        { file: "steady.zwo", warnings: [] },
+      ]);
+
+      expect(JSON.parse(manifest!)).toEqual([
+        {
+          file: "sweet-spot-bands.zwo",
+          warnings: [
+            expect.objectContaining({ code: "BAND_FTP", message: "Step 2: 88-94% exported as 91% FTP" }),
+            expect.objectContaining({ code: "BAND_FTP", message: "Step 3.1 (on): Z3 (76-90%) exported as 83% FTP" }),
+          ],
+        },
+      ]);
+    });
+
+    it("is left out without warnings", () => {
+      expect(exportWarningsManifest([{ file: "steady.zwo", warnings: [] }])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * FIT Generator Tests
+ *
+ * Output is decoded with a minimal FIT reader to check structure and CRCs.
+ *
+ * @see lib/services/fit.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { workoutToFit, fitCrc } from "@/lib/services/fit";
+import type { Workout } from "@/lib/schemas";
+
+// ============================================================================
+// Minimal FIT Decoder
+// ============================================================================
+
+interface DecodedMessage {
+  globalNum: number;
+  fields: Record<number, number | string>;
+}
+
+interface DecodedFit {
+  header: { size: number; protocol: number; dataSize: number; signature: string };
+  messages: DecodedMessage[];
+}
+
+function decodeFit(bytes: Uint8Array): DecodedFit {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+
+  const definitions = new Map<number, { globalNum: number; fields: Array<{ num: number; size: number; baseType: number }> }>();
+  const messages: DecodedMessage[] = [];
+
+  let offset = headerSize;
+  const end = headerSize + dataSize;
+
+  while (offset < end) {
+    const recordHeader = view.getUint8(offset++);
+    const localType = recordHeader & 0x0f;
+
+    if (recordHeader & 0x40) {
+      offset++; // reserved
+      const littleEndian = view.getUint8(offset++) === 0;
+      const globalNum = view.getUint16(offset, littleEndian);
+      offset += 2;
+      const count = view.getUint8(offset++);
+      const fields = [];
+      for (let i = 0; i < count; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+      definitions.set(localType, { globalNum, fields });
+      continue;
+    }
+
+    const definition = definitions.get(localType)!;
+    const fields: Record<number, number | string> = {};
+    for (const field of definition.fields) {
+      if (field.baseType === 0x07) {
+        const raw = bytes.slice(offset, offset + field.size);
+        const nul = raw.indexOf(0);
+        fields[field.num] = new TextDecoder().decode(raw.slice(0, nul === -1 ? raw.length : nul));
+      } else if (field.size === 1) {
+        fields[field.num] = view.getUint8(offset);
+      } else if (field.size === 2) {
+        fields[field.num] = view.getUint16(offset, true);
+      } else {
+        fields[field.num] = view.getUint32(offset, true);
+      }
+      offset += field.size;
+    }
+    messages.push({ globalNum: definition.globalNum, fields });
+  }
+
+  return {
+    header: {
+      size: headerSize,
+      protocol: view.getUint8(1),
+      dataSize,
+      signature: new TextDecoder().decode(bytes.slice(8, 12)),
+    },
+    messages,
+  };
+}
+
+function workoutSteps(fit: DecodedFit) {
+  return fit.messages.filter((m) => m.globalNum === 27).map((m) => m.fields);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+const TIME_CREATED = new Date("2024-01-01T00:00:00Z");
+
+const COMPLETE_WORKOUT: Workout = {
+  name: "Sweet Spot 45",
+  steps: [
+    { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+    { type: "steady", duration_s: 1200, power_pct: 88 },
+    {
+      type: "intervals",
+      repeat: 3,
+      on_duration_s: 300,
+      off_duration_s: 120,
+      on_power_pct: 95,
+      off_power_pct: 55,
+    },
+    { type: "freeride", duration_s: 300 },
+    { type: "cooldown", duration_s: 300, power_start_pct: 70, power_end_pct: 40 },
+  ],
+};
+
+describe("FIT Generator", () => {
+  describe("workoutToFit", () => {
+    it("writes a valid header with correct CRCs", () => {
+      const bytes = workoutToFit(COMPLETE_WORKOUT, { timeCreated: TIME_CREATED });
+      const fit = decodeFit(bytes);
+
+      expect(fit.header.size).toBe(14);
+      expect(fit.header.signature).toBe(".FIT");
+      expect(fit.header.dataSize).toBe(bytes.length - 14 - 2);
+
+      const view = new DataView(bytes.buffer);
+      expect(view.getUint16(12, true)).toBe(fitCrc(bytes, 0, 12));
+      // CRC over the whole file including its trailing CRC is zero
+      expect(fitCrc(bytes)).toBe(0);
+    });
+
+    it("writes file_id and workout messages", () => {
+      const fit = decodeFit(workoutToFit(COMPLETE_WORKOUT, { timeCreated: TIME_CREATED }));
+
+      const fileId = fit.messages.find((m) => m.globalNum === 0)!;
+      expect(fileId.fields[0]).toBe(5); // workout file
+      expect(fileId.fields[4]).toBe(Date.UTC(2024, 0, 1) / 1000 - 631065600);
+
+      const workout = fit.messages.find((m) => m.globalNum === 26)!;
+      expect(workout.fields[8]).toBe("Sweet Spot 45");
+      expect(workout.fields[4]).toBe(2); // cycling
+      expect(workout.fields[6]).toBe(7); // 5 steps, intervals expand to 3 messages
+    });
+
+    it("encodes steps with time durations and %FTP power targets", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit(COMPLETE_WORKOUT, { timeCreated: TIME_CREATED })));
+
+      expect(steps.map((s) => s[254])).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+      // Warmup ramp as a power range
+      expect(steps[0]).toMatchObject({ 1: 0, 2: 600000, 3: 4, 5: 50, 6: 75, 7: 2 });
+      // Steady
+      expect(steps[1]).toMatchObject({ 1: 0, 2: 1200000, 3: 4, 5: 88, 6: 88, 7: 0 });
+      // Freeride has an open target
+      expect(steps[5]).toMatchObject({ 2: 300000, 3: 2 });
+      // Cooldown range is ordered low/high
+      expect(steps[6]).toMatchObject({ 5: 40, 6: 70, 7: 3 });
+    });
+
+    it("encodes intervals as on/off steps followed by a repeat step", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit(COMPLETE_WORKOUT, { timeCreated: TIME_CREATED })));
+
+      expect(steps[2]).toMatchObject({ 2: 300000, 5: 95, 6: 95, 7: 0 });
+      expect(steps[3]).toMatchObject({ 2: 120000, 5: 55, 6: 55, 7: 1 });
+      // repeat_until_steps_cmplt back to message 2, three times
+      expect(steps[4]).toMatchObject({ 1: 6, 2: 2, 4: 3 });
+    });
+
+    it("encodes nested repeat blocks as repeat steps pointing at their first child", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit({
+        name: "Sets",
+        steps: [
+          { type: "steady", duration_s: 600, power_pct: 60 },
+          {
+            type: "repeat",
+            repeat: 3,
+            steps: [
+              {
+                type: "intervals",
+                repeat: 4,
+                on_duration_s: 30,
+                off_duration_s: 30,
+                on_power_pct: 150,
+                off_power_pct: 50,
+              },
+              { type: "steady", duration_s: 300, power_pct: 55 },
+            ],
+          },
+        ],
+      }, { timeCreated: TIME_CREATED })));
+
+      expect(steps).toHaveLength(6);
+      // Inner intervals: on (1), off (2), repeat back to 1 four times
+      expect(steps[3]).toMatchObject({ 1: 6, 2: 1, 4: 4 });
+      expect(steps[4]).toMatchObject({ 2: 300000, 5: 55 });
+      // Outer block: repeat back to its first child (1) three times
+      expect(steps[5]).toMatchObject({ 1: 6, 2: 1, 4: 3 });
+    });
+
+    it("encodes absolute watts with the FIT offset", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit(
+        { name: "Watts", steps: [{ type: "steady", duration_s: 60, power_pct: 90 }] },
+        { powerUnit: "watts", ftp: 250, timeCreated: TIME_CREATED }
+      )));
+
+      expect(steps[0][5]).toBe(1225);
+      expect(steps[0][6]).toBe(1225);
+    });
+
+    it("encodes power bands as custom low/high targets", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit({
+        name: "Bands",
+        steps: [
+          { type: "steady", duration_s: 1200, power_pct: 91, power_low_pct: 88, power_high_pct: 94 },
+          {
+            type: "intervals",
+            repeat: 3,
+            on_duration_s: 300,
+            off_duration_s: 120,
+            on_power_pct: 113,
+            on_power_low_pct: 106,
+            on_power_high_pct: 120,
+            on_power_zone: "Z5",
+            off_power_pct: 55,
+          },
+        ],
+      }, { timeCreated: TIME_CREATED })));
+
+      expect(steps[0]).toMatchObject({ 5: 88, 6: 94 });
+      expect(steps[1]).toMatchObject({ 5: 106, 6: 120 });
+      expect(steps[2]).toMatchObject({ 5: 55, 6: 55 });
+    });
+
+    it("keeps watt and heart rate targets in their own unit", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit({
+        name: "Units",
+        steps: [
+          { type: "steady", duration_s: 600, power_pct: 250, target_unit: "watts" },
+          { type: "steady", duration_s: 600, power_pct: 145, power_low_pct: 140, power_high_pct: 150, target_unit: "bpm" },
+          { type: "steady", duration_s: 600, power_pct: 90, target_unit: "lthr_pct" },
+        ],
+      }, { lthr: 170, timeCreated: TIME_CREATED })));
+
+      // Watts use the power offset even when exporting %FTP
+      expect(steps[0]).toMatchObject({ 3: 4, 5: 1250, 6: 1250 });
+      // Heart rate targets are bpm + 100
+      expect(steps[1]).toMatchObject({ 3: 1, 5: 240, 6: 250 });
+      expect(steps[2]).toMatchObject({ 3: 1, 5: 253, 6: 253 });
+    });
+
+    it("writes run workouts with pace targets as speed", () => {
+      const fit = decodeFit(workoutToFit({
+        name: "Run",
+        sport: "run",
+        steps: [
+          { type: "steady", duration_s: 600, power_pct: 250, target_unit: "sec_per_km" },
+          { type: "steady", duration_s: 600, power_pct: 100, target_unit: "pace_pct" },
+        ],
+      }, { thresholdPace: 250, timeCreated: TIME_CREATED }));
+
+      // Running sport, speed targets in mm/s (4:10/km = 4 m/s)
+      expect(fit.messages.find((m) => m.globalNum === 26)!.fields[4]).toBe(1);
+      expect(workoutSteps(fit)[0]).toMatchObject({ 3: 0, 5: 4000, 6: 4000 });
+      expect(workoutSteps(fit)[1]).toMatchObject({ 3: 0, 5: 4000, 6: 4000 });
+    });
+
+    it("leaves %LTHR targets open without an LTHR", () => {
+      const steps = workoutSteps(decodeFit(workoutToFit({
+        name: "LTHR",
+        steps: [{ type: "steady", duration_s: 600, power_pct: 90, target_unit: "lthr_pct" }],
+      }, { timeCreated: TIME_CREATED })));
+
+      expect(steps[0]).toMatchObject({ 3: 2 });
+    });
+
+    it("requires FTP for watt targets", () => {
+      expect(() => workoutToFit(COMPLETE_WORKOUT, { powerUnit: "watts" })).toThrow("FTP is required");
+    });
+
+    it("truncates long unicode names on a character boundary", () => {
+      const fit = decodeFit(workoutToFit(
+        { name: "é".repeat(100), steps: [{ type: "freeride", duration_s: 60 }] },
+        { timeCreated: TIME_CREATED }
+      ));
+
+      const workout = fit.messages.find((m) => m.globalNum === 26)!;
+      expect(workout.fields[8]).toBe("é".repeat(31));
+    });
+  });
+});
@@ -0,0 +1,119 @@
+// @vitest-environment node
+/**
+ * Image Preprocessing Tests
+ *
+ * Fixtures in fixtures/images:
+ * - rotated-photo.jpg: 120x80, left half red, right half blue, EXIF orientation 6
+ *   and camera metadata
+ * - low-contrast-screenshot.png: 3000x600, gray 100 background with gray 150 bars
+ * - hevc-photo.heic: 64x64 HEIF container declaring an HEVC image, headers only
+ *
+ * @see lib/services/image-preprocess.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { canDecodeHeic, preprocessImage } from "@/lib/services/image-preprocess";
+
+function fixture(name: string): Buffer {
+  return readFileSync(path.join("fixtures/images", name));
+}
+
+async function pixel(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + info.channels));
+}
+
+describe("preprocessImage", () => {
+  describe("photos", () => {
+    it("applies the EXIF orientation", async () => {
+      const result = await preprocessImage(fixture("rotated-photo.jpg"), { maxEdge: 2048 });
+
+      // Rotated 90° clockwise: the red left half ends up on top
+      expect(result.width).toBe(80);
+      expect(result.height).toBe(120);
+      const [r, , b] = await pixel(result.data, 40, 10);
+      expect(r).toBeGreaterThan(200);
+      expect(b).toBeLessThan(50);
+    });
+
+    it("strips metadata", async () => {
+      const result = await preprocessImage(fixture("rotated-photo.jpg"), { maxEdge: 2048 });
+      const metadata = await sharp(result.data).metadata();
+
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+      expect(result.data.toString("latin1")).not.toContain("FixtureCam");
+    });
+
+    it("re-encodes photos as JPEG without boosting contrast", async () => {
+      const result = await preprocessImage(fixture("rotated-photo.jpg"), {
+        maxEdge: 2048,
+        contrastBoost: true,
+      });
+
+      expect(result.mimeType).toBe("image/jpeg");
+      expect(result.screenshot).toBe(false);
+      expect((await sharp(result.data).metadata()).format).toBe("jpeg");
+    });
+
+    it("never enlarges small images", async () => {
+      const result = await preprocessImage(fixture("rotated-photo.jpg"), { maxEdge: 512 });
+
+      expect(result.width).toBe(80);
+      expect(result.height).toBe(120);
+    });
+  });
+
+  describe("screenshots", () => {
+    it("downsizes to the max edge and keeps the aspect ratio", async () => {
+      const result = await preprocessImage(fixture("low-contrast-screenshot.png"), { maxEdge: 1500 });
+
+      expect(result.width).toBe(1500);
+      expect(result.height).toBe(300);
+      expect(result.mimeType).toBe("image/png");
+      expect(result.screenshot).toBe(true);
+    });
+
+    it("stretches the contrast when enabled", async () => {
+      const result = await preprocessImage(fixture("low-contrast-screenshot.png"), {
+        maxEdge: 1500,
+        contrastBoost: true,
+      });
+
+      const [background] = await pixel(result.data, 200, 20);
+      const [bar] = await pixel(result.data, 50, 150);
+      expect(background).toBeLessThan(20);
+      expect(bar).toBeGreaterThan(235);
+    });
+
+    it("keeps the original levels when disabled", async () => {
+      const result = await preprocessImage(fixture("low-contrast-screenshot.png"), {
+        maxEdge: 1500,
+        contrastBoost: false,
+      });
+
+      const [background] = await pixel(result.data, 200, 20);
+      const [bar] = await pixel(result.data, 50, 150);
+      expect(background).toBe(100);
+      expect(bar).toBe(150);
+    });
+  });
+
+  describe("errors", () => {
+    it("rejects unreadable files", async () => {
+      await expect(
+        preprocessImage(Buffer.from("not an image"), { maxEdge: 2048 })
+      ).rejects.toThrow("Unreadable image file");
+    });
+
+    it.skipIf(canDecodeHeic())("rejects HEIC photos when sharp cannot decode HEVC", async () => {
+      await expect(
+        preprocessImage(fixture("hevc-photo.heic"), { maxEdge: 2048 })
+      ).rejects.toThrow("HEIC images are not supported on this server");
+    });
+  });
+});
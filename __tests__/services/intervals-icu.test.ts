@@ -0,0 +1,226 @@
+/**
+ * Intervals.icu Workout Text Tests
+ *
+ * @see lib/services/intervals-icu.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  workoutToIntervalsText,
+  intervalsTextToSteps,
+  formatIntervalsDuration,
+} from "@/lib/services/intervals-icu";
+import type { Workout } from "@/lib/schemas";
+
+const COMPLETE_WORKOUT: Workout = {
+  name: "Complete",
+  steps: [
+    { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+    { type: "steady", duration_s: 1230, power_pct: 88 },
+    {
+      type: "intervals",
+      repeat: 3,
+      on_duration_s: 300,
+      off_duration_s: 180,
+      on_power_pct: 95,
+      off_power_pct: 55,
+    },
+    { type: "freeride", duration_s: 300 },
+    { type: "cooldown", duration_s: 600, power_start_pct: 70, power_end_pct: 40 },
+  ],
+};
+
+describe("Intervals.icu Text", () => {
+  describe("formatIntervalsDuration", () => {
+    it("formats hours, minutes and seconds", () => {
+      expect(formatIntervalsDuration(600)).toBe("10m");
+      expect(formatIntervalsDuration(90)).toBe("1m30s");
+      expect(formatIntervalsDuration(3750)).toBe("1h2m30s");
+      expect(formatIntervalsDuration(45)).toBe("45s");
+    });
+  });
+
+  describe("workoutToIntervalsText", () => {
+    it("serializes every step type", () => {
+      expect(workoutToIntervalsText(COMPLETE_WORKOUT)).toBe(
+        [
+          "Warmup",
+          "- 10m ramp 50-75%",
+          "",
+          "- 20m30s 88%",
+          "",
+          "3x",
+          "- 5m 95%",
+          "- 3m 55%",
+          "",
+          "- 5m freeride",
+          "",
+          "Cooldown",
+          "- 10m ramp 70-40%",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("intervalsTextToSteps", () => {
+    it("round-trips every step type", () => {
+      const result = intervalsTextToSteps(workoutToIntervalsText(COMPLETE_WORKOUT));
+
+      expect(result.steps).toEqual(COMPLETE_WORKOUT.steps);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("reads repeat counts from section headers", () => {
+      const result = intervalsTextToSteps("Main set 4x\n- 30s 150%\n- 30s 50%");
+
+      expect(result.steps).toEqual([
+        {
+          type: "intervals",
+          repeat: 4,
+          on_duration_s: 30,
+          off_duration_s: 30,
+          on_power_pct: 150,
+          off_power_pct: 50,
+        },
+      ]);
+    });
+
+    it("keeps repeats that are not simple on/off pairs as repeat blocks", () => {
+      const result = intervalsTextToSteps("2x\n- 1m 100%\n- 1m 110%\n- 1m 50%");
+
+      expect(result.steps).toEqual([
+        {
+          type: "repeat",
+          repeat: 2,
+          steps: [
+            { type: "steady", duration_s: 60, power_pct: 100 },
+            { type: "steady", duration_s: 60, power_pct: 110 },
+            { type: "steady", duration_s: 60, power_pct: 50 },
+          ],
+        },
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("round-trips repeat blocks and unrolls nested ones", () => {
+      const text = workoutToIntervalsText({
+        name: "Sets",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 3,
+            steps: [
+              {
+                type: "intervals",
+                repeat: 2,
+                on_duration_s: 30,
+                off_duration_s: 30,
+                on_power_pct: 150,
+                off_power_pct: 50,
+              },
+              { type: "steady", duration_s: 300, power_pct: 55 },
+            ],
+          },
+        ],
+      });
+
+      expect(text).toBe("3x\n- 30s 150%\n- 30s 50%\n- 30s 150%\n- 30s 50%\n- 5m 55%\n");
+      expect(intervalsTextToSteps(text).steps[0]).toMatchObject({ type: "repeat", repeat: 3 });
+    });
+
+    it("infers ramp direction without a section header", () => {
+      const result = intervalsTextToSteps("- 5m ramp 80-40%");
+
+      expect(result.steps[0]).toEqual({
+        type: "cooldown",
+        duration_s: 300,
+        power_start_pct: 80,
+        power_end_pct: 40,
+      });
+    });
+
+    it("keeps watt and heart rate targets in their own unit", () => {
+      const result = intervalsTextToSteps("- 10m 200w\n- 20m 95% LTHR\n- 5m 140-150bpm");
+
+      expect(result.warnings).toEqual([]);
+      expect(result.steps).toEqual([
+        { type: "steady", duration_s: 600, power_pct: 200, target_unit: "watts" },
+        { type: "steady", duration_s: 1200, power_pct: 95, target_unit: "lthr_pct" },
+        {
+          type: "steady",
+          duration_s: 300,
+          power_pct: 145,
+          power_low_pct: 140,
+          power_high_pct: 150,
+          target_unit: "bpm",
+        },
+      ]);
+    });
+
+    it("writes targets back in their unit", () => {
+      const text = "- 10m 200w\n\n- 20m 95% LTHR\n\n- 5m 140-150bpm\n";
+      expect(workoutToIntervalsText({ name: "Units", steps: intervalsTextToSteps(text).steps })).toBe(text);
+    });
+
+    it("round-trips pace targets", () => {
+      const text = "- 10m 105% Pace\n\n- 20m 4:30/km Pace\n\n- 5m 7:00-7:20/mi Pace\n";
+      const result = intervalsTextToSteps(text);
+
+      expect(result.steps[1]).toEqual({ type: "steady", duration_s: 1200, power_pct: 270, target_unit: "sec_per_km" });
+      expect(workoutToIntervalsText({ name: "Run", sport: "run", steps: result.steps })).toBe(text);
+    });
+
+    it("keeps power ranges as a band around their midpoint", () => {
+      const result = intervalsTextToSteps("- 20m 88-94%");
+
+      expect(result.steps[0]).toEqual({
+        type: "steady",
+        duration_s: 1200,
+        power_pct: 91,
+        power_low_pct: 88,
+        power_high_pct: 94,
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("resolves zone targets with the chosen zone model", () => {
+      const coggan = intervalsTextToSteps("- 20m Z4");
+      const sweetSpot = intervalsTextToSteps("- 20m Z4", { zoneModel: "sweet-spot" });
+
+      expect(coggan.steps[0]).toMatchObject({ power_zone: "Z4", power_low_pct: 91, power_high_pct: 105 });
+      expect(sweetSpot.steps[0]).toMatchObject({ power_zone: "Z4", power_pct: 91, power_low_pct: 88, power_high_pct: 94 });
+    });
+
+    it("writes power bands back as ranges", () => {
+      const text = workoutToIntervalsText({
+        name: "Bands",
+        steps: [
+          {
+            type: "intervals",
+            repeat: 3,
+            on_duration_s: 300,
+            off_duration_s: 180,
+            on_power_pct: 113,
+            off_power_pct: 55,
+            on_power_low_pct: 106,
+            on_power_high_pct: 120,
+            on_power_zone: "Z5",
+          },
+        ],
+      });
+
+      expect(text).toBe("3x\n- 5m 106-120%\n- 3m 55%\n");
+    });
+
+    it("reports unparseable lines as warnings", () => {
+      const result = intervalsTextToSteps("- 10m 60%\n- sprint hard\n- 5m");
+
+      expect(result.steps).toHaveLength(1);
+      expect(result.warnings).toEqual([
+        'Line 2: could not parse "- sprint hard"',
+        'Line 3: could not parse "- 5m"',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+// @vitest-environment node
+/**
+ * Parse Batch Service Tests
+ *
+ * Runs batches through the pipeline and the stub provider.
+ *
+ * @see lib/services/parse-batch.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { readFileSync } from "fs";
+import { parseBatch } from "@/lib/services/parse-batch";
+import { clearParseCache } from "@/lib/services/parse-cache";
+
+// Mutable mock env, adjusted per test
+const env = vi.hoisted(() => ({
+  VISION_PROVIDER: "stub",
+  VISION_FIXTURES_DIR: "fixtures/vision",
+  ALLOWED_IMAGE_FORMATS: ["image/jpeg", "image/png"],
+  MAX_FILE_SIZE: 1024 * 1024,
+  IMAGE_MAX_EDGE: 2048,
+  IMAGE_CONTRAST_BOOST: true,
+  PARSE_CACHE_ENABLED: false,
+  PARSE_LOG_MAX_ENTRIES: 100,
+  PARSE_CACHE_TTL: 3600,
+  PARSE_CACHE_MAX_ENTRIES: 10,
+  DAILY_PARSE_LIMIT: 2,
+}));
+
+vi.mock("@/lib/utils/env", () => ({
+  getServerEnv: () => env,
+}));
+
+// Model calls in flight, tracked around the stub provider
+const calls = vi.hoisted(() => ({ active: 0, peak: 0 }));
+
+vi.mock("@/lib/services/vision", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/services/vision")>();
+  return {
+    ...original,
+    getVisionProvider: () => {
+      const provider = original.getVisionProvider();
+      return {
+        ...provider,
+        async complete(request: Parameters<typeof provider.complete>[0]) {
+          calls.active++;
+          calls.peak = Math.max(calls.peak, calls.active);
+          try {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            return await provider.complete(request);
+          } finally {
+            calls.active--;
+          }
+        },
+      };
+    },
+  };
+});
+
+// Mock redis (returns null to use memory fallback)
+vi.mock("@/lib/services/redis", () => ({
+  getRedisClient: () => null,
+}));
+
+function image(name: string): File {
+  return new File([readFileSync("fixtures/images/rotated-photo.jpg")], name, { type: "image/jpeg" });
+}
+
+describe("Parse Batch Service", () => {
+  beforeEach(() => {
+    env.PARSE_CACHE_ENABLED = false;
+    clearParseCache();
+    calls.peak = 0;
+  });
+
+  it("returns one item per file in upload order", async () => {
+    const files = ["a.jpg", "b.jpg", "c.jpg"].map(image);
+    files.splice(1, 0, new File(["not an image"], "broken.png", { type: "image/png" }));
+
+    const { items, rateLimit } = await parseBatch(files, { userId: null });
+
+    expect(items.map((item) => item.filename)).toEqual(["a.jpg", "broken.png", "b.jpg", "c.jpg"]);
+    expect(items[0].result?.workout.name).toBe("Sweet Spot 3x10");
+    expect(items[1].error?.code).toBe("INVALID_IMAGE");
+    expect(rateLimit).toBeNull();
+  });
+
+  it("stops calling the model once the remaining quota is used", async () => {
+    const files = ["a.jpg", "b.jpg", "c.jpg", "d.jpg"].map(image);
+
+    const { items, rateLimit } = await parseBatch(files, { userId: "batch-quota-user", concurrency: 4 });
+
+    expect(items.filter((item) => item.result)).toHaveLength(2);
+    expect(items.filter((item) => item.error?.code === "RATE_LIMITED")).toHaveLength(2);
+    expect(rateLimit?.remaining).toBe(0);
+  });
+
+  it("still answers cached images once the quota is used", async () => {
+    env.PARSE_CACHE_ENABLED = true;
+    await parseBatch([image("a.jpg")], { userId: "batch-cache-user" });
+
+    const { items } = await parseBatch(["a.jpg", "b.jpg", "c.jpg"].map(image), { userId: "batch-cache-user" });
+
+    expect(items.every((item) => item.result?.cached)).toBe(true);
+  });
+
+  it("parses at most `concurrency` images at a time", async () => {
+    const { items } = await parseBatch(["a.jpg", "b.jpg", "c.jpg", "d.jpg", "e.jpg"].map(image), {
+      userId: null,
+      concurrency: 2,
+    });
+
+    expect(items.every((item) => item.result)).toBe(true);
+    expect(calls.peak).toBe(2);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Parse Cache Service Tests
+ *
+ * @see lib/services/parse-cache.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createParseCacheKey,
+  getCachedParseAsync,
+  setCachedParseAsync,
+  clearParseCache,
+  type ParseCacheKeyInput,
+} from "@/lib/services/parse-cache";
+import type { ParseResponse } from "@/lib/schemas";
+
+// Mock env
+vi.mock("@/lib/utils/env", () => ({
+  getServerEnv: () => ({
+    PARSE_CACHE_TTL: 60,
+    PARSE_CACHE_MAX_ENTRIES: 2,
+  }),
+}));
+
+// Mock redis: null uses the memory fallback, a fake client the Redis path
+const redis = vi.hoisted(() => ({ client: null as null | Record<string, ReturnType<typeof vi.fn>> }));
+
+vi.mock("@/lib/services/redis", () => ({
+  getRedisClient: () => redis.client,
+}));
+
+const keyInput: ParseCacheKeyInput = {
+  image: Buffer.from("image bytes"),
+  locale: "en",
+  notes: "",
+  zoneModel: "coggan",
+  promptVersion: "1",
+  model: "openai:gpt-4o",
+};
+
+function response(name: string): ParseResponse {
+  return {
+    workout: { name, steps: [{ type: "steady", duration_s: 600, power_pct: 75 }] },
+    warnings: [],
+    confidence: 0.9,
+  };
+}
+
+describe("Parse Cache Service", () => {
+  beforeEach(() => {
+    redis.client = null;
+    clearParseCache();
+  });
+
+  describe("createParseCacheKey", () => {
+    it("is a stable SHA-256 hex digest", () => {
+      const key = createParseCacheKey(keyInput);
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(createParseCacheKey({ ...keyInput, image: Buffer.from("image bytes") })).toBe(key);
+    });
+
+    it.each([
+      ["image", { image: Buffer.from("other bytes") }],
+      ["locale", { locale: "fr" }],
+      ["notes", { notes: "4x8min" }],
+      ["zone model", { zoneModel: "sweet-spot" }],
+      ["prompt version", { promptVersion: "2" }],
+      ["model", { model: "stub:stub" }],
+    ])("changes with the %s", (_, change) => {
+      expect(createParseCacheKey({ ...keyInput, ...change })).not.toBe(createParseCacheKey(keyInput));
+    });
+  });
+
+  describe("memory storage", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("returns null on a miss", async () => {
+      expect(await getCachedParseAsync("missing")).toBeNull();
+    });
+
+    it("returns a stored result", async () => {
+      await setCachedParseAsync("a", response("A"));
+      expect(await getCachedParseAsync("a")).toEqual(response("A"));
+    });
+
+    it("expires entries after the TTL", async () => {
+      vi.useFakeTimers();
+      await setCachedParseAsync("a", response("A"));
+
+      vi.advanceTimersByTime(59_000);
+      expect(await getCachedParseAsync("a")).not.toBeNull();
+
+      vi.advanceTimersByTime(2_000);
+      expect(await getCachedParseAsync("a")).toBeNull();
+    });
+
+    it("evicts the least recently used entry above the maximum", async () => {
+      await setCachedParseAsync("a", response("A"));
+      await setCachedParseAsync("b", response("B"));
+      await getCachedParseAsync("a");
+      await setCachedParseAsync("c", response("C"));
+
+      expect(await getCachedParseAsync("a")).not.toBeNull();
+      expect(await getCachedParseAsync("b")).toBeNull();
+      expect(await getCachedParseAsync("c")).not.toBeNull();
+    });
+  });
+
+  describe("redis storage", () => {
+    it("stores results with the TTL", async () => {
+      const set = vi.fn().mockResolvedValue("OK");
+      redis.client = { set, get: vi.fn() };
+
+      await setCachedParseAsync("a", response("A"));
+
+      expect(set).toHaveBeenCalledWith("parsecache:a", JSON.stringify(response("A")), "EX", 60);
+
+      // Nothing went to the memory fallback
+      redis.client = null;
+      expect(await getCachedParseAsync("a")).toBeNull();
+    });
+
+    it("reads stored results", async () => {
+      redis.client = { get: vi.fn().mockResolvedValue(JSON.stringify(response("A"))) };
+
+      expect(await getCachedParseAsync("a")).toEqual(response("A"));
+      expect(redis.client.get).toHaveBeenCalledWith("parsecache:a");
+    });
+
+    it("treats entries that no longer match the schema as misses", async () => {
+      redis.client = { get: vi.fn().mockResolvedValue(JSON.stringify({ workout: "old" })) };
+
+      expect(await getCachedParseAsync("a")).toBeNull();
+    });
+
+    it("falls back to memory when Redis fails", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      redis.client = {
+        get: vi.fn().mockRejectedValue(new Error("down")),
+        set: vi.fn().mockRejectedValue(new Error("down")),
+      };
+
+      await setCachedParseAsync("a", response("A"));
+      expect(await getCachedParseAsync("a")).toEqual(response("A"));
+      error.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+// @vitest-environment node
+/**
+ * Parse Evaluation Service Tests
+ *
+ * @see lib/services/parse-eval.ts
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  scoreWorkout,
+  scoreWorkouts,
+  loadEvalCases,
+  runEvaluation,
+  formatEvalReport,
+} from "@/lib/services/parse-eval";
+import type { Workout } from "@/lib/schemas";
+import { DEFAULT_PROMPT_VERSION } from "@/lib/prompts";
+
+const SWEET_SPOT: Workout = {
+  name: "Sweet Spot",
+  steps: [
+    { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+    { type: "intervals", repeat: 3, on_duration_s: 600, off_duration_s: 300, on_power_pct: 90, off_power_pct: 55 },
+    { type: "freeride", duration_s: 300 },
+  ],
+};
+
+function withSteps(steps: Workout["steps"]): Workout {
+  return { name: "Parsed", steps };
+}
+
+describe("Parse Evaluation Service", () => {
+  describe("scoreWorkout", () => {
+    it("scores an exact parse 1", () => {
+      expect(scoreWorkout(SWEET_SPOT, SWEET_SPOT)).toEqual({ score: 1, structure: 1, durations: 1, powers: 1 });
+    });
+
+    it("accepts values within tolerance", () => {
+      const score = scoreWorkout(
+        SWEET_SPOT,
+        withSteps([
+          { type: "warmup", duration_s: 603, power_start_pct: 51, power_end_pct: 75 },
+          { type: "intervals", repeat: 3, on_duration_s: 590, off_duration_s: 300, on_power_pct: 92, off_power_pct: 55 },
+          { type: "freeride", duration_s: 300 },
+        ])
+      );
+
+      expect(score.score).toBe(1);
+    });
+
+    it("scores durations and powers per ridden segment", () => {
+      const score = scoreWorkout(
+        SWEET_SPOT,
+        withSteps([
+          { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+          { type: "intervals", repeat: 3, on_duration_s: 480, off_duration_s: 300, on_power_pct: 100, off_power_pct: 55 },
+          { type: "freeride", duration_s: 300 },
+        ])
+      );
+
+      // 8 segments, the 3 "on" parts are wrong
+      expect(score.structure).toBe(1);
+      expect(score.durations).toBe(5 / 8);
+      expect(score.powers).toBe(5 / 8);
+    });
+
+    it("rides a repeat of steady steps like the same intervals", () => {
+      const score = scoreWorkout(
+        SWEET_SPOT,
+        withSteps([
+          SWEET_SPOT.steps[0],
+          {
+            type: "repeat",
+            repeat: 3,
+            steps: [
+              { type: "steady", duration_s: 600, power_pct: 90 },
+              { type: "steady", duration_s: 300, power_pct: 55 },
+            ],
+          },
+          SWEET_SPOT.steps[2],
+        ])
+      );
+
+      expect(score.structure).toBeCloseTo(2 / 3);
+      expect(score.durations).toBe(1);
+      expect(score.powers).toBe(1);
+    });
+
+    it("counts missing steps against every metric", () => {
+      const score = scoreWorkout(SWEET_SPOT, withSteps([SWEET_SPOT.steps[1]]));
+
+      expect(score.structure).toBeCloseTo(1 / 3);
+      expect(score.durations).toBe(6 / 8);
+      expect(score.powers).toBe(6 / 8);
+    });
+
+    it("does not match targets in another unit", () => {
+      const score = scoreWorkout(
+        withSteps([{ type: "steady", duration_s: 600, power_pct: 250, target_unit: "watts" }]),
+        withSteps([{ type: "steady", duration_s: 600, power_pct: 250 }])
+      );
+
+      expect(score.durations).toBe(1);
+      expect(score.powers).toBe(0);
+    });
+  });
+
+  describe("scoreWorkouts", () => {
+    it("scores missing and extra workouts 0", () => {
+      expect(scoreWorkouts([SWEET_SPOT, SWEET_SPOT], [SWEET_SPOT]).score).toBe(0.5);
+      expect(scoreWorkouts([SWEET_SPOT], [SWEET_SPOT, SWEET_SPOT]).score).toBe(0.5);
+    });
+  });
+
+  describe("runEvaluation", () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "eval-cases-"));
+      const image = readFileSync("fixtures/images/low-contrast-screenshot.png");
+      const answer = (workout: Workout) => JSON.stringify({ workouts: [{ ...workout, warnings: [], confidence: 0.9 }] });
+
+      mkdirSync(path.join(dir, "exact"));
+      writeFileSync(path.join(dir, "exact", "image.png"), image);
+      writeFileSync(path.join(dir, "exact", "expected.json"), JSON.stringify(SWEET_SPOT));
+      writeFileSync(path.join(dir, "exact", `recorded.${DEFAULT_PROMPT_VERSION}.json`), answer(SWEET_SPOT));
+      writeFileSync(path.join(dir, "exact", "recorded.1999-01-1.json"), answer(SWEET_SPOT));
+
+      mkdirSync(path.join(dir, "unrecorded"));
+      writeFileSync(path.join(dir, "unrecorded", "image.png"), image);
+      writeFileSync(path.join(dir, "unrecorded", "expected.json"), JSON.stringify([SWEET_SPOT]));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("replays the recorded answers and reports cases that cannot run", async () => {
+      const report = await runEvaluation(await loadEvalCases(dir), { mode: "recorded" });
+
+      expect(report.cases.map((result) => [result.id, result.score])).toEqual([
+        ["exact", 1],
+        ["unrecorded", 0],
+      ]);
+      expect(report.cases[1].error).toContain(`No answer recorded for prompt ${DEFAULT_PROMPT_VERSION}`);
+      expect(report.aggregate.score).toBe(0.5);
+      expect(formatEvalReport(report)).toContain(`prompt ${DEFAULT_PROMPT_VERSION}`);
+      expect(formatEvalReport(report)).toContain("aggregate");
+    });
+
+    it("loads the recordings of each prompt version", async () => {
+      const [exact] = await loadEvalCases(dir);
+
+      expect(Object.keys(exact.recorded)).toEqual(["1999-01-1", DEFAULT_PROMPT_VERSION]);
+    });
+
+    it("rejects a case with an invalid expected workout", async () => {
+      mkdirSync(path.join(dir, "invalid"));
+      writeFileSync(path.join(dir, "invalid", "image.png"), "");
+      writeFileSync(path.join(dir, "invalid", "expected.json"), JSON.stringify({ name: "No steps", steps: [] }));
+
+      await expect(loadEvalCases(dir)).rejects.toThrow('"invalid"');
+
+      rmSync(path.join(dir, "invalid"), { recursive: true });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+// @vitest-environment node
+/**
+ * Parse Jobs Service Tests
+ *
+ * Runs jobs end to end through the pipeline and the stub provider.
+ *
+ * @see lib/services/parse-jobs.ts
+ * @see lib/services/parse-pipeline.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { readFileSync } from "fs";
+import {
+  createParseJob,
+  getParseJobAsync,
+  cancelParseJob,
+  runParseJob,
+  isFinalStage,
+} from "@/lib/services/parse-jobs";
+import { runParsePipeline, type ParseInput } from "@/lib/services/parse-pipeline";
+import { getParseLogAsync, clearParseLog } from "@/lib/services/parse-log";
+import { DEFAULT_PROMPT_VERSION } from "@/lib/prompts";
+import type { ParseJob } from "@/lib/schemas";
+
+// Mutable mock env, adjusted per test
+const env = vi.hoisted(() => ({
+  VISION_PROVIDER: "stub",
+  VISION_FIXTURES_DIR: "fixtures/vision",
+  ALLOWED_IMAGE_FORMATS: ["image/jpeg", "image/png"],
+  MAX_FILE_SIZE: 1024 * 1024,
+  IMAGE_MAX_EDGE: 2048,
+  IMAGE_CONTRAST_BOOST: true,
+  PARSE_CACHE_ENABLED: false,
+  PARSE_LOG_MAX_ENTRIES: 100,
+  DAILY_PARSE_LIMIT: 1,
+}));
+
+vi.mock("@/lib/utils/env", () => ({
+  getServerEnv: () => env,
+}));
+
+// Mock redis (null uses the memory fallback, some tests set a fake client)
+const redis = vi.hoisted(() => ({ client: null as unknown }));
+
+vi.mock("@/lib/services/redis", () => ({
+  getRedisClient: () => redis.client,
+}));
+
+/**
+ * In-memory stand-in for the job commands of Redis, with a hook run after
+ * each read to play another instance writing in between
+ */
+function fakeRedis(afterGet: (store: Map<string, string>) => void) {
+  const store = new Map<string, string>();
+  return {
+    store,
+    async get(key: string) {
+      const value = store.get(key) ?? null;
+      afterGet(store);
+      return value;
+    },
+    async set(key: string, value: string) {
+      store.set(key, value);
+      return "OK";
+    },
+    // The compare-and-set script of the service
+    async eval(_script: string, _keys: number, key: string, expected: string, value: string) {
+      if (store.get(key) !== expected) return null;
+      store.set(key, value);
+      return "OK";
+    },
+  };
+}
+
+function input(overrides: Partial<ParseInput> = {}): ParseInput {
+  const image = readFileSync("fixtures/images/rotated-photo.jpg");
+  return {
+    file: new File([image], "workout.jpg", { type: "image/jpeg" }),
+    userId: null,
+    ...overrides,
+  };
+}
+
+async function run(overrides: Partial<ParseInput> = {}): Promise<ParseJob> {
+  const job = await createParseJob();
+  await runParseJob(job.id, input(overrides));
+  return (await getParseJobAsync(job.id))!;
+}
+
+describe("Parse Jobs Service", () => {
+  beforeEach(() => {
+    env.MAX_FILE_SIZE = 1024 * 1024;
+    redis.client = null;
+    clearParseLog();
+  });
+
+  it("creates queued jobs", async () => {
+    const job = await createParseJob();
+
+    expect(job.stage).toBe("queued");
+    expect(await getParseJobAsync(job.id)).toEqual(job);
+  });
+
+  it("returns null for unknown jobs", async () => {
+    expect(await getParseJobAsync("missing")).toBeNull();
+  });
+
+  it("records the result of a finished job", async () => {
+    const job = await run();
+
+    expect(job.stage).toBe("done");
+    expect(job.result?.workout.name).toBe("Sweet Spot 3x10");
+    expect(job.error).toBeUndefined();
+  });
+
+  it("returns and logs the prompt version of the result", async () => {
+    const job = await run();
+
+    expect(job.result?.prompt_version).toBe(DEFAULT_PROMPT_VERSION);
+    expect(await getParseLogAsync()).toEqual([
+      expect.objectContaining({
+        prompt_version: DEFAULT_PROMPT_VERSION,
+        model: "stub:stub",
+        outcome: "parsed",
+        confidence: job.result?.confidence,
+        workouts: 1,
+      }),
+    ]);
+  });
+
+  it("does not log parses stopped before the model", async () => {
+    env.MAX_FILE_SIZE = 10;
+    await run();
+
+    expect(await getParseLogAsync()).toEqual([]);
+  });
+
+  it("records validation failures", async () => {
+    env.MAX_FILE_SIZE = 10;
+
+    const job = await run();
+
+    expect(job.stage).toBe("failed");
+    expect(job.error?.code).toBe("FILE_TOO_LARGE");
+  });
+
+  it("records unreadable images", async () => {
+    const job = await run({ file: new File(["not an image"], "workout.png", { type: "image/png" }) });
+
+    expect(job.stage).toBe("failed");
+    expect(job.error?.code).toBe("INVALID_IMAGE");
+  });
+
+  it("consumes quota and fails once the limit is reached", async () => {
+    const first = await run({ userId: "jobs-quota-user" });
+    expect(first.stage).toBe("done");
+    expect(first.rateLimit?.remaining).toBe(0);
+
+    const second = await run({ userId: "jobs-quota-user" });
+    expect(second.stage).toBe("failed");
+    expect(second.error?.code).toBe("RATE_LIMITED");
+  });
+
+  it("stops a job cancelled before it runs, without using quota", async () => {
+    const job = await createParseJob();
+    await cancelParseJob(job.id);
+    await runParseJob(job.id, input({ userId: "jobs-cancel-user" }));
+
+    const cancelled = await getParseJobAsync(job.id);
+    expect(cancelled?.stage).toBe("cancelled");
+    expect(cancelled?.result).toBeUndefined();
+
+    const next = await run({ userId: "jobs-cancel-user" });
+    expect(next.rateLimit?.remaining).toBe(0);
+  });
+
+  it("cancels a running job", async () => {
+    const job = await createParseJob();
+    const running = runParseJob(job.id, input());
+    await cancelParseJob(job.id);
+    await running;
+
+    expect((await getParseJobAsync(job.id))?.stage).toBe("cancelled");
+  });
+
+  it("does not use quota for a parse cancelled elsewhere while the model ran", async () => {
+    const controller = new AbortController();
+    const parse = runParsePipeline(input({ userId: "jobs-remote-cancel-user" }), {
+      signal: controller.signal,
+      checkCancelled: async () => controller.abort(),
+    });
+
+    await expect(parse).rejects.toThrow();
+    expect((await run({ userId: "jobs-remote-cancel-user" })).rateLimit?.remaining).toBe(0);
+  });
+
+  it("does not overwrite a write that lands between the read and the write of an update", async () => {
+    let finish: ((store: Map<string, string>) => void) | null = null;
+    const client = fakeRedis((store) => {
+      const write = finish;
+      finish = null;
+      write?.(store);
+    });
+    redis.client = client;
+
+    const job = await createParseJob();
+    const key = [...client.store.keys()][0];
+    // Another instance finishes the job while this one reads it to cancel it
+    finish = (store) => store.set(key, JSON.stringify({ ...job, stage: "done" }));
+
+    expect((await cancelParseJob(job.id))?.stage).toBe("done");
+    expect(JSON.parse(client.store.get(key)!).stage).toBe("done");
+  });
+
+  it("leaves final jobs unchanged when cancelled", async () => {
+    const job = await run();
+
+    expect((await cancelParseJob(job.id))?.stage).toBe("done");
+  });
+
+  it("knows the final stages", () => {
+    expect(isFinalStage("done")).toBe(true);
+    expect(isFinalStage("failed")).toBe(true);
+    expect(isFinalStage("cancelled")).toBe(true);
+    expect(isFinalStage("model")).toBe(false);
+  });
+});
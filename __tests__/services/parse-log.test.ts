@@ -0,0 +1,136 @@
+/**
+ * Parse Log Service Tests
+ *
+ * @see lib/services/parse-log.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  logParseAsync,
+  getParseLogAsync,
+  summarizeParseLog,
+  clearParseLog,
+  type ParseLogEntry,
+} from "@/lib/services/parse-log";
+
+// Mock env
+vi.mock("@/lib/utils/env", () => ({
+  getServerEnv: () => ({
+    PARSE_LOG_MAX_ENTRIES: 3,
+  }),
+}));
+
+// Mock redis: null uses the memory fallback, a fake client the Redis path
+const redis = vi.hoisted(() => ({ client: null as null | Record<string, ReturnType<typeof vi.fn>> }));
+
+vi.mock("@/lib/services/redis", () => ({
+  getRedisClient: () => redis.client,
+}));
+
+function entry(overrides: Partial<ParseLogEntry> = {}): ParseLogEntry {
+  return {
+    at: "2026-10-18T10:00:00.000Z",
+    prompt_version: "2026-10-2",
+    model: "openai:gpt-4o",
+    outcome: "parsed",
+    confidence: 0.9,
+    warnings: 0,
+    workouts: 1,
+    duration_ms: 4000,
+    ...overrides,
+  };
+}
+
+describe("Parse Log Service", () => {
+  beforeEach(() => {
+    redis.client = null;
+    clearParseLog();
+  });
+
+  describe("memory storage", () => {
+    it("returns the newest entries first, up to the maximum", async () => {
+      for (const duration_ms of [1, 2, 3, 4]) {
+        await logParseAsync(entry({ duration_ms }));
+      }
+
+      expect((await getParseLogAsync()).map((logged) => logged.duration_ms)).toEqual([4, 3, 2]);
+    });
+  });
+
+  describe("Redis storage", () => {
+    it("pushes and trims the shared list", async () => {
+      redis.client = { lpush: vi.fn().mockResolvedValue(1), ltrim: vi.fn().mockResolvedValue("OK") };
+
+      await logParseAsync(entry());
+
+      expect(redis.client.lpush).toHaveBeenCalledWith("parselog", JSON.stringify(entry()));
+      expect(redis.client.ltrim).toHaveBeenCalledWith("parselog", 0, 2);
+    });
+
+    it("skips entries it cannot read", async () => {
+      redis.client = {
+        lrange: vi.fn().mockResolvedValue([JSON.stringify(entry()), JSON.stringify({ outcome: "parsed" }), "{corrupt"]),
+      };
+
+      expect(await getParseLogAsync()).toEqual([entry()]);
+    });
+
+    it("falls back to memory when Redis fails", async () => {
+      redis.client = { lpush: vi.fn().mockRejectedValue(new Error("down")) };
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await logParseAsync(entry());
+      redis.client = null;
+
+      expect(await getParseLogAsync()).toEqual([entry()]);
+    });
+  });
+
+  describe("summarizeParseLog", () => {
+    it("groups outcomes by prompt version", () => {
+      const summary = summarizeParseLog([
+        entry({ confidence: 0.8, duration_ms: 3000 }),
+        entry({ outcome: "cached", confidence: 0.7, duration_ms: 5 }),
+        entry({ outcome: "failed", confidence: undefined, error_code: "PARSE_FAILED", duration_ms: 6000 }),
+        entry({ prompt_version: "2026-11-1", confidence: 0.95 }),
+      ]);
+
+      expect(summary).toEqual([
+        {
+          prompt_version: "2026-10-2",
+          parsed: 1,
+          cached: 1,
+          failed: 1,
+          average_confidence: 0.8,
+          average_duration_ms: 4500,
+        },
+        {
+          prompt_version: "2026-11-1",
+          parsed: 1,
+          cached: 0,
+          failed: 0,
+          average_confidence: 0.95,
+          average_duration_ms: 4000,
+        },
+      ]);
+    });
+
+    it("leaves cache hits out of the average confidence", () => {
+      const summary = summarizeParseLog([
+        entry({ confidence: 0.6 }),
+        entry({ outcome: "cached", confidence: 0.6 }),
+        entry({ outcome: "cached", confidence: 0.6 }),
+        entry({ confidence: 1 }),
+      ]);
+
+      expect(summary[0]).toMatchObject({ parsed: 2, cached: 2, average_confidence: 0.8 });
+    });
+
+    it("has no averages without results", () => {
+      expect(summarizeParseLog([entry({ outcome: "cached", confidence: undefined })])[0]).toMatchObject({
+        average_confidence: null,
+        average_duration_ms: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Parse Warnings Tests
+ *
+ * @see lib/services/parse-warnings.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { createWarning, formatWarning } from "@/lib/services/parse-warnings";
+import { translations, type TranslationKey } from "@/lib/i18n/translations";
+
+const french = (key: TranslationKey) => translations.fr[key];
+
+describe("Parse Warnings", () => {
+  describe("createWarning", () => {
+    it("sets the severity and English message of the code", () => {
+      expect(createWarning("CLAMPED_POWER", { value: "350%", clamped: "200%" }, 2)).toEqual({
+        code: "CLAMPED_POWER",
+        severity: "warning",
+        step_index: 2,
+        params: { value: "350%", clamped: "200%" },
+        message: "Target 350% out of range, set to 200%",
+      });
+    });
+
+    it("leaves out the step index of workout-level warnings", () => {
+      const warning = createWarning("SCHEMA_FIXED");
+
+      expect(warning).not.toHaveProperty("step_index");
+      expect(warning.params).toEqual({});
+    });
+  });
+
+  describe("formatWarning", () => {
+    it("renders the code in the given language", () => {
+      const warning = createWarning("DEFAULT_DURATION", { value: 300 }, 0);
+
+      expect(formatWarning(warning, french)).toBe("Aucune durée indiquée, 300s utilisées par défaut");
+    });
+
+    it("keeps placeholders that have no param", () => {
+      const warning = createWarning("UNPARSED_TEXT");
+
+      expect(formatWarning(warning, french)).toBe("Impossible d'analyser « {text} »");
+    });
+  });
+});
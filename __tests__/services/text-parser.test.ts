@@ -0,0 +1,209 @@
+/**
+ * Text Workout Parser Tests
+ *
+ * @see lib/services/text-parser.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseWorkoutText } from "@/lib/services/text-parser";
+
+describe("Text Workout Parser", () => {
+  it("parses a full shorthand workout", () => {
+    const result = parseWorkoutText("WU 10' 50-75%, 5x(3' @110%, 2' @55%), CD 10' 70-40%");
+
+    expect(result.workout.steps).toEqual([
+      { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+      {
+        type: "intervals",
+        repeat: 5,
+        on_duration_s: 180,
+        off_duration_s: 120,
+        on_power_pct: 110,
+        off_power_pct: 55,
+      },
+      { type: "cooldown", duration_s: 600, power_start_pct: 70, power_end_pct: 40 },
+    ]);
+    expect(result.warnings).toEqual([]);
+    expect(result.confidence).toBe(1);
+  });
+
+  it("reads minute, second and hour notations", () => {
+    const result = parseWorkoutText("3'30 90%\n30\" 150%\n1h30 65%\n5min 60%\n90s 100%\n5:00 70%");
+
+    expect(result.workout.steps.map((step) => ("duration_s" in step ? step.duration_s : 0))).toEqual([210, 30, 5400, 300, 90, 300]);
+  });
+
+  it("accepts typographic quotes and repeats without parentheses", () => {
+    const result = parseWorkoutText("4 × 30″ 150% / 30’’ 50%");
+
+    expect(result.workout.steps[0]).toMatchObject({
+      type: "intervals",
+      repeat: 4,
+      on_duration_s: 30,
+      off_duration_s: 30,
+    });
+  });
+
+  it("understands French labels", () => {
+    const result = parseWorkoutText("Échauffement 15' 50-70%; 3x(8' 95%, récup 4'); retour au calme 10'");
+
+    expect(result.workout.steps[0].type).toBe("warmup");
+    expect(result.workout.steps[1]).toMatchObject({ type: "intervals", off_power_pct: 50 });
+    expect(result.workout.steps[2]).toEqual({
+      type: "cooldown",
+      duration_s: 600,
+      power_start_pct: 70,
+      power_end_pct: 40,
+    });
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "DEFAULT_TARGET", step_index: 1, params: { value: "50%" } }),
+      expect.objectContaining({ code: "DEFAULT_TARGET", step_index: 2, params: { value: "70-40%" } }),
+    ]);
+  });
+
+  it("keeps zones as a band resolved with the zone model", () => {
+    const result = parseWorkoutText("20' Z3");
+
+    expect(result.workout.steps[0]).toEqual({
+      type: "steady",
+      duration_s: 1200,
+      power_pct: 83,
+      power_low_pct: 76,
+      power_high_pct: 90,
+      power_zone: "Z3",
+    });
+    expect(result.warnings).toEqual([]);
+
+    const sweetSpot = parseWorkoutText("20' Z4", { zoneModel: "sweet-spot" });
+    expect(sweetSpot.workout.steps[0]).toMatchObject({ power_pct: 91, power_low_pct: 88, power_high_pct: 94 });
+  });
+
+  it("keeps power ranges on steady and interval steps", () => {
+    const result = parseWorkoutText("20' 88-94%, 5x(3' 106-120%, 3' 50%)");
+
+    expect(result.workout.steps[0]).toMatchObject({ power_pct: 91, power_low_pct: 88, power_high_pct: 94 });
+    expect(result.workout.steps[1]).toMatchObject({
+      type: "intervals",
+      on_power_pct: 113,
+      on_power_low_pct: 106,
+      on_power_high_pct: 120,
+      off_power_pct: 50,
+    });
+  });
+
+  it("keeps watt and heart rate targets in their own unit", () => {
+    const result = parseWorkoutText("10' 200W, 20' 140-150 bpm, 5x(3' 105% LTHR, 2' 80% LTHR)");
+
+    expect(result.warnings).toEqual([]);
+    expect(result.workout.steps).toEqual([
+      { type: "steady", duration_s: 600, power_pct: 200, target_unit: "watts" },
+      {
+        type: "steady",
+        duration_s: 1200,
+        power_pct: 145,
+        power_low_pct: 140,
+        power_high_pct: 150,
+        target_unit: "bpm",
+      },
+      {
+        type: "intervals",
+        repeat: 5,
+        on_duration_s: 180,
+        off_duration_s: 120,
+        on_power_pct: 105,
+        off_power_pct: 80,
+        target_unit: "lthr_pct",
+      },
+    ]);
+  });
+
+  it("keeps repeats that are not on/off pairs as repeat blocks", () => {
+    const result = parseWorkoutText("2x(1' 100%, 1' 110%, 1' 50%)");
+
+    expect(result.workout.steps).toEqual([
+      {
+        type: "repeat",
+        repeat: 2,
+        steps: [
+          { type: "steady", duration_s: 60, power_pct: 100 },
+          { type: "steady", duration_s: 60, power_pct: 110 },
+          { type: "steady", duration_s: 60, power_pct: 50 },
+        ],
+      },
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("parses nested repeats", () => {
+    const result = parseWorkoutText("3 sets of (4x(30\" 150% / 30\" 50%), 5' 50%)");
+
+    expect(result.workout.steps).toEqual([
+      {
+        type: "repeat",
+        repeat: 3,
+        steps: [
+          {
+            type: "intervals",
+            repeat: 4,
+            on_duration_s: 30,
+            off_duration_s: 30,
+            on_power_pct: 150,
+            off_power_pct: 50,
+          },
+          { type: "steady", duration_s: 300, power_pct: 50 },
+        ],
+      },
+    ]);
+  });
+
+  it("splits a recovery written after the effort into an on/off pair", () => {
+    const result = parseWorkoutText("3x10' @ 95% récup 5'");
+
+    expect(result.workout.steps).toEqual([
+      { type: "intervals", repeat: 3, on_duration_s: 600, off_duration_s: 300, on_power_pct: 95, off_power_pct: 50 },
+    ]);
+    expect(result.warnings.map((warning) => warning.code)).toEqual(["DEFAULT_TARGET"]);
+    expect(result.confidence).toBe(0.9);
+  });
+
+  it("warns about a second duration it cannot place", () => {
+    const result = parseWorkoutText("10' 95% 5' 50%");
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "UNPARSED_TEXT", step_index: 0, params: { text: "10' 95% 5' 50%" } }),
+    ]);
+    expect(result.confidence).toBeLessThan(1);
+  });
+
+  it("uses a title line as the workout name", () => {
+    expect(parseWorkoutText("Sweet spot\n2x20' 90%").workout.name).toBe("Sweet spot");
+    expect(parseWorkoutText("20' 90%", { name: "Custom" }).workout.name).toBe("Custom");
+    expect(parseWorkoutText("20' 90%").workout.name).toBe("Text Workout");
+  });
+
+  it("lowers confidence for segments it cannot parse", () => {
+    const result = parseWorkoutText("10' 60%, sprint hard");
+
+    expect(result.workout.steps).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      {
+        code: "UNPARSED_TEXT",
+        severity: "error",
+        params: { text: "sprint hard" },
+        message: 'Could not parse "sprint hard"',
+      },
+    ]);
+    expect(result.confidence).toBe(0.45);
+  });
+
+  it("quotes repeat text with decomposed accents as written", () => {
+    const result = parseWorkoutText("10' 60%, 2x(5' 90%, Re\u0301cup libre)");
+
+    expect(result.workout.steps).toHaveLength(1);
+    expect(result.warnings[0].params).toEqual({ text: "Récup libre" });
+  });
+
+  it("throws when no step can be parsed", () => {
+    expect(() => parseWorkoutText("ride as you feel")).toThrow("No workout steps found");
+  });
+});
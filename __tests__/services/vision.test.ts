@@ -0,0 +1,502 @@
+// @vitest-environment node
+/**
+ * Vision Provider Tests
+ *
+ * Runs parseWorkoutImage end to end through the stub provider.
+ *
+ * @see lib/services/vision.ts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import { createHash } from "crypto";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { getVisionProvider, type VisionProvider } from "@/lib/services/vision";
+import { parseWorkoutImage } from "@/lib/services/openai";
+
+// Mutable mock env, adjusted per test
+const env = vi.hoisted(() => ({
+  VISION_PROVIDER: "stub" as "openai" | "openai-compatible" | "stub",
+  VISION_FIXTURES_DIR: "fixtures/vision",
+  VISION_BASE_URL: undefined as string | undefined,
+  VISION_MODEL: undefined as string | undefined,
+  OPENAI_API_KEY: undefined as string | undefined,
+}));
+
+vi.mock("@/lib/utils/env", () => ({
+  getServerEnv: () => env,
+}));
+
+const IMAGE = Buffer.from("fake image bytes");
+const IMAGE_BASE64 = IMAGE.toString("base64");
+const IMAGE_HASH = createHash("sha256").update(IMAGE).digest("hex");
+
+describe("Vision Provider", () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), "vision-fixtures-"));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    env.VISION_PROVIDER = "stub";
+    env.VISION_FIXTURES_DIR = "fixtures/vision";
+  });
+
+  describe("getVisionProvider", () => {
+    it("selects the stub provider", () => {
+      expect(getVisionProvider().name).toBe("stub");
+    });
+
+    it("configures an OpenAI-compatible endpoint", () => {
+      env.VISION_PROVIDER = "openai-compatible";
+      env.VISION_BASE_URL = "http://localhost:11434/v1";
+      env.VISION_MODEL = "llava";
+
+      const provider = getVisionProvider();
+
+      expect(provider.name).toBe("openai-compatible");
+      expect(provider.model).toBe("llava");
+    });
+  });
+
+  describe("parseWorkoutImage with stub provider", () => {
+    it("returns the default fixture for unknown images", async () => {
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.name).toBe("Sweet Spot 3x10");
+      expect(result.workout.steps).toHaveLength(3);
+      expect(result.confidence).toBe(0.9);
+    });
+
+    it("returns per-step confidence and source regions", async () => {
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.step_sources).toHaveLength(3);
+      expect(result.step_sources?.[1]).toEqual({
+        confidence: 0.5,
+        region: { x: 0.05, y: 0.35, width: 0.9, height: 0.3 },
+      });
+      // Step fields are not leaked into the workout
+      expect(result.workout.steps[1]).not.toHaveProperty("confidence");
+    });
+
+    it("clips source regions to the image and defaults step confidence", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          name: "Regions",
+          steps: [
+            { type: "steady", duration_s: 300, power_pct: 80, confidence: 1.4, region: { x: 0.5, y: -0.1, width: 0.8, height: 0.4 } },
+            { type: "steady", duration_s: 300, power_pct: 60, region: { x: 0.1 } },
+          ],
+          confidence: 0.7,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.step_sources).toEqual([
+        { confidence: 1, region: { x: 0.5, y: 0, width: 0.5, height: 0.4 } },
+        { confidence: 0.7, region: undefined },
+      ]);
+    });
+
+    it("prefers a fixture named after the image hash", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        "```json\n" + JSON.stringify({
+          name: "Hashed",
+          steps: [{ type: "steady", duration_s: 300, power_pct: 80 }],
+          warnings: [],
+          confidence: 0.8,
+        }) + "\n```"
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.name).toBe("Hashed");
+      expect(result.confidence).toBe(0.8);
+    });
+
+    it("asks the model to repair output that fails validation", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({ name: "Repaired", steps: [{ type: "steady", duration_s: 300 }], confidence: 0.9 })
+      );
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.repair-1.json`),
+        JSON.stringify({ name: "Repaired", steps: [{ type: "steady", duration_s: 300, power_pct: 85 }], confidence: 0.9 })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.steps[0]).toEqual({ type: "steady", duration_s: 300, power_pct: 85 });
+      expect(result.confidence).toBe(0.9);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ code: "REPAIR_ATTEMPT", params: { attempt: 1, issues: expect.stringContaining("steps.0.power_pct") } }),
+      ]);
+
+      rmSync(path.join(tempDir, `${IMAGE_HASH}.repair-1.json`));
+    });
+
+    it("repairs a response that is not JSON", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(path.join(tempDir, `${IMAGE_HASH}.json`), "I could not read this image.");
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.repair-2.json`),
+        JSON.stringify({ name: "Second try", steps: [{ type: "freeride", duration_s: 600 }], confidence: 0.3 })
+      );
+
+      const onRepair = vi.fn();
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png", { onRepair });
+
+      expect(result.workout.name).toBe("Second try");
+      expect(result.warnings.map((warning) => warning.params.attempt)).toEqual([1, 2]);
+      expect(onRepair.mock.calls).toEqual([[1], [2]]);
+
+      rmSync(path.join(tempDir, `${IMAGE_HASH}.repair-2.json`));
+    });
+
+    it("gives up on JSON after the last repair attempt", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(path.join(tempDir, `${IMAGE_HASH}.json`), "Not JSON");
+
+      await expect(parseWorkoutImage(IMAGE_BASE64, "image/png")).rejects.toThrow("as JSON");
+    });
+
+    it("stops when aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        parseWorkoutImage(IMAGE_BASE64, "image/png", { signal: controller.signal })
+      ).rejects.toThrow();
+    });
+
+    it("fixes out-of-range model output and lowers confidence", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          name: "Too hard",
+          steps: [{ type: "steady", duration_s: 300, power_pct: 350 }],
+          confidence: 0.95,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.steps[0]).toEqual({ type: "steady", duration_s: 300, power_pct: 200 });
+      // The stub repeats its answer to both repair requests
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ code: "REPAIR_ATTEMPT", params: expect.objectContaining({ attempt: 1 }) }),
+        expect.objectContaining({ code: "REPAIR_ATTEMPT", params: expect.objectContaining({ attempt: 2 }) }),
+        expect.objectContaining({ code: "SCHEMA_FIXED", message: "Some parsed data required adjustment to match schema" }),
+        expect.objectContaining({ code: "CLAMPED_POWER", step_index: 0, params: { value: "350%", clamped: "200%" } }),
+      ]);
+      expect(result.confidence).toBe(0.6);
+    });
+
+    it("reports every default applied to the model output", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          steps: [
+            { type: "steady", duration_s: 300, power_pct: 80 },
+            { type: "repeat", repeat: 2, steps: [{ type: "sprint", duration_s: 10 }] },
+            { type: "steady", power_pct: 60, power_zone: "Z9", target_unit: "kph" },
+          ],
+          confidence: 0.9,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.name).toBe("Untitled Workout");
+      expect(result.warnings.map(({ code, step_index }) => [code, step_index]).slice(2)).toEqual([
+        ["SCHEMA_FIXED", undefined],
+        ["DEFAULT_NAME", undefined],
+        // Repeat children report against their top-level block
+        ["UNKNOWN_STEP_TYPE", 1],
+        ["UNKNOWN_UNIT", 2],
+        ["DEFAULT_DURATION", 2],
+        ["INVALID_VALUE", 2],
+      ]);
+    });
+
+    it("codes the model's own warnings and keeps plain strings", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          name: "Blurry",
+          steps: [{ type: "freeride", duration_s: 600 }],
+          warnings: [
+            { code: "ILLEGIBLE_SECTION", step_index: 0, message: "Main set is blurred" },
+            { code: "GUESS", step_index: 4, message: "Cadence may be 90" },
+            "Photo taken at an angle",
+            { code: "AMBIGUOUS_VALUE" },
+          ],
+          confidence: 0.4,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.warnings).toEqual([
+        {
+          code: "ILLEGIBLE_SECTION",
+          severity: "warning",
+          step_index: 0,
+          params: { note: "Main set is blurred" },
+          message: "Hard to read: Main set is blurred",
+        },
+        { code: "MODEL_NOTE", severity: "info", params: { note: "Cadence may be 90" }, message: "Cadence may be 90" },
+        { code: "MODEL_NOTE", severity: "info", params: { note: "Photo taken at an angle" }, message: "Photo taken at an angle" },
+      ]);
+    });
+
+    it("normalizes the workout, moving warnings and sources to the merged steps", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          name: "Split steady",
+          steps: [
+            { type: "steady", duration_s: 600, power_pct: 60, confidence: 0.9, region: { x: 0.1, y: 0.1, width: 0.5, height: 0.1 } },
+            { type: "steady", duration_s: 598, power_pct: 60, confidence: 0.5, region: { x: 0.1, y: 0.2, width: 0.5, height: 0.1 } },
+            { type: "steady", duration_s: 300, power_pct: 90, confidence: 0.8 },
+          ],
+          warnings: [{ code: "AMBIGUOUS_VALUE", step_index: 2, message: "90 or 95%" }],
+          confidence: 0.8,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.steps).toEqual([
+        { type: "steady", duration_s: 1200, power_pct: 60 },
+        { type: "steady", duration_s: 300, power_pct: 90 },
+      ]);
+      expect(result.warnings.map(({ code, step_index }) => [code, step_index])).toEqual([
+        ["AMBIGUOUS_VALUE", 1],
+        ["ROUNDED_DURATIONS", 0],
+        ["MERGED_STEPS", 0],
+      ]);
+      expect(result.step_sources?.map((source) => source.confidence)).toEqual([0.5, 0.8]);
+      expect(result.step_sources?.[0].region?.height).toBeCloseTo(0.2);
+
+      const raw = await parseWorkoutImage(IMAGE_BASE64, "image/png", { normalize: [] });
+      expect(raw.workout.steps).toHaveLength(3);
+    });
+
+    it("flags a total that disagrees with the printed one and lowers the confidence", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          name: "Threshold",
+          total_duration_s: 3600,
+          steps: [
+            { type: "warmup", duration_s: 600, power_start_pct: 75, power_end_pct: 50 },
+            { type: "steady", duration_s: 1200, power_pct: 100 },
+          ],
+          warnings: [],
+          confidence: 0.9,
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.warnings.map(({ code, step_index }) => [code, step_index])).toEqual([
+        ["WARMUP_RAMPS_DOWN", 0],
+        ["TOTAL_MISMATCH", undefined],
+      ]);
+      expect(result.warnings[1].params).toEqual({ total: 30, printed: 60 });
+      expect(result.confidence).toBe(0.7);
+      expect(result.printed_duration_s).toBe(3600);
+      expect(result.step_sources?.[0].confidence).toBe(0.9);
+    });
+
+    it("returns every workout of an image holding several", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          workouts: [
+            {
+              day: " Monday ",
+              name: "Endurance",
+              steps: [{ type: "steady", duration_s: 3600, power_pct: 65, confidence: 0.9 }],
+              warnings: [],
+              confidence: 0.9,
+            },
+            {
+              day: "Wednesday",
+              name: "VO2",
+              steps: [{ type: "intervals", repeat: 5, on_duration_s: 180, off_duration_s: 180, on_power_pct: 120, off_power_pct: 50 }],
+              warnings: [{ code: "AMBIGUOUS_VALUE", step_index: 0, message: "Recovery may be 2'" }],
+              confidence: 0.7,
+            },
+          ],
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      // Top level is the first workout, for single-workout clients
+      expect(result.workout.name).toBe("Endurance");
+      expect(result.confidence).toBe(0.9);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ code: "MULTIPLE_WORKOUTS", severity: "info", params: { count: 2 } }),
+      ]);
+
+      expect(result.workouts?.map((detected) => [detected.day, detected.workout.name, detected.confidence])).toEqual([
+        ["Monday", "Endurance", 0.9],
+        ["Wednesday", "VO2", 0.7],
+      ]);
+      expect(result.workouts?.[1].warnings).toEqual([
+        expect.objectContaining({ code: "AMBIGUOUS_VALUE", step_index: 0 }),
+      ]);
+      expect(result.workouts?.[1].step_sources).toEqual([{ confidence: 0.7, region: undefined }]);
+    });
+
+    it("keeps the single-workout shape for one workout", async () => {
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout.name).toBe("Sweet Spot 3x10");
+      expect(result.workouts).toBeUndefined();
+      expect(result).not.toHaveProperty("day");
+    });
+
+    it("points repairs at the invalid workout and fixes it alone", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      const valid = { name: "Easy", steps: [{ type: "freeride", duration_s: 1800 }], warnings: [], confidence: 0.8 };
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({ workouts: [valid, { name: "Threshold", steps: [{ type: "steady", duration_s: 1200 }], confidence: 0.8 }] })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      // The stub gives the same answer again: the second workout is fixed
+      expect(result.warnings[0]).toEqual(
+        expect.objectContaining({ code: "REPAIR_ATTEMPT", params: { attempt: 1, issues: expect.stringContaining("workouts.1.steps.0.power_pct") } })
+      );
+      expect(result.workouts?.[0].warnings.map((warning) => warning.code)).toEqual(["REPAIR_ATTEMPT", "REPAIR_ATTEMPT"]);
+      expect(result.workouts?.[1].warnings.map((warning) => warning.code)).toContain("SCHEMA_FIXED");
+      expect(result.workouts?.[1].confidence).toBe(0.6);
+    });
+
+    it("sends the output schema in the strict subset", async () => {
+      const complete = vi.fn<VisionProvider["complete"]>(async () => JSON.stringify({ name: "Easy", steps: [{ type: "freeride", duration_s: 600 }], warnings: [], confidence: 0.8 }));
+
+      await parseWorkoutImage(IMAGE_BASE64, "image/png", { provider: { name: "stub", model: "stub", complete } });
+
+      const schema = JSON.stringify(complete.mock.calls[0][0].responseSchema?.schema);
+      const workout = JSON.parse(schema).properties.workouts.items;
+      expect(workout.additionalProperties).toBe(false);
+      expect(workout.required).toEqual(Object.keys(workout.properties));
+      expect(workout.properties.day).toEqual({ anyOf: [{ type: "string" }, { type: "null" }] });
+      expect(schema).not.toMatch(/"(oneOf|const|minLength|maxLength)"/);
+    });
+
+    it("reads null fields as left out", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({
+          workouts: [{
+            day: null,
+            name: "Tempo",
+            description: null,
+            sport: null,
+            steps: [{ type: "steady", duration_s: 1200, power_pct: 85, power_zone: null, cadence_rpm: null, messages: null, region: null }],
+            total_duration_s: null,
+            warnings: [{ code: "MODEL_NOTE", step_index: null, message: "Hand-written" }],
+            confidence: 0.8,
+          }],
+        })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workout).toEqual({ name: "Tempo", steps: [{ type: "steady", duration_s: 1200, power_pct: 85 }] });
+      expect(result.warnings.map((warning) => warning.code)).toEqual(["MODEL_NOTE"]);
+      expect(result.confidence).toBe(0.8);
+    });
+
+    it("defaults a missing confidence before lowering it for fixes", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({ name: "Unsure", steps: [{ type: "steady", duration_s: 300, power_pct: 350 }] })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.warnings.map((warning) => warning.code)).toContain("SCHEMA_FIXED");
+      expect(result.confidence).toBe(0.5);
+      expect(result.step_sources).toEqual([{ confidence: 0.5 }]);
+    });
+
+    it("drops a workout still invalid once fixed and keeps the others", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      const valid = { name: "Easy", steps: [{ type: "freeride", duration_s: 1800 }], warnings: [], confidence: 0.8 };
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({ workouts: [{ name: "Empty", steps: [], confidence: 0.8 }, valid] })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workouts).toBeUndefined();
+      expect(result.workout.name).toBe("Easy");
+    });
+
+    it("drops a workout listed without steps and keeps the others", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      const valid = { name: "Easy", steps: [{ type: "freeride", duration_s: 1800 }], warnings: [], confidence: 0.8 };
+      const blocks = { name: "Blocks", steps: [{ type: "repeat", repeat: 2, steps: "3x 1' hard" }], confidence: 0.8 };
+      writeFileSync(
+        path.join(tempDir, `${IMAGE_HASH}.json`),
+        JSON.stringify({ workouts: [valid, { name: "Rest day", confidence: 0.8 }, blocks] })
+      );
+
+      const result = await parseWorkoutImage(IMAGE_BASE64, "image/png");
+
+      expect(result.workouts?.map((workout) => workout.workout.name)).toEqual(["Easy", "Blocks"]);
+      expect(result.workouts?.[1].workout.steps).toEqual([{ type: "freeride", duration_s: 300 }]);
+    });
+
+    it("gives up when no workout is valid once fixed", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(path.join(tempDir, `${IMAGE_HASH}.json`), JSON.stringify({ name: "Empty", steps: [], confidence: 0.8 }));
+
+      await expect(parseWorkoutImage(IMAGE_BASE64, "image/png")).rejects.toThrow("steps");
+    });
+
+    it("gives up when no workout is listed after the last repair attempt", async () => {
+      env.VISION_FIXTURES_DIR = tempDir;
+      writeFileSync(path.join(tempDir, `${IMAGE_HASH}.json`), JSON.stringify({ workouts: [] }));
+
+      await expect(parseWorkoutImage(IMAGE_BASE64, "image/png")).rejects.toThrow("at least one workout");
+    });
+
+    it("reports a missing fixture", async () => {
+      env.VISION_FIXTURES_DIR = path.join(tempDir, "missing");
+
+      await expect(parseWorkoutImage(IMAGE_BASE64, "image/png")).rejects.toThrow("No stub fixture found");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Workout Checks Service Tests
+ *
+ * @see lib/services/workout-checks.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { applySanityPenalty, checkWorkout } from "@/lib/services/workout-checks";
+import { createWarning } from "@/lib/services/parse-warnings";
+import type { Step, Workout } from "@/lib/schemas";
+
+function workout(steps: Step[]): Workout {
+  return { name: "Test", steps };
+}
+
+const steady = (duration_s: number, power_pct: number): Step => ({ type: "steady", duration_s, power_pct });
+
+function codes(steps: Step[], printedDurationS?: number) {
+  return checkWorkout(workout(steps), { printedDurationS }).map(({ code, step_index }) => [code, step_index]);
+}
+
+describe("Workout Checks Service", () => {
+  it("finds nothing wrong with a plausible workout", () => {
+    expect(
+      codes(
+        [
+          { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+          { type: "intervals", repeat: 5, on_duration_s: 300, off_duration_s: 120, on_power_pct: 110, off_power_pct: 50 },
+          { type: "cooldown", duration_s: 600, power_start_pct: 70, power_end_pct: 45 },
+        ],
+        3300
+      )
+    ).toEqual([]);
+  });
+
+  it("flags workouts over 6 hours", () => {
+    const issues = checkWorkout(workout([steady(7 * 3600, 60)]));
+
+    expect(issues).toEqual([createWarning("LONG_WORKOUT", { minutes: 420 })]);
+  });
+
+  it("flags 20 minutes or more at 120%, inside repeat blocks too", () => {
+    expect(codes([steady(1200, 120), steady(1199, 150), steady(3600, 119)])).toEqual([["LONG_HARD_EFFORT", 0]]);
+    expect(
+      codes([steady(600, 60), { type: "repeat", repeat: 2, steps: [steady(1500, 125), steady(300, 50)] }])
+    ).toEqual([["LONG_HARD_EFFORT", 1]]);
+  });
+
+  it("leaves absolute targets out of the hard effort check", () => {
+    expect(codes([{ type: "steady", duration_s: 1800, power_pct: 300, target_unit: "watts" }])).toEqual([]);
+  });
+
+  it("flags warmups ramping down and cooldowns ramping up", () => {
+    expect(
+      codes([
+        { type: "warmup", duration_s: 600, power_start_pct: 75, power_end_pct: 50 },
+        steady(1200, 90),
+        { type: "cooldown", duration_s: 600, power_start_pct: 45, power_end_pct: 70 },
+      ])
+    ).toEqual([
+      ["WARMUP_RAMPS_DOWN", 0],
+      ["COOLDOWN_RAMPS_UP", 2],
+    ]);
+  });
+
+  it("reads lower absolute paces as harder", () => {
+    const pace = { target_unit: "sec_per_km" as const };
+
+    expect(
+      codes([
+        { type: "warmup", duration_s: 600, power_start_pct: 360, power_end_pct: 300, ...pace },
+        { type: "intervals", repeat: 4, on_duration_s: 180, off_duration_s: 120, on_power_pct: 240, off_power_pct: 330, ...pace },
+        { type: "cooldown", duration_s: 600, power_start_pct: 360, power_end_pct: 300, ...pace },
+      ])
+    ).toEqual([["COOLDOWN_RAMPS_UP", 2]]);
+  });
+
+  it("flags intervals whose recovery is harder than the effort", () => {
+    expect(
+      codes([{ type: "intervals", repeat: 4, on_duration_s: 60, off_duration_s: 60, on_power_pct: 50, off_power_pct: 120 }])
+    ).toEqual([["OFF_ABOVE_ON", 0]]);
+  });
+
+  it("compares the total with the printed one, allowing for rounding", () => {
+    const steps = [steady(600, 60), steady(2400, 90)];
+
+    expect(codes(steps, 3000 + 60)).toEqual([]);
+    expect(codes(steps, 3600)).toEqual([["TOTAL_MISMATCH", undefined]]);
+    expect(checkWorkout(workout(steps), { printedDurationS: 3600 })[0].params).toEqual({ total: 50, printed: 60 });
+    expect(codes(steps)).toEqual([]);
+  });
+
+  describe("applySanityPenalty", () => {
+    it("takes confidence off for each sanity issue only", () => {
+      const issues = [
+        createWarning("WARMUP_RAMPS_DOWN", {}, 0),
+        createWarning("TOTAL_MISMATCH", { total: 50, printed: 60 }),
+        createWarning("ROUNDED_DURATIONS", { count: 2 }),
+      ];
+
+      expect(applySanityPenalty(0.9, issues)).toBe(0.7);
+      expect(applySanityPenalty(0.1, issues)).toBe(0);
+      expect(applySanityPenalty(0.9, [])).toBe(0.9);
+    });
+  });
+});
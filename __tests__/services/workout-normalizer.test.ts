@@ -0,0 +1,246 @@
+/**
+ * Workout Normalizer Service Tests
+ *
+ * @see lib/services/workout-normalizer.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeWorkout,
+  remapWarnings,
+  mergeStepSources,
+  NORMALIZE_RULES,
+} from "@/lib/services/workout-normalizer";
+import { createWarning } from "@/lib/services/parse-warnings";
+import { getTotalDuration } from "@/lib/utils/steps";
+import type { Step, Workout } from "@/lib/schemas";
+
+function workout(steps: Step[]): Workout {
+  return { name: "Test", steps };
+}
+
+const steady = (duration_s: number, power_pct: number): Step => ({ type: "steady", duration_s, power_pct });
+
+describe("Workout Normalizer Service", () => {
+  describe("round-durations", () => {
+    it("rounds durations to 5 s, inside repeat blocks too", () => {
+      const result = normalizeWorkout(
+        workout([
+          steady(598, 60),
+          { type: "repeat", repeat: 3, steps: [steady(2, 120), steady(60, 50)] },
+        ]),
+        ["round-durations"]
+      );
+
+      expect(result.workout.steps).toEqual([
+        steady(600, 60),
+        { type: "repeat", repeat: 3, steps: [steady(5, 120), steady(60, 50)] },
+      ]);
+      expect(result.changes.map((change) => [change.code, change.step_index, change.params])).toEqual([
+        ["ROUNDED_DURATIONS", 0, { count: 1 }],
+        ["ROUNDED_DURATIONS", 1, { count: 1 }],
+      ]);
+    });
+
+    it("keeps messages inside shortened steps", () => {
+      const result = normalizeWorkout(
+        workout([{ type: "steady", duration_s: 62, power_pct: 60, messages: [{ offset_s: 61, message: "Go" }] }]),
+        ["round-durations"]
+      );
+
+      expect(result.workout.steps[0]).toMatchObject({ duration_s: 60, messages: [{ offset_s: 59, message: "Go" }] });
+    });
+  });
+
+  describe("round-power", () => {
+    it("rounds targets to whole values", () => {
+      const result = normalizeWorkout(
+        workout([
+          { type: "warmup", duration_s: 600, power_start_pct: 50.4, power_end_pct: 75 },
+          { type: "steady", duration_s: 600, power_pct: 88.5, power_low_pct: 87.6, power_high_pct: 89.4 },
+        ]),
+        ["round-power"]
+      );
+
+      expect(result.workout.steps).toEqual([
+        { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 75 },
+        { type: "steady", duration_s: 600, power_pct: 89, power_low_pct: 88, power_high_pct: 89 },
+      ]);
+      expect(result.changes.map((change) => change.params.count)).toEqual([1, 3]);
+    });
+  });
+
+  describe("merge-duplicates", () => {
+    it("merges adjacent steps with the same target", () => {
+      const result = normalizeWorkout(
+        workout([steady(300, 60), steady(300, 60), steady(300, 60), steady(600, 88), steady(300, 60)]),
+        ["merge-duplicates"]
+      );
+
+      expect(result.workout.steps).toEqual([steady(900, 60), steady(600, 88), steady(300, 60)]);
+      expect(result.origins).toEqual([[0, 1, 2], [3], [4]]);
+      expect(result.changes).toEqual([{ ...createWarning("MERGED_STEPS", { count: 3 }), step_index: 0 }]);
+    });
+
+    it("shifts the messages of the merged steps", () => {
+      const result = normalizeWorkout(
+        workout([
+          { type: "steady", duration_s: 300, power_pct: 60, messages: [{ offset_s: 0, message: "Easy" }] },
+          { type: "steady", duration_s: 300, power_pct: 60, messages: [{ offset_s: 10, message: "Still easy" }] },
+        ]),
+        ["merge-duplicates"]
+      );
+
+      expect(result.workout.steps[0]).toMatchObject({
+        duration_s: 600,
+        messages: [
+          { offset_s: 0, message: "Easy" },
+          { offset_s: 310, message: "Still easy" },
+        ],
+      });
+    });
+
+    it("adds up identical intervals and keeps different targets apart", () => {
+      const intervals: Step = {
+        type: "intervals",
+        repeat: 3,
+        on_duration_s: 60,
+        off_duration_s: 60,
+        on_power_pct: 120,
+        off_power_pct: 50,
+      };
+      const result = normalizeWorkout(
+        workout([intervals, intervals, { type: "steady", duration_s: 300, power_pct: 60, cadence_rpm: 90 }, steady(300, 60)]),
+        ["merge-duplicates"]
+      );
+
+      expect(result.workout.steps).toHaveLength(3);
+      expect(result.workout.steps[0]).toEqual({ ...intervals, repeat: 6 });
+    });
+  });
+
+  describe("detect-repeats", () => {
+    it("folds alternating steady steps into intervals", () => {
+      const result = normalizeWorkout(
+        workout([steady(600, 60), steady(180, 110), steady(120, 50), steady(180, 110), steady(120, 50), steady(180, 110), steady(300, 50)]),
+        ["detect-repeats"]
+      );
+
+      expect(result.workout.steps).toEqual([
+        steady(600, 60),
+        expect.objectContaining({
+          type: "intervals",
+          repeat: 2,
+          on_duration_s: 180,
+          off_duration_s: 120,
+          on_power_pct: 110,
+          off_power_pct: 50,
+        }),
+        steady(180, 110),
+        steady(300, 50),
+      ]);
+      expect(result.origins).toEqual([[0], [1, 2, 3, 4], [5], [6]]);
+      expect(result.changes).toEqual([{ ...createWarning("DETECTED_REPEAT", { repeat: 2 }), step_index: 1 }]);
+    });
+
+    it("leaves a single on/off pair and steps with messages alone", () => {
+      const withMessage: Step = { ...steady(180, 110), messages: [{ offset_s: 0, message: "Go" }] } as Step;
+      const steps = [steady(180, 110), steady(120, 50), withMessage, steady(120, 50)];
+
+      expect(normalizeWorkout(workout(steps), ["detect-repeats"]).workout.steps).toEqual(steps);
+    });
+
+    it("leaves on/off steps in different target units alone", () => {
+      const hr = { ...steady(120, 70), target_unit: "lthr_pct" } as Step;
+      const steps = [steady(180, 110), hr, steady(180, 110), hr, steady(180, 110), hr];
+
+      expect(normalizeWorkout(workout(steps), ["detect-repeats"]).workout.steps).toEqual(steps);
+    });
+
+    it("keeps the total duration", () => {
+      const steps = [steady(30, 150), steady(30, 40), steady(30, 150), steady(30, 40), steady(30, 150), steady(30, 40)];
+
+      const result = normalizeWorkout(workout(steps), ["detect-repeats"]);
+      expect(result.workout.steps).toHaveLength(1);
+      expect(getTotalDuration(result.workout.steps)).toBe(getTotalDuration(steps));
+    });
+  });
+
+  describe("collapse-stairs", () => {
+    it("replaces climbing and descending stairs by ramps", () => {
+      const result = normalizeWorkout(
+        workout([steady(240, 50), steady(180, 60), steady(180, 70), steady(1200, 90), steady(180, 65), steady(180, 55), steady(180, 45)]),
+        ["collapse-stairs"]
+      );
+
+      expect(result.workout.steps).toEqual([
+        { type: "warmup", duration_s: 600, power_start_pct: 50, power_end_pct: 70 },
+        steady(1200, 90),
+        { type: "cooldown", duration_s: 540, power_start_pct: 65, power_end_pct: 45 },
+      ]);
+      expect(result.changes.map((change) => [change.code, change.step_index, change.params.count])).toEqual([
+        ["COLLAPSED_STAIRS", 0, 3],
+        ["COLLAPSED_STAIRS", 2, 3],
+      ]);
+    });
+
+    it("needs three steps going one way", () => {
+      const steps = [steady(300, 50), steady(300, 60), steady(1200, 90), steady(300, 50)];
+
+      expect(normalizeWorkout(workout(steps), ["collapse-stairs"]).workout.steps).toEqual(steps);
+    });
+
+    it("is not applied by default", () => {
+      const steps = [steady(300, 50), steady(300, 60), steady(300, 70), steady(1200, 90)];
+
+      expect(normalizeWorkout(workout(steps)).workout.steps).toEqual(steps);
+    });
+  });
+
+  it("merges values equal once rounded", () => {
+    const result = normalizeWorkout(workout([steady(299, 60.2), steady(301, 59.8)]));
+
+    expect(result.workout.steps).toEqual([steady(600, 60)]);
+    expect(result.changes.map((change) => change.code)).toEqual([
+      "ROUNDED_DURATIONS",
+      "ROUNDED_DURATIONS",
+      "ROUNDED_TARGETS",
+      "ROUNDED_TARGETS",
+      "MERGED_STEPS",
+    ]);
+    expect(result.changes.every((change) => change.step_index === 0)).toBe(true);
+  });
+
+  it("changes nothing with no rule", () => {
+    const steps = [steady(299, 60.2), steady(299, 60.2)];
+
+    expect(normalizeWorkout(workout(steps), [])).toEqual({ workout: workout(steps), changes: [], origins: [[0], [1]] });
+    expect(NORMALIZE_RULES).toHaveLength(5);
+  });
+
+  describe("remapWarnings", () => {
+    it("points warnings at the step holding theirs", () => {
+      const warnings = [createWarning("CLAMPED_POWER", { value: 250 }, 2), createWarning("DEFAULT_NAME")];
+
+      expect(remapWarnings(warnings, [[0, 1], [2]]).map((warning) => warning.step_index)).toEqual([1, undefined]);
+    });
+  });
+
+  describe("mergeStepSources", () => {
+    it("keeps the lowest confidence and the region covering the merged steps", () => {
+      const sources = [
+        { confidence: 0.9, region: { x: 0.1, y: 0.1, width: 0.5, height: 0.1 } },
+        { confidence: 0.6, region: { x: 0.2, y: 0.2, width: 0.6, height: 0.1 } },
+        { confidence: 0.8 },
+      ];
+
+      const merged = mergeStepSources(sources, [[0, 1], [2]]);
+      expect(merged[0].confidence).toBe(0.6);
+      expect(merged[0].region?.x).toBe(0.1);
+      expect(merged[0].region?.width).toBeCloseTo(0.7);
+      expect(merged[0].region?.height).toBeCloseTo(0.2);
+      expect(merged[1]).toEqual({ confidence: 0.8 });
+      expect(mergeStepSources(sources, [[1, 2]])).toEqual([{ confidence: 0.6 }]);
+    });
+  });
+});
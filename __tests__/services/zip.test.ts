@@ -0,0 +1,90 @@
+/**
+ * ZIP Archive Service Tests
+ *
+ * @see lib/services/zip.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { createZip, crc32, uniqueFilenames } from "@/lib/services/zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function view(zip: Uint8Array): DataView {
+  return new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+}
+
+describe("ZIP Archive Service", () => {
+  describe("crc32", () => {
+    it("matches the standard check value", () => {
+      expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+    });
+
+    it("is zero for empty data", () => {
+      expect(crc32(new Uint8Array())).toBe(0);
+    });
+  });
+
+  describe("uniqueFilenames", () => {
+    it("keeps distinct names", () => {
+      expect(uniqueFilenames(["a.zwo", "b.zwo"])).toEqual(["a.zwo", "b.zwo"]);
+    });
+
+    it("suffixes repeated names before the extension", () => {
+      expect(uniqueFilenames(["vo2.zwo", "vo2.zwo", "vo2.zwo"])).toEqual(["vo2.zwo", "vo2-2.zwo", "vo2-3.zwo"]);
+    });
+
+    it("does not reuse a name already taken by a suffix", () => {
+      expect(uniqueFilenames(["a-2.zwo", "a.zwo", "a.zwo"])).toEqual(["a-2.zwo", "a.zwo", "a-3.zwo"]);
+    });
+
+    it("handles names without extension", () => {
+      expect(uniqueFilenames(["workout", "workout"])).toEqual(["workout", "workout-2"]);
+    });
+  });
+
+  describe("createZip", () => {
+    it("writes an empty archive", () => {
+      const zip = createZip([]);
+
+      expect(zip.length).toBe(22);
+      expect(view(zip).getUint32(0, true)).toBe(0x06054b50);
+    });
+
+    it("stores entries uncompressed with their names", () => {
+      const zip = createZip([
+        { name: "one.zwo", data: "<workout_file/>" },
+        { name: "two.zwo", data: encoder.encode("second") },
+      ]);
+      const dv = view(zip);
+
+      // First local header
+      expect(dv.getUint32(0, true)).toBe(0x04034b50);
+      expect(dv.getUint16(8, true)).toBe(0); // Stored
+      expect(dv.getUint32(14, true)).toBe(crc32(encoder.encode("<workout_file/>")));
+      expect(dv.getUint32(18, true)).toBe(15);
+      expect(decoder.decode(zip.subarray(30, 37))).toBe("one.zwo");
+      expect(decoder.decode(zip.subarray(37, 52))).toBe("<workout_file/>");
+
+      // End of central directory
+      const eocd = zip.length - 22;
+      expect(dv.getUint32(eocd, true)).toBe(0x06054b50);
+      expect(dv.getUint16(eocd + 10, true)).toBe(2);
+
+      // Central directory points back to the local headers
+      const directoryOffset = dv.getUint32(eocd + 16, true);
+      expect(dv.getUint32(directoryOffset, true)).toBe(0x02014b50);
+      expect(dv.getUint32(directoryOffset + 42, true)).toBe(0);
+      const second = directoryOffset + 46 + "one.zwo".length;
+      expect(dv.getUint32(second, true)).toBe(0x02014b50);
+      expect(dv.getUint32(dv.getUint32(second + 42, true), true)).toBe(0x04034b50);
+    });
+
+    it("encodes names as UTF-8", () => {
+      const zip = createZip([{ name: "séance.zwo", data: "" }]);
+
+      expect(view(zip).getUint16(6, true) & 0x0800).toBe(0x0800);
+      expect(decoder.decode(zip.subarray(30, 30 + view(zip).getUint16(26, true)))).toBe("séance.zwo");
+    });
+  });
+});
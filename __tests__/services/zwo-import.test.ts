@@ -0,0 +1,203 @@
+/**
+ * ZWO Import Tests
+ *
+ * @see lib/services/zwo-import.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { zwoToWorkout } from "@/lib/services/zwo-import";
+import { workoutToZwo } from "@/lib/services/zwo";
+import type { Workout } from "@/lib/schemas";
+
+function zwo(body: string, header = "<name>Test</name>"): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<workout_file>
+  <author>Someone</author>
+  ${header}
+  <sportType>bike</sportType>
+  <workout>
+${body}
+  </workout>
+</workout_file>`;
+}
+
+describe("ZWO Import", () => {
+  describe("zwoToWorkout", () => {
+    it("round-trips a workout generated by workoutToZwo", () => {
+      const workout: Workout = {
+        name: "Complete Workout",
+        description: "Power > 100% & recover",
+        steps: [
+          { type: "warmup", duration_s: 600, power_start_pct: 45, power_end_pct: 70 },
+          { type: "steady", duration_s: 300, power_pct: 75 },
+          {
+            type: "intervals",
+            repeat: 3,
+            on_duration_s: 180,
+            off_duration_s: 180,
+            on_power_pct: 110,
+            off_power_pct: 55,
+          },
+          { type: "freeride", duration_s: 300 },
+          { type: "cooldown", duration_s: 300, power_start_pct: 60, power_end_pct: 35 },
+        ],
+      };
+
+      const result = zwoToWorkout(workoutToZwo(workout));
+
+      expect(result.workout).toEqual(workout);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("round-trips cadence targets", () => {
+      const workout: Workout = {
+        name: "Cadence",
+        steps: [
+          { type: "warmup", duration_s: 600, power_start_pct: 45, power_end_pct: 70, cadence_rpm: 90 },
+          { type: "steady", duration_s: 300, power_pct: 85, cadence_low_rpm: 55, cadence_high_rpm: 65 },
+          {
+            type: "intervals",
+            repeat: 3,
+            on_duration_s: 60,
+            off_duration_s: 60,
+            on_power_pct: 120,
+            off_power_pct: 50,
+            on_cadence_rpm: 105,
+            off_cadence_rpm: 80,
+          },
+        ],
+      };
+
+      const result = zwoToWorkout(workoutToZwo(workout));
+
+      expect(result.workout).toEqual(workout);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("maps Ramp elements by slope direction", () => {
+      const result = zwoToWorkout(zwo(`
+    <Ramp Duration="300" PowerLow="0.50" PowerHigh="0.80"/>
+    <Ramp Duration="200" PowerLow="0.80" PowerHigh="0.40"/>`));
+
+      expect(result.workout.steps).toEqual([
+        { type: "warmup", duration_s: 300, power_start_pct: 50, power_end_pct: 80 },
+        { type: "cooldown", duration_s: 200, power_start_pct: 80, power_end_pct: 40 },
+      ]);
+    });
+
+    it("accepts lowercase attributes and a PowerLow/PowerHigh steady block", () => {
+      const result = zwoToWorkout(zwo(`
+    <SteadyState duration="600" PowerLow="0.86" PowerHigh="0.90"/>
+    <FreeRide Duration="120"/>`));
+
+      expect(result.workout.steps).toEqual([
+        { type: "steady", duration_s: 600, power_pct: 88 },
+        { type: "freeride", duration_s: 120 },
+      ]);
+    });
+
+    it("attaches nested text events to their step", () => {
+      const result = zwoToWorkout(zwo(`
+    <SteadyState Duration="600" Power="0.60"/>
+    <SteadyState Duration="300" Power="1.05">
+      <textevent timeoffset="30" message="Stay seated &amp; smooth"/>
+    </SteadyState>`));
+
+      expect(result.workout.steps[1]).toEqual({
+        type: "steady",
+        duration_s: 300,
+        power_pct: 105,
+        messages: [{ offset_s: 30, message: "Stay seated & smooth" }],
+      });
+      expect(result.workout.description).toBeUndefined();
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("places top-level text events on the step playing at that time", () => {
+      const result = zwoToWorkout(zwo(`
+    <textevent timeoffset="0" message="Let's go"/>
+    <SteadyState Duration="600" Power="0.60"/>
+    <SteadyState Duration="300" Power="1.05"/>
+    <textevent timeoffset="660" message="Sprint!"/>`));
+
+      expect(result.workout.steps[0]).toMatchObject({ messages: [{ offset_s: 0, message: "Let's go" }] });
+      expect(result.workout.steps[1]).toMatchObject({ messages: [{ offset_s: 60, message: "Sprint!" }] });
+    });
+
+    it("round-trips step messages", () => {
+      const workout: Workout = {
+        name: "Messages",
+        steps: [
+          {
+            type: "intervals",
+            repeat: 3,
+            on_duration_s: 60,
+            off_duration_s: 60,
+            on_power_pct: 120,
+            off_power_pct: 50,
+            messages: [{ offset_s: 0, message: "Out of the saddle" }, { offset_s: 300, message: "Last one <3" }],
+          },
+          { type: "freeride", duration_s: 300, messages: [{ offset_s: 10, message: "Spin \"easy\"" }] },
+        ],
+      };
+
+      expect(zwoToWorkout(workoutToZwo(workout)).workout).toEqual(workout);
+    });
+
+    it("imports run workouts with % threshold pace targets", () => {
+      const xml = zwo('    <SteadyState Duration="600" Power="1.05"/>\n    <FreeRide Duration="300"/>')
+        .replace("<sportType>bike</sportType>", "<sportType>run</sportType>");
+
+      const { workout, warnings } = zwoToWorkout(xml);
+
+      expect(warnings).toEqual([]);
+      expect(workout.sport).toBe("run");
+      expect(workout.steps).toEqual([
+        { type: "steady", duration_s: 600, power_pct: 105, target_unit: "pace_pct" },
+        { type: "freeride", duration_s: 300 },
+      ]);
+    });
+
+    it("imports unsupported timed elements as free ride with a warning", () => {
+      const result = zwoToWorkout(zwo(`
+    <SteadyState Duration="600" Power="0.60"/>
+    <MaxEffort Duration="20"/>
+    <Unknown/>`));
+
+      expect(result.workout.steps[1]).toEqual({ type: "freeride", duration_s: 20 });
+      expect(result.warnings).toHaveLength(2);
+      expect(result.warnings[0]).toMatchObject({ code: "UNSUPPORTED_ELEMENT", step_index: 1, params: { element: "MaxEffort" } });
+      // Skipped elements point at no step
+      expect(result.warnings[1]).not.toHaveProperty("step_index");
+      expect(result.warnings[1].message).toBe("Unsupported Unknown element, skipped");
+    });
+
+    it("clamps out-of-range power with a warning", () => {
+      const result = zwoToWorkout(zwo(`<SteadyState Duration="10" Power="2.50"/>`));
+
+      expect(result.workout.steps[0]).toEqual({ type: "steady", duration_s: 10, power_pct: 200 });
+      expect(result.warnings[0]).toMatchObject({
+        code: "CLAMPED_POWER",
+        severity: "warning",
+        step_index: 0,
+        params: { value: "250%", clamped: "200%" },
+      });
+    });
+
+    it("unescapes the workout name and defaults it when missing", () => {
+      const named = zwoToWorkout(zwo(`<FreeRide Duration="60"/>`, "<name>Test &amp; &lt;Go&gt;</name>"));
+      expect(named.workout.name).toBe("Test & <Go>");
+
+      const unnamed = zwoToWorkout(zwo(`<FreeRide Duration="60"/>`, ""));
+      expect(unnamed.workout.name).toBe("Imported Workout");
+    });
+
+    it("rejects files that are not ZWO workouts", () => {
+      expect(() => zwoToWorkout("<html></html>")).toThrow("Not a ZWO file");
+    });
+
+    it("rejects workouts without supported steps", () => {
+      expect(() => zwoToWorkout(zwo(`<Unknown/>`))).toThrow("no supported workout steps");
+    });
+  });
+});
@@ -87,6 +87,171 @@ describe("ZWO Generator", () => {
       expect(xml).toContain('<FreeRide Duration="600"/>');
     });
 
+    it("generates a steady on/off repeat block as IntervalsT", () => {
+      const workout: Workout = {
+        name: "Repeat Pair",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 4,
+            steps: [
+              { type: "steady", duration_s: 30, power_pct: 150 },
+              { type: "steady", duration_s: 30, power_pct: 50 },
+            ],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).toContain(
+        '<IntervalsT Repeat="4" OnDuration="30" OffDuration="30" OnPower="1.50" OffPower="0.50"/>'
+      );
+    });
+
+    it("emits cadence targets as Cadence attributes", () => {
+      const workout: Workout = {
+        name: "Cadence",
+        steps: [
+          { type: "steady", duration_s: 300, power_pct: 90, cadence_rpm: 60 },
+          { type: "freeride", duration_s: 120, cadence_low_rpm: 85, cadence_high_rpm: 95 },
+          {
+            type: "intervals",
+            repeat: 4,
+            on_duration_s: 30,
+            off_duration_s: 30,
+            on_power_pct: 150,
+            off_power_pct: 50,
+            on_cadence_rpm: 110,
+            off_cadence_rpm: 85,
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).toContain('<SteadyState Duration="300" Power="0.90" Cadence="60"/>');
+      expect(xml).toContain('<FreeRide Duration="120" CadenceLow="85" CadenceHigh="95"/>');
+      expect(xml).toContain('OffPower="0.50" Cadence="110" CadenceResting="85"/>');
+    });
+
+    it("nests escaped text events inside the step element", () => {
+      const workout: Workout = {
+        name: "Messages",
+        steps: [
+          {
+            type: "steady",
+            duration_s: 300,
+            power_pct: 105,
+            messages: [{ offset_s: 30, message: "Stay seated & <smooth>" }],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).toContain(
+        [
+          '    <SteadyState Duration="300" Power="1.05">',
+          '      <textevent timeoffset="30" message="Stay seated &amp; &lt;smooth&gt;"/>',
+          "    </SteadyState>",
+        ].join("\n")
+      );
+    });
+
+    it("unrolls on/off repeat pairs that carry messages", () => {
+      const workout: Workout = {
+        name: "Sprints",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 2,
+            steps: [
+              { type: "steady", duration_s: 30, power_pct: 150, messages: [{ offset_s: 0, message: "Sprint!" }] },
+              { type: "steady", duration_s: 30, power_pct: 50 },
+            ],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).not.toContain("IntervalsT");
+      expect(xml.match(/message="Sprint!"/g)).toHaveLength(2);
+    });
+
+    it("unrolls on/off repeat pairs in different target units", () => {
+      const workout: Workout = {
+        name: "Mixed units",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 3,
+            steps: [
+              { type: "steady", duration_s: 120, power_pct: 300, target_unit: "watts" },
+              { type: "steady", duration_s: 60, power_pct: 65, target_unit: "lthr_pct" },
+            ],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).not.toContain("IntervalsT");
+      expect(xml.match(/<SteadyState Duration="120"/g)).toHaveLength(3);
+      expect(xml.match(/<SteadyState Duration="60"/g)).toHaveLength(3);
+    });
+
+    it("unrolls on/off repeat pairs with cadence ranges", () => {
+      const workout: Workout = {
+        name: "Cadence drills",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 2,
+            steps: [
+              { type: "steady", duration_s: 60, power_pct: 80, cadence_low_rpm: 100, cadence_high_rpm: 110 },
+              { type: "steady", duration_s: 60, power_pct: 60 },
+            ],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml).not.toContain("IntervalsT");
+      expect(xml.match(/CadenceLow="100" CadenceHigh="110"/g)).toHaveLength(2);
+    });
+
+    it("unrolls nested repeat blocks", () => {
+      const workout: Workout = {
+        name: "Sets",
+        steps: [
+          {
+            type: "repeat",
+            repeat: 2,
+            steps: [
+              {
+                type: "intervals",
+                repeat: 4,
+                on_duration_s: 30,
+                off_duration_s: 30,
+                on_power_pct: 150,
+                off_power_pct: 50,
+              },
+              { type: "steady", duration_s: 300, power_pct: 55 },
+            ],
+          },
+        ],
+      };
+
+      const xml = workoutToZwo(workout);
+
+      expect(xml.match(/<IntervalsT Repeat="4"/g)).toHaveLength(2);
+      expect(xml.match(/<SteadyState Duration="300" Power="0.55"\/>/g)).toHaveLength(2);
+      expect(xml.indexOf("IntervalsT")).toBeLessThan(xml.indexOf("SteadyState"));
+    });
+
     it("generates complete workout with all step types", () => {
       const workout: Workout = {
         name: "Complete Workout",
@@ -178,6 +343,17 @@ describe("ZWO Generator", () => {
       expect(xml).not.toContain("<description>");
     });
 
+    it("writes run workouts with the run sport type", () => {
+      const xml = workoutToZwo({
+        name: "Run",
+        sport: "run",
+        steps: [{ type: "steady", duration_s: 600, power_pct: 105, target_unit: "pace_pct" }],
+      });
+
+      expect(xml).toContain("<sportType>run</sportType>");
+      expect(xml).toContain('<SteadyState Duration="600" Power="1.05"/>');
+    });
+
     it("converts power correctly for edge cases", () => {
       const workout: Workout = {
         name: "Power Test",
@@ -0,0 +1,83 @@
+/**
+ * POST /api/workouts/export/erg
+ *
+ * Convert a workout JSON to a .erg course file (absolute watts),
+ * using the rider's FTP sent by the client.
+ *
+ * Constitution Principle III: Valid Export
+ * - Zod validation of input
+ *
+ * @see lib/services/erg.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ErgExportRequestSchema } from "@/lib/schemas";
+import { workoutToErg } from "@/lib/services/erg";
+import { generateWorkoutFilename } from "@/lib/services/zwo";
+import { getExportWarnings, exportWarningsHeaders, toExportWorkout } from "@/lib/services/export-warnings";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate workout structure and FTP
+    const parsed = ErgExportRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const firstError = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          error: firstError?.message || "Invalid workout structure",
+          code: "VALIDATION_ERROR",
+          details: {
+            path: firstError?.path.join("."),
+            message: firstError?.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { workout, ftp, lthr, threshold_pace } = parsed.data;
+    const references = { ftp, lthr, thresholdPace: threshold_pace };
+
+    // Generate ERG course, with watt and heart rate targets converted
+    const erg = workoutToErg(toExportWorkout(workout, "erg", references), { ftp });
+    const filename = generateWorkoutFilename(workout.name, "erg");
+
+    // Return as text file download
+    return new NextResponse(erg, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        ...exportWarningsHeaders(getExportWarnings(workout, "erg", references)),
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON in request body",
+          code: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
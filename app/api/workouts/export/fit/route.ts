@@ -0,0 +1,82 @@
+/**
+ * POST /api/workouts/export/fit
+ *
+ * Convert a workout JSON to a binary Garmin FIT workout file.
+ *
+ * Constitution Principle III: Valid Export
+ * - Zod validation of input
+ * - CRC-checked FIT structure
+ *
+ * @see lib/services/fit.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FitExportRequestSchema } from "@/lib/schemas";
+import { workoutToFit } from "@/lib/services/fit";
+import { generateWorkoutFilename } from "@/lib/services/zwo";
+import { getExportWarnings, exportWarningsHeaders } from "@/lib/services/export-warnings";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate workout structure and export options
+    const parsed = FitExportRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const firstError = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          error: firstError?.message || "Invalid workout structure",
+          code: "VALIDATION_ERROR",
+          details: {
+            path: firstError?.path.join("."),
+            message: firstError?.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { workout, power_unit, ftp, lthr, threshold_pace } = parsed.data;
+
+    // Generate FIT binary
+    const fit = workoutToFit(workout, { powerUnit: power_unit, ftp, lthr, thresholdPace: threshold_pace });
+    const filename = generateWorkoutFilename(workout.name, "fit");
+
+    // Return as binary file download
+    return new NextResponse(Buffer.from(fit), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/vnd.ant.fit",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        ...exportWarningsHeaders(getExportWarnings(workout, "fit", { ftp, lthr, thresholdPace: threshold_pace })),
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON in request body",
+          code: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
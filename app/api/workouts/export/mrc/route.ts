@@ -0,0 +1,83 @@
+/**
+ * POST /api/workouts/export/mrc
+ * 
+ * Convert a workout JSON to a .mrc course file (percentage of FTP).
+ * 
+ * Constitution Principle III: Valid Export
+ * - Zod validation of input
+ * 
+ * @see lib/services/erg.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { WorkoutSchema, ExportReferencesSchema } from "@/lib/schemas";
+import { workoutToMrc } from "@/lib/services/erg";
+import { generateWorkoutFilename } from "@/lib/services/zwo";
+import { getExportWarnings, exportWarningsHeaders, toExportWorkout } from "@/lib/services/export-warnings";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate workout structure and the optional FTP / LTHR / threshold pace
+    const parsed = WorkoutSchema.safeParse(body.workout ?? body);
+    const references = ExportReferencesSchema.safeParse(body);
+    
+    if (!parsed.success || !references.success) {
+      const firstError = (parsed.error ?? references.error)?.issues[0];
+      return NextResponse.json(
+        {
+          error: firstError?.message || "Invalid workout structure",
+          code: "VALIDATION_ERROR",
+          details: {
+            path: firstError?.path.join("."),
+            message: firstError?.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Watt, heart rate and pace targets converted to what the format holds
+    const workout = toExportWorkout(parsed.data, "mrc", references.data);
+    
+    // Generate MRC course
+    const mrc = workoutToMrc(workout);
+    const filename = generateWorkoutFilename(workout.name, "mrc");
+    
+    // Return as text file download
+    return new NextResponse(mrc, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        ...exportWarningsHeaders(getExportWarnings(parsed.data, "mrc", references.data)),
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON in request body",
+          code: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * POST /api/workouts/export/zip
+ *
+ * Export several workouts as .zwo files bundled in one ZIP archive
+ * (e.g. the workouts of a batch upload).
+ *
+ * Constitution Principle III: Valid Export
+ * - Zod validation of every workout
+ * - Each file is the same .zwo as a single export
+ * - Repeated workout names get distinct filenames
+ *
+ * Constitution Principle II: Honest AI
+ * - Export warnings go in a warnings.json manifest inside the archive:
+ *   a header could not hold those of 50 workouts, only their count
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/export.md
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ZipExportRequestSchema } from "@/lib/schemas";
+import { workoutToZwo, generateZwoFilename } from "@/lib/services/zwo";
+import { createZip, uniqueFilenames } from "@/lib/services/zip";
+import {
+  EXPORT_WARNING_COUNT_HEADER,
+  EXPORT_WARNINGS_MANIFEST,
+  exportWarningsManifest,
+  getExportWarnings,
+  toExportWorkout,
+} from "@/lib/services/export-warnings";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ZIP_FILENAME = "workouts.zip";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+
+    // Validate workouts and the optional FTP / LTHR / threshold pace
+    const parsed = ZipExportRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      const firstError = parsed.error.issues[0];
+      return NextResponse.json(
+        {
+          error: firstError?.message || "Invalid workout structure",
+          code: "VALIDATION_ERROR",
+          details: {
+            path: firstError?.path.join("."),
+            message: firstError?.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { workouts, ftp, lthr, threshold_pace } = parsed.data;
+    const references = { ftp, lthr, thresholdPace: threshold_pace };
+
+    // Watt, heart rate and pace targets converted to what the format holds
+    const exported = workouts.map((workout) => toExportWorkout(workout, "zwo", references));
+    const filenames = uniqueFilenames(exported.map((workout) => generateZwoFilename(workout.name)));
+    const files = exported.map((workout, i) => ({ name: filenames[i], data: workoutToZwo(workout) }));
+
+    // Warnings are listed per file in the manifest, only counted in a header
+    const warnings = workouts.map((workout, i) => ({
+      file: filenames[i],
+      warnings: getExportWarnings(workout, "zwo", references),
+    }));
+    const manifest = exportWarningsManifest(warnings);
+    const count = warnings.reduce((sum, entry) => sum + entry.warnings.length, 0);
+    const zip = createZip(manifest ? [...files, { name: EXPORT_WARNINGS_MANIFEST, data: manifest }] : files);
+
+    // Return as ZIP file download
+    return new NextResponse(Buffer.from(zip), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${ZIP_FILENAME}"`,
+        ...(count > 0 && { [EXPORT_WARNING_COUNT_HEADER]: String(count) }),
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        {
+          error: "Invalid JSON in request body",
+          code: "VALIDATION_ERROR",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred",
+        code: "INTERNAL_ERROR",
+      },
+      { status: 500 }
+    );
+  }
+}
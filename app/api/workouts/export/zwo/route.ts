@@ -12,8 +12,9 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { WorkoutSchema } from "@/lib/schemas";
+import { WorkoutSchema, ExportReferencesSchema } from "@/lib/schemas";
 import { workoutToZwo, generateZwoFilename } from "@/lib/services/zwo";
+import { getExportWarnings, exportWarningsHeaders, toExportWorkout } from "@/lib/services/export-warnings";
 
 // ============================================================================
 // Route Handler
@@ -24,11 +25,12 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const body = await request.json();
     
-    // Validate workout structure
+    // Validate workout structure and the optional FTP / LTHR / threshold pace
     const parsed = WorkoutSchema.safeParse(body.workout ?? body);
+    const references = ExportReferencesSchema.safeParse(body);
     
-    if (!parsed.success) {
-      const firstError = parsed.error.issues[0];
+    if (!parsed.success || !references.success) {
+      const firstError = (parsed.error ?? references.error)?.issues[0];
       return NextResponse.json(
         {
           error: firstError?.message || "Invalid workout structure",
@@ -42,7 +44,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const workout = parsed.data;
+    // Watt, heart rate and pace targets converted to what the format holds
+    const workout = toExportWorkout(parsed.data, "zwo", references.data);
     
     // Generate ZWO XML
     const xml = workoutToZwo(workout);
@@ -54,6 +57,7 @@ export async function POST(request: NextRequest) {
       headers: {
         "Content-Type": "application/xml",
         "Content-Disposition": `attachment; filename="${filename}"`,
+        ...exportWarningsHeaders(getExportWarnings(parsed.data, "zwo", references.data)),
       },
     });
   } catch (error) {
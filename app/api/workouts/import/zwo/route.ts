@@ -0,0 +1,87 @@
+/**
+ * POST /api/workouts/import/zwo
+ *
+ * Convert an existing .zwo file back into a workout JSON.
+ *
+ * No AI call is involved, so imports do not consume the daily parse quota.
+ *
+ * Constitution Principle II: Honest AI
+ * - Unsupported ZWO elements are returned as warnings
+ *
+ * @see lib/services/zwo-import.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { zwoToWorkout } from "@/lib/services/zwo-import";
+import { getServerEnv } from "@/lib/utils/env";
+import type { ParseError, ParseResponse } from "@/lib/schemas";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const env = getServerEnv();
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    // Validate file presence
+    if (!file || !(file instanceof File)) {
+      return errorResponse("No file provided", "INVALID_FORMAT", 400);
+    }
+
+    // Validate file extension (browsers report no reliable MIME type for .zwo)
+    if (!file.name.toLowerCase().endsWith(".zwo")) {
+      return errorResponse("Invalid file type. Accepted: .zwo", "INVALID_FORMAT", 400);
+    }
+
+    // Validate file size
+    if (file.size > env.MAX_FILE_SIZE) {
+      return errorResponse(
+        `File too large. Maximum size: ${Math.round(env.MAX_FILE_SIZE / 1024 / 1024)}MB`,
+        "FILE_TOO_LARGE",
+        413
+      );
+    }
+
+    const xml = await file.text();
+
+    let result;
+    try {
+      result = zwoToWorkout(xml);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : "Invalid ZWO file",
+        "INVALID_FORMAT",
+        400
+      );
+    }
+
+    return NextResponse.json({
+      workout: result.workout,
+      warnings: result.warnings,
+      confidence: 1, // Deterministic conversion, nothing was guessed
+    } satisfies ParseResponse);
+  } catch (error) {
+    console.error("Import error:", error);
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(
+  message: string,
+  code: ParseError["code"],
+  status: number
+): NextResponse {
+  return NextResponse.json(
+    { error: message, code } satisfies ParseError,
+    { status }
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * POST /api/workouts/parse-text
+ *
+ * Parse workout shorthand text ("WU 10', 5x(3' @110%, 2' @55%), CD 10'")
+ * with the local grammar parser.
+ *
+ * Constitution Principle I: Security-First API
+ * - No OpenAI call: does not use the API key or the daily parse quota
+ *
+ * Constitution Principle II: Honest AI
+ * - Returns confidence scores
+ * - Includes warnings for defaults and approximations
+ *
+ * @see lib/services/text-parser.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ParseTextRequestSchema, type ParseError } from "@/lib/schemas";
+import { parseWorkoutText } from "@/lib/services/text-parser";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse("Invalid JSON in request body", "INVALID_FORMAT", 400);
+  }
+
+  const parsed = ParseTextRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(
+      parsed.error.issues[0]?.message || "Invalid request",
+      "INVALID_FORMAT",
+      400
+    );
+  }
+
+  try {
+    const { text, name, zone_model } = parsed.data;
+    const result = parseWorkoutText(text, { name, zoneModel: zone_model });
+
+    // Same contract as image parsing: low confidence is flagged with 422
+    const status = result.confidence < 0.5 ? 422 : 200;
+
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error("Text parse error:", error);
+
+    if (error instanceof Error) {
+      return errorResponse(error.message, "PARSE_FAILED", 422);
+    }
+
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(
+  message: string,
+  code: ParseError["code"],
+  status: number
+): NextResponse {
+  return NextResponse.json(
+    { error: message, code } satisfies ParseError,
+    { status }
+  );
+}
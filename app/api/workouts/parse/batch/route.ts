@@ -0,0 +1,78 @@
+/**
+ * POST /api/workouts/parse/batch
+ *
+ * Parse several workout images at once, one workout per image.
+ * Same form fields as /api/workouts/parse, with one "file" field per image.
+ *
+ * Constitution Principle I: Security-First API
+ * - Each image is validated, preprocessed and rate limited like a single parse
+ * - A bounded number of images reach the model at the same time
+ *
+ * Constitution Principle II: Honest AI
+ * - Each image keeps its own warnings and confidence, failures are listed per image
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/parse.md
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { parseBatch, MAX_BATCH_FILES } from "@/lib/services/parse-batch";
+import { toRateLimitInfo } from "@/lib/services/parse-pipeline";
+import { generateUserId, getClientIp, getFingerprint } from "@/lib/services/rate-limit";
+import { getServerEnv } from "@/lib/utils/env";
+import { ZoneModelSchema } from "@/lib/schemas";
+import type { BatchParseResponse, ParseError } from "@/lib/schemas";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const env = getServerEnv();
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const files = formData.getAll("file").filter((file): file is File => file instanceof File);
+
+    // Validate file presence and count
+    if (files.length === 0) {
+      return errorResponse("No file provided", "INVALID_IMAGE", 400);
+    }
+    if (files.length > MAX_BATCH_FILES) {
+      return errorResponse(`Too many files. Maximum: ${MAX_BATCH_FILES}`, "INVALID_FORMAT", 400);
+    }
+
+    const zoneModel = ZoneModelSchema.safeParse(formData.get("zone_model"));
+    const { items, rateLimit } = await parseBatch(files, {
+      locale: formData.get("locale")?.toString(),
+      notes: formData.get("notes")?.toString(),
+      zoneModel: zoneModel.success ? zoneModel.data : undefined,
+      userId: env.RATE_LIMIT_ENABLED
+        ? generateUserId(getClientIp(request), getFingerprint(request))
+        : null,
+    });
+
+    return NextResponse.json({
+      items,
+      rateLimit: rateLimit ? toRateLimitInfo(rateLimit) : undefined,
+    } satisfies BatchParseResponse);
+  } catch (error) {
+    console.error("Batch parse error:", error);
+    return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(
+  message: string,
+  code: ParseError["code"],
+  status: number
+): NextResponse {
+  return NextResponse.json(
+    { error: message, code } satisfies ParseError,
+    { status }
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * GET /api/workouts/parse/jobs/[id]/events
+ *
+ * Server-Sent Events stream of a parse job: one "job" event with the full
+ * job each time it changes, the last one with a final stage (done, failed,
+ * cancelled), then the stream closes.
+ *
+ * Reads the job store, so it follows jobs running on any instance.
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/parse-jobs.md
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getParseJobAsync, isFinalStage } from "@/lib/services/parse-jobs";
+import type { ParseError } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const POLL_INTERVAL = 250; // ms
+
+// Comment lines keep proxies from closing an idle stream during long model calls
+const KEEPALIVE_INTERVAL = 15_000; // ms
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!(await getParseJobAsync(id))) {
+    return NextResponse.json(
+      { error: "Parse job not found or expired", code: "JOB_NOT_FOUND" } satisfies ParseError,
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastData = "";
+      let lastSent = Date.now();
+
+      // Stops when the job is final, gone, or the client disconnected
+      while (!closed && !request.signal.aborted) {
+        const job = await getParseJobAsync(id);
+        // The client may have disconnected while the store was read
+        if (!job || closed) break;
+
+        const data = JSON.stringify(job);
+        if (data !== lastData) {
+          lastData = data;
+          lastSent = Date.now();
+          controller.enqueue(encoder.encode(`event: job\ndata: ${data}\n\n`));
+          if (isFinalStage(job.stage)) break;
+        } else if (Date.now() - lastSent > KEEPALIVE_INTERVAL) {
+          lastSent = Date.now();
+          controller.enqueue(encoder.encode(": keepalive\n\n"));
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+      }
+
+      if (!closed) controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/workouts/parse/jobs/[id]
+ *
+ * Poll a parse job: its stage, then its result or error.
+ *
+ * DELETE /api/workouts/parse/jobs/[id]
+ *
+ * Cancel a parse job. A job cancelled before its model call completes
+ * consumes no quota; cancelling a final job returns it unchanged.
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/parse-jobs.md
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getParseJobAsync, cancelParseJob } from "@/lib/services/parse-jobs";
+import type { ParseError, ParseJob } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const job = await getParseJobAsync((await params).id);
+  if (!job) {
+    return notFound();
+  }
+
+  return NextResponse.json(job satisfies ParseJob);
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const job = await cancelParseJob((await params).id);
+  if (!job) {
+    return notFound();
+  }
+
+  return NextResponse.json(job satisfies ParseJob);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function notFound(): NextResponse {
+  return NextResponse.json(
+    { error: "Parse job not found or expired", code: "JOB_NOT_FOUND" } satisfies ParseError,
+    { status: 404 }
+  );
+}
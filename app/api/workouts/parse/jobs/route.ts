@@ -0,0 +1,65 @@
+/**
+ * POST /api/workouts/parse/jobs
+ *
+ * Start an asynchronous image parse. Takes the same form fields as
+ * /api/workouts/parse and answers 202 with the queued job; follow it with
+ * GET /api/workouts/parse/jobs/[id] or its /events stream.
+ *
+ * Constitution Principle I: Security-First API
+ * - Same validation, rate limiting and cache as the synchronous parse
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/parse-jobs.md
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { createParseJob, runParseJob } from "@/lib/services/parse-jobs";
+import { generateUserId, getClientIp, getFingerprint } from "@/lib/services/rate-limit";
+import { getServerEnv } from "@/lib/utils/env";
+import { ZoneModelSchema } from "@/lib/schemas";
+import type { ParseError, ParseJob } from "@/lib/schemas";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const env = getServerEnv();
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    // Validate file presence
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file provided", code: "INVALID_IMAGE" } satisfies ParseError,
+        { status: 400 }
+      );
+    }
+
+    const zoneModel = ZoneModelSchema.safeParse(formData.get("zone_model"));
+    const input = {
+      file,
+      locale: formData.get("locale")?.toString(),
+      notes: formData.get("notes")?.toString(),
+      zoneModel: zoneModel.success ? zoneModel.data : undefined,
+      userId: env.RATE_LIMIT_ENABLED
+        ? generateUserId(getClientIp(request), getFingerprint(request))
+        : null,
+    };
+
+    const job = await createParseJob();
+
+    // Keeps running after the response is sent
+    after(() => runParseJob(job.id, input));
+
+    return NextResponse.json(job satisfies ParseJob, { status: 202 });
+  } catch (error) {
+    console.error("Parse job error:", error);
+    return NextResponse.json(
+      { error: "An unexpected error occurred", code: "INTERNAL_ERROR" } satisfies ParseError,
+      { status: 500 }
+    );
+  }
+}
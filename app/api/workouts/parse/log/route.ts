@@ -0,0 +1,51 @@
+/**
+ * GET /api/workouts/parse/log
+ *
+ * Latest parse outcomes, newest first, with a summary per prompt version
+ * to compare the versions of an A/B split.
+ *
+ * Off unless PARSE_LOG_TOKEN is set; requests send it as a bearer token.
+ *
+ * @see specs/001-workout-image-to-zwo/contracts/parse.md
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getParseLogAsync, summarizeParseLog } from "@/lib/services/parse-log";
+import { getServerEnv } from "@/lib/utils/env";
+import type { ParseError } from "@/lib/schemas";
+
+// ============================================================================
+// Route Handler
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const { PARSE_LOG_TOKEN } = getServerEnv();
+  if (!PARSE_LOG_TOKEN || !hasToken(request, PARSE_LOG_TOKEN)) {
+    return NextResponse.json(
+      { error: "Missing or invalid token", code: "UNAUTHORIZED" } satisfies ParseError,
+      { status: 401 }
+    );
+  }
+
+  const entries = await getParseLogAsync();
+  return NextResponse.json(
+    { summary: summarizeParseLog(entries), entries },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Compare the bearer token in constant time (digests have the same length)
+ */
+function hasToken(request: NextRequest, token: string): boolean {
+  const sent = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!sent) return false;
+
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(sent), digest(token));
+}
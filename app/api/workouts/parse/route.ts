@@ -1,37 +1,37 @@
 /**
  * POST /api/workouts/parse
- * 
+ *
  * Parse a workout image using GPT-4 Vision.
- * 
+ *
  * Constitution Principle I: Security-First API
  * - Server-side only OpenAI calls
  * - File validation before processing
+ * - Images are re-encoded without metadata before reaching the model
  * - Rate limiting per user (IP + fingerprint)
- * 
+ * - Re-uploads of the same image are served from the parse cache, without using quota
+ *
  * Constitution Principle II: Honest AI
  * - Returns confidence scores
  * - Includes warnings for ambiguous content
- * 
+ *
+ * For progress reporting and cancellation, use the parse jobs API
+ * (/api/workouts/parse/jobs), which runs the same pipeline.
+ *
  * @see specs/001-workout-image-to-zwo/contracts/parse.md
+ * @see lib/services/parse-pipeline.ts
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { parseWorkoutImage } from "@/lib/services/openai";
-import { 
-  generateUserId, 
-  getClientIp, 
-  getFingerprint, 
-  checkRateLimitAsync, 
-  consumeRateLimitAsync 
+import { runParsePipeline, toRateLimitInfo, MIN_CONFIDENCE } from "@/lib/services/parse-pipeline";
+import {
+  generateUserId,
+  getClientIp,
+  getFingerprint,
+  type RateLimitResult,
 } from "@/lib/services/rate-limit";
 import { getServerEnv } from "@/lib/utils/env";
-import type { ParseError } from "@/lib/schemas";
-
-// ============================================================================
-// Constants
-// ============================================================================
-
-const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+import { ZoneModelSchema } from "@/lib/schemas";
+import type { ParseError, ParseResponse } from "@/lib/schemas";
 
 // ============================================================================
 // Route Handler
@@ -40,123 +40,53 @@ const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
 export async function POST(request: NextRequest) {
   try {
     const env = getServerEnv();
-    
-    // Rate limiting check
-    if (env.RATE_LIMIT_ENABLED) {
-      const ip = getClientIp(request);
-      const fingerprint = getFingerprint(request);
-      const userId = generateUserId(ip, fingerprint);
-      
-      const rateLimitCheck = await checkRateLimitAsync(userId);
-      
-      if (!rateLimitCheck.allowed) {
-        return NextResponse.json(
-          { 
-            error: "Daily limit reached. Please try again tomorrow.",
-            code: "RATE_LIMITED" as const,
-            remaining: 0,
-            limit: rateLimitCheck.limit,
-            resetAt: rateLimitCheck.resetAt.toISOString(),
-            storage: rateLimitCheck.storage,
-          },
-          { 
-            status: 429,
-            headers: {
-              "X-RateLimit-Limit": rateLimitCheck.limit.toString(),
-              "X-RateLimit-Remaining": "0",
-              "X-RateLimit-Reset": rateLimitCheck.resetAt.toISOString(),
-              "X-RateLimit-Storage": rateLimitCheck.storage,
-              "Retry-After": Math.ceil((rateLimitCheck.resetAt.getTime() - Date.now()) / 1000).toString(),
-            },
-          }
-        );
-      }
-    }
-    
+
     // Parse multipart form data
     const formData = await request.formData();
     const file = formData.get("file");
-    
+
     // Validate file presence
     if (!file || !(file instanceof File)) {
       return errorResponse("No file provided", "INVALID_IMAGE", 400);
     }
-    
-    // Validate file type
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return errorResponse(
-        `Invalid file type. Accepted: ${ALLOWED_TYPES.join(", ")}`,
-        "INVALID_FORMAT",
-        400
-      );
-    }
-    
-    // Validate file size
-    if (file.size > env.MAX_FILE_SIZE) {
-      return errorResponse(
-        `File too large. Maximum size: ${Math.round(env.MAX_FILE_SIZE / 1024 / 1024)}MB`,
-        "FILE_TOO_LARGE",
-        413
-      );
-    }
-    
-    // Get optional parameters
-    const ftpStr = formData.get("ftp");
-    const ftp = ftpStr ? parseInt(ftpStr.toString(), 10) : undefined;
-    const locale = formData.get("locale")?.toString();
-    const notes = formData.get("notes")?.toString();
-    
-    // Convert file to base64
-    const arrayBuffer = await file.arrayBuffer();
-    const base64 = Buffer.from(arrayBuffer).toString("base64");
-    
-    // Parse with OpenAI
-    const result = await parseWorkoutImage(base64, file.type, {
-      ftp: ftp && !isNaN(ftp) ? ftp : undefined,
-      locale,
-      notes,
+
+    const zoneModel = ZoneModelSchema.safeParse(formData.get("zone_model"));
+    const outcome = await runParsePipeline({
+      file,
+      locale: formData.get("locale")?.toString(),
+      notes: formData.get("notes")?.toString(),
+      zoneModel: zoneModel.success ? zoneModel.data : undefined,
+      userId: env.RATE_LIMIT_ENABLED
+        ? generateUserId(getClientIp(request), getFingerprint(request))
+        : null,
     });
-    
-    // Consume rate limit after successful parsing
-    let rateLimitHeaders: Record<string, string> = {};
-    if (env.RATE_LIMIT_ENABLED) {
-      const ip = getClientIp(request);
-      const fingerprint = getFingerprint(request);
-      const userId = generateUserId(ip, fingerprint);
-      const consumed = await consumeRateLimitAsync(userId);
-      
-      rateLimitHeaders = {
-        "X-RateLimit-Limit": consumed.limit.toString(),
-        "X-RateLimit-Remaining": consumed.remaining.toString(),
-        "X-RateLimit-Reset": consumed.resetAt.toISOString(),
-        "X-RateLimit-Storage": consumed.storage,
-      };
-    }
-    
-    // Return appropriate status based on confidence
-    const status = result.confidence < 0.5 ? 422 : 200;
-    
-    return NextResponse.json(
-      {
-        ...result,
-        rateLimit: env.RATE_LIMIT_ENABLED ? {
-          remaining: parseInt(rateLimitHeaders["X-RateLimit-Remaining"] || "0"),
-          limit: parseInt(rateLimitHeaders["X-RateLimit-Limit"] || "5"),
-          resetAt: rateLimitHeaders["X-RateLimit-Reset"],
-        } : undefined,
-      },
-      { 
-        status,
-        headers: rateLimitHeaders,
+
+    if (!outcome.ok) {
+      const { rateLimit } = outcome;
+      if (outcome.error.code === "RATE_LIMITED" && rateLimit) {
+        return NextResponse.json(
+          {
+            ...outcome.error,
+            remaining: 0,
+            limit: rateLimit.limit,
+            resetAt: rateLimit.resetAt.toISOString(),
+            storage: rateLimit.storage,
+          },
+          {
+            status: outcome.status,
+            headers: {
+              ...rateLimitHeaders(rateLimit),
+              "Retry-After": Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000).toString(),
+            },
+          }
+        );
       }
-    );
+      return NextResponse.json(outcome.error satisfies ParseError, { status: outcome.status });
+    }
+
+    return successResponse(outcome.response, outcome.rateLimit);
   } catch (error) {
     console.error("Parse error:", error);
-    
-    if (error instanceof Error) {
-      return errorResponse(error.message, "PARSE_FAILED", 500);
-    }
-    
     return errorResponse("An unexpected error occurred", "INTERNAL_ERROR", 500);
   }
 }
@@ -165,6 +95,31 @@ export async function POST(request: NextRequest) {
 // Helpers
 // ============================================================================
 
+function rateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": rateLimit.limit.toString(),
+    "X-RateLimit-Remaining": rateLimit.remaining.toString(),
+    "X-RateLimit-Reset": rateLimit.resetAt.toISOString(),
+    "X-RateLimit-Storage": rateLimit.storage,
+  };
+}
+
+/**
+ * Parse result with the quota state; low confidence results get 422
+ */
+function successResponse(result: ParseResponse, rateLimit: RateLimitResult | null): NextResponse {
+  return NextResponse.json(
+    {
+      ...result,
+      rateLimit: rateLimit ? toRateLimitInfo(rateLimit) : undefined,
+    },
+    {
+      status: result.confidence < MIN_CONFIDENCE ? 422 : 200,
+      headers: rateLimit ? rateLimitHeaders(rateLimit) : {},
+    }
+  );
+}
+
 function errorResponse(
   message: string,
   code: ParseError["code"],
@@ -4,29 +4,111 @@
  * ImageToWo Home Page
  * 
  * Main application flow:
- * 1. Upload workout image
+ * 1. Upload workout image (or import an existing .zwo file, or several images at once);
+ *    an image holding several workouts lists them to pick one or keep all
  * 2. AI parses to structured workout
- * 3. Edit workout if needed
- * 4. Export as .zwo file
+ * 3. Edit workout if needed, with undo/redo; a refresh reopens the workout being edited
+ * 4. Export as .zwo (or .fit, .erg, .mrc) file
  */
 
-import React, { useState, useCallback } from "react";
-import { Download, Loader2, ArrowRight, Upload, Sparkles, ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
+import React, { useState, useCallback, useEffect } from "react";
+import { Download, Loader2, ArrowRight, Upload, Sparkles, ChevronDown, ChevronUp, ExternalLink, AlertTriangle, History, ArrowLeft } from "lucide-react";
 import { Uploader } from "@/components/uploader";
 import { WorkoutEditor } from "@/components/workout-editor";
 import { WorkoutMetrics } from "@/components/workout-metrics";
+import { HistoryPanel } from "@/components/history-panel";
 import { LanguageSwitcher } from "@/components/language-switcher";
 import { QuotaBadge } from "@/components/quota-badge";
+import { ParseProgress } from "@/components/parse-progress";
+import { BatchList, type BatchListEntry } from "@/components/batch-list";
 import { Button } from "@/components/ui/button";
 import { useTranslation } from "@/lib/i18n";
-import { useQuota } from "@/lib/hooks";
-import type { Workout, ParseResponse } from "@/lib/schemas";
+import { useQuota, useParseJob, useWorkoutHistory } from "@/lib/hooks";
+import { useSettings } from "@/lib/settings";
+import {
+  formatExportWarning,
+  readExportWarnings,
+  type DownloadWarnings,
+  type ExportFormat,
+} from "@/lib/services/export-warnings";
+import { fillTemplate } from "@/lib/services/parse-warnings";
+import { resolveZoneTargets } from "@/lib/utils/zones";
+import type { ParseResponse, ParseWarning, StepSource, BatchParseResponse, DetectedWorkout } from "@/lib/schemas";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type AppState = "upload" | "loading" | "edit";
+type AppState = "upload" | "loading" | "edit" | "batch";
+
+/** A batch image and its parse, kept while the batch is open */
+interface BatchEntry extends BatchListEntry {
+  file: File;
+  warnings: ParseWarning[];
+  stepSources?: StepSource[];
+  printedDurationS?: number;
+  cached?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXPORT_ENDPOINTS: Record<ExportFormat, string> = {
+  zwo: "/api/workouts/export/zwo",
+  fit: "/api/workouts/export/fit",
+  erg: "/api/workouts/export/erg",
+  mrc: "/api/workouts/export/mrc",
+};
+
+const SECONDARY_EXPORT_FORMATS: Exclude<ExportFormat, "zwo">[] = ["fit", "erg", "mrc"];
+
+const BATCH_PARSE_ENDPOINT = "/api/workouts/parse/batch";
+const ZIP_EXPORT_ENDPOINT = "/api/workouts/export/zip";
+
+const NO_EXPORT_WARNINGS: DownloadWarnings = { warnings: [], count: 0 };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Batch entries of a parsed image: one per workout it holds
+ */
+function toBatchEntries(file: File, result: ParseResponse): BatchEntry[] {
+  const detected: DetectedWorkout[] = result.workouts ?? [result];
+  return detected.map((item) => ({
+    file,
+    filename: file.name,
+    day: item.day,
+    workout: item.workout,
+    warnings: item.warnings,
+    confidence: item.confidence,
+    stepSources: item.step_sources,
+    printedDurationS: item.printed_duration_s,
+    cached: result.cached,
+  }));
+}
+
+/**
+ * Save a file download response under its Content-Disposition filename
+ */
+async function downloadResponse(response: Response, fallbackFilename: string): Promise<void> {
+  const blob = await response.blob();
+  const filename =
+    response.headers
+      .get("Content-Disposition")
+      ?.match(/filename="(.+)"/)?.[1] || fallbackFilename;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 // ============================================================================
 // Component
@@ -34,13 +116,44 @@ type AppState = "upload" | "loading" | "edit";
 
 export default function Home() {
   const [state, setState] = useState<AppState>("upload");
-  const [workout, setWorkout] = useState<Workout | null>(null);
-  const [warnings, setWarnings] = useState<string[]>([]);
-  const [confidence, setConfidence] = useState<number>(0);
-  const [isExporting, setIsExporting] = useState(false);
+  const [sourceImage, setSourceImage] = useState<string | undefined>(undefined);
+  const [cached, setCached] = useState(false);
+  const [batch, setBatch] = useState<BatchEntry[]>([]);
+  const [batchIndex, setBatchIndex] = useState<number | null>(null);
+  const [isExportingZip, setIsExportingZip] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [exportWarnings, setExportWarnings] = useState<DownloadWarnings>(NO_EXPORT_WARNINGS);
   const [error, setError] = useState<string | null>(null);
   
   const { fingerprint, updateQuota, hasQuota } = useQuota();
+  const { progress, run: runParseJob, cancel: cancelParseJob } = useParseJob();
+  const { settings } = useSettings();
+  const history = useWorkoutHistory();
+  const { workout, warnings, session, mapWorkouts, start: openWorkout, end: closeWorkout } = history;
+
+  // A refreshed page reopens the workout being edited, without its image
+  useEffect(() => {
+    if (history.restored) setState("edit");
+  }, [history.restored]);
+
+  // Zone targets follow the rider's zone model when it changes
+  useEffect(() => {
+    mapWorkouts((current) => ({ ...current, steps: resolveZoneTargets(current.steps, settings.zoneModel) }));
+    setBatch((entries) =>
+      entries.map((entry) =>
+        entry.workout
+          ? { ...entry, workout: { ...entry.workout, steps: resolveZoneTargets(entry.workout.steps, settings.zoneModel) } }
+          : entry
+      )
+    );
+  }, [settings.zoneModel, mapWorkouts]);
+
+  // The uploaded image stays in memory only while its workout is edited
+  useEffect(() => {
+    return () => {
+      if (sourceImage) URL.revokeObjectURL(sourceImage);
+    };
+  }, [sourceImage]);
 
   // Handle image upload and parsing
   const handleUpload = useCallback(async (file: File) => {
@@ -49,55 +162,201 @@ export default function Home() {
 
     const formData = new FormData();
     formData.append("file", file);
+    formData.append("zone_model", settings.zoneModel);
 
     try {
-      const response = await fetch("/api/workouts/parse", {
+      const job = await runParseJob(formData, fingerprint ? { "X-Client-Fingerprint": fingerprint } : {});
+
+      // Update quota from the job
+      if (job.rateLimit) {
+        updateQuota(job.rateLimit.remaining, job.rateLimit.limit, job.rateLimit.resetAt);
+      }
+
+      if (job.stage === "cancelled") {
+        setState("upload");
+        return;
+      }
+
+      if (!job.result) {
+        throw new Error(job.error?.error || "Failed to parse workout");
+      }
+
+      const result = job.result;
+
+      // Several workouts in the image: list them to pick one or keep all
+      if (result.workouts) {
+        setBatch(toBatchEntries(file, result));
+        setState("batch");
+        return;
+      }
+
+      openWorkout({
+        workout: result.workout,
+        warnings: result.warnings,
+        confidence: result.confidence,
+        stepSources: result.step_sources,
+        printedDurationS: result.printed_duration_s,
+      });
+      setSourceImage(URL.createObjectURL(file));
+      setCached(result.cached ?? false);
+      setState("edit");
+    } catch (err) {
+      // Cancelled by the user: back to the upload without an error
+      if (err instanceof Error && err.name === "AbortError") {
+        setState("upload");
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Failed to parse workout");
+      setState("upload");
+    }
+  }, [fingerprint, updateQuota, settings.zoneModel, runParseJob, openWorkout]);
+
+  // Handle several images at once, listing the workouts read from each
+  const handleUploadMany = useCallback(async (files: File[]) => {
+    setState("loading");
+    setError(null);
+
+    const formData = new FormData();
+    for (const file of files) {
+      formData.append("file", file);
+    }
+    formData.append("zone_model", settings.zoneModel);
+
+    try {
+      const response = await fetch(BATCH_PARSE_ENDPOINT, {
         method: "POST",
         body: formData,
         headers: fingerprint ? { "X-Client-Fingerprint": fingerprint } : {},
       });
 
       const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to parse workouts");
+      }
 
-      // Handle rate limit error
-      if (response.status === 429) {
-        throw new Error(data.error || "Daily limit reached");
+      const result = data as BatchParseResponse;
+      if (result.rateLimit) {
+        updateQuota(result.rateLimit.remaining, result.rateLimit.limit, result.rateLimit.resetAt);
       }
 
-      if (!response.ok && !data.workout) {
-        throw new Error(data.error || "Failed to parse workout");
+      setBatch(
+        result.items.flatMap((item, i) =>
+          item.result
+            ? toBatchEntries(files[i], item.result)
+            : [{ file: files[i], filename: item.filename, warnings: [], error: item.error?.error }]
+        )
+      );
+      setState("batch");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to parse workouts");
+      setState("upload");
+    }
+  }, [fingerprint, updateQuota, settings.zoneModel]);
+
+  // Open a batch workout in the editor
+  const handleOpenBatchItem = useCallback((index: number) => {
+    const entry = batch[index];
+    if (!entry?.workout) return;
+
+    openWorkout({
+      workout: entry.workout,
+      warnings: entry.warnings,
+      confidence: entry.confidence ?? 0,
+      stepSources: entry.stepSources,
+      printedDurationS: entry.printedDurationS,
+    });
+    setSourceImage(URL.createObjectURL(entry.file));
+    setCached(entry.cached ?? false);
+    setExportWarnings(NO_EXPORT_WARNINGS);
+    setBatchIndex(index);
+    setState("edit");
+  }, [batch, openWorkout]);
+
+  // Keep the edits, and the warnings that followed them, and go back to the batch list
+  const handleBackToBatch = useCallback(() => {
+    if (batchIndex !== null && workout) {
+      setBatch((entries) => entries.map((entry, i) => (i === batchIndex ? { ...entry, workout, warnings } : entry)));
+    }
+    closeWorkout();
+    setBatchIndex(null);
+    setSourceImage(undefined);
+    setState("batch");
+  }, [batchIndex, workout, warnings, closeWorkout]);
+
+  // Download every parsed workout of the batch as .zwo files in one ZIP
+  const handleExportZip = useCallback(async () => {
+    const workouts = batch.flatMap((entry) => (entry.workout ? [entry.workout] : []));
+    if (workouts.length === 0) return;
+
+    setIsExportingZip(true);
+    setExportWarnings(NO_EXPORT_WARNINGS);
+
+    try {
+      const response = await fetch(ZIP_EXPORT_ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workouts, ftp: settings.ftp, lthr: settings.lthr, threshold_pace: settings.thresholdPace }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to export");
       }
 
-      const result = data as ParseResponse & { 
-        rateLimit?: { remaining: number; limit: number; resetAt: string } 
-      };
-      
-      // Update quota from response
-      if (result.rateLimit) {
-        updateQuota(result.rateLimit.remaining, result.rateLimit.limit, result.rateLimit.resetAt);
+      setExportWarnings(readExportWarnings(response.headers));
+
+      await downloadResponse(response, "workouts.zip");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export");
+    } finally {
+      setIsExportingZip(false);
+    }
+  }, [batch, settings.ftp, settings.lthr, settings.thresholdPace]);
+
+  // Handle .zwo import (no AI call, no quota consumed)
+  const handleImport = useCallback(async (file: File) => {
+    setState("loading");
+    setError(null);
+
+    const formData = new FormData();
+    formData.append("file", file);
+
+    try {
+      const response = await fetch("/api/workouts/import/zwo", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import workout");
       }
-      
-      setWorkout(result.workout);
-      setWarnings(result.warnings);
-      setConfidence(result.confidence);
+
+      const result = data as ParseResponse;
+      openWorkout({ workout: result.workout, warnings: result.warnings, confidence: result.confidence });
+      setSourceImage(undefined);
+      setCached(false);
       setState("edit");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to parse workout");
+      setError(err instanceof Error ? err.message : "Failed to import workout");
       setState("upload");
     }
-  }, [fingerprint, updateQuota]);
+  }, [openWorkout]);
 
-  // Handle ZWO export
-  const handleExport = useCallback(async () => {
+  // Handle file export (ZWO or FIT)
+  const handleExport = useCallback(async (format: ExportFormat) => {
     if (!workout) return;
 
-    setIsExporting(true);
+    setExportingFormat(format);
+    setExportWarnings(NO_EXPORT_WARNINGS);
 
     try {
-      const response = await fetch("/api/workouts/export/zwo", {
+      const response = await fetch(EXPORT_ENDPOINTS[format], {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ workout }),
+        // FTP, LTHR and threshold pace convert watt, heart rate and pace targets (.erg always needs the FTP)
+        body: JSON.stringify({ workout, ftp: settings.ftp, lthr: settings.lthr, threshold_pace: settings.thresholdPace }),
       });
 
       if (!response.ok) {
@@ -105,36 +364,29 @@ export default function Home() {
         throw new Error(data.error || "Failed to export");
       }
 
+      // Targets the format could not represent exactly (e.g. power bands)
+      setExportWarnings(readExportWarnings(response.headers));
+
       // Download the file
-      const blob = await response.blob();
-      const filename =
-        response.headers
-          .get("Content-Disposition")
-          ?.match(/filename="(.+)"/)?.[1] || "workout.zwo";
-
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadResponse(response, `workout.${format}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to export");
     } finally {
-      setIsExporting(false);
+      setExportingFormat(null);
     }
-  }, [workout]);
+  }, [workout, settings.ftp, settings.lthr, settings.thresholdPace]);
 
   // Reset to upload state
   const handleReset = useCallback(() => {
     setState("upload");
-    setWorkout(null);
-    setWarnings([]);
-    setConfidence(0);
+    closeWorkout();
+    setExportWarnings(NO_EXPORT_WARNINGS);
+    setSourceImage(undefined);
+    setCached(false);
+    setBatch([]);
+    setBatchIndex(null);
     setError(null);
-  }, []);
+  }, [closeWorkout]);
 
   const t = useTranslation();
 
@@ -146,7 +398,13 @@ export default function Home() {
           <h1 className="text-xl font-bold">{t("appName")}</h1>
           <div className="flex items-center gap-3">
             <LanguageSwitcher />
-            {state === "edit" && (
+            {state === "edit" && batchIndex !== null && (
+              <Button variant="outline" size="sm" onClick={handleBackToBatch}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t("backToBatch")}
+              </Button>
+            )}
+            {(state === "edit" || state === "batch") && (
               <Button variant="outline" size="sm" onClick={handleReset}>
                 <Upload className="h-4 w-4 mr-2" />
                 {t("newUpload")}
@@ -181,7 +439,12 @@ export default function Home() {
         {/* Main Content */}
         {state === "upload" && (
           <div className="space-y-6">
-            <Uploader onUpload={handleUpload} isLoading={false} />
+            <Uploader
+              onUpload={handleUpload}
+              onUploadMany={handleUploadMany}
+              onImport={handleImport}
+              isLoading={false}
+            />
             
             {error && (
               <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 text-destructive text-sm">
@@ -217,19 +480,68 @@ export default function Home() {
             <p className="text-sm text-muted-foreground mt-1">
               {t("loadingSubtitle")}
             </p>
+            {progress && (
+              <>
+                <ParseProgress progress={progress} className="mt-6" />
+                <Button variant="outline" size="sm" className="mt-6" onClick={cancelParseJob}>
+                  {t("cancelParse")}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {state === "batch" && (
+          <div className="space-y-6">
+            <BatchList
+              entries={batch}
+              onOpen={handleOpenBatchItem}
+              onExportZip={handleExportZip}
+              isExporting={isExportingZip}
+            />
+
+            {/* Export Warnings */}
+            {exportWarnings.count > 0 && (
+              <ExportWarningsNotice warnings={exportWarnings} />
+            )}
+
+            {error && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 text-destructive text-sm">
+                {error}
+              </div>
+            )}
           </div>
         )}
 
-        {state === "edit" && workout && (
+        {state === "edit" && workout && session && (
           <div className="space-y-6">
+            {cached && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <History className="h-4 w-4" />
+                {t("cachedResult")}
+              </p>
+            )}
+
             {/* Workout Metrics (TSS/IF) */}
             <WorkoutMetrics workout={workout} />
 
+            <HistoryPanel
+              history={session.history}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              onGoTo={history.goTo}
+            />
+
             <WorkoutEditor
               workout={workout}
               warnings={warnings}
-              confidence={confidence}
-              onChange={setWorkout}
+              confidence={session.confidence}
+              stepSources={history.stepSources}
+              sourceImage={sourceImage}
+              printedDurationS={session.printedDurationS}
+              onChange={history.edit}
             />
 
             {/* Export Section */}
@@ -245,27 +557,54 @@ export default function Home() {
                     {t("exportReadyDesc")}
                   </p>
                 </div>
-                <Button
-                  size="lg"
-                  onClick={handleExport}
-                  disabled={isExporting}
-                  className="group relative min-w-[240px] h-14 text-lg font-bold bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary shadow-xl hover:shadow-2xl hover:shadow-primary/25 hover:scale-105 transition-all duration-300 rounded-xl"
-                >
-                  {isExporting ? (
-                    <>
-                      <Loader2 className="h-6 w-6 mr-2 animate-spin" />
-                      {t("exporting")}
-                    </>
-                  ) : (
-                    <>
-                      <Download className="h-6 w-6 mr-2 group-hover:animate-bounce" />
-                      {t("downloadZwo")}
-                    </>
-                  )}
-                </Button>
+                <div className="flex flex-col items-center gap-2">
+                  <Button
+                    size="lg"
+                    onClick={() => handleExport("zwo")}
+                    disabled={exportingFormat !== null}
+                    className="group relative min-w-[240px] h-14 text-lg font-bold bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary shadow-xl hover:shadow-2xl hover:shadow-primary/25 hover:scale-105 transition-all duration-300 rounded-xl"
+                  >
+                    {exportingFormat === "zwo" ? (
+                      <>
+                        <Loader2 className="h-6 w-6 mr-2 animate-spin" />
+                        {t("exporting")}
+                      </>
+                    ) : (
+                      <>
+                        <Download className="h-6 w-6 mr-2 group-hover:animate-bounce" />
+                        {t("downloadZwo")}
+                      </>
+                    )}
+                  </Button>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <span className="mr-1">{t("otherFormats")}</span>
+                    {SECONDARY_EXPORT_FORMATS.map((format) => (
+                      <Button
+                        key={format}
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleExport(format)}
+                        disabled={exportingFormat !== null}
+                        title={t(`${format}FormatHint`)}
+                      >
+                        {exportingFormat === format ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4 mr-1" />
+                        )}
+                        .{format}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
 
+            {/* Export Warnings */}
+            {exportWarnings.count > 0 && (
+              <ExportWarningsNotice warnings={exportWarnings} />
+            )}
+
             {/* Import Instructions */}
             <ImportInstructions />
 
@@ -317,6 +656,36 @@ function FeatureCard({
   );
 }
 
+function ExportWarningsNotice({ warnings }: { warnings: DownloadWarnings }) {
+  const t = useTranslation();
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-4">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-medium text-amber-700 dark:text-amber-400">
+            {t("exportWarnings")}
+          </p>
+          <ul className="mt-1 text-sm text-amber-600 dark:text-amber-300 space-y-1">
+            {warnings.warnings.map((warning, i) => (
+              <li key={i}>• {formatExportWarning(warning, t)}</li>
+            ))}
+            {/* A ZIP export lists its warnings in the archive */}
+            {warnings.warnings.length === 0 && (
+              <li>• {fillTemplate(t("exportWarningsInArchive"), { count: warnings.count })}</li>
+            )}
+            {/* Past the header limit, the rest is only counted */}
+            {warnings.warnings.length > 0 && warnings.count > warnings.warnings.length && (
+              <li>{fillTemplate(t("exportWarningsMore"), { count: warnings.count - warnings.warnings.length })}</li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function ImportInstructions() {
   const [openSection, setOpenSection] = useState<string | null>(null);
   const t = useTranslation();
@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * BatchList Component
+ *
+ * Workouts parsed from a batch upload, or read from one image holding
+ * several (a weekly plan), in upload and reading order. Each workout opens
+ * in the editor; all of them download as one ZIP.
+ *
+ * Constitution Principle II: Honest AI
+ * - Images that failed are listed with their error, never dropped
+ * - Low-confidence workouts are flagged before they are exported
+ */
+
+import React from "react";
+import { AlertTriangle, Download, FileImage, Loader2, Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/lib/i18n";
+import { getTotalDuration } from "@/lib/utils/steps";
+import { formatDuration } from "@/lib/utils/metrics";
+import type { Workout } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchListEntry {
+  filename: string;
+  /** Day label, for workouts read from an image holding several */
+  day?: string;
+  workout?: Workout;
+  confidence?: number;
+  error?: string;
+}
+
+interface BatchListProps {
+  entries: BatchListEntry[];
+  onOpen: (index: number) => void;
+  onExportZip: () => void;
+  isExporting?: boolean;
+  className?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Same threshold as the partial success of the parse API
+const LOW_CONFIDENCE = 0.5;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function BatchList({ entries, onOpen, onExportZip, isExporting = false, className }: BatchListProps) {
+  const t = useTranslation();
+  const parsedCount = entries.filter((entry) => entry.workout).length;
+  const failedCount = entries.length - parsedCount;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold">{t("batchTitle")}</h2>
+          <p className="text-sm text-muted-foreground">
+            {parsedCount} {t("batchParsed")}
+            {failedCount > 0 && ` · ${failedCount} ${t("batchFailed")}`}
+          </p>
+        </div>
+        <Button onClick={onExportZip} disabled={isExporting || parsedCount === 0}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          {t("downloadZip")}
+        </Button>
+      </div>
+
+      <ul className="divide-y rounded-lg border">
+        {entries.map((entry, i) => (
+          <li key={i} className="flex items-center gap-3 p-3">
+            <FileImage className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium">
+                {entry.day && <span className="mr-2 text-primary">{entry.day}</span>}
+                {entry.workout?.name ?? entry.filename}
+              </p>
+              {entry.workout ? (
+                <p className="truncate text-xs text-muted-foreground">
+                  {entry.filename} · {formatDuration(getTotalDuration(entry.workout.steps))} ·{" "}
+                  {entry.workout.steps.length} {t("steps")}
+                </p>
+              ) : (
+                <p className="truncate text-xs text-destructive">{entry.error}</p>
+              )}
+            </div>
+            {entry.confidence !== undefined && entry.confidence < LOW_CONFIDENCE && (
+              <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {Math.round(entry.confidence * 100)}%
+              </span>
+            )}
+            {entry.workout && (
+              <Button variant="outline" size="sm" onClick={() => onOpen(i)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                {t("batchOpen")}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+/**
+ * HistoryPanel Component
+ *
+ * Undo/redo buttons and the list of changes made to the edited workout,
+ * newest last. Clicking a change goes back (or forward) to it; changes
+ * after the current one stay listed, dimmed, until a new edit drops them.
+ */
+
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, History, Redo2, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/lib/i18n";
+import type { EditHistory } from "@/lib/services/edit-history";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface HistoryPanelProps<T> {
+  history: EditHistory<T>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (index: number) => void;
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function HistoryPanel<T>({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onGoTo,
+  className,
+}: HistoryPanelProps<T>) {
+  const [expanded, setExpanded] = useState(false);
+  const { locale, t } = useI18n();
+
+  return (
+    <div className={cn("border rounded-lg overflow-hidden", className)}>
+      <div className="flex items-center justify-between p-4 bg-muted/10">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-left"
+        >
+          <History className="h-4 w-4 text-muted-foreground" />
+          <Label className="cursor-pointer">{t("history")}</Label>
+          <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
+            {history.entries.length - 1}
+          </span>
+          {expanded ? (
+            <ChevronUp className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          )}
+        </button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title={`${t("undo")} (Ctrl+Z)`}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            {t("undo")}
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title={`${t("redo")} (Ctrl+Shift+Z)`}>
+            <Redo2 className="h-4 w-4 mr-2" />
+            {t("redo")}
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="p-4 space-y-3 border-t">
+          <p className="text-xs text-muted-foreground">{t("historyHint")}</p>
+          <ol className="text-sm space-y-1 max-h-64 overflow-y-auto">
+            {history.entries.map((entry, i) => (
+              <li key={`${i}-${entry.at}`}>
+                <button
+                  type="button"
+                  onClick={() => onGoTo(i)}
+                  aria-current={i === history.index ? "step" : undefined}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-4 rounded px-2 py-1 text-left hover:bg-muted",
+                    i === history.index && "bg-primary/10 font-medium",
+                    i > history.index && "text-muted-foreground"
+                  )}
+                >
+                  <span>
+                    {entry.stepIndex !== undefined && `${t("step")} ${entry.stepIndex + 1}: `}
+                    {t(entry.label)}
+                  </span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {new Date(entry.at).toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
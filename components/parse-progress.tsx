@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * ParseProgress Component
+ *
+ * Lists the stages of a running parse job: finished stages are checked,
+ * the current one spins. The repair stage only shows once the model's
+ * answer needed a repair.
+ */
+
+import React from "react";
+import { Check, Circle, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTranslation, type TranslationKey } from "@/lib/i18n";
+import type { ParseJobProgress } from "@/lib/hooks";
+import type { ParseJobStage } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ProgressStage = Extract<ParseJobStage, "validating" | "preprocessing" | "model" | "repair">;
+
+interface ParseProgressProps {
+  progress: ParseJobProgress;
+  className?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STAGE_LABELS: Record<ProgressStage, TranslationKey> = {
+  validating: "stageValidating",
+  preprocessing: "stagePreprocessing",
+  model: "stageModel",
+  repair: "stageRepair",
+};
+
+const STAGES: ProgressStage[] = ["validating", "preprocessing", "model", "repair"];
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function ParseProgress({ progress, className }: ParseProgressProps) {
+  const t = useTranslation();
+  const current = STAGES.indexOf(progress.stage as ProgressStage);
+  const stages = progress.stage === "repair" ? STAGES : STAGES.filter((stage) => stage !== "repair");
+
+  return (
+    <ol className={cn("space-y-2 text-sm", className)}>
+      {stages.map((stage) => {
+        const index = STAGES.indexOf(stage);
+        const done = index < current;
+        const active = index === current;
+
+        return (
+          <li
+            key={stage}
+            className={cn(
+              "flex items-center gap-2",
+              done || active ? "text-foreground" : "text-muted-foreground"
+            )}
+          >
+            {done ? (
+              <Check className="h-4 w-4 text-green-600" />
+            ) : active ? (
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            ) : (
+              <Circle className="h-4 w-4" />
+            )}
+            {t(STAGE_LABELS[stage])}
+            {active && stage === "repair" && progress.attempt !== undefined && (
+              <span className="text-muted-foreground">#{progress.attempt}</span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
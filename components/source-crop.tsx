@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * SourceCrop Component
+ *
+ * Shows the region of the uploaded image a step was read from,
+ * so a dubious step can be checked against the original.
+ *
+ * Constitution Principle V: Privacy by Default
+ * - Reads the in-memory object URL of the upload, nothing is stored
+ */
+
+import React, { useState } from "react";
+import { cn } from "@/lib/utils";
+import type { SourceRegion } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SourceCropProps {
+  src: string;
+  region: SourceRegion;
+  alt?: string;
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function SourceCrop({ src, region, alt = "", className }: SourceCropProps) {
+  // The crop keeps the region's real aspect ratio once the image size is known
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const aspectRatio = imageSize
+    ? (region.width * imageSize.width) / (region.height * imageSize.height)
+    : region.width / region.height;
+
+  return (
+    <div
+      className={cn("relative overflow-hidden rounded-md border bg-muted", className)}
+      style={{ aspectRatio }}
+    >
+      <img
+        src={src}
+        alt={alt}
+        onLoad={(e) =>
+          setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+        }
+        className="absolute max-w-none"
+        style={{
+          width: `${100 / region.width}%`,
+          height: `${100 / region.height}%`,
+          left: `${(-region.x / region.width) * 100}%`,
+          top: `${(-region.y / region.height) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
@@ -7,14 +7,38 @@
  * Adapts form fields based on step type.
  */
 
-import React from "react";
-import { Trash2, GripVertical } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import { Trash2, GripVertical, Plus, MessageSquare, X, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useTranslation } from "@/lib/i18n";
-import type { Step, StepType } from "@/lib/schemas";
+import { SourceCrop } from "@/components/source-crop";
+import { useTranslation, type TranslationKey } from "@/lib/i18n";
+import { useSettings } from "@/lib/settings";
+import { formatCadence, getPowerBand, getPowerTarget } from "@/lib/utils/steps";
+import { parseZone, rangeTarget, zoneTarget } from "@/lib/utils/zones";
+import {
+  DEFAULT_TARGET_UNIT,
+  changeStepTargetUnit,
+  convertStepTargets,
+  convertTargetUpdates,
+  formatTargetNumber,
+  getDisplayUnit,
+  getTargetUnit,
+  parsePace,
+} from "@/lib/utils/targets";
+import { MAX_REPEAT, TARGET_LIMITS, TargetUnitSchema } from "@/lib/schemas";
+import type {
+  Step,
+  StepType,
+  StepSource,
+  CadenceTarget,
+  TextEvent,
+  PowerTarget,
+  TargetUnit,
+  ZoneModelName,
+} from "@/lib/schemas";
 
 // ============================================================================
 // Types
@@ -26,6 +50,10 @@ interface StepEditorProps {
   onChange: (step: Step) => void;
   onDelete: () => void;
   className?: string;
+  /** Confidence and image region of a parsed step */
+  source?: StepSource;
+  /** Uploaded image the step was parsed from */
+  sourceImage?: string;
   // Drag and drop props
   isDragging?: boolean;
   isDragOver?: boolean;
@@ -45,6 +73,63 @@ const STEP_COLORS: Record<StepType, string> = {
   steady: "border-l-green-500 bg-green-500/5",
   intervals: "border-l-red-500 bg-red-500/5",
   freeride: "border-l-gray-500 bg-gray-500/5",
+  repeat: "border-l-purple-500 bg-purple-500/5",
+};
+
+/** Parsed steps below this confidence are highlighted for review */
+export const LOW_STEP_CONFIDENCE = 0.8;
+
+const TARGET_UNIT_LABELS: Record<TargetUnit, TranslationKey> = {
+  ftp_pct: "targetUnitFtp",
+  watts: "targetUnitWatts",
+  lthr_pct: "targetUnitLthr",
+  bpm: "targetUnitBpm",
+  pace_pct: "targetUnitPace",
+  sec_per_km: "targetUnitPerKm",
+  sec_per_mile: "targetUnitPerMile",
+};
+
+/**
+ * Default values for newly added steps
+ */
+export const DEFAULT_STEPS: Record<StepType, Step> = {
+  warmup: {
+    type: "warmup",
+    duration_s: 300,
+    power_start_pct: 50,
+    power_end_pct: 75,
+  },
+  cooldown: {
+    type: "cooldown",
+    duration_s: 300,
+    power_start_pct: 70,
+    power_end_pct: 40,
+  },
+  steady: {
+    type: "steady",
+    duration_s: 600,
+    power_pct: 75,
+  },
+  intervals: {
+    type: "intervals",
+    repeat: 5,
+    on_duration_s: 60,
+    off_duration_s: 60,
+    on_power_pct: 100,
+    off_power_pct: 50,
+  },
+  freeride: {
+    type: "freeride",
+    duration_s: 300,
+  },
+  repeat: {
+    type: "repeat",
+    repeat: 3,
+    steps: [
+      { type: "steady", duration_s: 600, power_pct: 90 },
+      { type: "steady", duration_s: 180, power_pct: 110 },
+    ],
+  },
 };
 
 // ============================================================================
@@ -67,6 +152,81 @@ function parseDuration(value: string): number {
   return parseInt(value, 10) * 60 || 60;
 }
 
+/**
+ * Parse a message offset like a duration, except that empty means the step start
+ */
+function parseOffset(value: string): number {
+  if (value.includes(":")) {
+    return parseDuration(value);
+  }
+  return Math.max(0, parseInt(value, 10) * 60 || 0);
+}
+
+/**
+ * Parse "90" or "85-95" into a cadence target; empty clears it
+ */
+function parseCadence(value: string): CadenceTarget {
+  const clamp = (rpm: string) => Math.max(20, Math.min(200, parseInt(rpm, 10)));
+  const range = value.match(/^\s*(\d+)\s*-\s*(\d+)/);
+  if (range) {
+    const [low, high] = [clamp(range[1]), clamp(range[2])];
+    return { cadence_rpm: undefined, cadence_low_rpm: Math.min(low, high), cadence_high_rpm: Math.max(low, high) };
+  }
+  const single = value.match(/^\s*(\d+)/);
+  return {
+    cadence_rpm: single ? clamp(single[1]) : undefined,
+    cadence_low_rpm: undefined,
+    cadence_high_rpm: undefined,
+  };
+}
+
+/**
+ * Parse a typed target value: a number, or "4:30" for absolute pace
+ */
+function parseTargetInput(value: string, unit: TargetUnit): number | null {
+  const parsed = unit === "sec_per_km" || unit === "sec_per_mile" ? parsePace(value) : parseInt(value, 10);
+  if (parsed === null || isNaN(parsed)) return null;
+  return Math.max(TARGET_LIMITS[unit].min, Math.min(TARGET_LIMITS[unit].max, Math.round(parsed)));
+}
+
+/**
+ * Parse "91", "88-94", "4:20-4:40" or "Z3" into a target in `unit`;
+ * null keeps the current one.
+ * Band and zone fields are always set so a plain value clears them.
+ * Zones only apply to %FTP.
+ */
+function parsePowerTarget(value: string, model: ZoneModelName, unit: TargetUnit): PowerTarget | null {
+  const zone = unit === "ftp_pct" ? parseZone(value) : null;
+  const [first, second] = value.split("-").map((part) => parseTargetInput(part, unit));
+
+  const target: PowerTarget | null = zone
+    ? zoneTarget(zone, model)
+    : first !== null && second !== undefined && second !== null
+      ? rangeTarget(first, second)
+      : first !== null
+        ? { power_pct: first }
+        : null;
+
+  return target && {
+    power_pct: target.power_pct,
+    power_low_pct: target.power_low_pct,
+    power_high_pct: target.power_high_pct,
+    power_zone: target.power_zone,
+  };
+}
+
+/**
+ * Show a power target the way it is typed: "Z3", "88-94", "91" or "4:30"
+ */
+function formatPowerInput(target: PowerTarget | null, unit: TargetUnit): string {
+  if (!target) return "";
+  if (target.power_zone && unit === "ftp_pct") return target.power_zone;
+  const band = getPowerBand(target);
+  return band
+    ? `${formatTargetNumber(band.low_pct, unit)}-${formatTargetNumber(band.high_pct, unit)}`
+    : formatTargetNumber(target.power_pct, unit);
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -77,6 +237,8 @@ export function StepEditor({
   onChange,
   onDelete,
   className,
+  source,
+  sourceImage,
   isDragging = false,
   isDragOver = false,
   onDragStart,
@@ -85,29 +247,45 @@ export function StepEditor({
   onDragLeave,
 }: StepEditorProps) {
   const t = useTranslation();
+  const { settings } = useSettings();
+
+  // Targets are shown in the display unit from settings (%FTP ↔ W, %LTHR ↔ bpm,
+  // % threshold pace ↔ min/km) and edits are converted back to the step's own unit
+  const references = { ftp: settings.ftp, lthr: settings.lthr, thresholdPace: settings.thresholdPace };
+  const nativeUnit = getTargetUnit(step) ?? DEFAULT_TARGET_UNIT;
+  const displayUnit = getDisplayUnit(nativeUnit, settings.targetDisplay);
+  const shown: Step = step.type === "repeat" ? step : convertStepTargets(step, displayUnit, references) ?? step;
+  const toNative = <T extends object>(updates: T): T =>
+    convertTargetUpdates(updates, displayUnit, nativeUnit, references);
+
+  const changeUnit = (unit: TargetUnit) => {
+    if (step.type !== "repeat") {
+      onChange(changeStepTargetUnit(step, unit, references));
+    }
+  };
   
   // Type-safe update functions for each step type
   const updateWarmup = (updates: Partial<Extract<Step, { type: "warmup" }>>) => {
     if (step.type === "warmup") {
-      onChange({ ...step, ...updates });
+      onChange({ ...step, ...toNative(updates) });
     }
   };
 
   const updateCooldown = (updates: Partial<Extract<Step, { type: "cooldown" }>>) => {
     if (step.type === "cooldown") {
-      onChange({ ...step, ...updates });
+      onChange({ ...step, ...toNative(updates) });
     }
   };
 
   const updateSteady = (updates: Partial<Extract<Step, { type: "steady" }>>) => {
     if (step.type === "steady") {
-      onChange({ ...step, ...updates });
+      onChange({ ...step, ...toNative(updates) });
     }
   };
 
   const updateIntervals = (updates: Partial<Extract<Step, { type: "intervals" }>>) => {
     if (step.type === "intervals") {
-      onChange({ ...step, ...updates });
+      onChange({ ...step, ...toNative(updates) });
     }
   };
 
@@ -117,9 +295,17 @@ export function StepEditor({
     }
   };
 
+  const updateRepeat = (updates: Partial<Extract<Step, { type: "repeat" }>>) => {
+    if (step.type === "repeat") {
+      onChange({ ...step, ...updates });
+    }
+  };
+
+  const isLowConfidence = source !== undefined && source.confidence < LOW_STEP_CONFIDENCE;
+
   return (
     <div
-      draggable
+      draggable={!!onDragStart}
       onDragStart={(e) => {
         e.dataTransfer.effectAllowed = "move";
         onDragStart?.();
@@ -132,6 +318,7 @@ export function StepEditor({
         STEP_COLORS[step.type],
         isDragging && "opacity-50 scale-95",
         isDragOver && "ring-2 ring-primary ring-offset-2",
+        isLowConfidence && !isDragOver && "ring-2 ring-amber-500/60",
         className
       )}
     >
@@ -143,6 +330,15 @@ export function StepEditor({
             {index + 1}
           </span>
           <span className="font-medium">{t(step.type)}</span>
+          {isLowConfidence && (
+            <span
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-500/10 text-amber-700 dark:text-amber-400"
+              title={t("checkStep")}
+            >
+              <AlertTriangle className="h-3 w-3" />
+              {Math.round(source.confidence * 100)}% {t("confidence")}
+            </span>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -155,61 +351,100 @@ export function StepEditor({
         </Button>
       </div>
 
+      {/* Source image region of a dubious step, to compare with the fields */}
+      {isLowConfidence && source.region && sourceImage && (
+        <div className="mb-3">
+          <Label className="text-xs text-muted-foreground">{t("checkStep")}</Label>
+          <SourceCrop
+            src={sourceImage}
+            region={source.region}
+            alt={`${t(step.type)} ${index + 1}`}
+            className="mt-1 max-h-40 max-w-md"
+          />
+        </div>
+      )}
+
       {/* Fields based on step type */}
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
-        {step.type === "warmup" && (
+        {shown.type === "warmup" && (
           <>
             <DurationField
-              value={step.duration_s}
+              value={shown.duration_s}
               onChange={(v) => updateWarmup({ duration_s: v })}
             />
             <PowerField
               label={t("startPower")}
-              value={step.power_start_pct}
+              unit={displayUnit}
+              value={shown.power_start_pct}
               onChange={(v) => updateWarmup({ power_start_pct: v })}
             />
             <PowerField
               label={t("endPower")}
-              value={step.power_end_pct}
+              unit={displayUnit}
+              value={shown.power_end_pct}
               onChange={(v) => updateWarmup({ power_end_pct: v })}
             />
+            <CadenceField
+              label={t("cadence")}
+              value={formatCadence(shown)}
+              onChange={(v) => updateWarmup(parseCadence(v))}
+            />
+            <TargetUnitField value={nativeUnit} onChange={changeUnit} />
           </>
         )}
 
-        {step.type === "cooldown" && (
+        {shown.type === "cooldown" && (
           <>
             <DurationField
-              value={step.duration_s}
+              value={shown.duration_s}
               onChange={(v) => updateCooldown({ duration_s: v })}
             />
             <PowerField
               label={t("startPower")}
-              value={step.power_start_pct}
+              unit={displayUnit}
+              value={shown.power_start_pct}
               onChange={(v) => updateCooldown({ power_start_pct: v })}
             />
             <PowerField
               label={t("endPower")}
-              value={step.power_end_pct}
+              unit={displayUnit}
+              value={shown.power_end_pct}
               onChange={(v) => updateCooldown({ power_end_pct: v })}
             />
+            <CadenceField
+              label={t("cadence")}
+              value={formatCadence(shown)}
+              onChange={(v) => updateCooldown(parseCadence(v))}
+            />
+            <TargetUnitField value={nativeUnit} onChange={changeUnit} />
           </>
         )}
 
-        {step.type === "steady" && (
+        {shown.type === "steady" && (
           <>
             <DurationField
-              value={step.duration_s}
+              value={shown.duration_s}
               onChange={(v) => updateSteady({ duration_s: v })}
             />
-            <PowerField
+            <PowerTargetField
+              unit={displayUnit}
               label={t("power")}
-              value={step.power_pct}
-              onChange={(v) => updateSteady({ power_pct: v })}
+              value={formatPowerInput(getPowerTarget(shown), displayUnit)}
+              onChange={(v) => {
+                const target = parsePowerTarget(v, settings.zoneModel, displayUnit);
+                if (target) updateSteady(target);
+              }}
+            />
+            <CadenceField
+              label={t("cadence")}
+              value={formatCadence(shown)}
+              onChange={(v) => updateSteady(parseCadence(v))}
             />
+            <TargetUnitField value={nativeUnit} onChange={changeUnit} />
           </>
         )}
 
-        {step.type === "intervals" && (
+        {shown.type === "intervals" && (
           <>
             <div>
               <Label htmlFor={`repeat-${index}`} className="text-xs">
@@ -220,9 +455,9 @@ export function StepEditor({
                 type="number"
                 min={1}
                 max={50}
-                value={step.repeat}
+                value={shown.repeat}
                 onChange={(e) =>
-                  updateIntervals({ repeat: parseInt(e.target.value, 10) || 1 })
+                  updateIntervals({ repeat: Math.min(MAX_REPEAT, parseInt(e.target.value, 10) || 1) })
                 }
                 className="h-8 mt-1"
               />
@@ -233,7 +468,7 @@ export function StepEditor({
               </Label>
               <Input
                 id={`on-duration-${index}`}
-                value={formatDuration(step.on_duration_s)}
+                value={formatDuration(shown.on_duration_s)}
                 onChange={(e) =>
                   updateIntervals({ on_duration_s: parseDuration(e.target.value) })
                 }
@@ -247,7 +482,7 @@ export function StepEditor({
               </Label>
               <Input
                 id={`off-duration-${index}`}
-                value={formatDuration(step.off_duration_s)}
+                value={formatDuration(shown.off_duration_s)}
                 onChange={(e) =>
                   updateIntervals({ off_duration_s: parseDuration(e.target.value) })
                 }
@@ -255,26 +490,103 @@ export function StepEditor({
                 className="h-8 mt-1"
               />
             </div>
-            <PowerField
+            <PowerTargetField
+              unit={displayUnit}
               label={t("onPower")}
-              value={step.on_power_pct}
-              onChange={(v) => updateIntervals({ on_power_pct: v })}
+              value={formatPowerInput(getPowerTarget(shown, "on"), displayUnit)}
+              onChange={(v) => {
+                const target = parsePowerTarget(v, settings.zoneModel, displayUnit);
+                if (target) {
+                  updateIntervals({
+                    on_power_pct: target.power_pct,
+                    on_power_low_pct: target.power_low_pct,
+                    on_power_high_pct: target.power_high_pct,
+                    on_power_zone: target.power_zone,
+                  });
+                }
+              }}
             />
-            <PowerField
+            <PowerTargetField
+              unit={displayUnit}
               label={t("offPower")}
-              value={step.off_power_pct}
-              onChange={(v) => updateIntervals({ off_power_pct: v })}
+              value={formatPowerInput(getPowerTarget(shown, "off"), displayUnit)}
+              onChange={(v) => {
+                const target = parsePowerTarget(v, settings.zoneModel, displayUnit);
+                if (target) {
+                  updateIntervals({
+                    off_power_pct: target.power_pct,
+                    off_power_low_pct: target.power_low_pct,
+                    off_power_high_pct: target.power_high_pct,
+                    off_power_zone: target.power_zone,
+                  });
+                }
+              }}
+            />
+            <CadenceField
+              label={t("onCadence")}
+              value={formatCadence({ cadence_rpm: shown.on_cadence_rpm })}
+              onChange={(v) => updateIntervals({ on_cadence_rpm: parseCadence(v).cadence_rpm })}
             />
+            <CadenceField
+              label={t("offCadence")}
+              value={formatCadence({ cadence_rpm: shown.off_cadence_rpm })}
+              onChange={(v) => updateIntervals({ off_cadence_rpm: parseCadence(v).cadence_rpm })}
+            />
+            <TargetUnitField value={nativeUnit} onChange={changeUnit} />
           </>
         )}
 
         {step.type === "freeride" && (
-          <DurationField
-            value={step.duration_s}
-            onChange={(v) => updateFreeride({ duration_s: v })}
-          />
+          <>
+            <DurationField
+              value={step.duration_s}
+              onChange={(v) => updateFreeride({ duration_s: v })}
+            />
+            <CadenceField
+              label={t("cadence")}
+              value={formatCadence(step)}
+              onChange={(v) => updateFreeride(parseCadence(v))}
+            />
+          </>
+        )}
+
+        {step.type === "repeat" && (
+          <div>
+            <Label htmlFor={`repeat-${index}`} className="text-xs">
+              {t("repeat")}
+            </Label>
+            <Input
+              id={`repeat-${index}`}
+              type="number"
+              min={1}
+              max={50}
+              value={step.repeat}
+              onChange={(e) =>
+                updateRepeat({ repeat: Math.min(MAX_REPEAT, parseInt(e.target.value, 10) || 1) })
+              }
+              className="h-8 mt-1"
+            />
+          </div>
         )}
       </div>
+
+      {/* On-screen messages (repeat blocks carry them on their children) */}
+      {step.type !== "repeat" && (
+        <MessagesField
+          messages={step.messages ?? []}
+          onChange={(messages) =>
+            onChange({ ...step, messages: messages.length > 0 ? messages : undefined })
+          }
+        />
+      )}
+
+      {/* Child steps of a repeat block, edited recursively */}
+      {step.type === "repeat" && (
+        <RepeatChildren
+          steps={step.steps}
+          onChange={(steps) => updateRepeat({ steps })}
+        />
+      )}
     </div>
   );
 }
@@ -283,6 +595,118 @@ export function StepEditor({
 // Sub-components
 // ============================================================================
 
+function RepeatChildren({
+  steps,
+  onChange,
+}: {
+  steps: Step[];
+  onChange: (steps: Step[]) => void;
+}) {
+  const t = useTranslation();
+
+  const updateChild = (index: number, child: Step) => {
+    onChange(steps.map((s, i) => (i === index ? child : s)));
+  };
+
+  const deleteChild = (index: number) => {
+    // A repeat block needs at least one step
+    if (steps.length > 1) {
+      onChange(steps.filter((_, i) => i !== index));
+    }
+  };
+
+  return (
+    <div className="mt-3 pl-3 space-y-2 border-l border-dashed border-muted-foreground/30">
+      {steps.map((child, index) => (
+        <StepEditor
+          key={`child-${index}-${child.type}`}
+          step={child}
+          index={index}
+          onChange={(s) => updateChild(index, s)}
+          onDelete={() => deleteChild(index)}
+          className="p-3"
+        />
+      ))}
+      <div className="flex flex-wrap gap-1">
+        <span className="text-xs text-muted-foreground mr-1 flex items-center">
+          <Plus className="h-3 w-3 mr-1" /> {t("add")}
+        </span>
+        {(Object.keys(DEFAULT_STEPS) as StepType[]).map((type) => (
+          <Button
+            key={type}
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange([...steps, { ...DEFAULT_STEPS[type] }])}
+            className="h-7 px-2 text-xs"
+          >
+            {t(type)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MessagesField({
+  messages,
+  onChange,
+}: {
+  messages: TextEvent[];
+  onChange: (messages: TextEvent[]) => void;
+}) {
+  const t = useTranslation();
+
+  const updateMessage = (index: number, updates: Partial<TextEvent>) => {
+    onChange(messages.map((m, i) => (i === index ? { ...m, ...updates } : m)));
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {messages.map((event, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <Input
+            value={formatDuration(event.offset_s)}
+            onChange={(e) => updateMessage(index, { offset_s: parseOffset(e.target.value) })}
+            placeholder="0:00"
+            className="h-8 w-20"
+          />
+          <Input
+            value={event.message}
+            onChange={(e) => updateMessage(index, { message: e.target.value })}
+            onBlur={() => {
+              // Blank messages are not valid: drop them instead of failing the export
+              if (!event.message.trim()) {
+                onChange(messages.filter((_, i) => i !== index));
+              }
+            }}
+            placeholder={t("messagePlaceholder")}
+            maxLength={200}
+            className="h-8 flex-1"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(messages.filter((_, i) => i !== index))}
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            aria-label={t("removeMessage")}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange([...messages, { offset_s: 0, message: "" }])}
+        className="h-7 px-2 text-xs text-muted-foreground"
+      >
+        <Plus className="h-3 w-3 mr-1" /> {t("addMessage")}
+      </Button>
+    </div>
+  );
+}
+
 function DurationField({
   value,
   onChange,
@@ -306,22 +730,135 @@ function DurationField({
 
 function PowerField({
   label,
+  unit,
   value,
   onChange,
 }: {
   label: string;
+  unit: TargetUnit;
   value: number;
   onChange: (value: number) => void;
 }) {
+  const t = useTranslation();
+  const display = formatTargetNumber(value, unit);
+  const [draft, setDraft] = useState(display);
+
+  useEffect(() => {
+    setDraft(display);
+  }, [display]);
+
   return (
     <div>
-      <Label className="text-xs">{label} (%FTP)</Label>
+      <Label className="text-xs">{label} ({t(TARGET_UNIT_LABELS[unit])})</Label>
       <Input
-        type="number"
-        min={0}
-        max={200}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          const parsed = parseTargetInput(draft, unit);
+          if (parsed !== null) onChange(parsed);
+          setDraft(display);
+        }}
+        className="h-8 mt-1"
+      />
+    </div>
+  );
+}
+
+/**
+ * Free text power target ("91", "88-94" or "Z3"), applied on blur
+ */
+function PowerTargetField({
+  label,
+  unit,
+  value,
+  onChange,
+}: {
+  label: string;
+  unit: TargetUnit;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const t = useTranslation();
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div>
+      <Label className="text-xs">{label} ({t(TARGET_UNIT_LABELS[unit])})</Label>
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          onChange(draft);
+          setDraft(value);
+        }}
+        placeholder={t("powerTargetHint")}
+        className="h-8 mt-1"
+      />
+    </div>
+  );
+}
+
+/**
+ * Unit the step's targets are written in; switching converts them
+ */
+function TargetUnitField({
+  value,
+  onChange,
+}: {
+  value: TargetUnit;
+  onChange: (value: TargetUnit) => void;
+}) {
+  const t = useTranslation();
+  return (
+    <div>
+      <Label className="text-xs">{t("targetUnit")}</Label>
+      <select
         value={value}
-        onChange={(e) => onChange(parseInt(e.target.value, 10) || 0)}
+        onChange={(e) => onChange(e.target.value as TargetUnit)}
+        className="flex h-8 mt-1 w-full rounded-md border border-input bg-transparent px-2 text-sm"
+      >
+        {TargetUnitSchema.options.map((unit) => (
+          <option key={unit} value={unit}>
+            {t(TARGET_UNIT_LABELS[unit])}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Free text cadence ("90" or "85-95"), applied on blur so ranges can be typed
+ */
+function CadenceField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  onChange: (value: string) => void;
+}) {
+  const display = value?.replace(/ rpm$/, "") ?? "";
+  const [draft, setDraft] = useState(display);
+
+  useEffect(() => {
+    setDraft(display);
+  }, [display]);
+
+  return (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onChange(draft)}
+        placeholder="90"
+        inputMode="numeric"
         className="h-8 mt-1"
       />
     </div>
@@ -5,6 +5,8 @@
  * 
  * Drag-and-drop image upload with preview.
  * Supports click to select and mobile camera capture.
+ * Existing .zwo files can be imported without using the parse quota.
+ * Several images can be selected at once to parse a whole plan.
  * 
  * Constitution Principle IV: Mobile-First UX
  * - Touch-friendly drop zone
@@ -16,7 +18,7 @@
  */
 
 import React, { useCallback, useState, useRef } from "react";
-import { Upload, Camera, X, Loader2, AlertTriangle } from "lucide-react";
+import { Upload, Camera, X, Loader2, AlertTriangle, FileUp } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useTranslation, useI18n } from "@/lib/i18n";
@@ -28,18 +30,35 @@ import { useQuota, formatResetTime } from "@/lib/hooks";
 
 interface UploaderProps {
   onUpload: (file: File) => Promise<void>;
+  /** Called instead of onUpload when several images are selected at once */
+  onUploadMany?: (files: File[]) => Promise<void>;
+  /** Most images accepted at once by onUploadMany */
+  maxFiles?: number;
+  /** Called for .zwo files instead of onUpload (no quota consumed) */
+  onImport?: (file: File) => Promise<void>;
   isLoading?: boolean;
   accept?: string;
   maxSizeMB?: number;
   className?: string;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isZwoFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".zwo");
+}
+
 // ============================================================================
 // Component
 // ============================================================================
 
 export function Uploader({
   onUpload,
+  onUploadMany,
+  maxFiles = 10,
+  onImport,
   isLoading = false,
   accept = "image/jpeg,image/png,image/webp",
   maxSizeMB = 10,
@@ -50,12 +69,15 @@ export function Uploader({
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
+  const zwoInputRef = useRef<HTMLInputElement>(null);
   const t = useTranslation();
   const { locale } = useI18n();
   const { quota, hasQuota } = useQuota();
 
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
   const isDisabled = isLoading || !hasQuota;
+  // Imports are free, so only an in-flight request blocks them
+  const canImport = !!onImport && !isLoading;
 
   const validateFile = useCallback(
     (file: File): string | null => {
@@ -81,6 +103,16 @@ export function Uploader({
     async (file: File) => {
       setError(null);
 
+      if (isZwoFile(file)) {
+        if (!canImport) return;
+        try {
+          await onImport!(file);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Import failed");
+        }
+        return;
+      }
+
       const validationError = validateFile(file);
       if (validationError) {
         setError(validationError);
@@ -102,7 +134,41 @@ export function Uploader({
         setPreview(null);
       }
     },
-    [validateFile, onUpload]
+    [validateFile, onUpload, onImport, canImport]
+  );
+
+  const handleFiles = useCallback(
+    async (fileList: FileList | null | undefined) => {
+      const files = Array.from(fileList ?? []);
+      if (files.length <= 1 || !onUploadMany) {
+        if (files[0]) await handleFile(files[0]);
+        return;
+      }
+
+      setError(null);
+
+      // .zwo imports are single files, only images are batched
+      const images = files.filter((file) => !isZwoFile(file));
+      if (images.length === 0) return;
+      if (images.length > maxFiles) {
+        setError(`Too many files. Maximum: ${maxFiles}`);
+        return;
+      }
+      for (const image of images) {
+        const validationError = validateFile(image);
+        if (validationError) {
+          setError(`${image.name}: ${validationError}`);
+          return;
+        }
+      }
+
+      try {
+        await onUploadMany(images);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Upload failed");
+      }
+    },
+    [handleFile, onUploadMany, maxFiles, validateFile]
   );
 
   const handleDrop = useCallback(
@@ -110,12 +176,9 @@ export function Uploader({
       e.preventDefault();
       setIsDragging(false);
 
-      const file = e.dataTransfer.files[0];
-      if (file) {
-        handleFile(file);
-      }
+      handleFiles(e.dataTransfer.files);
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -130,12 +193,9 @@ export function Uploader({
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        handleFile(file);
-      }
+      handleFiles(e.target.files);
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const clearPreview = useCallback(() => {
@@ -147,8 +207,26 @@ export function Uploader({
     if (cameraInputRef.current) {
       cameraInputRef.current.value = "";
     }
+    if (zwoInputRef.current) {
+      zwoInputRef.current.value = "";
+    }
   }, []);
 
+  const importButton = onImport && (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={!canImport}
+      onClick={(e) => {
+        e.stopPropagation();
+        zwoInputRef.current?.click();
+      }}
+    >
+      <FileUp className="h-4 w-4 mr-2" />
+      {t("importZwo")}
+    </Button>
+  );
+
   return (
     <div className={cn("w-full", className)}>
       {/* Hidden file inputs */}
@@ -156,6 +234,7 @@ export function Uploader({
         ref={fileInputRef}
         type="file"
         accept={accept}
+        multiple={!!onUploadMany}
         onChange={handleInputChange}
         className="hidden"
         aria-label="Upload workout image"
@@ -169,6 +248,16 @@ export function Uploader({
         className="hidden"
         aria-label="Take photo of workout"
       />
+      {onImport && (
+        <input
+          ref={zwoInputRef}
+          type="file"
+          accept=".zwo"
+          onChange={handleInputChange}
+          className="hidden"
+          aria-label="Import .zwo file"
+        />
+      )}
 
       {/* Preview or Drop Zone */}
       {preview ? (
@@ -202,9 +291,9 @@ export function Uploader({
         </div>
       ) : (
         <div
-          onDrop={isDisabled ? undefined : handleDrop}
-          onDragOver={isDisabled ? undefined : handleDragOver}
-          onDragLeave={isDisabled ? undefined : handleDragLeave}
+          onDrop={isDisabled && !canImport ? undefined : handleDrop}
+          onDragOver={isDisabled && !canImport ? undefined : handleDragOver}
+          onDragLeave={isDisabled && !canImport ? undefined : handleDragLeave}
           onClick={() => !isDisabled && fileInputRef.current?.click()}
           className={cn(
             "relative border-2 border-dashed rounded-lg p-8 transition-colors",
@@ -227,6 +316,11 @@ export function Uploader({
                 {locale === "fr" ? "Réinitialisation dans" : "Resets in"}{" "}
                 {quota?.resetAt && formatResetTime(quota.resetAt, locale)}
               </p>
+              {importButton && (
+                <div className="mt-4">
+                  {importButton}
+                </div>
+              )}
             </div>
           )}
           
@@ -246,6 +340,11 @@ export function Uploader({
                 <p className="text-xs text-muted-foreground mt-1">
                   {t("maxSize")} {maxSizeMB}MB
                 </p>
+                {onUploadMany && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t("batchUploadHint")} ({maxFiles} max)
+                  </p>
+                )}
               </div>
             </>
           )}
@@ -277,6 +376,7 @@ export function Uploader({
                 <Camera className="h-4 w-4 mr-2" />
                 {t("takePhoto")}
               </Button>
+              {importButton}
             </div>
           )}
         </div>
@@ -5,6 +5,10 @@
  * 
  * Visual representation of a workout with colored bars by power zone.
  * Similar to Intervals.icu, TrainingPeaks, and Zwift workout views.
+ * Power bands ("88-94%", "Z3") are drawn as a lighter band around the bar,
+ * and step messages are marked along the top of the chart.
+ * Bars are relative to FTP (or LTHR for heart rate targets); the tooltip
+ * shows targets in the unit chosen in settings.
  * 
  * Constitution Principle IV: Mobile-First UX
  * - Responsive chart that works on all screen sizes
@@ -13,6 +17,27 @@
 
 import React, { useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
+import {
+  formatCadence,
+  formatPowerTarget,
+  getPowerBand,
+  getPowerTarget,
+  getTimedMessages,
+  type LeafStep,
+  type PowerBand,
+} from "@/lib/utils/steps";
+import {
+  DEFAULT_TARGET_UNIT,
+  convertStepTargets,
+  formatTargetValue,
+  getDisplayUnit,
+  getTargetUnit,
+  TARGET_UNITS,
+  type TargetDisplay,
+  type TargetKind,
+  type TargetReferences,
+} from "@/lib/utils/targets";
+import { useSettings } from "@/lib/settings";
 import type { Workout, Step } from "@/lib/schemas";
 
 // ============================================================================
@@ -34,8 +59,29 @@ interface ChartSegment {
   powerEnd: number;
   type: Step["type"];
   label?: string;
+  cadence?: string;
+  /** Target band in decimal FTP (or LTHR, threshold pace), drawn around flat segments */
+  band?: PowerBand;
+  /** Formatted target in the display unit ("88-94% FTP", "250 W", "140 bpm", "4:30/km") */
+  target?: string;
+  targetKind?: TargetKind;
 }
 
+interface SegmentContext {
+  references: TargetReferences;
+  display: TargetDisplay;
+}
+
+// ============================================================================
+// Target Icons
+// ============================================================================
+
+const TARGET_KIND_ICONS: Record<TargetKind, string> = {
+  power: "⚡",
+  heart_rate: "❤️",
+  pace: "🏃",
+};
+
 // ============================================================================
 // Power Zone Colors (based on % FTP)
 // ============================================================================
@@ -74,8 +120,47 @@ function formatDurationShort(seconds: number): string {
   return `${minutes}m${secs}s`;
 }
 
-function stepToSegments(step: Step, startTime: number): ChartSegment[] {
+/**
+ * A step with its targets in the relative or absolute unit of their kind
+ */
+function toDisplayStep(step: LeafStep, display: TargetDisplay, ctx: SegmentContext): LeafStep {
+  const unit = getTargetUnit(step);
+  return unit ? convertStepTargets(step, getDisplayUnit(unit, display), ctx.references) ?? step : step;
+}
+
+/**
+ * Target fields of a (relative) step or interval half: its band and tooltip text
+ */
+function targetFields(
+  step: LeafStep,
+  ctx: SegmentContext,
+  part: "on" | "off" = "on"
+): Pick<ChartSegment, "band" | "target" | "targetKind"> {
+  const shown = toDisplayStep(step, ctx.display, ctx);
+  const unit = getTargetUnit(shown) ?? DEFAULT_TARGET_UNIT;
+  const suffix = unit === "ftp_pct" ? " FTP" : "";
+
+  if (shown.type === "warmup" || shown.type === "cooldown") {
+    return {
+      target: `${formatTargetValue(shown.power_start_pct, unit)} → ${formatTargetValue(shown.power_end_pct, unit)}${suffix}`,
+      targetKind: TARGET_UNITS[unit].kind,
+    };
+  }
+
+  const target = getPowerTarget(shown, part);
+  if (!target) return {};
+  const band = getPowerBand(getPowerTarget(step, part));
+  return {
+    band: band ? { low_pct: band.low_pct / 100, high_pct: band.high_pct / 100 } : undefined,
+    target: `${formatPowerTarget(target, unit)}${suffix}`,
+    targetKind: TARGET_UNITS[unit].kind,
+  };
+}
+
+function stepToSegments(source: Step, startTime: number, ctx: SegmentContext): ChartSegment[] {
   const segments: ChartSegment[] = [];
+  // Bar heights are relative to FTP, or LTHR / threshold pace for heart rate / pace targets
+  const step = source.type === "repeat" ? source : toDisplayStep(source, "relative", ctx);
   
   switch (step.type) {
     case "warmup":
@@ -85,6 +170,8 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
         powerStart: step.power_start_pct / 100,
         powerEnd: step.power_end_pct / 100,
         type: "warmup",
+        cadence: formatCadence(step) ?? undefined,
+        ...targetFields(step, ctx),
       });
       break;
       
@@ -95,6 +182,8 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
         powerStart: step.power_start_pct / 100,
         powerEnd: step.power_end_pct / 100,
         type: "cooldown",
+        cadence: formatCadence(step) ?? undefined,
+        ...targetFields(step, ctx),
       });
       break;
       
@@ -105,6 +194,8 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
         powerStart: step.power_pct / 100,
         powerEnd: step.power_pct / 100,
         type: "steady",
+        cadence: formatCadence(step) ?? undefined,
+        ...targetFields(step, ctx),
       });
       break;
       
@@ -119,6 +210,8 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
           powerEnd: step.on_power_pct / 100,
           type: "intervals",
           label: `${i + 1}/${step.repeat}`,
+          cadence: formatCadence({ cadence_rpm: step.on_cadence_rpm }) ?? undefined,
+          ...targetFields(step, ctx, "on"),
         });
         currentTime += step.on_duration_s;
         
@@ -129,6 +222,8 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
           powerStart: step.off_power_pct / 100,
           powerEnd: step.off_power_pct / 100,
           type: "intervals",
+          cadence: formatCadence({ cadence_rpm: step.off_cadence_rpm }) ?? undefined,
+          ...targetFields(step, ctx, "off"),
         });
         currentTime += step.off_duration_s;
       }
@@ -142,8 +237,29 @@ function stepToSegments(step: Step, startTime: number): ChartSegment[] {
         powerStart: 0.5, // Default display for freeride
         powerEnd: 0.5,
         type: "freeride",
+        cadence: formatCadence(step) ?? undefined,
       });
       break;
+
+    case "repeat": {
+      let currentTime = startTime;
+      for (let i = 0; i < step.repeat; i++) {
+        step.steps.forEach((child, childIndex) => {
+          const childSegments = stepToSegments(child, currentTime, ctx);
+          // Mark the start of each round, keeping nested round labels
+          if (childIndex === 0 && childSegments.length > 0) {
+            const first = childSegments[0];
+            const round = `${i + 1}/${step.repeat}`;
+            first.label = first.label ? `${round} · ${first.label}` : round;
+          }
+          segments.push(...childSegments);
+          for (const seg of childSegments) {
+            currentTime = seg.startTime + seg.duration;
+          }
+        });
+      }
+      break;
+    }
   }
   
   return segments;
@@ -162,20 +278,25 @@ export function WorkoutChart({
 }: WorkoutChartProps) {
   const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
   const [tooltipPos, setTooltipPos] = useState<{ x: number; y: number } | null>(null);
+  const { settings } = useSettings();
 
   // Convert workout steps to chart segments
   const { segments, totalDuration, maxPower } = useMemo(() => {
     const allSegments: ChartSegment[] = [];
     let currentTime = 0;
     let maxP = 0;
+    const ctx: SegmentContext = {
+      references: { ftp: settings.ftp, lthr: settings.lthr, thresholdPace: settings.thresholdPace },
+      display: settings.targetDisplay,
+    };
     
     for (const step of workout.steps) {
-      const stepSegments = stepToSegments(step, currentTime);
+      const stepSegments = stepToSegments(step, currentTime, ctx);
       allSegments.push(...stepSegments);
       
       for (const seg of stepSegments) {
         currentTime = seg.startTime + seg.duration;
-        maxP = Math.max(maxP, seg.powerStart, seg.powerEnd);
+        maxP = Math.max(maxP, seg.powerStart, seg.powerEnd, seg.band?.high_pct ?? 0);
       }
     }
     
@@ -184,7 +305,17 @@ export function WorkoutChart({
       totalDuration: currentTime,
       maxPower: Math.max(maxP, 1.2), // At least 120% for scale
     };
-  }, [workout.steps]);
+  }, [workout.steps, settings.ftp, settings.lthr, settings.thresholdPace, settings.targetDisplay]);
+
+  const messages = useMemo(() => getTimedMessages(workout.steps), [workout.steps]);
+
+  // Messages shown while the hovered segment plays
+  const hoveredMessages = hoveredSegment !== null
+    ? messages.filter(({ time_s }) =>
+        time_s >= segments[hoveredSegment].startTime &&
+        time_s < segments[hoveredSegment].startTime + segments[hoveredSegment].duration
+      )
+    : [];
 
   // Generate time axis labels
   const timeLabels = useMemo(() => {
@@ -330,7 +461,20 @@ export function WorkoutChart({
                       />
                     </svg>
                   ) : (
-                    // Flat segment (steady/intervals)
+                    <>
+                    {/* Target band (steady/intervals with a range or zone) */}
+                    {segment.band && (
+                      <div
+                        className="absolute w-full"
+                        style={{
+                          bottom: `${(segment.band.low_pct / maxPower) * 100}%`,
+                          height: `${((segment.band.high_pct - segment.band.low_pct) / maxPower) * 100}%`,
+                          backgroundColor: color,
+                          opacity: 0.35,
+                        }}
+                      />
+                    )}
+                    {/* Flat segment (steady/intervals) */}
                     <div
                       className={cn(
                         "absolute bottom-0 w-full transition-all",
@@ -342,12 +486,23 @@ export function WorkoutChart({
                         borderLeft: index > 0 ? "1px solid rgba(255,255,255,0.2)" : undefined,
                       }}
                     />
+                    </>
                   )}
                 </div>
               );
             })}
           </div>
 
+          {/* Message markers */}
+          {totalDuration > 0 && messages.map(({ time_s, message }, i) => (
+            <div
+              key={i}
+              className="absolute top-0 h-2 w-2 -translate-x-1/2 rounded-b-full bg-foreground/70"
+              style={{ left: `${(time_s / totalDuration) * 100}%` }}
+              title={`${formatTime(time_s)} ${message}`}
+            />
+          ))}
+
           {/* Tooltip */}
           {hoveredSegment !== null && tooltipPos && (
             <div 
@@ -364,11 +519,22 @@ export function WorkoutChart({
                 </div>
                 <div className="space-y-0.5">
                   <div>⏱️ {formatDurationShort(segments[hoveredSegment].duration)}</div>
-                  {segments[hoveredSegment].powerStart === segments[hoveredSegment].powerEnd ? (
+                  {segments[hoveredSegment].target ? (
+                    <div>{TARGET_KIND_ICONS[segments[hoveredSegment].targetKind ?? "power"]} {segments[hoveredSegment].target}</div>
+                  ) : segments[hoveredSegment].powerStart === segments[hoveredSegment].powerEnd ? (
                     <div>⚡ {Math.round(segments[hoveredSegment].powerStart * 100)}% FTP</div>
                   ) : (
                     <div>⚡ {Math.round(segments[hoveredSegment].powerStart * 100)}% → {Math.round(segments[hoveredSegment].powerEnd * 100)}% FTP</div>
                   )}
+                  {segments[hoveredSegment].cadence && (
+                    <div>🚴 {segments[hoveredSegment].cadence}</div>
+                  )}
+                  {segments[hoveredSegment].label && (
+                    <div>🔁 {segments[hoveredSegment].label}</div>
+                  )}
+                  {hoveredMessages.map(({ time_s, message }, i) => (
+                    <div key={i}>💬 {formatTime(time_s)} {message}</div>
+                  ))}
                 </div>
               </div>
               <div 
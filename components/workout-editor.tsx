@@ -3,25 +3,43 @@
 /**
  * WorkoutEditor Component
  * 
- * Edit complete workout: name, description, and all steps.
- * Supports drag and drop reordering of steps.
+ * Edit complete workout: name, description, sport, and all steps.
+ * Supports drag and drop reordering of steps, pasting or copying steps as
+ * Intervals.icu workout text, and tidying the steps with the normalizer.
+ * Every change is reported with what it did, for the undo/redo history.
  * 
  * Constitution Principle II: Honest AI
- * - Shows warnings from parsing
+ * - Shows warnings from parsing, in the user's language, linked to their step
+ * - Reruns the sanity checks on every change, so a fixed issue stops showing
  * - Displays confidence score
+ * - Highlights low-confidence steps next to their source image region
  */
 
-import React, { useState, useCallback } from "react";
-import { Plus, AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import React, { useState, useCallback, useEffect } from "react";
+import { Plus, AlertTriangle, ChevronDown, ChevronUp, ClipboardCopy, Check, FileText, WandSparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { StepEditor } from "@/components/step-editor";
+import { StepEditor, DEFAULT_STEPS, LOW_STEP_CONFIDENCE } from "@/components/step-editor";
 import { WorkoutChart } from "@/components/workout-chart";
-import { useTranslation } from "@/lib/i18n";
-import type { Workout, Step, StepType } from "@/lib/schemas";
+import { useTranslation, type TranslationKey } from "@/lib/i18n";
+import { useSettings } from "@/lib/settings";
+import { intervalsTextToSteps, workoutToIntervalsText } from "@/lib/services/intervals-icu";
+import { formatWarning } from "@/lib/services/parse-warnings";
+import {
+  DEFAULT_NORMALIZE_RULES,
+  NORMALIZE_RULES,
+  normalizeWorkout,
+  type NormalizeRule,
+} from "@/lib/services/workout-normalizer";
+import { checkWorkout, SANITY_WARNING_CODES } from "@/lib/services/workout-checks";
+import type { HistoryEdit } from "@/lib/services/edit-history";
+import { getTotalDuration } from "@/lib/utils/steps";
+import { getTargetUnit } from "@/lib/utils/targets";
+import { DEFAULT_SPORT, SportSchema } from "@/lib/schemas";
+import type { Workout, Step, StepType, Sport, StepSource, ParseWarning, WarningSeverity } from "@/lib/schemas";
 
 // ============================================================================
 // Types
@@ -29,46 +47,44 @@ import type { Workout, Step, StepType } from "@/lib/schemas";
 
 interface WorkoutEditorProps {
   workout: Workout;
-  warnings?: string[];
+  warnings?: ParseWarning[];
   confidence?: number;
-  onChange: (workout: Workout) => void;
+  /** Per-step confidence and image regions, aligned with workout.steps */
+  stepSources?: Array<StepSource | undefined>;
+  /** Object URL of the uploaded image the workout was parsed from */
+  sourceImage?: string;
+  /** Total duration printed on the source image, checked against the steps */
+  printedDurationS?: number;
+  /**
+   * origins is given when the change removed, moved or merged steps:
+   * origins[i] lists the former indexes of step i, so step sources and
+   * warnings follow their step
+   */
+  onChange: (workout: Workout, edit: HistoryEdit, origins?: number[][]) => void;
   className?: string;
 }
 
 // ============================================================================
-// Default Steps for Adding
+// Constants
 // ============================================================================
 
-const DEFAULT_STEPS: Record<StepType, Step> = {
-  warmup: {
-    type: "warmup",
-    duration_s: 300,
-    power_start_pct: 50,
-    power_end_pct: 75,
-  },
-  cooldown: {
-    type: "cooldown",
-    duration_s: 300,
-    power_start_pct: 70,
-    power_end_pct: 40,
-  },
-  steady: {
-    type: "steady",
-    duration_s: 600,
-    power_pct: 75,
-  },
-  intervals: {
-    type: "intervals",
-    repeat: 5,
-    on_duration_s: 60,
-    off_duration_s: 60,
-    on_power_pct: 100,
-    off_power_pct: 50,
-  },
-  freeride: {
-    type: "freeride",
-    duration_s: 300,
-  },
+const SPORT_LABELS: Record<Sport, TranslationKey> = {
+  bike: "sportBike",
+  run: "sportRun",
+};
+
+const RULE_LABELS: Record<NormalizeRule, TranslationKey> = {
+  "round-durations": "ruleRoundDurations",
+  "round-power": "ruleRoundPower",
+  "merge-duplicates": "ruleMergeDuplicates",
+  "detect-repeats": "ruleDetectRepeats",
+  "collapse-stairs": "ruleCollapseStairs",
+};
+
+const SEVERITY_COLORS: Record<WarningSeverity, string> = {
+  info: "text-muted-foreground",
+  warning: "text-amber-600 dark:text-amber-300",
+  error: "text-red-600 dark:text-red-400",
 };
 
 // ============================================================================
@@ -79,28 +95,66 @@ export function WorkoutEditor({
   workout,
   warnings = [],
   confidence,
+  stepSources,
+  sourceImage,
+  printedDurationS,
   onChange,
   className,
 }: WorkoutEditorProps) {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
-  const [stepsExpanded, setStepsExpanded] = useState(false);
+  const sources = stepSources ?? [];
+  const lowConfidenceCount = sources.filter(
+    (source) => source !== undefined && source.confidence < LOW_STEP_CONFIDENCE
+  ).length;
+  const [stepsExpanded, setStepsExpanded] = useState(lowConfidenceCount > 0);
+  const [highlightedStep, setHighlightedStep] = useState<number | null>(null);
   const t = useTranslation();
+  // Sanity warnings from parse time are replaced by checks of the current steps
+  const shownWarnings = [
+    ...warnings.filter((warning) => !SANITY_WARNING_CODES.includes(warning.code)),
+    ...checkWorkout(workout, { printedDurationS }),
+  ];
 
-  const updateWorkout = (updates: Partial<Workout>) => {
-    onChange({ ...workout, ...updates });
+  useEffect(() => {
+    if (stepSources?.some((source) => source !== undefined && source.confidence < LOW_STEP_CONFIDENCE)) {
+      setStepsExpanded(true);
+    }
+  }, [stepSources]);
+
+  // Bring the step a warning points at into view, briefly highlighted
+  useEffect(() => {
+    if (highlightedStep === null) return;
+    document.getElementById(`workout-step-${highlightedStep}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setHighlightedStep(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedStep]);
+
+  const jumpToStep = (index: number) => {
+    setStepsExpanded(true);
+    setHighlightedStep(index);
   };
 
+  const updateWorkout = (updates: Partial<Workout>, edit: HistoryEdit, origins?: number[][]) => {
+    onChange({ ...workout, ...updates }, edit, origins);
+  };
+
+  // Typing in a step's fields makes one history entry per burst
   const updateStep = (index: number, step: Step) => {
     const newSteps = [...workout.steps];
     newSteps[index] = step;
-    updateWorkout({ steps: newSteps });
+    updateWorkout({ steps: newSteps }, { label: "historyEditStep", stepIndex: index, coalesceKey: `step-${index}` });
   };
 
+  // Sources and warnings follow their step through deletes and moves
   const deleteStep = (index: number) => {
     const newSteps = workout.steps.filter((_, i) => i !== index);
     if (newSteps.length > 0) {
-      updateWorkout({ steps: newSteps });
+      updateWorkout(
+        { steps: newSteps },
+        { label: "historyDeleteStep", stepIndex: index },
+        workout.steps.map((_, i) => [i]).filter((_, i) => i !== index)
+      );
     }
   };
 
@@ -110,7 +164,10 @@ export function WorkoutEditor({
     const newSteps = [...workout.steps];
     const [movedStep] = newSteps.splice(fromIndex, 1);
     newSteps.splice(toIndex, 0, movedStep);
-    updateWorkout({ steps: newSteps });
+    const origins = workout.steps.map((_, i) => [i]);
+    const [movedOrigin] = origins.splice(fromIndex, 1);
+    origins.splice(toIndex, 0, movedOrigin);
+    updateWorkout({ steps: newSteps }, { label: "historyMoveStep", stepIndex: toIndex }, origins);
   }, [workout.steps, updateWorkout]);
 
   // Drag and Drop handlers
@@ -138,16 +195,16 @@ export function WorkoutEditor({
   }, []);
 
   const addStep = (type: StepType) => {
-    updateWorkout({ steps: [...workout.steps, { ...DEFAULT_STEPS[type] }] });
+    const step = { ...DEFAULT_STEPS[type] };
+    // Default values read the same as % threshold pace on runs
+    const added = workout.sport === "run" && getTargetUnit(step) !== null
+      ? { ...step, target_unit: "pace_pct" as const }
+      : step;
+    updateWorkout({ steps: [...workout.steps, added] }, { label: "historyAddStep", stepIndex: workout.steps.length });
   };
 
   // Calculate total duration
-  const totalDuration = workout.steps.reduce((acc, step) => {
-    if (step.type === "intervals") {
-      return acc + (step.on_duration_s + step.off_duration_s) * step.repeat;
-    }
-    return acc + step.duration_s;
-  }, 0);
+  const totalDuration = getTotalDuration(workout.steps);
 
   const formatTotalTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -171,7 +228,7 @@ export function WorkoutEditor({
 
       <CardContent className="space-y-6">
         {/* Warnings */}
-        {warnings.length > 0 && (
+        {shownWarnings.length > 0 && (
           <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-4">
             <div className="flex items-start gap-2">
               <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
@@ -179,10 +236,32 @@ export function WorkoutEditor({
                 <p className="font-medium text-amber-700 dark:text-amber-400">
                   {t("parsingWarnings")}
                 </p>
-                <ul className="mt-1 text-sm text-amber-600 dark:text-amber-300 space-y-1">
-                  {warnings.map((warning, i) => (
-                    <li key={i}>• {warning}</li>
-                  ))}
+                <ul className="mt-1 text-sm space-y-1">
+                  {shownWarnings.map((warning, i) => {
+                    // Warnings follow their step through edits; sessions stored before may not
+                    const stepIndex = warning.step_index !== undefined && warning.step_index < workout.steps.length
+                      ? warning.step_index
+                      : undefined;
+                    return (
+                      <li key={i} className={SEVERITY_COLORS[warning.severity]}>
+                        •{" "}
+                        {stepIndex !== undefined && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => jumpToStep(stepIndex)}
+                              title={t("goToStep")}
+                              className="font-medium underline underline-offset-2 hover:opacity-80"
+                            >
+                              {t("step")} {stepIndex + 1}
+                            </button>
+                            {": "}
+                          </>
+                        )}
+                        {formatWarning(warning, t)}
+                      </li>
+                    );
+                  })}
                 </ul>
               </div>
             </div>
@@ -195,7 +274,7 @@ export function WorkoutEditor({
           <Input
             id="workout-name"
             value={workout.name}
-            onChange={(e) => updateWorkout({ name: e.target.value })}
+            onChange={(e) => updateWorkout({ name: e.target.value }, { label: "historyRename", coalesceKey: "name" })}
             placeholder={t("workoutNamePlaceholder")}
             maxLength={100}
             className="mt-1"
@@ -208,12 +287,37 @@ export function WorkoutEditor({
           <Input
             id="workout-description"
             value={workout.description || ""}
-            onChange={(e) => updateWorkout({ description: e.target.value || undefined })}
+            onChange={(e) =>
+              updateWorkout(
+                { description: e.target.value || undefined },
+                { label: "historyDescription", coalesceKey: "description" }
+              )
+            }
             placeholder={t("descriptionPlaceholder")}
             className="mt-1"
           />
         </div>
 
+        {/* Sport */}
+        <div>
+          <Label htmlFor="workout-sport">{t("sport")}</Label>
+          <select
+            id="workout-sport"
+            value={workout.sport ?? DEFAULT_SPORT}
+            onChange={(e) => {
+              const sport = e.target.value as Sport;
+              updateWorkout({ sport: sport === DEFAULT_SPORT ? undefined : sport }, { label: "historySport" });
+            }}
+            className="flex h-9 mt-1 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+          >
+            {SportSchema.options.map((sport) => (
+              <option key={sport} value={sport}>
+                {t(SPORT_LABELS[sport])}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Stats */}
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
           <span>
@@ -257,20 +361,30 @@ export function WorkoutEditor({
           
           {stepsExpanded && (
             <div className="p-4 space-y-3 border-t">
+              {lowConfidenceCount > 0 && (
+                <p className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  {t("lowConfidenceSteps")}
+                </p>
+              )}
               {workout.steps.map((step, index) => (
-                <StepEditor
-                  key={`step-${index}-${step.type}`}
-                  step={step}
-                  index={index}
-                  onChange={(s) => updateStep(index, s)}
-                  onDelete={() => deleteStep(index)}
-                  isDragging={draggedIndex === index}
-                  isDragOver={dragOverIndex === index}
-                  onDragStart={() => handleDragStart(index)}
-                  onDragOver={(e) => handleDragOver(e, index)}
-                  onDragEnd={handleDragEnd}
-                  onDragLeave={handleDragLeave}
-                />
+                <div key={`step-${index}-${step.type}`} id={`workout-step-${index}`}>
+                  <StepEditor
+                    step={step}
+                    index={index}
+                    onChange={(s) => updateStep(index, s)}
+                    onDelete={() => deleteStep(index)}
+                    source={sources[index]}
+                    sourceImage={sourceImage}
+                    className={cn(highlightedStep === index && "ring-2 ring-primary")}
+                    isDragging={draggedIndex === index}
+                    isDragOver={dragOverIndex === index}
+                    onDragStart={() => handleDragStart(index)}
+                    onDragOver={(e) => handleDragOver(e, index)}
+                    onDragEnd={handleDragEnd}
+                    onDragLeave={handleDragLeave}
+                  />
+                </div>
               ))}
 
               {/* Add Step Buttons */}
@@ -293,6 +407,18 @@ export function WorkoutEditor({
             </div>
           )}
         </div>
+
+        {/* Normalizer */}
+        <OptimizePanel
+          workout={workout}
+          onApply={(steps, origins) => updateWorkout({ steps }, { label: "historyOptimize" }, origins)}
+        />
+
+        {/* Intervals.icu text import/export */}
+        <IntervalsTextPanel
+          workout={workout}
+          onApply={(steps) => updateWorkout({ steps }, { label: "historyIntervalsText" }, steps.map(() => []))}
+        />
       </CardContent>
     </Card>
   );
@@ -302,6 +428,175 @@ export function WorkoutEditor({
 // Sub-components
 // ============================================================================
 
+function OptimizePanel({
+  workout,
+  onApply,
+}: {
+  workout: Workout;
+  onApply: (steps: Step[], origins: number[][]) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [rules, setRules] = useState<NormalizeRule[]>([...DEFAULT_NORMALIZE_RULES]);
+  const [changes, setChanges] = useState<ParseWarning[] | null>(null);
+  const t = useTranslation();
+
+  const toggleRule = (rule: NormalizeRule) => {
+    setRules((current) => (current.includes(rule) ? current.filter((r) => r !== rule) : [...current, rule]));
+  };
+
+  const handleOptimize = () => {
+    const result = normalizeWorkout(workout, rules);
+    setChanges(result.changes);
+    setExpanded(true);
+    if (result.changes.length > 0) {
+      onApply(result.workout.steps, result.origins);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between p-4 bg-muted/10">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-left"
+        >
+          <WandSparkles className="h-4 w-4 text-muted-foreground" />
+          <Label className="cursor-pointer">{t("optimize")}</Label>
+          {expanded ? (
+            <ChevronUp className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          )}
+        </button>
+        <Button variant="outline" size="sm" onClick={handleOptimize} disabled={rules.length === 0}>
+          <WandSparkles className="h-4 w-4 mr-2" />
+          {t("optimize")}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="p-4 space-y-3 border-t">
+          <p className="text-xs text-muted-foreground">{t("optimizeHint")}</p>
+          <div className="space-y-2">
+            {NORMALIZE_RULES.map((rule) => (
+              <label key={rule} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rules.includes(rule)}
+                  onChange={() => toggleRule(rule)}
+                  className="h-4 w-4 rounded border-input"
+                />
+                {t(RULE_LABELS[rule])}
+              </label>
+            ))}
+          </div>
+          {changes !== null && (
+            changes.length > 0 ? (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {changes.map((change, i) => (
+                  <li key={i}>
+                    • {change.step_index !== undefined && `${t("step")} ${change.step_index + 1}: `}
+                    {formatWarning(change, t)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">{t("optimizeNoChanges")}</p>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IntervalsTextPanel({
+  workout,
+  onApply,
+}: {
+  workout: Workout;
+  onApply: (steps: Step[]) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [text, setText] = useState("");
+  const [textWarnings, setTextWarnings] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  const { settings } = useSettings();
+  const t = useTranslation();
+
+  const handleApply = () => {
+    const result = intervalsTextToSteps(text, { zoneModel: settings.zoneModel });
+    setTextWarnings(result.warnings);
+    if (result.steps.length > 0) {
+      onApply(result.steps);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(workoutToIntervalsText(workout));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked: show the text so it can be copied by hand
+      setText(workoutToIntervalsText(workout));
+      setExpanded(true);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between p-4 bg-muted/10">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-left"
+        >
+          <FileText className="h-4 w-4 text-muted-foreground" />
+          <Label className="cursor-pointer">{t("intervalsText")}</Label>
+          {expanded ? (
+            <ChevronUp className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          )}
+        </button>
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? (
+            <Check className="h-4 w-4 mr-2" />
+          ) : (
+            <ClipboardCopy className="h-4 w-4 mr-2" />
+          )}
+          {copied ? t("copied") : t("copyIntervalsText")}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="p-4 space-y-3 border-t">
+          <p className="text-xs text-muted-foreground">{t("intervalsTextHint")}</p>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"Warmup\n- 10m ramp 50-75%\n\n3x\n- 5m 95%\n- 3m 55%"}
+            rows={8}
+            // Not part of the workout: Ctrl+Z undoes the typing, not the history
+            data-native-undo
+            className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm font-mono shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          />
+          {textWarnings.length > 0 && (
+            <ul className="text-xs text-amber-600 dark:text-amber-300 space-y-1">
+              {textWarnings.map((warning, i) => (
+                <li key={i}>• {warning}</li>
+              ))}
+            </ul>
+          )}
+          <Button size="sm" onClick={handleApply} disabled={!text.trim()}>
+            {t("replaceSteps")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ConfidenceBadge({ confidence }: { confidence: number }) {
   const percentage = Math.round(confidence * 100);
   const t = useTranslation();
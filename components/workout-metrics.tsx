@@ -3,27 +3,42 @@
 /**
  * Workout Metrics Component
  * 
- * Displays TSS, IF, NP, and duration for a workout.
+ * Displays TSS, IF, NP (or average heart rate / pace), and duration for a
+ * workout, with the athlete's FTP, LTHR, threshold pace, zone model and
+ * target display settings.
  */
 
 import React, { useState } from "react";
-import { Settings, Clock, Zap, Activity, TrendingUp } from "lucide-react";
+import { Settings, Clock, Zap, Activity, TrendingUp, Heart, Footprints } from "lucide-react";
 import { useSettings } from "@/lib/settings";
-import { useTranslation } from "@/lib/i18n";
+import { useTranslation, type TranslationKey } from "@/lib/i18n";
 import { calculateWorkoutMetrics, formatDuration, getTssCategory } from "@/lib/utils/metrics";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import type { Workout } from "@/lib/schemas";
+import { ZoneModelSchema, type Workout, type ZoneModelName } from "@/lib/schemas";
+import { formatPace, parsePace, type TargetDisplay } from "@/lib/utils/targets";
 
 interface WorkoutMetricsProps {
   workout: Workout;
 }
 
+const ZONE_MODEL_LABELS: Record<ZoneModelName, TranslationKey> = {
+  coggan: "zoneModelCoggan",
+  "sweet-spot": "zoneModelSweetSpot",
+};
+
+const TARGET_DISPLAY_LABELS: Record<TargetDisplay, TranslationKey> = {
+  relative: "targetDisplayRelative",
+  absolute: "targetDisplayAbsolute",
+};
+
 export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
   const { settings, updateSettings, isHydrated } = useSettings();
   const t = useTranslation();
   const [isEditingFtp, setIsEditingFtp] = useState(false);
   const [ftpInput, setFtpInput] = useState(settings.ftp.toString());
+  const [lthrInput, setLthrInput] = useState(settings.lthr.toString());
+  const [paceInput, setPaceInput] = useState(formatPace(settings.thresholdPace));
 
   if (!isHydrated) {
     return (
@@ -35,7 +50,8 @@ export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
     );
   }
 
-  const metrics = calculateWorkoutMetrics(workout, settings.ftp);
+  const metrics = calculateWorkoutMetrics(workout, settings.ftp, settings.lthr, settings.thresholdPace);
+  const isRun = workout.sport === "run";
   const tssCategory = getTssCategory(metrics.tss);
 
   const handleFtpSubmit = () => {
@@ -48,6 +64,25 @@ export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
     setIsEditingFtp(false);
   };
 
+  const handleLthrSubmit = () => {
+    const num = parseInt(lthrInput, 10);
+    if (!isNaN(num) && num >= 80 && num <= 220) {
+      updateSettings({ lthr: num });
+    } else {
+      setLthrInput(settings.lthr.toString());
+    }
+  };
+
+  const handlePaceSubmit = () => {
+    const seconds = parsePace(paceInput);
+    if (seconds !== null && seconds >= 120 && seconds <= 900) {
+      updateSettings({ thresholdPace: Math.round(seconds) });
+      setPaceInput(formatPace(seconds));
+    } else {
+      setPaceInput(formatPace(settings.thresholdPace));
+    }
+  };
+
   return (
     <div className="space-y-3">
       {/* FTP Input Row */}
@@ -56,33 +91,91 @@ export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
           <Settings className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm font-medium">FTP</span>
         </div>
-        {isEditingFtp ? (
-          <div className="flex items-center gap-2">
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            {t("zoneModel")}
+            <select
+              value={settings.zoneModel}
+              onChange={(e) => updateSettings({ zoneModel: e.target.value as ZoneModelName })}
+              className="h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground"
+            >
+              {ZoneModelSchema.options.map((model) => (
+                <option key={model} value={model}>
+                  {t(ZONE_MODEL_LABELS[model])}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            {t("targetDisplay")}
+            <select
+              value={settings.targetDisplay}
+              onChange={(e) => updateSettings({ targetDisplay: e.target.value as TargetDisplay })}
+              className="h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground"
+            >
+              {(Object.keys(TARGET_DISPLAY_LABELS) as TargetDisplay[]).map((display) => (
+                <option key={display} value={display}>
+                  {t(TARGET_DISPLAY_LABELS[display])}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            LTHR
             <Input
               type="number"
-              min={50}
-              max={500}
-              value={ftpInput}
-              onChange={(e) => setFtpInput(e.target.value)}
-              onBlur={handleFtpSubmit}
-              onKeyDown={(e) => e.key === "Enter" && handleFtpSubmit()}
-              className="w-20 h-8 text-center"
-              autoFocus
+              min={80}
+              max={220}
+              value={lthrInput}
+              onChange={(e) => setLthrInput(e.target.value)}
+              onBlur={handleLthrSubmit}
+              onKeyDown={(e) => e.key === "Enter" && handleLthrSubmit()}
+              className="w-16 h-8 text-center text-foreground"
             />
-            <span className="text-sm text-muted-foreground">W</span>
-          </div>
-        ) : (
-          <button
-            onClick={() => {
-              setFtpInput(settings.ftp.toString());
-              setIsEditingFtp(true);
-            }}
-            className="flex items-center gap-1 text-sm font-semibold hover:text-primary transition-colors"
-          >
-            {settings.ftp} W
-            <span className="text-xs text-muted-foreground">(click to edit)</span>
-          </button>
-        )}
+            bpm
+          </label>
+          {isRun && (
+            <label className="flex items-center gap-1 text-xs text-muted-foreground">
+              {t("thresholdPace")}
+              <Input
+                value={paceInput}
+                onChange={(e) => setPaceInput(e.target.value)}
+                onBlur={handlePaceSubmit}
+                onKeyDown={(e) => e.key === "Enter" && handlePaceSubmit()}
+                placeholder="5:00"
+                className="w-16 h-8 text-center text-foreground"
+              />
+              /km
+            </label>
+          )}
+          {isEditingFtp ? (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={50}
+                max={500}
+                value={ftpInput}
+                onChange={(e) => setFtpInput(e.target.value)}
+                onBlur={handleFtpSubmit}
+                onKeyDown={(e) => e.key === "Enter" && handleFtpSubmit()}
+                className="w-20 h-8 text-center"
+                autoFocus
+              />
+              <span className="text-sm text-muted-foreground">W</span>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                setFtpInput(settings.ftp.toString());
+                setIsEditingFtp(true);
+              }}
+              className="flex items-center gap-1 text-sm font-semibold hover:text-primary transition-colors"
+            >
+              {settings.ftp} W
+              <span className="text-xs text-muted-foreground">(click to edit)</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Metrics Grid */}
@@ -98,7 +191,7 @@ export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
         {/* TSS */}
         <MetricCard
           icon={<Activity className="h-4 w-4" />}
-          label="TSS"
+          label={metrics.heartRateBased ? "hrTSS" : metrics.paceBased ? "rTSS" : "TSS"}
           value={metrics.tss.toString()}
           subValue={tssCategory.label}
           color={tssCategory.color}
@@ -112,14 +205,36 @@ export function WorkoutMetrics({ workout }: WorkoutMetricsProps) {
           color="text-orange-600"
         />
 
-        {/* NP */}
-        <MetricCard
-          icon={<Zap className="h-4 w-4" />}
-          label="NP"
-          value={`${metrics.normalizedPower}W`}
-          subValue={`Avg: ${metrics.averagePower}W`}
-          color="text-purple-600"
-        />
+        {/* NP, or average heart rate / pace for heart rate and pace workouts */}
+        {metrics.paceBased && metrics.averagePace !== null ? (
+          <MetricCard
+            icon={<Footprints className="h-4 w-4" />}
+            label={t("averagePace")}
+            value={`${formatPace(metrics.averagePace)}/km`}
+            subValue={`${t("thresholdPace")}: ${formatPace(settings.thresholdPace)}/km`}
+            color="text-teal-600"
+          />
+        ) : metrics.heartRateBased && metrics.averageHeartRate !== null ? (
+          <MetricCard
+            icon={<Heart className="h-4 w-4" />}
+            label={t("averageHeartRate")}
+            value={`${metrics.averageHeartRate} bpm`}
+            subValue={`LTHR: ${settings.lthr} bpm`}
+            color="text-red-600"
+          />
+        ) : (
+          <MetricCard
+            icon={<Zap className="h-4 w-4" />}
+            label="NP"
+            value={`${metrics.normalizedPower}W`}
+            subValue={
+              metrics.averageHeartRate !== null
+                ? `Avg: ${metrics.averagePower}W · ${metrics.averageHeartRate} bpm`
+                : `Avg: ${metrics.averagePower}W`
+            }
+            color="text-purple-600"
+          />
+        )}
       </div>
     </div>
   );
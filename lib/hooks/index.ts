@@ -1,2 +1,6 @@
 export { useQuota, formatResetTime } from "./use-quota";
 export type { QuotaInfo } from "./use-quota";
+export { useParseJob } from "./use-parse-job";
+export type { ParseJobProgress } from "./use-parse-job";
+export { useWorkoutHistory } from "./use-workout-history";
+export type { WorkoutSnapshot, EditSession, EditSessionStart } from "./use-workout-history";
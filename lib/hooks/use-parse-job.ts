@@ -0,0 +1,168 @@
+/**
+ * Parse Job Hook
+ *
+ * Client-side hook running an image parse as a job: starts it, follows its
+ * stages over Server-Sent Events and cancels it on request.
+ */
+
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { ParseJob, ParseJobStage } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParseJobProgress {
+  stage: ParseJobStage;
+  /** Repair attempt, during the repair stage */
+  attempt?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const JOBS_ENDPOINT = "/api/workouts/parse/jobs";
+
+const FINAL_STAGES: ParseJobStage[] = ["done", "failed", "cancelled"];
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+/**
+ * Cancel a job server-side; keepalive lets the request survive a page unload
+ */
+function cancelJob(id: string): void {
+  fetch(`${JOBS_ENDPOINT}/${id}`, { method: "DELETE", keepalive: true }).catch(() => {});
+}
+
+// ============================================================================
+// Event Stream
+// ============================================================================
+
+/**
+ * Follow the events stream of a job until it reaches a final stage
+ * Returns the last job received, which may not be final if the stream broke
+ */
+async function followJob(
+  job: ParseJob,
+  signal: AbortSignal,
+  onJob: (job: ParseJob) => void
+): Promise<ParseJob> {
+  const response = await fetch(`${JOBS_ENDPOINT}/${job.id}/events`, { signal });
+  if (!response.ok || !response.body) return job;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let last = job;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return last;
+
+    // Events are separated by a blank line; keep the incomplete tail
+    buffer += value;
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      if (!data) continue; // Keepalive comment
+
+      last = JSON.parse(data) as ParseJob;
+      onJob(last);
+      if (FINAL_STAGES.includes(last.stage)) {
+        await reader.cancel();
+        return last;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useParseJob() {
+  const [progress, setProgress] = useState<ParseJobProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  /**
+   * Stop following the running job and cancel it server-side; a job still
+   * being started is cancelled once its id arrives
+   */
+  const cancel = useCallback(() => {
+    const jobId = jobIdRef.current;
+    controllerRef.current?.abort();
+    if (jobId) {
+      cancelJob(jobId);
+    }
+  }, []);
+
+  /**
+   * Start a parse job and resolve with it once final; a job still running
+   * is cancelled, server-side too
+   * Rejects with an AbortError when cancelled
+   */
+  const run = useCallback(async (formData: FormData, headers: HeadersInit = {}): Promise<ParseJob> => {
+    cancel();
+    jobIdRef.current = null;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    const update = (job: ParseJob) => setProgress({ stage: job.stage, attempt: job.attempt });
+
+    try {
+      // Not aborted on cancel: the job may already exist, its id is needed to cancel it
+      const response = await fetch(JOBS_ENDPOINT, { method: "POST", body: formData, headers });
+      const data = await response.json();
+      if (!response.ok) {
+        signal.throwIfAborted();
+        throw new Error(data.error || "Failed to start parsing");
+      }
+
+      let job = data as ParseJob;
+      if (signal.aborted) {
+        // Cancelled before the job id arrived
+        cancelJob(job.id);
+        signal.throwIfAborted();
+      }
+      jobIdRef.current = job.id;
+      update(job);
+
+      job = await followJob(job, signal, update);
+
+      // The stream broke before the end: poll until the job is final
+      while (!FINAL_STAGES.includes(job.stage)) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        signal.throwIfAborted();
+        const polled = await fetch(`${JOBS_ENDPOINT}/${job.id}`, { signal });
+        if (!polled.ok) throw new Error("Parse job not found or expired");
+        job = await polled.json();
+        update(job);
+      }
+
+      return job;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        jobIdRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [cancel]);
+
+  // A job left behind by an unmounted page is cancelled
+  useEffect(() => cancel, [cancel]);
+
+  return { progress, run, cancel };
+}
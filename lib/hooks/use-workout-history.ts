@@ -0,0 +1,254 @@
+/**
+ * Workout History Hook
+ *
+ * Client-side hook holding the workout being edited with its undo/redo
+ * history. Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y too) move through
+ * it, and the session is kept in sessionStorage so a page refresh reopens
+ * the workout where it was left.
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { z } from "zod";
+import { translations, type TranslationKey } from "@/lib/i18n";
+import {
+  createHistory,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  goToEntry,
+  mapHistory,
+  getCurrentState,
+  canUndo,
+  canRedo,
+  type EditHistory,
+  type HistoryEdit,
+} from "@/lib/services/edit-history";
+import { mergeStepSources, remapWarnings } from "@/lib/services/workout-normalizer";
+import { ParseWarningSchema, StepSourceSchema, WorkoutSchema } from "@/lib/schemas";
+import type { ParseWarning, StepSource, Workout } from "@/lib/schemas";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One state of the history: step sources and parse warnings follow their
+ * step through deletes, moves and merges, so they are undone with it
+ */
+export interface WorkoutSnapshot {
+  workout: Workout;
+  stepSources: Array<StepSource | undefined>;
+  warnings: ParseWarning[];
+}
+
+/**
+ * A workout opened in the editor, with what its parse reported
+ */
+export interface EditSession {
+  history: EditHistory<WorkoutSnapshot>;
+  confidence: number;
+  printedDurationS?: number;
+}
+
+export interface EditSessionStart {
+  workout: Workout;
+  stepSources?: StepSource[];
+  warnings: ParseWarning[];
+  confidence: number;
+  printedDurationS?: number;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const SESSION_KEY = "imagetowo-session";
+
+const TranslationKeySchema = z.custom<TranslationKey>(
+  (value) => typeof value === "string" && value in translations.en
+);
+
+// Names are cleared while being retyped, the rest stays valid while editing
+const StoredSnapshotSchema = z.object({
+  workout: WorkoutSchema.extend({ name: z.string().max(100) }),
+  // JSON turns missing sources into null
+  stepSources: z.array(StepSourceSchema.nullable()).transform((sources) => sources.map((source) => source ?? undefined)),
+  warnings: z.array(ParseWarningSchema),
+});
+
+const StoredSessionSchema = z.object({
+  history: z
+    .object({
+      entries: z
+        .array(
+          z.object({
+            state: StoredSnapshotSchema,
+            label: TranslationKeySchema,
+            stepIndex: z.number().int().min(0).optional(),
+            coalesceKey: z.string().optional(),
+            at: z.number(),
+          })
+        )
+        .min(1),
+      index: z.number().int().min(0),
+    })
+    .refine((history) => history.index < history.entries.length, "History index out of range"),
+  confidence: z.number().min(0).max(1),
+  printedDurationS: z.number().positive().optional(),
+});
+
+function loadSession(): EditSession | null {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+    const parsed = StoredSessionSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch (e) {
+    console.error("Failed to load edit session:", e);
+    return null;
+  }
+}
+
+function saveSession(session: EditSession | null): void {
+  try {
+    if (session) {
+      sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } else {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  } catch (e) {
+    // Storage full or blocked: the session only lasts until the page closes
+    console.error("Failed to save edit session:", e);
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useWorkoutHistory() {
+  const [session, setSession] = useState<EditSession | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [restored, setRestored] = useState(false);
+
+  // Reopen the session of a refreshed page
+  useEffect(() => {
+    const stored = loadSession();
+    if (stored) {
+      setSession(stored);
+      setRestored(true);
+    }
+    setIsHydrated(true);
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) {
+      saveSession(session);
+    }
+  }, [session, isHydrated]);
+
+  const updateHistory = useCallback(
+    (update: (history: EditHistory<WorkoutSnapshot>) => EditHistory<WorkoutSnapshot>) => {
+      setSession((current) => current && { ...current, history: update(current.history) });
+    },
+    []
+  );
+
+  // Open a workout in the editor, with a new history
+  const start = useCallback((opened: EditSessionStart) => {
+    const snapshot = { workout: opened.workout, stepSources: opened.stepSources ?? [], warnings: opened.warnings };
+    setSession({
+      history: createHistory<WorkoutSnapshot>(snapshot, { label: "historyOriginal" }),
+      confidence: opened.confidence,
+      printedDurationS: opened.printedDurationS,
+    });
+  }, []);
+
+  /**
+   * Record an edit of the workout; when it removed, moved or merged steps,
+   * origins[i] lists the former indexes of step i and step sources and
+   * warnings follow their step
+   */
+  const edit = useCallback(
+    (workout: Workout, change: HistoryEdit, origins?: number[][]) => {
+      updateHistory((history) => {
+        const { stepSources, warnings } = getCurrentState(history);
+        return recordEdit(
+          history,
+          origins
+            ? { workout, stepSources: mergeStepSources(stepSources, origins), warnings: remapWarnings(warnings, origins) }
+            : { workout, stepSources, warnings },
+          change
+        );
+      });
+    },
+    [updateHistory]
+  );
+
+  const undo = useCallback(() => updateHistory(undoEdit), [updateHistory]);
+  const redo = useCallback(() => updateHistory(redoEdit), [updateHistory]);
+  const goTo = useCallback(
+    (index: number) => updateHistory((history) => goToEntry(history, index)),
+    [updateHistory]
+  );
+
+  /**
+   * Change every workout of the history without recording an edit
+   */
+  const mapWorkouts = useCallback(
+    (map: (workout: Workout) => Workout) => {
+      updateHistory((history) => mapHistory(history, (snapshot) => ({ ...snapshot, workout: map(snapshot.workout) })));
+    },
+    [updateHistory]
+  );
+
+  // Close the editor, dropping the history
+  const end = useCallback(() => {
+    setSession(null);
+    setRestored(false);
+  }, []);
+
+  // Keyboard shortcuts while a workout is open
+  const isOpen = session !== null;
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      const isUndo = key === "z" && !event.shiftKey;
+      const isRedo = (key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey);
+      if (!isUndo && !isRedo) return;
+      // Text that is not part of the workout keeps the browser's own undo
+      if (event.target instanceof Element && event.target.closest("[data-native-undo]")) return;
+
+      event.preventDefault();
+      updateHistory(isUndo ? undoEdit : redoEdit);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, updateHistory]);
+
+  const current = session ? getCurrentState(session.history) : null;
+
+  return {
+    session,
+    workout: current?.workout ?? null,
+    stepSources: current?.stepSources,
+    warnings: current?.warnings ?? [],
+    /** A session was reopened from a previous page load */
+    restored,
+    canUndo: session ? canUndo(session.history) : false,
+    canRedo: session ? canRedo(session.history) : false,
+    start,
+    edit,
+    undo,
+    redo,
+    goTo,
+    mapWorkouts,
+    end,
+  };
+}
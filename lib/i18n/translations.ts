@@ -11,11 +11,12 @@ export const translations = {
     // Header
     appName: "ImageToWo",
     newUpload: "New Upload",
+    backToBatch: "All workouts",
     
     // Hero
     heroTitle: "Transform Workout Images",
     heroTitleHighlight: "into .zwo Files",
-    heroDescription: "Upload a screenshot of your cycling workout and we'll convert it to a .zwo file for Zwift, Intervals.icu, or TrainingPeaks.",
+    heroDescription: "Upload a screenshot of your cycling or running workout and we'll convert it to a .zwo file for Zwift, Intervals.icu, or TrainingPeaks.",
     
     // Uploader
     dropImage: "Drag & drop your workout image",
@@ -23,6 +24,7 @@ export const translations = {
     maxSize: "JPEG, PNG, WebP up to",
     browse: "Browse",
     takePhoto: "Take a photo",
+    importZwo: "Import .zwo",
     analyzing: "Analyzing workout...",
     
     // Features
@@ -36,6 +38,17 @@ export const translations = {
     // Loading
     loadingTitle: "Analyzing your workout...",
     loadingSubtitle: "This may take a few seconds",
+    stageValidating: "Checking the file",
+    stagePreprocessing: "Preparing the image",
+    stageModel: "Reading the workout",
+    stageRepair: "Correcting the answer",
+    cancelParse: "Cancel",
+    batchUploadHint: "Select several images to parse a whole plan",
+    batchTitle: "Your workouts",
+    batchParsed: "workouts found",
+    batchFailed: "images not parsed",
+    batchOpen: "Edit",
+    downloadZip: "Download all (.zip)",
     
     // Editor
     editWorkout: "Edit Workout",
@@ -50,7 +63,38 @@ export const translations = {
     workoutSteps: "Workout Steps",
     add: "Add:",
     confidence: "confidence",
+    checkStep: "Check this step against the image",
+    lowConfidenceSteps: "Some steps were hard to read, check the highlighted ones",
     parsingWarnings: "Parsing Warnings",
+    goToStep: "Go to step",
+    step: "Step",
+    intervalsText: "Intervals.icu text",
+    intervalsTextHint: "Paste a plan in Intervals.icu syntax to replace the steps, or copy the current steps into the Intervals.icu workout builder.",
+    copyIntervalsText: "Copy as Intervals.icu text",
+    copied: "Copied!",
+    replaceSteps: "Replace steps",
+    optimize: "Optimize",
+    optimizeHint: "Tidy the steps with the selected rules. Every change is listed below.",
+    optimizeNoChanges: "Nothing to optimize with these rules",
+    ruleRoundDurations: "Round durations to 5 s",
+    ruleRoundPower: "Round targets to 1%",
+    ruleMergeDuplicates: "Merge identical adjacent steps",
+    ruleDetectRepeats: "Turn alternating steps into intervals",
+    ruleCollapseStairs: "Replace stair-stepped warmups and cooldowns with ramps",
+    history: "History",
+    historyHint: "Ctrl+Z to undo, Ctrl+Shift+Z to redo. Click a change to go back to it.",
+    undo: "Undo",
+    redo: "Redo",
+    historyOriginal: "Original workout",
+    historyRename: "Name changed",
+    historyDescription: "Description changed",
+    historySport: "Sport changed",
+    historyEditStep: "Step edited",
+    historyAddStep: "Step added",
+    historyDeleteStep: "Step deleted",
+    historyMoveStep: "Step moved",
+    historyOptimize: "Steps optimized",
+    historyIntervalsText: "Steps replaced from Intervals.icu text",
     
     // Step types
     warmup: "Warmup",
@@ -70,11 +114,63 @@ export const translations = {
     offDuration: "Rest Duration",
     onPower: "Work Power (%FTP)",
     offPower: "Rest Power (%FTP)",
+    cadence: "Cadence (rpm)",
+    onCadence: "Work Cadence (rpm)",
+    offCadence: "Rest Cadence (rpm)",
+    messages: "Messages",
+    addMessage: "Add message",
+    messagePlaceholder: "e.g. Stay seated",
+    removeMessage: "Remove message",
+    powerTargetHint: "91, 88-94 or Z3",
+    zoneModel: "Zones",
+    zoneModelCoggan: "Coggan",
+    zoneModelSweetSpot: "Sweet spot",
+    exportWarnings: "Some targets could not be exported exactly",
+    exportWarningsInArchive: "{count} targets could not be exported exactly, listed in warnings.json inside the archive",
+    exportWarningsMore: "…and {count} more",
+    exportWarningStep: "Step {step}",
+    exportWarningStepOn: "Step {step} (on)",
+    exportWarningStepOff: "Step {step} (off)",
+    exportWarningLthrConverted: "%LTHR targets converted to bpm with LTHR {lthr} bpm",
+    exportWarningLthrMissing: "%LTHR targets need an LTHR, exported without target",
+    exportWarningThresholdPaceConverted: "% threshold pace targets converted to speed with threshold pace {pace}/km",
+    exportWarningThresholdPaceMissing: "% threshold pace targets need a threshold pace, exported without target",
+    exportWarningFtpAsPace: "%FTP targets exported as % threshold pace",
+    exportWarningHeartRateFreeride: "heart rate targets cannot be exported to .{format}, exported as free ride",
+    exportWarningPowerOnRun: "power targets cannot be exported to a run .{format}, exported as free ride",
+    exportWarningPaceOnBike: "pace targets cannot be exported to a bike .{format}, exported as free ride",
+    exportWarningPaceConverted: "pace targets converted to % threshold pace with threshold pace {pace}/km",
+    exportWarningPaceMissing: "pace targets need a threshold pace, exported as free ride",
+    exportWarningWattsConverted: "watt targets converted to %FTP with FTP {ftp} W",
+    exportWarningWattsMissing: "watt targets need an FTP, exported as free ride",
+    exportWarningBandFtp: "{band} exported as {value}% FTP",
+    exportWarningBandPace: "{band} exported as {value}% threshold pace",
+    targetUnit: "Target",
+    targetUnitFtp: "% FTP",
+    targetUnitWatts: "Watts",
+    targetUnitLthr: "% LTHR",
+    targetUnitBpm: "bpm",
+    targetUnitPace: "% threshold pace",
+    targetUnitPerKm: "min/km",
+    targetUnitPerMile: "min/mile",
+    targetDisplay: "Show",
+    targetDisplayRelative: "% FTP / LTHR / pace",
+    targetDisplayAbsolute: "W / bpm / min/km",
+    averageHeartRate: "Avg HR",
+    averagePace: "Avg pace",
+    thresholdPace: "Threshold pace",
+    sport: "Sport",
+    sportBike: "Bike",
+    sportRun: "Run",
     
     // Export
     readyToExport: "Ready to export?",
     downloadZwo: "Download your workout in .zwo format",
     downloadBtn: "Download .zwo",
+    otherFormats: "Other formats:",
+    fitFormatHint: "Garmin, Wahoo (binary FIT workout)",
+    ergFormatHint: "TrainerRoad, PerfPRO (absolute watts from your FTP)",
+    mrcFormatHint: "TrainerRoad, PerfPRO, Golden Cheetah (%FTP)",
     exporting: "Exporting...",
     exportReady: "Ready to export?",
     exportReadyDesc: "Download your workout in .zwo format",
@@ -126,17 +222,56 @@ export const translations = {
     quotaExhausted: "Daily limit reached",
     quotaResetIn: "Resets in",
     quotaUnlimited: "Unlimited",
+    cachedResult: "Same image as before: the previous result was reused, no analysis used",
+
+    // Parse warnings ({name} placeholders are filled from the warning params)
+    warningIllegibleSection: "Hard to read: {note}",
+    warningAmbiguousValue: "Ambiguous value: {note}",
+    warningModelNote: "{note}",
+    warningRepairAttempt: "Model output did not match the schema, correction requested (attempt {attempt}): {issues}",
+    warningSchemaFixed: "Some parsed data required adjustment to match schema",
+    warningDefaultName: "No workout name found, default name used",
+    warningClampedPower: "Target {value} out of range, set to {clamped}",
+    warningClampedDuration: "Duration {value}s out of range, set to {clamped}s",
+    warningClampedCadence: "Cadence {value} rpm out of range, set to {clamped} rpm",
+    warningClampedRepeat: "Repeat count {value} out of range, set to {clamped}",
+    warningDefaultTarget: "No target given, default {value} used",
+    warningDefaultDuration: "No duration given, default {value}s used",
+    warningDefaultRepeat: "No repeat count given, {value} used",
+    warningInvalidValue: "Invalid {field} \"{value}\" ignored",
+    warningUnknownUnit: "Unknown target unit \"{value}\", read as % FTP",
+    warningUnknownStepType: "Unknown step type \"{value}\", read as free ride",
+    warningEmptyRepeat: "Empty repeat block read as free ride",
+    warningMultipleWorkouts: "The image holds {count} workouts, this is the first one",
+    warningRoundedDurations: "{count} durations rounded to 5 s",
+    warningRoundedTargets: "{count} targets rounded to whole values",
+    warningMergedSteps: "{count} identical steps merged",
+    warningDetectedRepeat: "Alternating steps turned into {repeat} intervals",
+    warningCollapsedStairs: "{count} stair steps replaced by a ramp",
+    warningLongWorkout: "The workout lasts {minutes} min, over 6 h: check the durations",
+    warningLongHardEffort: "{value}% held for {minutes} min is hardly sustainable",
+    warningWarmupRampsDown: "The warmup gets easier instead of harder",
+    warningCooldownRampsUp: "The cooldown gets harder instead of easier",
+    warningOffAboveOn: "Recoveries are harder than the efforts",
+    warningTotalMismatch: "Steps add up to {total} min but the image says {printed} min",
+    warningNoTargetFreeride: "No target found, read as free ride",
+    warningUnparsedText: "Could not parse \"{text}\"",
+    warningMissingDuration: "{element} element skipped: missing or invalid duration",
+    warningUnsupportedElement: "Unsupported {element} element, read as free ride",
+    warningElementSkipped: "Unsupported {element} element, skipped",
+    warningUnsupportedSport: "Sport type \"{value}\" is not supported, imported as a bike workout",
   },
   
   fr: {
     // Header
     appName: "ImageToWo",
     newUpload: "Nouvel upload",
+    backToBatch: "Tous les workouts",
     
     // Hero
     heroTitle: "Transformez vos images de workout",
     heroTitleHighlight: "en fichiers .zwo",
-    heroDescription: "Uploadez une capture d'écran de votre entraînement vélo et nous le convertirons en fichier .zwo pour Zwift, Intervals.icu ou TrainingPeaks.",
+    heroDescription: "Uploadez une capture d'écran de votre entraînement vélo ou course à pied et nous le convertirons en fichier .zwo pour Zwift, Intervals.icu ou TrainingPeaks.",
     
     // Uploader
     dropImage: "Glissez-déposez votre image de workout",
@@ -144,6 +279,7 @@ export const translations = {
     maxSize: "JPEG, PNG, WebP jusqu'à",
     browse: "Parcourir",
     takePhoto: "Prendre une photo",
+    importZwo: "Importer un .zwo",
     analyzing: "Analyse du workout en cours...",
     
     // Features
@@ -157,6 +293,17 @@ export const translations = {
     // Loading
     loadingTitle: "Analyse de votre workout...",
     loadingSubtitle: "Cela peut prendre quelques secondes",
+    stageValidating: "Vérification du fichier",
+    stagePreprocessing: "Préparation de l'image",
+    stageModel: "Lecture du workout",
+    stageRepair: "Correction de la réponse",
+    cancelParse: "Annuler",
+    batchUploadHint: "Sélectionnez plusieurs images pour analyser tout un plan",
+    batchTitle: "Vos workouts",
+    batchParsed: "workouts trouvés",
+    batchFailed: "images non analysées",
+    batchOpen: "Modifier",
+    downloadZip: "Tout télécharger (.zip)",
     
     // Editor
     editWorkout: "Éditer le Workout",
@@ -171,7 +318,38 @@ export const translations = {
     workoutSteps: "Étapes du Workout",
     add: "Ajouter :",
     confidence: "confiance",
+    checkStep: "Vérifiez cette étape sur l'image",
+    lowConfidenceSteps: "Certaines étapes étaient difficiles à lire, vérifiez celles mises en évidence",
     parsingWarnings: "Avertissements d'analyse",
+    goToStep: "Aller à l'étape",
+    step: "Étape",
+    intervalsText: "Texte Intervals.icu",
+    intervalsTextHint: "Collez un plan en syntaxe Intervals.icu pour remplacer les étapes, ou copiez les étapes actuelles dans le workout builder d'Intervals.icu.",
+    copyIntervalsText: "Copier en texte Intervals.icu",
+    copied: "Copié !",
+    replaceSteps: "Remplacer les étapes",
+    optimize: "Optimiser",
+    optimizeHint: "Simplifie les étapes avec les règles choisies. Chaque modification est listée ci-dessous.",
+    optimizeNoChanges: "Rien à optimiser avec ces règles",
+    ruleRoundDurations: "Arrondir les durées à 5 s",
+    ruleRoundPower: "Arrondir les cibles à 1 %",
+    ruleMergeDuplicates: "Fusionner les étapes identiques adjacentes",
+    ruleDetectRepeats: "Transformer les étapes alternées en intervalles",
+    ruleCollapseStairs: "Remplacer les paliers d'échauffement et de retour au calme par des rampes",
+    history: "Historique",
+    historyHint: "Ctrl+Z pour annuler, Ctrl+Maj+Z pour rétablir. Cliquez sur une modification pour y revenir.",
+    undo: "Annuler",
+    redo: "Rétablir",
+    historyOriginal: "Workout d'origine",
+    historyRename: "Nom modifié",
+    historyDescription: "Description modifiée",
+    historySport: "Sport modifié",
+    historyEditStep: "Étape modifiée",
+    historyAddStep: "Étape ajoutée",
+    historyDeleteStep: "Étape supprimée",
+    historyMoveStep: "Étape déplacée",
+    historyOptimize: "Étapes optimisées",
+    historyIntervalsText: "Étapes remplacées depuis le texte Intervals.icu",
     
     // Step types
     warmup: "Échauffement",
@@ -191,11 +369,63 @@ export const translations = {
     offDuration: "Durée récup",
     onPower: "Puissance effort (%FTP)",
     offPower: "Puissance récup (%FTP)",
+    cadence: "Cadence (rpm)",
+    onCadence: "Cadence effort (rpm)",
+    offCadence: "Cadence récup (rpm)",
+    messages: "Messages",
+    addMessage: "Ajouter un message",
+    messagePlaceholder: "ex. Restez assis",
+    removeMessage: "Supprimer le message",
+    powerTargetHint: "91, 88-94 ou Z3",
+    zoneModel: "Zones",
+    zoneModelCoggan: "Coggan",
+    zoneModelSweetSpot: "Sweet spot",
+    exportWarnings: "Certaines cibles n'ont pas pu être exportées exactement",
+    exportWarningsInArchive: "{count} cibles n'ont pas pu être exportées exactement, listées dans warnings.json dans l'archive",
+    exportWarningsMore: "…et {count} autres",
+    exportWarningStep: "Étape {step}",
+    exportWarningStepOn: "Étape {step} (effort)",
+    exportWarningStepOff: "Étape {step} (récup)",
+    exportWarningLthrConverted: "cibles en % FCS converties en bpm avec une FCS de {lthr} bpm",
+    exportWarningLthrMissing: "les cibles en % FCS nécessitent une FCS, exportées sans cible",
+    exportWarningThresholdPaceConverted: "cibles en % allure seuil converties en vitesse avec une allure seuil de {pace}/km",
+    exportWarningThresholdPaceMissing: "les cibles en % allure seuil nécessitent une allure seuil, exportées sans cible",
+    exportWarningFtpAsPace: "cibles en % FTP exportées en % allure seuil",
+    exportWarningHeartRateFreeride: "les cibles de fréquence cardiaque ne peuvent pas être exportées en .{format}, exportées en libre",
+    exportWarningPowerOnRun: "les cibles de puissance ne peuvent pas être exportées dans un .{format} de course à pied, exportées en libre",
+    exportWarningPaceOnBike: "les cibles d'allure ne peuvent pas être exportées dans un .{format} de vélo, exportées en libre",
+    exportWarningPaceConverted: "cibles d'allure converties en % allure seuil avec une allure seuil de {pace}/km",
+    exportWarningPaceMissing: "les cibles d'allure nécessitent une allure seuil, exportées en libre",
+    exportWarningWattsConverted: "cibles en watts converties en % FTP avec une FTP de {ftp} W",
+    exportWarningWattsMissing: "les cibles en watts nécessitent une FTP, exportées en libre",
+    exportWarningBandFtp: "{band} exporté à {value} % FTP",
+    exportWarningBandPace: "{band} exporté à {value} % allure seuil",
+    targetUnit: "Cible",
+    targetUnitFtp: "% FTP",
+    targetUnitWatts: "Watts",
+    targetUnitLthr: "% FCS",
+    targetUnitBpm: "bpm",
+    targetUnitPace: "% allure seuil",
+    targetUnitPerKm: "min/km",
+    targetUnitPerMile: "min/mile",
+    targetDisplay: "Afficher",
+    targetDisplayRelative: "% FTP / FCS / allure",
+    targetDisplayAbsolute: "W / bpm / min/km",
+    averageHeartRate: "FC moy.",
+    averagePace: "Allure moy.",
+    thresholdPace: "Allure seuil",
+    sport: "Sport",
+    sportBike: "Vélo",
+    sportRun: "Course à pied",
     
     // Export
     readyToExport: "Prêt à exporter ?",
     downloadZwo: "Téléchargez votre workout au format .zwo",
     downloadBtn: "Télécharger .zwo",
+    otherFormats: "Autres formats :",
+    fitFormatHint: "Garmin, Wahoo (workout FIT binaire)",
+    ergFormatHint: "TrainerRoad, PerfPRO (watts absolus selon votre FTP)",
+    mrcFormatHint: "TrainerRoad, PerfPRO, Golden Cheetah (%FTP)",
     exporting: "Export en cours...",
     exportReady: "Prêt à exporter ?",
     exportReadyDesc: "Téléchargez votre workout au format .zwo",
@@ -247,6 +477,44 @@ export const translations = {
     quotaExhausted: "Limite journalière atteinte",
     quotaResetIn: "Réinitialisation dans",
     quotaUnlimited: "Illimité",
+    cachedResult: "Même image que précédemment : le résultat précédent a été réutilisé, aucune analyse décomptée",
+
+    // Parse warnings ({name} placeholders are filled from the warning params)
+    warningIllegibleSection: "Difficile à lire : {note}",
+    warningAmbiguousValue: "Valeur ambiguë : {note}",
+    warningModelNote: "{note}",
+    warningRepairAttempt: "La réponse du modèle ne respectait pas le format, correction demandée (tentative {attempt}) : {issues}",
+    warningSchemaFixed: "Certaines données analysées ont été ajustées pour respecter le format",
+    warningDefaultName: "Aucun nom de workout trouvé, nom par défaut utilisé",
+    warningClampedPower: "Cible {value} hors limites, ramenée à {clamped}",
+    warningClampedDuration: "Durée {value}s hors limites, ramenée à {clamped}s",
+    warningClampedCadence: "Cadence {value} rpm hors limites, ramenée à {clamped} rpm",
+    warningClampedRepeat: "Nombre de répétitions {value} hors limites, ramené à {clamped}",
+    warningDefaultTarget: "Aucune cible indiquée, {value} utilisé par défaut",
+    warningDefaultDuration: "Aucune durée indiquée, {value}s utilisées par défaut",
+    warningDefaultRepeat: "Aucun nombre de répétitions indiqué, {value} utilisé",
+    warningInvalidValue: "Valeur de {field} invalide « {value} » ignorée",
+    warningUnknownUnit: "Unité de cible inconnue « {value} », lue en % FTP",
+    warningUnknownStepType: "Type d'étape inconnu « {value} », lu comme libre",
+    warningEmptyRepeat: "Bloc de répétition vide lu comme libre",
+    warningMultipleWorkouts: "L'image contient {count} workouts, celui-ci est le premier",
+    warningRoundedDurations: "{count} durées arrondies à 5 s",
+    warningRoundedTargets: "{count} cibles arrondies à l'unité",
+    warningMergedSteps: "{count} étapes identiques fusionnées",
+    warningDetectedRepeat: "Étapes alternées transformées en {repeat} intervalles",
+    warningCollapsedStairs: "{count} paliers remplacés par une rampe",
+    warningLongWorkout: "Le workout dure {minutes} min, plus de 6 h : vérifiez les durées",
+    warningLongHardEffort: "{value} % tenus {minutes} min, c'est difficilement soutenable",
+    warningWarmupRampsDown: "L'échauffement devient plus facile au lieu de plus dur",
+    warningCooldownRampsUp: "Le retour au calme devient plus dur au lieu de plus facile",
+    warningOffAboveOn: "Les récupérations sont plus dures que les efforts",
+    warningTotalMismatch: "Les étapes totalisent {total} min mais l'image indique {printed} min",
+    warningNoTargetFreeride: "Aucune cible trouvée, lu comme libre",
+    warningUnparsedText: "Impossible d'analyser « {text} »",
+    warningMissingDuration: "Élément {element} ignoré : durée manquante ou invalide",
+    warningUnsupportedElement: "Élément {element} non pris en charge, lu comme libre",
+    warningElementSkipped: "Élément {element} non pris en charge, ignoré",
+    warningUnsupportedSport: "Le sport « {value} » n'est pas pris en charge, importé en vélo",
   },
 } as const;
 
@@ -0,0 +1,127 @@
+/**
+ * Prompt Templates
+ *
+ * Versioned prompts of the image parse. A released version is never edited:
+ * changes go into a new version, so every result can be traced back to the
+ * prompt that produced it and versions can be compared, live (A/B split)
+ * or offline (evaluation).
+ *
+ * Server-side only.
+ *
+ * @see lib/services/openai.ts
+ * @see lib/services/parse-eval.ts
+ */
+
+import { createHash } from "crypto";
+import { PROMPT_2026_10_2 } from "./2026-10-2";
+import { PROMPT_2026_10_3 } from "./2026-10-3";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptContext {
+  /** Language hint for parsing */
+  locale?: string;
+  /** Additional context to help parsing */
+  notes?: string;
+}
+
+export interface PromptTemplate {
+  /** Identifier returned with each result, part of the parse cache key */
+  version: string;
+  systemPrompt: string;
+  /** User message sent with the image */
+  buildUserPrompt(context: PromptContext): string;
+  /** Follow-up asking the model to fix output that failed validation */
+  buildRepairPrompt(issues: string[]): string;
+}
+
+export interface PromptSplitEntry {
+  version: string;
+  /** Relative share of the parses, any positive number */
+  weight: number;
+}
+
+export interface PromptSelection {
+  /** Version used when no split is configured */
+  version?: string;
+  /** Weighted A/B split between versions */
+  split?: PromptSplitEntry[];
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [PROMPT_2026_10_2, PROMPT_2026_10_3];
+
+export const PROMPT_VERSIONS = PROMPT_TEMPLATES.map((template) => template.version);
+
+export const DEFAULT_PROMPT_VERSION = "2026-10-3";
+
+export function isPromptVersion(version: string): boolean {
+  return PROMPT_VERSIONS.includes(version);
+}
+
+/**
+ * Get a prompt template by version
+ *
+ * @throws Error if the version is unknown
+ */
+export function getPromptTemplate(version: string = DEFAULT_PROMPT_VERSION): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find((candidate) => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}". Known versions: ${PROMPT_VERSIONS.join(", ")}`);
+  }
+  return template;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Choose the prompt version of a parse. With a split, the key (the user, or
+ * the image when users are not tracked) always lands on the same version,
+ * so a user's results and cache entries stay consistent.
+ */
+export function selectPromptVersion(key: string | Buffer, selection: PromptSelection = {}): string {
+  const split = selection.split?.filter((entry) => entry.weight > 0) ?? [];
+  if (split.length === 0) {
+    return selection.version ?? DEFAULT_PROMPT_VERSION;
+  }
+
+  // First 32 bits of the key hash, as a position in [0, total weight)
+  const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+  const position = (createHash("sha256").update(key).digest().readUInt32BE(0) / 2 ** 32) * total;
+
+  let cumulative = 0;
+  for (const entry of split) {
+    cumulative += entry.weight;
+    if (position < cumulative) {
+      return entry.version;
+    }
+  }
+  return split[split.length - 1].version;
+}
+
+/**
+ * Parse a split written as "2026-10-2=90,2026-11-1=10"
+ *
+ * @throws Error with the offending entry if the split is malformed
+ */
+export function parsePromptSplit(value: string): PromptSplitEntry[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [version, weight] = entry.split("=").map((part) => part.trim());
+      const parsedWeight = Number(weight);
+      if (!version || !weight || !Number.isFinite(parsedWeight) || parsedWeight < 0) {
+        throw new Error(`Invalid prompt split entry "${entry}", expected version=weight`);
+      }
+      return { version, weight: parsedWeight };
+    });
+}
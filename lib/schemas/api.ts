@@ -14,19 +14,145 @@ import { WorkoutSchema } from "./workout";
 // Parse API Schemas
 // ============================================================================
 
+/**
+ * Zone model used to resolve named zones ("Z3") into power ranges
+ * @see lib/utils/zones.ts
+ */
+export const ZoneModelSchema = z.enum(["coggan", "sweet-spot"]);
+
+const ConfidenceSchema = z
+  .number()
+  .min(0, "Confidence must be 0-1")
+  .max(1, "Confidence must be 0-1");
+
+const FractionSchema = z.number().min(0).max(1);
+
+/**
+ * Region of the source image a step was read from, in fractions (0-1)
+ * of the image width and height from the top-left corner
+ */
+export const SourceRegionSchema = z.object({
+  x: FractionSchema,
+  y: FractionSchema,
+  width: FractionSchema,
+  height: FractionSchema,
+});
+
+/**
+ * How confidently a top-level step was read, and where from
+ */
+export const StepSourceSchema = z.object({
+  confidence: ConfidenceSchema,
+  region: SourceRegionSchema.optional(),
+});
+
+/**
+ * What a parse warning is about, so it can be filtered and translated
+ * @see lib/services/parse-warnings.ts
+ */
+export const WarningCodeSchema = z.enum([
+  // Reported by the vision model
+  "ILLEGIBLE_SECTION",
+  "AMBIGUOUS_VALUE",
+  "MODEL_NOTE",
+  // Repairs and fixes applied to the model output
+  "REPAIR_ATTEMPT",
+  "SCHEMA_FIXED",
+  "DEFAULT_NAME",
+  "CLAMPED_POWER",
+  "CLAMPED_DURATION",
+  "CLAMPED_CADENCE",
+  "CLAMPED_REPEAT",
+  "DEFAULT_TARGET",
+  "DEFAULT_DURATION",
+  "DEFAULT_REPEAT",
+  "INVALID_VALUE",
+  "UNKNOWN_UNIT",
+  "UNKNOWN_STEP_TYPE",
+  "EMPTY_REPEAT",
+  "MULTIPLE_WORKOUTS",
+  // Normalization of a valid workout
+  "ROUNDED_DURATIONS",
+  "ROUNDED_TARGETS",
+  "MERGED_STEPS",
+  "DETECTED_REPEAT",
+  "COLLAPSED_STAIRS",
+  // Sanity checks of a valid workout
+  "LONG_WORKOUT",
+  "LONG_HARD_EFFORT",
+  "WARMUP_RAMPS_DOWN",
+  "COOLDOWN_RAMPS_UP",
+  "OFF_ABOVE_ON",
+  "TOTAL_MISMATCH",
+  // Text and ZWO import
+  "NO_TARGET_FREERIDE",
+  "UNPARSED_TEXT",
+  "MISSING_DURATION",
+  "UNSUPPORTED_ELEMENT",
+  "ELEMENT_SKIPPED",
+  "UNSUPPORTED_SPORT",
+]);
+
+/**
+ * info: a default was applied, warning: a value was changed or guessed,
+ * error: part of the source could not be used
+ */
+export const WarningSeveritySchema = z.enum(["info", "warning", "error"]);
+
+/**
+ * ParseWarning - One approximation made while parsing
+ *
+ * message is the English rendering of the code with its params, for API
+ * clients and logs; the app renders the code in the user's language.
+ */
+export const ParseWarningSchema = z.object({
+  code: WarningCodeSchema,
+  severity: WarningSeveritySchema,
+  /** Top-level step the warning is about */
+  step_index: z.number().int().min(0).optional(),
+  params: z.record(z.string(), z.union([z.string(), z.number()])),
+  message: z.string(),
+});
+
+/**
+ * DetectedWorkout - One of several workouts read from the same image
+ * (e.g. a weekly plan), with its own warnings and confidence
+ */
+export const DetectedWorkoutSchema = z.object({
+  /** Day or session label as written in the image ("Monday", "Day 3") */
+  day: z.string().max(50).optional(),
+  workout: WorkoutSchema,
+  warnings: z.array(ParseWarningSchema),
+  confidence: ConfidenceSchema,
+  step_sources: z.array(StepSourceSchema).optional(),
+  /** Total duration printed on the image, in seconds */
+  printed_duration_s: z.number().positive().optional(),
+});
+
 /**
  * ParseResponse - Response from /api/workouts/parse
  * 
  * Constitution Principle II (Honest AI): Includes warnings and confidence
- * to communicate uncertainty transparently.
+ * to communicate uncertainty transparently. step_sources, when present,
+ * holds one entry per top-level step of the workout, in the same order.
+ *
+ * An image holding several workouts lists them all in workouts, in reading
+ * order; the top-level fields are then the first one, so clients reading a
+ * single workout keep working.
  */
 export const ParseResponseSchema = z.object({
   workout: WorkoutSchema,
-  warnings: z.array(z.string()),
-  confidence: z
-    .number()
-    .min(0, "Confidence must be 0-1")
-    .max(1, "Confidence must be 0-1"),
+  warnings: z.array(ParseWarningSchema),
+  confidence: ConfidenceSchema,
+  step_sources: z.array(StepSourceSchema).optional(),
+  /** Total duration printed on the image, in seconds */
+  printed_duration_s: z.number().positive().optional(),
+  /** Every workout of the image, only when it holds more than one */
+  workouts: z.array(DetectedWorkoutSchema).min(2).optional(),
+  /** Served from the parse cache: no model call, no quota used */
+  cached: z.boolean().optional(),
+  /** Version of the prompt template that produced the result */
+  prompt_version: z.string().optional(),
 });
 
 /**
@@ -39,6 +165,8 @@ export const ErrorCodeSchema = z.enum([
   "FILE_TOO_LARGE",
   "INVALID_FORMAT",
   "INTERNAL_ERROR",
+  "JOB_NOT_FOUND",
+  "UNAUTHORIZED",
 ]);
 
 /**
@@ -50,15 +178,137 @@ export const ParseErrorSchema = z.object({
   details: z.record(z.string(), z.unknown()).optional(),
 });
 
+// ============================================================================
+// Parse Job Schemas
+// ============================================================================
+
+/**
+ * Stages of a parse job, in order; done, failed and cancelled are final
+ */
+export const ParseJobStageSchema = z.enum([
+  "queued",
+  "validating",
+  "preprocessing",
+  "model",
+  "repair",
+  "done",
+  "failed",
+  "cancelled",
+]);
+
+/**
+ * Remaining daily analyses, returned alongside parse results
+ */
+export const RateLimitInfoSchema = z.object({
+  remaining: z.number().int().min(0),
+  limit: z.number().int().min(0),
+  resetAt: z.string(),
+});
+
+/**
+ * ParseJob - Status of an asynchronous parse (/api/workouts/parse/jobs)
+ */
+export const ParseJobSchema = z.object({
+  id: z.string(),
+  stage: ParseJobStageSchema,
+  /** Repair attempt in progress, during the repair stage */
+  attempt: z.number().int().min(1).optional(),
+  /** Set once the job is done */
+  result: ParseResponseSchema.optional(),
+  /** Set once the job failed */
+  error: ParseErrorSchema.optional(),
+  rateLimit: RateLimitInfoSchema.optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+/**
+ * BatchParseItem - Outcome of one image of a batch, result or error
+ */
+export const BatchParseItemSchema = z.object({
+  filename: z.string(),
+  result: ParseResponseSchema.optional(),
+  error: ParseErrorSchema.optional(),
+});
+
+/**
+ * BatchParseResponse - Response from /api/workouts/parse/batch, items in upload order
+ */
+export const BatchParseResponseSchema = z.object({
+  items: z.array(BatchParseItemSchema),
+  rateLimit: RateLimitInfoSchema.optional(),
+});
+
+/**
+ * ParseTextRequest - Request body for /api/workouts/parse-text
+ */
+export const ParseTextRequestSchema = z.object({
+  text: z.string().trim().min(1, "Text is required").max(5000, "Text must be 5000 characters or less"),
+  name: z.string().max(100).optional(),
+  zone_model: ZoneModelSchema.optional(),
+});
+
 // ============================================================================
 // Export API Schemas
 // ============================================================================
 
+const FtpSchema = z.number().int().min(50).max(500);
+const LthrSchema = z.number().int().min(80).max(220);
+/** Running threshold pace in seconds per km (2:00-15:00/km) */
+const ThresholdPaceSchema = z.number().int().min(120).max(900);
+
+const ExportReferenceFields = {
+  ftp: FtpSchema.optional(),
+  lthr: LthrSchema.optional(),
+  threshold_pace: ThresholdPaceSchema.optional(),
+};
+
 /**
- * ExportRequest - Request body for /api/workouts/export/zwo
+ * Athlete values used to convert watt, heart rate and pace targets on export
+ */
+export const ExportReferencesSchema = z
+  .object(ExportReferenceFields)
+  .transform(({ threshold_pace, ...references }) => ({ ...references, thresholdPace: threshold_pace }));
+
+/**
+ * ExportRequest - Request body for /api/workouts/export/zwo and /mrc
  */
 export const ExportRequestSchema = z.object({
   workout: WorkoutSchema,
+  ...ExportReferenceFields,
+});
+
+/**
+ * FitExportRequest - Request body for /api/workouts/export/fit
+ */
+export const FitExportRequestSchema = z
+  .object({
+    workout: WorkoutSchema,
+    power_unit: z.enum(["percent", "watts"]).default("percent"),
+    ...ExportReferenceFields,
+  })
+  .refine((data) => data.power_unit !== "watts" || data.ftp !== undefined, {
+    message: "FTP is required to export power targets in watts",
+    path: ["ftp"],
+  });
+
+/**
+ * ErgExportRequest - Request body for /api/workouts/export/erg
+ * The .erg format stores absolute watts, so the rider's FTP is required.
+ */
+export const ErgExportRequestSchema = z.object({
+  workout: WorkoutSchema,
+  ...ExportReferenceFields,
+  ftp: FtpSchema,
+});
+
+/**
+ * ZipExportRequest - Request body for /api/workouts/export/zip
+ * Every workout is exported as .zwo into one archive.
+ */
+export const ZipExportRequestSchema = z.object({
+  workouts: z.array(WorkoutSchema).min(1, "At least one workout is required").max(50),
+  ...ExportReferenceFields,
 });
 
 /**
@@ -74,10 +324,28 @@ export const ExportResponseSchema = z.object({
 // Type Exports
 // ============================================================================
 
+export type ZoneModelName = z.infer<typeof ZoneModelSchema>;
+export type SourceRegion = z.infer<typeof SourceRegionSchema>;
+export type StepSource = z.infer<typeof StepSourceSchema>;
+export type WarningCode = z.infer<typeof WarningCodeSchema>;
+export type WarningSeverity = z.infer<typeof WarningSeveritySchema>;
+export type ParseWarning = z.infer<typeof ParseWarningSchema>;
+export type WarningParams = ParseWarning["params"];
+export type DetectedWorkout = z.infer<typeof DetectedWorkoutSchema>;
 export type ParseResponse = z.infer<typeof ParseResponseSchema>;
 export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
 export type ParseError = z.infer<typeof ParseErrorSchema>;
+export type ParseJobStage = z.infer<typeof ParseJobStageSchema>;
+export type RateLimitInfo = z.infer<typeof RateLimitInfoSchema>;
+export type ParseJob = z.infer<typeof ParseJobSchema>;
+export type BatchParseItem = z.infer<typeof BatchParseItemSchema>;
+export type BatchParseResponse = z.infer<typeof BatchParseResponseSchema>;
+export type ParseTextRequest = z.infer<typeof ParseTextRequestSchema>;
+export type ExportReferences = z.infer<typeof ExportReferencesSchema>;
 export type ExportRequest = z.infer<typeof ExportRequestSchema>;
+export type FitExportRequest = z.infer<typeof FitExportRequestSchema>;
+export type ErgExportRequest = z.infer<typeof ErgExportRequestSchema>;
+export type ZipExportRequest = z.infer<typeof ZipExportRequestSchema>;
 export type ExportResponse = z.infer<typeof ExportResponseSchema>;
 
 // Re-export for convenience
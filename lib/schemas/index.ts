@@ -11,6 +11,12 @@ export {
   SteadyStepSchema,
   IntervalsStepSchema,
   FreerideStepSchema,
+  RepeatStepSchema,
+  TextEventSchema,
+  PowerZoneSchema,
+  TargetUnitSchema,
+  TARGET_LIMITS,
+  MAX_REPEAT,
   StepSchema,
   STEP_TYPES,
   type WarmupStep,
@@ -18,23 +24,72 @@ export {
   type SteadyStep,
   type IntervalsStep,
   type FreerideStep,
+  type RepeatStep,
+  type CadenceTarget,
+  type TextEvent,
+  type PowerZone,
+  type PowerTarget,
+  type TargetUnit,
   type Step,
   type StepType,
 } from "./step";
 
 // Workout schema and type
-export { WorkoutSchema, type Workout } from "./workout";
+export {
+  WorkoutSchema,
+  SportSchema,
+  DEFAULT_SPORT,
+  MAX_REPEAT_DEPTH,
+  MAX_EXPANDED_STEPS,
+  type Sport,
+  type Workout,
+} from "./workout";
 
 // API schemas and types
 export {
+  SourceRegionSchema,
+  StepSourceSchema,
+  WarningCodeSchema,
+  WarningSeveritySchema,
+  ParseWarningSchema,
+  DetectedWorkoutSchema,
   ParseResponseSchema,
   ParseErrorSchema,
   ErrorCodeSchema,
+  ParseJobStageSchema,
+  RateLimitInfoSchema,
+  ParseJobSchema,
+  BatchParseItemSchema,
+  BatchParseResponseSchema,
+  ParseTextRequestSchema,
+  ZoneModelSchema,
+  ExportReferencesSchema,
   ExportRequestSchema,
+  FitExportRequestSchema,
+  ErgExportRequestSchema,
+  ZipExportRequestSchema,
   ExportResponseSchema,
+  type SourceRegion,
+  type StepSource,
+  type WarningCode,
+  type WarningSeverity,
+  type ParseWarning,
+  type WarningParams,
+  type DetectedWorkout,
   type ParseResponse,
   type ParseError,
   type ErrorCode,
+  type ParseJobStage,
+  type RateLimitInfo,
+  type ParseJob,
+  type BatchParseItem,
+  type BatchParseResponse,
+  type ParseTextRequest,
+  type ZoneModelName,
+  type ExportReferences,
   type ExportRequest,
+  type FitExportRequest,
+  type ErgExportRequest,
+  type ZipExportRequest,
   type ExportResponse,
 } from "./api";
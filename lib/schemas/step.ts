@@ -9,6 +9,134 @@
 
 import { z } from "zod";
 
+// ============================================================================
+// Target Units
+// ============================================================================
+
+/**
+ * Unit a step's targets are written in, as found on the source workout:
+ * %FTP (default), absolute watts, %LTHR, heart rate in bpm, or for runs
+ * % threshold pace (speed-based: 105% is faster than threshold) and
+ * absolute pace in seconds per km or per mile (270 = 4:30/km).
+ * Target fields keep their `_pct` names whatever the unit.
+ */
+export const TargetUnitSchema = z.enum([
+  "ftp_pct",
+  "watts",
+  "lthr_pct",
+  "bpm",
+  "pace_pct",
+  "sec_per_km",
+  "sec_per_mile",
+]);
+
+type TargetUnit = z.infer<typeof TargetUnitSchema>;
+
+/** Accepted target values per unit */
+export const TARGET_LIMITS: Record<TargetUnit, { min: number; max: number; message: string }> = {
+  ftp_pct: { min: 0, max: 200, message: "Power must be 0-200% FTP" },
+  watts: { min: 0, max: 2000, message: "Power must be 0-2000 W" },
+  lthr_pct: { min: 0, max: 150, message: "Heart rate must be 0-150% LTHR" },
+  bpm: { min: 0, max: 230, message: "Heart rate must be 0-230 bpm" },
+  pace_pct: { min: 0, max: 200, message: "Pace must be 0-200% of threshold pace" },
+  sec_per_km: { min: 60, max: 1200, message: "Pace must be 1:00-20:00 min/km" },
+  sec_per_mile: { min: 90, max: 1800, message: "Pace must be 1:30-30:00 min/mile" },
+};
+
+const TargetValueSchema = z.number().min(0, "Target cannot be negative");
+
+/**
+ * Check the target fields of a step against the limits of its unit
+ */
+function checkTargetLimits<T extends { target_unit?: TargetUnit }>(fields: ReadonlyArray<keyof T & string>) {
+  return (step: T, ctx: z.RefinementCtx) => {
+    const limit = TARGET_LIMITS[step.target_unit ?? "ftp_pct"];
+    for (const field of fields) {
+      const value = step[field];
+      if (typeof value === "number" && (value < limit.min || value > limit.max)) {
+        ctx.addIssue({ code: "custom", message: limit.message, path: [field] });
+      }
+    }
+  };
+}
+
+// ============================================================================
+// Power Targets
+// ============================================================================
+
+/**
+ * Named power zone ("Z3"), resolved to a range with the rider's zone model
+ */
+export const PowerZoneSchema = z.enum(["Z1", "Z2", "Z3", "Z4", "Z5", "Z6", "Z7"]);
+
+// ============================================================================
+// Cadence Targets
+// ============================================================================
+
+const CadenceRpmSchema = z
+  .number()
+  .int()
+  .min(20, "Cadence must be 20-200 rpm")
+  .max(200, "Cadence must be 20-200 rpm");
+
+/**
+ * Optional cadence target: a single value or a low/high range (rpm)
+ */
+const CadenceFields = {
+  cadence_rpm: CadenceRpmSchema.optional(),
+  cadence_low_rpm: CadenceRpmSchema.optional(),
+  cadence_high_rpm: CadenceRpmSchema.optional(),
+};
+
+/**
+ * A cadence range goes from low to high
+ */
+function checkCadenceRange(
+  step: { cadence_low_rpm?: number; cadence_high_rpm?: number },
+  ctx: z.RefinementCtx
+) {
+  if (
+    step.cadence_low_rpm !== undefined &&
+    step.cadence_high_rpm !== undefined &&
+    step.cadence_low_rpm > step.cadence_high_rpm
+  ) {
+    ctx.addIssue({ code: "custom", message: "Cadence low must not exceed cadence high", path: ["cadence_low_rpm"] });
+  }
+}
+
+// ============================================================================
+// Repetitions
+// ============================================================================
+
+/**
+ * Most repetitions of an intervals step or repeat block: exports unroll
+ * them, so an unbounded count would build unbounded files
+ */
+export const MAX_REPEAT = 100;
+
+const RepeatCountSchema = z
+  .number()
+  .int()
+  .min(1, "At least 1 repetition required")
+  .max(MAX_REPEAT, `At most ${MAX_REPEAT} repetitions`);
+
+// ============================================================================
+// Text Events
+// ============================================================================
+
+/**
+ * On-screen message shown during a step (Zwift <textevent>)
+ * offset_s is relative to the start of the step
+ */
+export const TextEventSchema = z.object({
+  offset_s: z.number().min(0, "Offset cannot be negative"),
+  message: z.string().trim().min(1, "Message cannot be empty").max(200, "Message is limited to 200 characters"),
+});
+
+const MessageFields = {
+  messages: z.array(TextEventSchema).optional(),
+};
+
 // ============================================================================
 // Step Schemas
 // ============================================================================
@@ -19,9 +147,14 @@ import { z } from "zod";
 export const WarmupStepSchema = z.object({
   type: z.literal("warmup"),
   duration_s: z.number().positive("Duration must be positive"),
-  power_start_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-  power_end_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-});
+  power_start_pct: TargetValueSchema,
+  power_end_pct: TargetValueSchema,
+  target_unit: TargetUnitSchema.optional(),
+  ...CadenceFields,
+  ...MessageFields,
+})
+  .superRefine(checkTargetLimits(["power_start_pct", "power_end_pct"]))
+  .superRefine(checkCadenceRange);
 
 /**
  * Cooldown Step - Gradual power decrease from high to low
@@ -29,30 +162,64 @@ export const WarmupStepSchema = z.object({
 export const CooldownStepSchema = z.object({
   type: z.literal("cooldown"),
   duration_s: z.number().positive("Duration must be positive"),
-  power_start_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-  power_end_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-});
+  power_start_pct: TargetValueSchema,
+  power_end_pct: TargetValueSchema,
+  target_unit: TargetUnitSchema.optional(),
+  ...CadenceFields,
+  ...MessageFields,
+})
+  .superRefine(checkTargetLimits(["power_start_pct", "power_end_pct"]))
+  .superRefine(checkCadenceRange);
 
 /**
  * Steady Step - Constant power for a fixed duration
+ * A target band ("88-94%" or "Z3") is kept in power_low_pct / power_high_pct
+ * (and power_zone), with power_pct as its midpoint for single-value formats.
+ * Zones only apply to %FTP targets.
  */
 export const SteadyStepSchema = z.object({
   type: z.literal("steady"),
   duration_s: z.number().positive("Duration must be positive"),
-  power_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-});
+  power_pct: TargetValueSchema,
+  power_low_pct: TargetValueSchema.optional(),
+  power_high_pct: TargetValueSchema.optional(),
+  power_zone: PowerZoneSchema.optional(),
+  target_unit: TargetUnitSchema.optional(),
+  ...CadenceFields,
+  ...MessageFields,
+})
+  .superRefine(checkTargetLimits(["power_pct", "power_low_pct", "power_high_pct"]))
+  .superRefine(checkCadenceRange);
 
 /**
  * Intervals Step - Repeated on/off blocks
+ * On and off power accept a band or zone, like steady steps
  */
 export const IntervalsStepSchema = z.object({
   type: z.literal("intervals"),
-  repeat: z.number().int().min(1, "At least 1 repetition required"),
+  repeat: RepeatCountSchema,
   on_duration_s: z.number().positive("On duration must be positive"),
   off_duration_s: z.number().positive("Off duration must be positive"),
-  on_power_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-  off_power_pct: z.number().min(0).max(200, "Power must be 0-200% FTP"),
-});
+  on_power_pct: TargetValueSchema,
+  off_power_pct: TargetValueSchema,
+  on_power_low_pct: TargetValueSchema.optional(),
+  on_power_high_pct: TargetValueSchema.optional(),
+  on_power_zone: PowerZoneSchema.optional(),
+  off_power_low_pct: TargetValueSchema.optional(),
+  off_power_high_pct: TargetValueSchema.optional(),
+  off_power_zone: PowerZoneSchema.optional(),
+  target_unit: TargetUnitSchema.optional(),
+  on_cadence_rpm: CadenceRpmSchema.optional(),
+  off_cadence_rpm: CadenceRpmSchema.optional(),
+  ...MessageFields,
+}).superRefine(checkTargetLimits([
+  "on_power_pct",
+  "off_power_pct",
+  "on_power_low_pct",
+  "on_power_high_pct",
+  "off_power_low_pct",
+  "off_power_high_pct",
+]));
 
 /**
  * Freeride Step - Unstructured riding time
@@ -61,6 +228,22 @@ export const IntervalsStepSchema = z.object({
 export const FreerideStepSchema = z.object({
   type: z.literal("freeride"),
   duration_s: z.number().positive("Duration must be positive"),
+  ...CadenceFields,
+  ...MessageFields,
+}).superRefine(checkCadenceRange);
+
+/**
+ * Repeat Step - Block of child steps repeated N times
+ * Children are validated recursively and may contain nested repeat blocks,
+ * e.g. "3 sets of (4x 30/30 + 5' recovery)"
+ * Messages live on the children, so they are shown again every round
+ */
+export const RepeatStepSchema = z.object({
+  type: z.literal("repeat"),
+  repeat: RepeatCountSchema,
+  get steps(): z.ZodArray<typeof StepSchema> {
+    return z.array(StepSchema).min(1, "A repeat block needs at least one step");
+  },
 });
 
 // ============================================================================
@@ -70,12 +253,20 @@ export const FreerideStepSchema = z.object({
 /**
  * Step Schema - Discriminated union of all step types
  */
-export const StepSchema = z.discriminatedUnion("type", [
+export const StepSchema: z.ZodDiscriminatedUnion<[
+  typeof WarmupStepSchema,
+  typeof CooldownStepSchema,
+  typeof SteadyStepSchema,
+  typeof IntervalsStepSchema,
+  typeof FreerideStepSchema,
+  typeof RepeatStepSchema,
+]> = z.discriminatedUnion("type", [
   WarmupStepSchema,
   CooldownStepSchema,
   SteadyStepSchema,
   IntervalsStepSchema,
   FreerideStepSchema,
+  RepeatStepSchema,
 ]);
 
 // ============================================================================
@@ -87,6 +278,12 @@ export type CooldownStep = z.infer<typeof CooldownStepSchema>;
 export type SteadyStep = z.infer<typeof SteadyStepSchema>;
 export type IntervalsStep = z.infer<typeof IntervalsStepSchema>;
 export type FreerideStep = z.infer<typeof FreerideStepSchema>;
+export type RepeatStep = z.infer<typeof RepeatStepSchema>;
+export type CadenceTarget = Pick<SteadyStep, "cadence_rpm" | "cadence_low_rpm" | "cadence_high_rpm">;
+export type TextEvent = z.infer<typeof TextEventSchema>;
+export type PowerZone = z.infer<typeof PowerZoneSchema>;
+export type { TargetUnit };
+export type PowerTarget = Pick<SteadyStep, "power_pct" | "power_low_pct" | "power_high_pct" | "power_zone">;
 export type Step = z.infer<typeof StepSchema>;
 
 /**
@@ -100,4 +297,5 @@ export const STEP_TYPES = [
   "steady",
   "intervals",
   "freeride",
+  "repeat",
 ] as const;
@@ -7,7 +7,61 @@
  */
 
 import { z } from "zod";
-import { StepSchema } from "./step";
+import { StepSchema, type Step } from "./step";
+
+// ============================================================================
+// Sport
+// ============================================================================
+
+/**
+ * Sport of the session: bike (default, implicit when omitted) or run.
+ * Run steps take pace targets (% threshold pace, min/km, min/mile).
+ */
+export const SportSchema = z.enum(["bike", "run"]);
+
+export const DEFAULT_SPORT: Sport = "bike";
+
+// ============================================================================
+// Size Limits
+// ============================================================================
+
+/** Deepest nesting of repeat blocks: a block inside a block is 2 deep */
+export const MAX_REPEAT_DEPTH = 3;
+
+/**
+ * Most steps ridden once repeats are expanded (an intervals repetition is
+ * two): exports unroll every repeat, this bounds what they build
+ */
+export const MAX_EXPANDED_STEPS = 2000;
+
+/**
+ * Steps ridden once repeats are expanded, and the nesting depth of repeat
+ * blocks
+ */
+function measureSteps(steps: Step[]): { count: number; depth: number } {
+  let count = 0;
+  let depth = 0;
+  for (const step of steps) {
+    if (step.type === "repeat") {
+      const children = measureSteps(step.steps);
+      count += children.count * step.repeat;
+      depth = Math.max(depth, children.depth + 1);
+    } else {
+      count += step.type === "intervals" ? 2 * step.repeat : 1;
+    }
+  }
+  return { count, depth };
+}
+
+function checkWorkoutSize(steps: Step[], ctx: z.RefinementCtx) {
+  const { count, depth } = measureSteps(steps);
+  if (depth > MAX_REPEAT_DEPTH) {
+    ctx.addIssue({ code: "custom", message: `Repeat blocks can be nested ${MAX_REPEAT_DEPTH} deep at most` });
+  }
+  if (count > MAX_EXPANDED_STEPS) {
+    ctx.addIssue({ code: "custom", message: `A workout is limited to ${MAX_EXPANDED_STEPS} steps once repeats are expanded` });
+  }
+}
 
 // ============================================================================
 // Workout Schema
@@ -22,15 +76,18 @@ export const WorkoutSchema = z.object({
     .min(1, "Workout name is required")
     .max(100, "Workout name must be 100 characters or less"),
   description: z.string().optional(),
+  sport: SportSchema.optional(),
   steps: z
     .array(StepSchema)
-    .min(1, "At least one step is required"),
+    .min(1, "At least one step is required")
+    .superRefine(checkWorkoutSize),
 });
 
 // ============================================================================
 // Type Exports
 // ============================================================================
 
+export type Sport = z.infer<typeof SportSchema>;
 export type Workout = z.infer<typeof WorkoutSchema>;
 
 // Re-export step types for convenience
@@ -0,0 +1,127 @@
+/**
+ * Edit History Service
+ *
+ * Undo/redo history of an edited value: every edit records the new state,
+ * undo and redo move through them. Rapid edits of the same field (typing
+ * in a step input) are coalesced into one entry, so one undo reverts the
+ * whole burst rather than a single keystroke.
+ *
+ * Pure functions on immutable histories, stored by lib/hooks/use-workout-history.ts
+ */
+
+import type { TranslationKey } from "@/lib/i18n";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What an edit did, shown in the history list
+ */
+export interface HistoryEdit {
+  label: TranslationKey;
+  /** Top-level step the edit is about */
+  stepIndex?: number;
+  /** Edits with the same key made in a row, close together, share one entry */
+  coalesceKey?: string;
+}
+
+export interface HistoryEntry<T> extends HistoryEdit {
+  state: T;
+  /** Time of the last edit merged into the entry, in ms since the epoch */
+  at: number;
+}
+
+/**
+ * Entries oldest first, the first one holding the initial state; index
+ * points at the current entry, the ones after it can be redone
+ */
+export interface EditHistory<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Oldest entries are dropped past this count */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** Longest pause between two edits coalesced into one entry */
+export const COALESCE_WINDOW_MS = 1000;
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Start a history at an initial state
+ */
+export function createHistory<T>(state: T, edit: HistoryEdit, now: number = Date.now()): EditHistory<T> {
+  return { entries: [{ ...edit, state, at: now }], index: 0 };
+}
+
+/**
+ * Current state of a history
+ */
+export function getCurrentState<T>(history: EditHistory<T>): T {
+  return history.entries[history.index].state;
+}
+
+/**
+ * Record an edit, dropping the entries that could be redone
+ *
+ * The edit replaces the current entry when it continues it: same coalesce
+ * key, within COALESCE_WINDOW_MS, and nothing undone in between.
+ */
+export function recordEdit<T>(
+  history: EditHistory<T>,
+  state: T,
+  edit: HistoryEdit,
+  now: number = Date.now()
+): EditHistory<T> {
+  const current = history.entries[history.index];
+  const continues =
+    history.index > 0 &&
+    history.index === history.entries.length - 1 &&
+    edit.coalesceKey !== undefined &&
+    edit.coalesceKey === current.coalesceKey &&
+    now - current.at <= COALESCE_WINDOW_MS;
+
+  const kept = history.entries.slice(0, continues ? history.index : history.index + 1);
+  const entries = [...kept, { ...edit, state, at: now }].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+}
+
+export function canUndo<T>(history: EditHistory<T>): boolean {
+  return history.index > 0;
+}
+
+export function canRedo<T>(history: EditHistory<T>): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+/**
+ * Move to an entry of the history, keeping the others
+ */
+export function goToEntry<T>(history: EditHistory<T>, index: number): EditHistory<T> {
+  const clamped = Math.max(0, Math.min(history.entries.length - 1, index));
+  return clamped === history.index ? history : { ...history, index: clamped };
+}
+
+export function undoEdit<T>(history: EditHistory<T>): EditHistory<T> {
+  return goToEntry(history, history.index - 1);
+}
+
+export function redoEdit<T>(history: EditHistory<T>): EditHistory<T> {
+  return goToEntry(history, history.index + 1);
+}
+
+/**
+ * Apply a change to every state of the history, for changes that are not
+ * edits (targets resolved again under another zone model)
+ */
+export function mapHistory<T>(history: EditHistory<T>, map: (state: T) => T): EditHistory<T> {
+  return { ...history, entries: history.entries.map((entry) => ({ ...entry, state: map(entry.state) })) };
+}
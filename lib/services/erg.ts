@@ -0,0 +1,179 @@
+/**
+ * ERG / MRC Generator Service
+ *
+ * Converts canonical Workout JSON to the plain-text course formats read by
+ * TrainerRoad, PerfPRO, Golden Cheetah and most ERG-mode trainer apps:
+ * - .erg: absolute watts (requires the rider's FTP)
+ * - .mrc: percentage of FTP
+ *
+ * Each step becomes a pair of (minutes, power) points: flat steps have equal
+ * start/end power, ramps become sloped segments, intervals and repeat
+ * blocks are expanded.
+ *
+ * Constitution Principle III: Valid Export
+ * - Monotonic timeline, one point pair per segment
+ * - Header values sanitized to single lines
+ */
+
+import type { Workout, Step } from "@/lib/schemas";
+import { generateWorkoutFilename } from "./zwo";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ErgExportOptions {
+  /** Rider's FTP in watts, used to convert %FTP targets */
+  ftp: number;
+}
+
+interface CoursePoint {
+  seconds: number;
+  pct: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LINE_BREAK = "\r\n";
+
+/** Free ride has no target: use the same 50% the chart displays */
+const FREERIDE_POWER_PCT = 50;
+
+// ============================================================================
+// Course Points
+// ============================================================================
+
+/**
+ * Convert a step into (time, %FTP) points, starting at `startS`.
+ * Repeats are unrolled: the workout schema bounds how many points that makes.
+ */
+function stepToPoints(step: Step, startS: number): CoursePoint[] {
+  const segment = (fromS: number, durationS: number, startPct: number, endPct: number): CoursePoint[] => [
+    { seconds: fromS, pct: startPct },
+    { seconds: fromS + durationS, pct: endPct },
+  ];
+
+  switch (step.type) {
+    case "warmup":
+    case "cooldown":
+      return segment(startS, step.duration_s, step.power_start_pct, step.power_end_pct);
+    case "steady":
+      return segment(startS, step.duration_s, step.power_pct, step.power_pct);
+    case "intervals": {
+      const points: CoursePoint[] = [];
+      let time = startS;
+      for (let i = 0; i < step.repeat; i++) {
+        points.push(...segment(time, step.on_duration_s, step.on_power_pct, step.on_power_pct));
+        time += step.on_duration_s;
+        points.push(...segment(time, step.off_duration_s, step.off_power_pct, step.off_power_pct));
+        time += step.off_duration_s;
+      }
+      return points;
+    }
+    case "freeride":
+      return segment(startS, step.duration_s, FREERIDE_POWER_PCT, FREERIDE_POWER_PCT);
+    case "repeat": {
+      const points: CoursePoint[] = [];
+      let time = startS;
+      for (let i = 0; i < step.repeat; i++) {
+        for (const child of step.steps) {
+          const childPoints = stepToPoints(child, time);
+          points.push(...childPoints);
+          time = childPoints[childPoints.length - 1].seconds;
+        }
+      }
+      return points;
+    }
+    default:
+      // TypeScript exhaustiveness check
+      const _exhaustive: never = step;
+      throw new Error(`Unknown step type: ${(_exhaustive as Step).type}`);
+  }
+}
+
+/**
+ * Expand the whole workout into a course timeline
+ */
+function workoutToPoints(workout: Workout): CoursePoint[] {
+  const points: CoursePoint[] = [];
+  let elapsedS = 0;
+
+  for (const step of workout.steps) {
+    const stepPoints = stepToPoints(step, elapsedS);
+    points.push(...stepPoints);
+    elapsedS = stepPoints[stepPoints.length - 1].seconds;
+  }
+
+  return points;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatMinutes(seconds: number): string {
+  return (seconds / 60).toFixed(2);
+}
+
+/**
+ * Header values must fit on a single line without section brackets
+ */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").replace(/[[\]]/g, "").trim();
+}
+
+function buildCourse(
+  workout: Workout,
+  extension: "erg" | "mrc",
+  unitsLine: string,
+  points: string[],
+  extraHeader: string[] = []
+): string {
+  const lines = [
+    "[COURSE HEADER]",
+    "VERSION = 2",
+    "UNITS = ENGLISH",
+    `DESCRIPTION = ${sanitizeHeaderValue(workout.description || workout.name)}`,
+    `FILE NAME = ${generateWorkoutFilename(workout.name, extension)}`,
+    ...extraHeader,
+    unitsLine,
+    "[END COURSE HEADER]",
+    "[COURSE DATA]",
+    ...points,
+    "[END COURSE DATA]",
+  ];
+
+  return lines.join(LINE_BREAK) + LINE_BREAK;
+}
+
+// ============================================================================
+// Main Generators
+// ============================================================================
+
+/**
+ * Convert a Workout to .erg format (absolute watts)
+ */
+export function workoutToErg(workout: Workout, options: ErgExportOptions): string {
+  if (!(options.ftp > 0)) {
+    throw new Error("FTP is required to export .erg files");
+  }
+
+  const points = workoutToPoints(workout).map(
+    (point) => `${formatMinutes(point.seconds)}\t${Math.round((point.pct / 100) * options.ftp)}`
+  );
+
+  return buildCourse(workout, "erg", "MINUTES WATTS", points, [`FTP = ${options.ftp}`]);
+}
+
+/**
+ * Convert a Workout to .mrc format (percentage of FTP)
+ */
+export function workoutToMrc(workout: Workout): string {
+  const points = workoutToPoints(workout).map(
+    (point) => `${formatMinutes(point.seconds)}\t${Math.round(point.pct)}`
+  );
+
+  return buildCourse(workout, "mrc", "MINUTES PERCENT", points);
+}
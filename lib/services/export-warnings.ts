@@ -0,0 +1,350 @@
+/**
+ * Export Warnings Service
+ *
+ * Lists what an export format cannot represent exactly, so the rider knows
+ * when the downloaded file differs from the workout shown in the editor,
+ * and converts targets to what the format can hold.
+ *
+ * Power bands ("88-94%", "Z3"):
+ * - .fit keeps them as custom low/high targets
+ * - .zwo, .erg and .mrc hold one value per step: the band's midpoint
+ *
+ * Target units:
+ * - .fit holds %FTP, watts, bpm and pace natively; %LTHR is converted to
+ *   bpm and % threshold pace to speed
+ * - .zwo, .erg and .mrc hold one relative unit: %FTP, or % threshold pace
+ *   for a run .zwo. Absolute targets are converted to it, targets of
+ *   another kind (heart rate, pace on a bike, power on a run) become free rides
+ *
+ * Constitution Principle II: Honest AI
+ * - Precision lost on export is reported, never silent
+ */
+
+import type { Workout, Step, TargetUnit, WarningParams } from "@/lib/schemas";
+import { translations, type TranslationKey } from "@/lib/i18n/translations";
+import { formatPowerTarget, getPowerBand, getPowerTarget, getStepDuration, type LeafStep } from "@/lib/utils/steps";
+import {
+  TARGET_UNITS,
+  convertStepTargets,
+  formatPace,
+  getTargetUnit,
+  isHeartRateUnit,
+  type TargetReferences,
+} from "@/lib/utils/targets";
+import { fillTemplate } from "./parse-warnings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "zwo" | "fit" | "erg" | "mrc";
+
+export type ExportWarningCode = keyof typeof EXPORT_WARNING_MESSAGES;
+
+/**
+ * One target a format cannot represent exactly. Sent as a code and params
+ * so the app renders it in the user's language, like a ParseWarning.
+ */
+export interface ExportWarning {
+  code: ExportWarningCode;
+  /**
+   * step: label of the step ("3", or "3.1" inside a repeat block),
+   * part: "on" or "off" half of an intervals step, and the values the
+   * message needs
+   */
+  params: WarningParams;
+}
+
+/**
+ * The warnings of a file download: those listed and how many there are
+ */
+export interface DownloadWarnings {
+  warnings: ExportWarning[];
+  count: number;
+}
+
+/**
+ * The warnings of one file of a ZIP export
+ */
+export interface ExportWarningsEntry {
+  file: string;
+  warnings: (ExportWarning & { message: string })[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Formats that store a power band natively */
+const BAND_FORMATS: ReadonlySet<ExportFormat> = new Set(["fit"]);
+
+/** Formats that store heart rate and watt targets natively */
+const NATIVE_UNIT_FORMATS: ReadonlySet<ExportFormat> = new Set(["fit"]);
+
+export const EXPORT_WARNINGS_HEADER = "X-Export-Warnings";
+
+/** Number of warnings, also sent when they are listed elsewhere (a ZIP manifest) */
+export const EXPORT_WARNING_COUNT_HEADER = "X-Export-Warning-Count";
+
+/**
+ * Longest value of the warnings header: servers and proxies reject large
+ * headers (8 KB in total for many), warnings past it are only counted
+ */
+export const MAX_EXPORT_WARNINGS_HEADER_LENGTH = 4096;
+
+/** Manifest listing the warnings of every file of a ZIP export */
+export const EXPORT_WARNINGS_MANIFEST = "warnings.json";
+
+const EXPORT_WARNING_MESSAGES = {
+  LTHR_CONVERTED: "exportWarningLthrConverted",
+  LTHR_MISSING: "exportWarningLthrMissing",
+  THRESHOLD_PACE_CONVERTED: "exportWarningThresholdPaceConverted",
+  THRESHOLD_PACE_MISSING: "exportWarningThresholdPaceMissing",
+  FTP_AS_PACE: "exportWarningFtpAsPace",
+  HEART_RATE_FREERIDE: "exportWarningHeartRateFreeride",
+  POWER_ON_RUN: "exportWarningPowerOnRun",
+  PACE_ON_BIKE: "exportWarningPaceOnBike",
+  PACE_CONVERTED: "exportWarningPaceConverted",
+  PACE_MISSING: "exportWarningPaceMissing",
+  WATTS_CONVERTED: "exportWarningWattsConverted",
+  WATTS_MISSING: "exportWarningWattsMissing",
+  BAND_FTP: "exportWarningBandFtp",
+  BAND_PACE: "exportWarningBandPace",
+} as const satisfies Record<string, TranslationKey>;
+
+// ============================================================================
+// Target Conversion
+// ============================================================================
+
+/**
+ * The one unit a single-unit format holds: % threshold pace on a run .zwo
+ * (Zwift's run convention), %FTP otherwise
+ */
+function exportUnit(workout: Workout, format: ExportFormat): TargetUnit {
+  return format === "zwo" && workout.sport === "run" ? "pace_pct" : "ftp_pct";
+}
+
+/**
+ * A leaf step as a single-unit format stores it: targets in `unit`,
+ * or a free ride when the targets cannot be converted
+ */
+function toUnitStep(step: LeafStep, unit: TargetUnit, references: TargetReferences): LeafStep {
+  const from = getTargetUnit(step);
+  // Zwift reads the values of a run .zwo as % threshold pace anyway
+  if (from === null || from === unit || (from === "ftp_pct" && unit === "pace_pct")) return step;
+
+  const converted = TARGET_UNITS[from].kind === TARGET_UNITS[unit].kind
+    ? convertStepTargets(step, unit, references)
+    : null;
+  if (converted) return converted;
+
+  return {
+    type: "freeride",
+    duration_s: getStepDuration(step),
+    ...(step.type !== "intervals" && {
+      cadence_rpm: step.cadence_rpm,
+      cadence_low_rpm: step.cadence_low_rpm,
+      cadence_high_rpm: step.cadence_high_rpm,
+    }),
+    messages: step.messages,
+  };
+}
+
+function toUnitSteps(steps: Step[], unit: TargetUnit, references: TargetReferences): Step[] {
+  return steps.map((step) =>
+    step.type === "repeat"
+      ? { ...step, steps: toUnitSteps(step.steps, unit, references) }
+      : toUnitStep(step, unit, references)
+  );
+}
+
+/**
+ * The workout with its targets in units the format can hold
+ */
+export function toExportWorkout(
+  workout: Workout,
+  format: ExportFormat,
+  references: TargetReferences = {}
+): Workout {
+  if (NATIVE_UNIT_FORMATS.has(format)) {
+    return workout;
+  }
+  return { ...workout, steps: toUnitSteps(workout.steps, exportUnit(workout, format), references) };
+}
+
+// ============================================================================
+// Warnings
+// ============================================================================
+
+type UnitWarning = Omit<ExportWarning, "params"> & { params?: WarningParams };
+
+function nativeUnitWarning(unit: TargetUnit | null, references: TargetReferences): UnitWarning | null {
+  switch (unit) {
+    case "lthr_pct":
+      return references.lthr
+        ? { code: "LTHR_CONVERTED", params: { lthr: references.lthr } }
+        : { code: "LTHR_MISSING" };
+    case "pace_pct":
+      return references.thresholdPace
+        ? { code: "THRESHOLD_PACE_CONVERTED", params: { pace: formatPace(references.thresholdPace) } }
+        : { code: "THRESHOLD_PACE_MISSING" };
+    default:
+      return null;
+  }
+}
+
+function unitWarning(
+  step: LeafStep,
+  target: TargetUnit,
+  format: ExportFormat,
+  references: TargetReferences
+): UnitWarning | null {
+  const unit = getTargetUnit(step);
+
+  if (NATIVE_UNIT_FORMATS.has(format)) {
+    return nativeUnitWarning(unit, references);
+  }
+  if (unit === null || unit === target) {
+    return null;
+  }
+  if (unit === "ftp_pct" && target === "pace_pct") {
+    return { code: "FTP_AS_PACE" };
+  }
+
+  const kind = TARGET_UNITS[unit].kind;
+  if (isHeartRateUnit(unit)) {
+    return { code: "HEART_RATE_FREERIDE", params: { format } };
+  }
+  if (kind !== TARGET_UNITS[target].kind) {
+    return { code: target === "pace_pct" ? "POWER_ON_RUN" : "PACE_ON_BIKE", params: { format } };
+  }
+
+  if (kind === "pace") {
+    return references.thresholdPace
+      ? { code: "PACE_CONVERTED", params: { pace: formatPace(references.thresholdPace) } }
+      : { code: "PACE_MISSING" };
+  }
+  if (!references.ftp) {
+    return { code: "WATTS_MISSING" };
+  }
+  // .erg stores watts: converting through %FTP gives the same values back
+  return format === "erg" ? null : { code: "WATTS_CONVERTED", params: { ftp: references.ftp } };
+}
+
+function collectWarnings(
+  steps: Step[],
+  prefix: string,
+  target: TargetUnit,
+  format: ExportFormat,
+  references: TargetReferences,
+  warnings: ExportWarning[]
+): void {
+  steps.forEach((step, index) => {
+    const label = `${prefix}${index + 1}`;
+
+    if (step.type === "repeat") {
+      collectWarnings(step.steps, `${label}.`, target, format, references, warnings);
+      return;
+    }
+
+    const unit = unitWarning(step, target, format, references);
+    if (unit) {
+      warnings.push({ code: unit.code, params: { step: label, ...unit.params } });
+    }
+
+    if (BAND_FORMATS.has(format)) return;
+
+    const exported = toUnitStep(step, target, references);
+    const parts = exported.type === "intervals" ? (["on", "off"] as const) : (["on"] as const);
+
+    for (const part of parts) {
+      const band = getPowerTarget(exported, part);
+      if (band && getPowerBand(band)) {
+        warnings.push({
+          code: target === "pace_pct" ? "BAND_PACE" : "BAND_FTP",
+          params: {
+            step: label,
+            ...(exported.type === "intervals" && { part }),
+            band: formatPowerTarget(band),
+            value: band.power_pct,
+          },
+        });
+      }
+    }
+  });
+}
+
+/**
+ * List the targets a format cannot represent exactly
+ */
+export function getExportWarnings(
+  workout: Workout,
+  format: ExportFormat,
+  references: TargetReferences = {}
+): ExportWarning[] {
+  const warnings: ExportWarning[] = [];
+  collectWarnings(workout.steps, "", exportUnit(workout, format), format, references, warnings);
+  return warnings;
+}
+
+/**
+ * Render a warning with the given translate function, prefixed with its step
+ */
+export function formatExportWarning(warning: ExportWarning, t: (key: TranslationKey) => string): string {
+  const { part } = warning.params;
+  const step = part === "on" ? "exportWarningStepOn" : part === "off" ? "exportWarningStepOff" : "exportWarningStep";
+  return `${fillTemplate(t(step), warning.params)}: ${fillTemplate(t(EXPORT_WARNING_MESSAGES[warning.code]), warning.params)}`;
+}
+
+/**
+ * Response headers carrying the warnings of a file download
+ * (URI-encoded JSON, as header values must stay ASCII): as many as fit in
+ * MAX_EXPORT_WARNINGS_HEADER_LENGTH, and the count of all of them
+ */
+export function exportWarningsHeaders(warnings: ExportWarning[]): Record<string, string> {
+  if (warnings.length === 0) {
+    return {};
+  }
+
+  // URI encoding is per character: the lengths of the parts add up
+  const listed: ExportWarning[] = [];
+  let length = encodeURIComponent("[]").length;
+  for (const warning of warnings) {
+    length += encodeURIComponent(JSON.stringify(warning)).length;
+    length += listed.length > 0 ? encodeURIComponent(",").length : 0;
+    if (length > MAX_EXPORT_WARNINGS_HEADER_LENGTH) break;
+    listed.push(warning);
+  }
+
+  return {
+    [EXPORT_WARNINGS_HEADER]: encodeURIComponent(JSON.stringify(listed)),
+    [EXPORT_WARNING_COUNT_HEADER]: String(warnings.length),
+  };
+}
+
+/**
+ * The warnings manifest of a ZIP export, with the English message of each
+ * warning for whoever opens the archive, or null without warnings
+ */
+export function exportWarningsManifest(files: { file: string; warnings: ExportWarning[] }[]): string | null {
+  const t = (key: TranslationKey) => translations.en[key];
+  const entries: ExportWarningsEntry[] = files
+    .filter(({ warnings }) => warnings.length > 0)
+    .map(({ file, warnings }) => ({
+      file,
+      warnings: warnings.map((warning) => ({ ...warning, message: formatExportWarning(warning, t) })),
+    }));
+  return entries.length > 0 ? JSON.stringify(entries, null, 2) : null;
+}
+
+/**
+ * Read the warnings of a file download: those listed in the response and
+ * how many there are in total (past the header limit, or in a ZIP export,
+ * some are only counted)
+ */
+export function readExportWarnings(headers: Headers): DownloadWarnings {
+  const listed = headers.get(EXPORT_WARNINGS_HEADER);
+  const warnings: ExportWarning[] = listed ? JSON.parse(decodeURIComponent(listed)) : [];
+  const count = Number(headers.get(EXPORT_WARNING_COUNT_HEADER) ?? warnings.length);
+  return { warnings, count: Number.isInteger(count) ? Math.max(count, warnings.length) : warnings.length };
+}
@@ -0,0 +1,422 @@
+/**
+ * FIT Workout Generator Service
+ *
+ * Converts canonical Workout JSON to a binary Garmin FIT workout file
+ * (file_id + workout + workout_step messages) for Garmin and Wahoo devices.
+ *
+ * Constitution Principle III: Valid Export
+ * - CRC-16 on header and file, as required by the FIT protocol
+ * - Intervals and repeat blocks encoded as native repeat steps
+ * - Power targets in %FTP or absolute watts, power bands kept as low/high
+ * - Heart rate targets in bpm (%LTHR converted with the rider's LTHR)
+ * - Run workouts use the running sport, with pace targets as speed
+ *
+ * @see https://developer.garmin.com/fit/protocol/
+ */
+
+import type { Workout, Step, TargetUnit } from "@/lib/schemas";
+import { getPowerBand, getPowerTarget, type LeafStep } from "@/lib/utils/steps";
+import {
+  DEFAULT_TARGET_UNIT,
+  convertTargetValue,
+  getTargetUnit,
+  isHeartRateUnit,
+  isPaceUnit,
+} from "@/lib/utils/targets";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FitPowerUnit = "percent" | "watts";
+
+export interface FitExportOptions {
+  /** Encode power targets as %FTP (default) or absolute watts */
+  powerUnit?: FitPowerUnit;
+  /** Required when powerUnit is "watts" */
+  ftp?: number;
+  /** Converts %LTHR targets to bpm; without it they are left open */
+  lthr?: number;
+  /** Threshold pace (s/km), converts % threshold pace to speed; without it they are left open */
+  thresholdPace?: number;
+  /** Defaults to now; fixed in tests for reproducible output */
+  timeCreated?: Date;
+}
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface WorkoutStepMessage {
+  name: string;
+  durationType: number;
+  durationValue: number;
+  targetType: number;
+  targetValue: number;
+  targetLow: number;
+  targetHigh: number;
+  intensity: number;
+}
+
+// ============================================================================
+// Protocol Constants
+// ============================================================================
+
+const FIT_HEADER_SIZE = 14;
+const FIT_PROTOCOL_VERSION = 0x20; // 2.0
+const FIT_PROFILE_VERSION = 2132; // 21.32
+const FIT_EPOCH_OFFSET_S = 631065600; // 1989-12-31T00:00:00Z
+
+const MESG_FILE_ID = 0;
+const MESG_WORKOUT = 26;
+const MESG_WORKOUT_STEP = 27;
+
+const BASE_ENUM = 0x00;
+const BASE_STRING = 0x07;
+const BASE_UINT16 = 0x84;
+const BASE_UINT32 = 0x86;
+const BASE_UINT32Z = 0x8c;
+
+const INVALID_ENUM = 0xff;
+const INVALID_UINT32 = 0xffffffff;
+
+const FILE_TYPE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+const SPORT_CYCLING = 2;
+
+const DURATION_TIME = 0;
+const DURATION_REPEAT_UNTIL_STEPS_CMPLT = 6;
+
+const TARGET_SPEED = 0;
+const TARGET_HEART_RATE = 1;
+const TARGET_OPEN = 2;
+const TARGET_POWER = 4;
+
+const INTENSITY_ACTIVE = 0;
+const INTENSITY_REST = 1;
+const INTENSITY_WARMUP = 2;
+const INTENSITY_COOLDOWN = 3;
+
+/** Custom power targets above this offset are absolute watts */
+const POWER_WATTS_OFFSET = 1000;
+
+/** Custom heart rate targets above this offset are bpm (below: % of max HR) */
+const HEART_RATE_BPM_OFFSET = 100;
+
+/** Custom speed targets are in mm/s (m/s, scale 1000) */
+const SPEED_SCALE = 1000;
+
+const STEP_NAME_SIZE = 16;
+const WORKOUT_NAME_MAX_SIZE = 64;
+
+// ============================================================================
+// CRC
+// ============================================================================
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 over a byte range
+ */
+export function fitCrc(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+// ============================================================================
+// Byte Writer
+// ============================================================================
+
+class FitWriter {
+  private bytes: number[] = [];
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16(value: number): void {
+    this.uint8(value);
+    this.uint8(value >>> 8);
+  }
+
+  uint32(value: number): void {
+    this.uint16(value & 0xffff);
+    this.uint16(value >>> 16);
+  }
+
+  /**
+   * Null-terminated UTF-8 string padded to a fixed field size
+   */
+  string(value: string, size: number): void {
+    const encoded = encodeFitString(value, size);
+    for (let i = 0; i < size; i++) {
+      this.uint8(encoded[i] ?? 0);
+    }
+  }
+
+  definition(localType: number, globalNum: number, fields: FieldDefinition[]): void {
+    this.uint8(0x40 | localType);
+    this.uint8(0); // reserved
+    this.uint8(0); // little-endian
+    this.uint16(globalNum);
+    this.uint8(fields.length);
+    for (const field of fields) {
+      this.uint8(field.num);
+      this.uint8(field.size);
+      this.uint8(field.baseType);
+    }
+  }
+
+  dataHeader(localType: number): void {
+    this.uint8(localType);
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+/**
+ * Encode a string as UTF-8, truncated on a character boundary
+ * so that it fits in `size` bytes including the null terminator
+ */
+function encodeFitString(value: string, size: number): Uint8Array {
+  const encoder = new TextEncoder();
+  let result = encoder.encode(value);
+  let chars = Array.from(value);
+  while (result.length > size - 1 && chars.length > 0) {
+    chars = chars.slice(0, -1);
+    result = encoder.encode(chars.join(""));
+  }
+  return result;
+}
+
+// ============================================================================
+// Step Conversion
+// ============================================================================
+
+/**
+ * Custom target value for a step value in its unit, or null when it
+ * cannot be encoded (%LTHR without an LTHR, % pace without a threshold pace)
+ */
+function customTarget(value: number, unit: TargetUnit, options: FitExportOptions): number | null {
+  switch (unit) {
+    case "ftp_pct":
+      return options.powerUnit === "watts"
+        ? POWER_WATTS_OFFSET + Math.round((value / 100) * options.ftp!)
+        : Math.round(value);
+    case "watts":
+      // Absolute watts are native in FIT, whatever powerUnit asks for
+      return POWER_WATTS_OFFSET + Math.round(value);
+    case "bpm":
+      return HEART_RATE_BPM_OFFSET + Math.round(value);
+    case "lthr_pct":
+      return options.lthr ? HEART_RATE_BPM_OFFSET + Math.round((value / 100) * options.lthr) : null;
+    case "pace_pct":
+    case "sec_per_km":
+    case "sec_per_mile": {
+      const secPerKm = convertTargetValue(value, unit, "sec_per_km", { thresholdPace: options.thresholdPace });
+      return secPerKm ? Math.round((1000 / secPerKm) * SPEED_SCALE) : null;
+    }
+  }
+}
+
+function targetType(unit: TargetUnit): number {
+  if (isHeartRateUnit(unit)) return TARGET_HEART_RATE;
+  if (isPaceUnit(unit)) return TARGET_SPEED;
+  return TARGET_POWER;
+}
+
+function timedStep(
+  name: string,
+  durationS: number,
+  range: [number, number] | null,
+  unit: TargetUnit,
+  intensity: number,
+  options: FitExportOptions
+): WorkoutStepMessage {
+  // Converted before ordering: a faster pace is a lower value but a higher speed
+  const values = range?.map((value) => customTarget(value, unit, options)) ?? [];
+  const hasTarget = values.length > 0 && values.every((value) => value !== null);
+  const targets = hasTarget ? (values as number[]) : [];
+  return {
+    name,
+    durationType: DURATION_TIME,
+    durationValue: Math.round(durationS * 1000),
+    targetType: hasTarget ? targetType(unit) : TARGET_OPEN,
+    targetValue: 0, // 0 = use custom low/high
+    targetLow: hasTarget ? Math.min(...targets) : INVALID_UINT32,
+    targetHigh: hasTarget ? Math.max(...targets) : INVALID_UINT32,
+    intensity,
+  };
+}
+
+/**
+ * "Repeat until steps complete": jump back to `toIndex` until done `count` times
+ */
+function repeatStep(toIndex: number, count: number): WorkoutStepMessage {
+  return {
+    name: "Repeat",
+    durationType: DURATION_REPEAT_UNTIL_STEPS_CMPLT,
+    durationValue: toIndex,
+    targetType: INVALID_ENUM,
+    targetValue: count,
+    targetLow: INVALID_UINT32,
+    targetHigh: INVALID_UINT32,
+    intensity: INVALID_ENUM,
+  };
+}
+
+/**
+ * Low/high target of a steady step or interval half: its band, or the single value twice
+ */
+function powerRange(step: LeafStep, part: "on" | "off" = "on"): [number, number] {
+  const target = getPowerTarget(step, part)!;
+  const band = getPowerBand(target);
+  return band ? [band.low_pct, band.high_pct] : [target.power_pct, target.power_pct];
+}
+
+/**
+ * Convert a step into one or more workout_step messages
+ *
+ * @param firstIndex - message_index of the first emitted message
+ */
+function stepToMessages(step: Step, firstIndex: number, options: FitExportOptions): WorkoutStepMessage[] {
+  const unit = getTargetUnit(step) ?? DEFAULT_TARGET_UNIT;
+
+  switch (step.type) {
+    case "warmup":
+      return [timedStep("Warmup", step.duration_s, [step.power_start_pct, step.power_end_pct], unit, INTENSITY_WARMUP, options)];
+    case "cooldown":
+      return [timedStep("Cooldown", step.duration_s, [step.power_start_pct, step.power_end_pct], unit, INTENSITY_COOLDOWN, options)];
+    case "steady":
+      return [timedStep("Steady", step.duration_s, powerRange(step), unit, INTENSITY_ACTIVE, options)];
+    case "intervals":
+      return [
+        timedStep("On", step.on_duration_s, powerRange(step, "on"), unit, INTENSITY_ACTIVE, options),
+        timedStep("Off", step.off_duration_s, powerRange(step, "off"), unit, INTENSITY_REST, options),
+        repeatStep(firstIndex, step.repeat), // jump back to the "On" step
+      ];
+    case "freeride":
+      return [timedStep("Free Ride", step.duration_s, null, unit, INTENSITY_ACTIVE, options)];
+    case "repeat": {
+      // Children first (nested repeats included), then a repeat back to the first child
+      const messages: WorkoutStepMessage[] = [];
+      for (const child of step.steps) {
+        messages.push(...stepToMessages(child, firstIndex + messages.length, options));
+      }
+      return [...messages, repeatStep(firstIndex, step.repeat)];
+    }
+    default:
+      // TypeScript exhaustiveness check
+      const _exhaustive: never = step;
+      throw new Error(`Unknown step type: ${(_exhaustive as Step).type}`);
+  }
+}
+
+// ============================================================================
+// Main Generator
+// ============================================================================
+
+/**
+ * Convert a Workout to a binary FIT workout file
+ */
+export function workoutToFit(workout: Workout, options: FitExportOptions = {}): Uint8Array {
+  if (options.powerUnit === "watts" && !(options.ftp && options.ftp > 0)) {
+    throw new Error("FTP is required to export power targets in watts");
+  }
+
+  const messages: WorkoutStepMessage[] = [];
+  for (const step of workout.steps) {
+    messages.push(...stepToMessages(step, messages.length, options));
+  }
+
+  const timeCreated = options.timeCreated ?? new Date();
+  const fitTimestamp = Math.max(0, Math.floor(timeCreated.getTime() / 1000) - FIT_EPOCH_OFFSET_S);
+  const nameSize = Math.min(WORKOUT_NAME_MAX_SIZE, new TextEncoder().encode(workout.name).length + 1);
+
+  const data = new FitWriter();
+
+  // file_id
+  data.definition(0, MESG_FILE_ID, [
+    { num: 0, size: 1, baseType: BASE_ENUM },    // type
+    { num: 1, size: 2, baseType: BASE_UINT16 },  // manufacturer
+    { num: 2, size: 2, baseType: BASE_UINT16 },  // product
+    { num: 3, size: 4, baseType: BASE_UINT32Z }, // serial_number
+    { num: 4, size: 4, baseType: BASE_UINT32 },  // time_created
+  ]);
+  data.dataHeader(0);
+  data.uint8(FILE_TYPE_WORKOUT);
+  data.uint16(MANUFACTURER_DEVELOPMENT);
+  data.uint16(0);
+  data.uint32(fitTimestamp || 1); // uint32z: 0 is invalid
+  data.uint32(fitTimestamp);
+
+  // workout
+  data.definition(1, MESG_WORKOUT, [
+    { num: 4, size: 1, baseType: BASE_ENUM },         // sport
+    { num: 6, size: 2, baseType: BASE_UINT16 },       // num_valid_steps
+    { num: 8, size: nameSize, baseType: BASE_STRING }, // wkt_name
+  ]);
+  data.dataHeader(1);
+  data.uint8(workout.sport === "run" ? SPORT_RUNNING : SPORT_CYCLING);
+  data.uint16(messages.length);
+  data.string(workout.name, nameSize);
+
+  // workout_step
+  data.definition(2, MESG_WORKOUT_STEP, [
+    { num: 254, size: 2, baseType: BASE_UINT16 },           // message_index
+    { num: 0, size: STEP_NAME_SIZE, baseType: BASE_STRING }, // wkt_step_name
+    { num: 1, size: 1, baseType: BASE_ENUM },                // duration_type
+    { num: 2, size: 4, baseType: BASE_UINT32 },              // duration_value
+    { num: 3, size: 1, baseType: BASE_ENUM },                // target_type
+    { num: 4, size: 4, baseType: BASE_UINT32 },              // target_value
+    { num: 5, size: 4, baseType: BASE_UINT32 },              // custom_target_value_low
+    { num: 6, size: 4, baseType: BASE_UINT32 },              // custom_target_value_high
+    { num: 7, size: 1, baseType: BASE_ENUM },                // intensity
+  ]);
+  messages.forEach((message, index) => {
+    data.dataHeader(2);
+    data.uint16(index);
+    data.string(message.name, STEP_NAME_SIZE);
+    data.uint8(message.durationType);
+    data.uint32(message.durationValue);
+    data.uint8(message.targetType);
+    data.uint32(message.targetValue);
+    data.uint32(message.targetLow);
+    data.uint32(message.targetHigh);
+    data.uint8(message.intensity);
+  });
+
+  // Header + data + file CRC
+  const body = data.toUint8Array();
+  const file = new Uint8Array(FIT_HEADER_SIZE + body.length + 2);
+  const view = new DataView(file.buffer);
+
+  view.setUint8(0, FIT_HEADER_SIZE);
+  view.setUint8(1, FIT_PROTOCOL_VERSION);
+  view.setUint16(2, FIT_PROFILE_VERSION, true);
+  view.setUint32(4, body.length, true);
+  file.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+  view.setUint16(12, fitCrc(file, 0, 12), true);
+
+  file.set(body, FIT_HEADER_SIZE);
+  view.setUint16(FIT_HEADER_SIZE + body.length, fitCrc(file, 0, FIT_HEADER_SIZE + body.length), true);
+
+  return file;
+}
@@ -0,0 +1,110 @@
+/**
+ * Image Preprocessing Service
+ *
+ * Normalizes an uploaded image before it is sent to the vision model:
+ * applies the EXIF orientation, strips metadata, caps the longest edge
+ * and stretches the contrast of screenshots.
+ *
+ * Constitution Principle V: Privacy by Default
+ * - EXIF, GPS and ICC metadata never leave the server
+ *
+ * @see app/api/workouts/parse/route.ts
+ */
+
+import sharp from "sharp";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ImagePreprocessOptions {
+  /** Longest edge of the output in pixels, smaller images are never enlarged */
+  maxEdge: number;
+  /** Stretch the contrast of screenshots (lossless sources) */
+  contrastBoost?: boolean;
+}
+
+export interface PreprocessedImage {
+  data: Buffer;
+  mimeType: "image/jpeg" | "image/png";
+  width: number;
+  height: number;
+  /** Whether the source was treated as a screenshot rather than a photo */
+  screenshot: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const JPEG_QUALITY = 85;
+
+// Lossless sources are screenshots in practice: keep them sharp and lossless
+const SCREENSHOT_FORMATS = new Set(["png", "gif"]);
+
+// HEIC photos are HEIF containers with HEVC-compressed images (AVIF uses AV1)
+const HEIC_COMPRESSION = "hevc";
+
+// ============================================================================
+// Preprocessing
+// ============================================================================
+
+/**
+ * Whether this sharp build can decode HEIC photos (HEVC needs a custom libvips)
+ */
+export function canDecodeHeic(): boolean {
+  return sharp.format.heif?.input?.fileSuffix?.includes(".heic") ?? false;
+}
+
+/**
+ * Preprocess an uploaded image for the vision model
+ *
+ * @throws Error with a user-facing message if the image cannot be decoded
+ */
+export async function preprocessImage(
+  input: Buffer,
+  options: ImagePreprocessOptions
+): Promise<PreprocessedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new Error("Unreadable image file");
+  }
+  const { format } = metadata;
+
+  if (metadata.compression === HEIC_COMPRESSION && !canDecodeHeic()) {
+    throw new Error("HEIC images are not supported on this server, please upload a JPEG or PNG");
+  }
+
+  const screenshot = format !== undefined && SCREENSHOT_FORMATS.has(format);
+
+  // Metadata is dropped by default, rotate() bakes the EXIF orientation in first
+  let pipeline = sharp(input)
+    .rotate()
+    .resize({
+      width: options.maxEdge,
+      height: options.maxEdge,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+  if (screenshot && options.contrastBoost) {
+    pipeline = pipeline.normalise();
+  }
+
+  pipeline = screenshot ? pipeline.png() : pipeline.jpeg({ quality: JPEG_QUALITY });
+
+  try {
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+      data,
+      mimeType: screenshot ? "image/png" : "image/jpeg",
+      width: info.width,
+      height: info.height,
+      screenshot,
+    };
+  } catch {
+    throw new Error("Unreadable image file");
+  }
+}
@@ -2,5 +2,112 @@
  * Services Barrel Export
  */
 
-export { workoutToZwo, generateZwoFilename } from "./zwo";
+export { workoutToZwo, generateZwoFilename, generateWorkoutFilename } from "./zwo";
+export { workoutToFit, type FitExportOptions, type FitPowerUnit } from "./fit";
+export { workoutToErg, workoutToMrc, type ErgExportOptions } from "./erg";
+export {
+  workoutToIntervalsText,
+  intervalsTextToSteps,
+  type IntervalsTextOptions,
+  type IntervalsTextResult,
+} from "./intervals-icu";
+export {
+  getExportWarnings,
+  toExportWorkout,
+  exportWarningsHeaders,
+  exportWarningsManifest,
+  formatExportWarning,
+  readExportWarnings,
+  EXPORT_WARNINGS_HEADER,
+  EXPORT_WARNING_COUNT_HEADER,
+  EXPORT_WARNINGS_MANIFEST,
+  MAX_EXPORT_WARNINGS_HEADER_LENGTH,
+  type ExportFormat,
+  type ExportWarning,
+  type ExportWarningCode,
+  type ExportWarningsEntry,
+  type DownloadWarnings,
+} from "./export-warnings";
+export { createWarning, formatWarning } from "./parse-warnings";
+export { createZip, uniqueFilenames, crc32, type ZipEntry } from "./zip";
+export { zwoToWorkout, type ZwoImportResult } from "./zwo-import";
+export { parseWorkoutText, type TextParseOptions } from "./text-parser";
+export {
+  normalizeWorkout,
+  remapStepIndex,
+  remapWarnings,
+  mergeStepSources,
+  isNormalizeRule,
+  NORMALIZE_RULES,
+  DEFAULT_NORMALIZE_RULES,
+  type NormalizeRule,
+  type NormalizeResult,
+} from "./workout-normalizer";
+export {
+  checkWorkout,
+  applySanityPenalty,
+  SANITY_WARNING_CODES,
+  SANITY_CONFIDENCE_PENALTY,
+  type WorkoutCheckContext,
+} from "./workout-checks";
+export {
+  createHistory,
+  getCurrentState,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  goToEntry,
+  mapHistory,
+  canUndo,
+  canRedo,
+  MAX_HISTORY_ENTRIES,
+  COALESCE_WINDOW_MS,
+  type EditHistory,
+  type HistoryEdit,
+  type HistoryEntry,
+} from "./edit-history";
 export { parseWorkoutImage, type ParseOptions } from "./openai";
+export {
+  runParsePipeline,
+  toRateLimitInfo,
+  MIN_CONFIDENCE,
+  type ParseStage,
+  type ParseInput,
+  type ParseHooks,
+  type ParseOutcome,
+} from "./parse-pipeline";
+export { parseBatch, MAX_BATCH_FILES, type ParseBatchOptions, type ParseBatchResult } from "./parse-batch";
+export {
+  createParseJob,
+  getParseJobAsync,
+  cancelParseJob,
+  runParseJob,
+  isFinalStage,
+} from "./parse-jobs";
+export {
+  createParseCacheKey,
+  getCachedParseAsync,
+  setCachedParseAsync,
+  type ParseCacheKeyInput,
+} from "./parse-cache";
+export {
+  logParseAsync,
+  getParseLogAsync,
+  summarizeParseLog,
+  type ParseLogEntry,
+  type PromptVersionSummary,
+} from "./parse-log";
+export {
+  preprocessImage,
+  canDecodeHeic,
+  type ImagePreprocessOptions,
+  type PreprocessedImage,
+} from "./image-preprocess";
+export {
+  getVisionProvider,
+  type VisionProvider,
+  type VisionProviderName,
+  type VisionRequest,
+  type VisionMessage,
+  type VisionResponseSchema,
+} from "./vision";
@@ -0,0 +1,365 @@
+/**
+ * Intervals.icu Workout Text Service
+ *
+ * Converts between canonical workout steps and the Intervals.icu
+ * workout builder text syntax:
+ *
+ *   Warmup
+ *   - 10m ramp 50-75%
+ *
+ *   3x
+ *   - 5m 95%
+ *   - 3m 55%
+ *
+ * Lines starting with "-" are steps; other lines are section headers,
+ * where "Nx" repeats the following steps until the next blank line.
+ * Targets keep their unit: "95%", "250w", "85% LTHR", "140bpm",
+ * or for runs "105% Pace", "4:30/km Pace" and "7:15/mi Pace".
+ *
+ * Constitution Principle II: Honest AI
+ * - Lines that cannot be parsed are reported as warnings
+ *
+ * @see https://forum.intervals.icu/t/workout-builder-syntax-quick-guide/123701
+ */
+
+import type { Workout, Step, PowerZone, TargetUnit, ZoneModelName } from "@/lib/schemas";
+import { MAX_REPEAT, TARGET_LIMITS } from "@/lib/schemas";
+import { getPowerBand, getPowerTarget, steadyPairToIntervals, type LeafStep } from "@/lib/utils/steps";
+import { rangeTarget, zoneTarget } from "@/lib/utils/zones";
+import { DEFAULT_TARGET_UNIT, formatPace, getTargetUnit, parsePace } from "@/lib/utils/targets";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IntervalsTextOptions {
+  /** Zone model used to resolve zone targets ("Z3") */
+  zoneModel?: ZoneModelName;
+}
+
+export interface IntervalsTextResult {
+  steps: Step[];
+  warnings: string[];
+}
+
+interface Block {
+  header: string;
+  repeat: number;
+  steps: Step[];
+}
+
+type PowerTarget =
+  | { kind: "fixed"; pct: number; unit: TargetUnit }
+  | { kind: "range"; low: number; high: number; unit: TargetUnit }
+  | { kind: "zone"; zone: PowerZone }
+  | { kind: "ramp"; start: number; end: number; unit: TargetUnit }
+  | { kind: "freeride" };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?$/i;
+const POWER_PATTERN = /^(\d+(?:\.\d+)?)(?:-(\d+(?:\.\d+)?))?(%|w|bpm)(?:ftp)?$/i;
+const PACE_PATTERN = /^(\d{1,2}:[0-5]\d)(?:-(\d{1,2}:[0-5]\d))?\/(km|mi)$/i;
+const ZONE_PATTERN = /^z([1-7])$/i;
+const REPEAT_PATTERN = /(?:^|\s)(\d+)\s*x(?:\s|$)/i;
+
+const UNIT_SUFFIXES: Record<TargetUnit, string> = {
+  ftp_pct: "%",
+  watts: "w",
+  lthr_pct: "% LTHR",
+  bpm: "bpm",
+  pace_pct: "% Pace",
+  sec_per_km: "/km Pace",
+  sec_per_mile: "/mi Pace",
+};
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Format seconds as Intervals.icu duration ("1h2m30s", "10m", "45s")
+ */
+export function formatIntervalsDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  const parts = [
+    hours > 0 ? `${hours}h` : "",
+    mins > 0 ? `${mins}m` : "",
+    secs > 0 ? `${secs}s` : "",
+  ].join("");
+
+  return parts || "0s";
+}
+
+function formatPct(pct: number): string {
+  return `${Math.round(pct * 10) / 10}`;
+}
+
+/** A target value in its unit: "95", or "4:30" for absolute pace */
+function formatValue(value: number, unit: TargetUnit): string {
+  return unit === "sec_per_km" || unit === "sec_per_mile" ? formatPace(value) : formatPct(value);
+}
+
+/**
+ * Format a steady or on/off target as "95%", "88-94%", "250w"...
+ * Zones are written as their band: Intervals.icu would resolve "Z3"
+ * with the athlete's own zones there.
+ */
+function formatTarget(step: LeafStep, part: "on" | "off" = "on"): string {
+  const target = getPowerTarget(step, part)!;
+  const band = getPowerBand(target);
+  const unit = getTargetUnit(step) ?? DEFAULT_TARGET_UNIT;
+  const suffix = UNIT_SUFFIXES[unit];
+  return band
+    ? `${formatValue(band.low_pct, unit)}-${formatValue(band.high_pct, unit)}${suffix}`
+    : `${formatValue(target.power_pct, unit)}${suffix}`;
+}
+
+/**
+ * Serialize a step as "- ..." lines, unrolling anything nested
+ * (the text format only has one level of repeats)
+ */
+function stepToLines(step: Step): string[] {
+  switch (step.type) {
+    case "warmup":
+    case "cooldown": {
+      const unit = getTargetUnit(step) ?? DEFAULT_TARGET_UNIT;
+      return [`- ${formatIntervalsDuration(step.duration_s)} ramp ${formatValue(step.power_start_pct, unit)}-${formatValue(step.power_end_pct, unit)}${UNIT_SUFFIXES[unit]}`];
+    }
+    case "steady":
+      return [`- ${formatIntervalsDuration(step.duration_s)} ${formatTarget(step)}`];
+    case "intervals": {
+      const pair = [
+        `- ${formatIntervalsDuration(step.on_duration_s)} ${formatTarget(step, "on")}`,
+        `- ${formatIntervalsDuration(step.off_duration_s)} ${formatTarget(step, "off")}`,
+      ];
+      return Array.from({ length: step.repeat }, () => pair).flat();
+    }
+    case "freeride":
+      return [`- ${formatIntervalsDuration(step.duration_s)} freeride`];
+    case "repeat": {
+      const children = step.steps.flatMap(stepToLines);
+      return Array.from({ length: step.repeat }, () => children).flat();
+    }
+    default:
+      // TypeScript exhaustiveness check
+      const _exhaustive: never = step;
+      throw new Error(`Unknown step type: ${(_exhaustive as Step).type}`);
+  }
+}
+
+/**
+ * Serialize a single step as one text block
+ */
+function stepToBlock(step: Step): string[] {
+  switch (step.type) {
+    case "warmup":
+      return ["Warmup", ...stepToLines(step)];
+    case "cooldown":
+      return ["Cooldown", ...stepToLines(step)];
+    case "intervals":
+      return [`${step.repeat}x`, ...stepToLines({ ...step, repeat: 1 })];
+    case "repeat":
+      return [`${step.repeat}x`, ...step.steps.flatMap(stepToLines)];
+    default:
+      return stepToLines(step);
+  }
+}
+
+/**
+ * Convert a Workout to Intervals.icu workout text
+ */
+export function workoutToIntervalsText(workout: Workout): string {
+  return workout.steps.map((step) => stepToBlock(step).join("\n")).join("\n\n") + "\n";
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseDurationToken(token: string): number | null {
+  const match = token.match(DURATION_PATTERN);
+  if (!match || !(match[1] || match[2] || match[3])) return null;
+
+  const hours = parseFloat(match[1] ?? "0");
+  const mins = parseFloat(match[2] ?? "0");
+  const secs = parseFloat(match[3] ?? "0");
+  const total = Math.round(hours * 3600 + mins * 60 + secs);
+  return total > 0 ? total : null;
+}
+
+/**
+ * Parse the target part of a step line (tokens after the duration)
+ */
+function parsePowerTokens(tokens: string[]): PowerTarget | null {
+  const words = tokens.map((t) => t.toLowerCase());
+
+  if (words.includes("freeride")) {
+    return { kind: "freeride" };
+  }
+
+  const isRamp = words.includes("ramp");
+  const paceToken = tokens.find((t) => PACE_PATTERN.test(t));
+  const powerToken = tokens.find((t) => POWER_PATTERN.test(t));
+  if (!paceToken && !powerToken) {
+    const zoneToken = tokens.find((t) => ZONE_PATTERN.test(t));
+    return zoneToken ? { kind: "zone", zone: `Z${zoneToken.match(ZONE_PATTERN)![1]}` as PowerZone } : null;
+  }
+
+  let low: number;
+  let high: number;
+  let unit: TargetUnit;
+  if (paceToken) {
+    const match = paceToken.match(PACE_PATTERN)!;
+    low = parsePace(match[1])!;
+    high = match[2] !== undefined ? parsePace(match[2])! : low;
+    unit = match[3].toLowerCase() === "mi" ? "sec_per_mile" : "sec_per_km";
+  } else {
+    const match = powerToken!.match(POWER_PATTERN)!;
+    low = parseFloat(match[1]);
+    high = match[2] !== undefined ? parseFloat(match[2]) : low;
+
+    const symbol = match[3].toLowerCase();
+    unit = symbol === "w"
+      ? "watts"
+      : symbol === "bpm"
+        ? "bpm"
+        : words.includes("lthr") ? "lthr_pct" : words.includes("pace") ? "pace_pct" : "ftp_pct";
+  }
+
+  const { min, max } = TARGET_LIMITS[unit];
+  const clamp = (value: number) => Math.round(Math.max(min, Math.min(max, value)));
+
+  if (isRamp) {
+    return { kind: "ramp", start: clamp(low), end: clamp(high), unit };
+  }
+  if (low !== high) {
+    return { kind: "range", low: clamp(low), high: clamp(high), unit };
+  }
+  return { kind: "fixed", pct: clamp(low), unit };
+}
+
+/** %FTP is the default unit and stays implicit on steps */
+function unitField(unit: TargetUnit): { target_unit?: TargetUnit } {
+  return unit === DEFAULT_TARGET_UNIT ? {} : { target_unit: unit };
+}
+
+/**
+ * Parse a "- ..." step line
+ */
+function parseStepLine(
+  line: string,
+  header: string,
+  options: IntervalsTextOptions
+): Step | null {
+  const tokens = line.replace(/^-\s*/, "").split(/\s+/).filter(Boolean);
+
+  const durationIndex = tokens.findIndex((t) => parseDurationToken(t) !== null);
+  if (durationIndex === -1) {
+    return null;
+  }
+
+  const duration_s = parseDurationToken(tokens[durationIndex])!;
+  const target = parsePowerTokens(tokens.slice(durationIndex + 1));
+  if (!target) {
+    return null;
+  }
+
+  switch (target.kind) {
+    case "freeride":
+      return { type: "freeride", duration_s };
+    case "fixed":
+      return { type: "steady", duration_s, power_pct: target.pct, ...unitField(target.unit) };
+    case "range":
+      return { type: "steady", duration_s, ...rangeTarget(target.low, target.high), ...unitField(target.unit) };
+    case "zone":
+      return { type: "steady", duration_s, ...zoneTarget(target.zone, options.zoneModel) };
+    case "ramp": {
+      const headerText = header.toLowerCase();
+      const isCooldown = headerText.includes("cool")
+        || (!headerText.includes("warm") && target.end < target.start);
+      return {
+        type: isCooldown ? "cooldown" : "warmup",
+        duration_s,
+        power_start_pct: target.start,
+        power_end_pct: target.end,
+        ...unitField(target.unit),
+      };
+    }
+  }
+}
+
+/**
+ * Turn a parsed block into steps: "Nx" on/off pairs become intervals,
+ * other repeated sections become repeat blocks
+ */
+function blockToSteps(block: Block): Step[] {
+  if (block.repeat <= 1 || block.steps.length === 0) {
+    return block.steps;
+  }
+
+  const [on, off] = block.steps;
+  if (
+    block.steps.length === 2 &&
+    on.type === "steady" &&
+    off.type === "steady" &&
+    on.target_unit === off.target_unit
+  ) {
+    return [steadyPairToIntervals(block.repeat, on, off)];
+  }
+
+  return [{ type: "repeat", repeat: block.repeat, steps: block.steps }];
+}
+
+/**
+ * Parse Intervals.icu workout text into steps
+ */
+export function intervalsTextToSteps(text: string, options: IntervalsTextOptions = {}): IntervalsTextResult {
+  const warnings: string[] = [];
+  const steps: Step[] = [];
+  let block: Block = { header: "", repeat: 1, steps: [] };
+
+  const flush = () => {
+    steps.push(...blockToSteps(block));
+    block = { header: "", repeat: 1, steps: [] };
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const label = `Line ${index + 1}`;
+
+    if (!line) {
+      flush();
+      return;
+    }
+
+    if (line.startsWith("-")) {
+      const step = parseStepLine(line, block.header, options);
+      if (step) {
+        block.steps.push(step);
+      } else {
+        warnings.push(`${label}: could not parse "${line}"`);
+      }
+      return;
+    }
+
+    // Section header: starts a new block, optionally repeated
+    flush();
+    const repeat = line.match(REPEAT_PATTERN);
+    const count = repeat ? Math.max(1, parseInt(repeat[1], 10)) : 1;
+    if (count > MAX_REPEAT) {
+      warnings.push(`${label}: ${count} repetitions cut to ${MAX_REPEAT}`);
+    }
+    block = { header: line, repeat: Math.min(MAX_REPEAT, count), steps: [] };
+  });
+
+  flush();
+
+  return { steps, warnings };
+}
@@ -1,223 +1,315 @@
 /**
  * OpenAI Service
  * 
- * Server-side only - handles communication with OpenAI GPT-4 Vision API.
+ * Server-side only - sends the workout prompts and turns the vision model
+ * output into a validated workout. Prompts are versioned templates
+ * (lib/prompts); the model itself is reached through the configured
+ * VisionProvider (OpenAI, OpenAI-compatible or stub).
  * 
  * Constitution Principle I: Security-First API
  * - API key never exposed to client
  * - Server-side only execution
  * 
  * Constitution Principle II: Honest AI
- * - Reports confidence scores
- * - Includes warnings for ambiguous content
+ * - Reports confidence scores, overall and per step
+ * - Points each step to the image region it was read from
+ * - Reports ambiguous content and every fix applied as coded warnings
+ * - Asks the model to repair invalid output before falling back to fixes
+ * - Returns every workout of an image holding several, never merges them
  * 
  * @see specs/001-workout-image-to-zwo/contracts/parse.md
  */
 
-import OpenAI from "openai";
-import { getServerEnv } from "@/lib/utils/env";
-import type { Workout, ParseResponse } from "@/lib/schemas";
-import { WorkoutSchema } from "@/lib/schemas";
+import { z } from "zod";
+import { getVisionProvider, type VisionMessage, type VisionProvider, type VisionRequest } from "./vision";
+import { createWarning } from "./parse-warnings";
+import { mergeStepSources, normalizeWorkout, remapWarnings, type NormalizeRule } from "./workout-normalizer";
+import { applySanityPenalty, checkWorkout } from "./workout-checks";
+import { getPromptTemplate } from "@/lib/prompts";
+import type {
+  Workout,
+  Step,
+  StepSource,
+  DetectedWorkout,
+  SourceRegion,
+  TextEvent,
+  ParseResponse,
+  ParseWarning,
+  PowerZone,
+  TargetUnit,
+  WarningCode,
+  WarningParams,
+  ZoneModelName,
+} from "@/lib/schemas";
+import {
+  WorkoutSchema,
+  WarmupStepSchema,
+  CooldownStepSchema,
+  SteadyStepSchema,
+  IntervalsStepSchema,
+  FreerideStepSchema,
+  RepeatStepSchema,
+  PowerZoneSchema,
+  SourceRegionSchema,
+  StepSourceSchema,
+  SportSchema,
+  TargetUnitSchema,
+  TARGET_LIMITS,
+  MAX_REPEAT,
+} from "@/lib/schemas";
+import { resolveZoneTargets } from "@/lib/utils/zones";
+import { formatTargetValue } from "@/lib/utils/targets";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ParseOptions {
-  /** User's FTP for converting absolute watts to percentage */
-  ftp?: number;
   /** Language hint for parsing */
   locale?: string;
   /** Additional context to help parsing */
   notes?: string;
+  /** Zone model used to resolve zone targets ("Z3") */
+  zoneModel?: ZoneModelName;
+  /** Prompt template version, the default one when omitted */
+  promptVersion?: string;
+  /** Normalizer rules applied to the valid workout, the default ones when omitted */
+  normalize?: readonly NormalizeRule[];
+  /** Called before each repair request, with its attempt number */
+  onRepair?: (attempt: number) => void | Promise<void>;
+  /** Aborts the model calls */
+  signal?: AbortSignal;
+  /** Provider used instead of the configured one (evaluation with recorded answers) */
+  provider?: VisionProvider;
+}
+
+interface OpenAIStep {
+  type: "warmup" | "cooldown" | "steady" | "intervals" | "freeride" | "repeat";
+  duration_s: number;
+  power_start_pct?: number;
+  power_end_pct?: number;
+  power_pct?: number;
+  power_low_pct?: number;
+  power_high_pct?: number;
+  power_zone?: string;
+  target_unit?: string;
+  repeat?: number;
+  on_duration_s?: number;
+  off_duration_s?: number;
+  on_power_pct?: number;
+  off_power_pct?: number;
+  on_power_low_pct?: number;
+  on_power_high_pct?: number;
+  on_power_zone?: string;
+  off_power_low_pct?: number;
+  off_power_high_pct?: number;
+  off_power_zone?: string;
+  cadence_rpm?: number;
+  cadence_low_rpm?: number;
+  cadence_high_rpm?: number;
+  on_cadence_rpm?: number;
+  off_cadence_rpm?: number;
+  messages?: { offset_s?: number; message?: string }[];
+  steps?: OpenAIStep[];
+  confidence?: number;
+  region?: Partial<SourceRegion>;
+}
+
+interface OpenAIWarning {
+  code?: string;
+  step_index?: number;
+  message?: string;
 }
 
 interface OpenAIWorkoutResponse {
+  /** Day or session label, when the image holds several workouts */
+  day?: string;
   name: string;
   description?: string;
-  steps: Array<{
-    type: "warmup" | "cooldown" | "steady" | "intervals" | "freeride";
-    duration_s: number;
-    power_start_pct?: number;
-    power_end_pct?: number;
-    power_pct?: number;
-    repeat?: number;
-    on_duration_s?: number;
-    off_duration_s?: number;
-    on_power_pct?: number;
-    off_power_pct?: number;
-  }>;
-  warnings: string[];
+  sport?: string;
+  steps: OpenAIStep[];
+  /** Total duration printed on the image, in seconds */
+  total_duration_s?: number;
+  /** Plain strings are still accepted from older prompts and local models */
+  warnings: Array<OpenAIWarning | string>;
   confidence: number;
 }
 
+/** Current output shape; a bare workout object is still read as the only one */
+interface OpenAIResponse {
+  workouts: OpenAIWorkoutResponse[];
+}
+
 // ============================================================================
-// OpenAI Client (Singleton)
+// Constants
 // ============================================================================
 
-let openaiClient: OpenAI | null = null;
+/** Warning codes the model may report itself */
+const MODEL_WARNING_CODES: WarningCode[] = ["ILLEGIBLE_SECTION", "AMBIGUOUS_VALUE", "MODEL_NOTE"];
 
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    const env = getServerEnv();
-    openaiClient = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+/** Follow-up requests sent when the output fails validation, before falling back to fixes */
+const MAX_REPAIR_ATTEMPTS = 2;
 
-// ============================================================================
-// System Prompt
-// ============================================================================
+/** Issues quoted back to the model and in warnings, to keep both short */
+const MAX_REPORTED_ISSUES = 5;
 
-const SYSTEM_PROMPT = `You are a cycling workout analyzer. You analyze images of cycling workouts and extract structured data.
+/** Day labels longer than this are cut */
+const MAX_DAY_LENGTH = 50;
 
-Your output MUST be valid JSON matching this exact schema:
-{
-  "name": "string (workout name, max 100 chars)",
-  "description": "string (optional description)",
-  "steps": [
-    // Each step must be one of these types:
-    
-    // Warmup - ONLY for smooth gradual ramps (power changes continuously over time)
-    { "type": "warmup", "duration_s": number, "power_start_pct": number, "power_end_pct": number }
-    
-    // Cooldown - ONLY for smooth gradual ramps down
-    { "type": "cooldown", "duration_s": number, "power_start_pct": number, "power_end_pct": number }
-    
-    // Steady - constant power for a fixed duration (USE THIS for progressive warmup blocks!)
-    { "type": "steady", "duration_s": number, "power_pct": number }
-    
-    // Intervals - repeated on/off blocks with same duration/power each time
-    { "type": "intervals", "repeat": number, "on_duration_s": number, "off_duration_s": number, "on_power_pct": number, "off_power_pct": number }
-    
-    // Freeride - unstructured (use when content is unclear)
-    { "type": "freeride", "duration_s": number }
-  ],
-  "warnings": ["array of warning messages for any ambiguous content"],
-  "confidence": number // 0.0 to 1.0, your confidence in the parsing accuracy
+/** Top-level steps also carry how confidently they were read, and where from */
+const STEP_SOURCE_FIELDS = StepSourceSchema.partial().shape;
+
+/**
+ * Shape of the model output, derived from the step schema
+ */
+const VisionWorkoutSchema = z.object({
+  day: z.string().max(MAX_DAY_LENGTH).optional(),
+  name: WorkoutSchema.shape.name,
+  description: WorkoutSchema.shape.description,
+  sport: WorkoutSchema.shape.sport,
+  steps: z
+    .array(
+      z.discriminatedUnion("type", [
+        WarmupStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+        CooldownStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+        SteadyStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+        IntervalsStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+        FreerideStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+        RepeatStepSchema.safeExtend(STEP_SOURCE_FIELDS),
+      ])
+    )
+    .min(1),
+  total_duration_s: z.number().positive().optional(),
+  warnings: z.array(
+    z.object({
+      code: z.enum(["ILLEGIBLE_SECTION", "AMBIGUOUS_VALUE", "MODEL_NOTE"]),
+      step_index: z.number().int().min(0).optional(),
+      message: z.string(),
+    })
+  ),
+  confidence: z.number().min(0).max(1),
+});
+
+const VisionOutputSchema = z.object({
+  workouts: z.array(VisionWorkoutSchema).min(1),
+});
+
+/** Keywords strict structured outputs reject; validation still enforces them */
+const STRICT_UNSUPPORTED_KEYWORDS = ["minLength", "maxLength"];
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Subset of a JSON schema strict structured outputs accept: every property
+ * required, optional ones nullable instead, no extra properties. The nulls
+ * are dropped from the output before validation.
+ */
+function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+  const { oneOf, anyOf, const: constant, properties, required, items, $defs, ...rest } = schema;
+  const strict: JsonSchema = Object.fromEntries(
+    Object.entries(rest).filter(([keyword]) => !STRICT_UNSUPPORTED_KEYWORDS.includes(keyword))
+  );
+
+  if (constant !== undefined) strict.enum = [constant];
+  const variants = (anyOf ?? oneOf) as JsonSchema[] | undefined;
+  if (variants) strict.anyOf = variants.map(toStrictJsonSchema);
+  if (items) strict.items = toStrictJsonSchema(items as JsonSchema);
+  if ($defs) {
+    strict.$defs = Object.fromEntries(
+      Object.entries($defs as Record<string, JsonSchema>).map(([name, def]) => [name, toStrictJsonSchema(def)])
+    );
+  }
+  if (properties) {
+    const requiredKeys = new Set((required as string[] | undefined) ?? []);
+    strict.properties = Object.fromEntries(
+      Object.entries(properties as Record<string, JsonSchema>).map(([key, property]) => {
+        const strictProperty = toStrictJsonSchema(property);
+        return [key, requiredKeys.has(key) ? strictProperty : { anyOf: [strictProperty, { type: "null" }] }];
+      })
+    );
+    strict.required = Object.keys(properties);
+    strict.additionalProperties = false;
+  }
+  return strict;
 }
 
-CRITICAL RULES:
-1. Power values are percentages of FTP (0-200)
-2. Duration values are in seconds
-3. IMPORTANT: If a warmup consists of SEPARATE BLOCKS at different power levels (e.g., "4' 60%, 3' 70%, 3' 80%, 2' 90%"), 
-   create MULTIPLE "steady" steps, NOT a single "warmup" step!
-   Only use "warmup" type for smooth continuous ramps.
-4. IMPORTANT: If intervals have DIFFERENT durations or powers each time, use separate "steady" steps, not "intervals" type.
-   Only use "intervals" type when all repetitions have the SAME on/off duration and power.
-5. If you can't read something clearly, add a warning and make your best estimate
-6. If a section is completely illegible, use "freeride" type with estimated duration
-7. Be conservative with confidence scores - lower if image quality is poor or text is unclear
-8. Always return valid JSON, never explanatory text
-
-Example: "4' 60%, 3' 70%, 3' 80%" should become:
-[
-  { "type": "steady", "duration_s": 240, "power_pct": 60 },
-  { "type": "steady", "duration_s": 180, "power_pct": 70 },
-  { "type": "steady", "duration_s": 180, "power_pct": 80 }
-]
-NOT a single warmup step!`;
+const VISION_OUTPUT_JSON_SCHEMA = toStrictJsonSchema(z.toJSONSchema(VisionOutputSchema, { io: "input" }));
+// The draft URI is noise to the model and rejected by some compatible servers
+delete VISION_OUTPUT_JSON_SCHEMA.$schema;
 
 // ============================================================================
 // Parse Function
 // ============================================================================
 
 /**
- * Parse a workout image using OpenAI GPT-4 Vision
+ * Parse a workout image with the configured vision provider
  * 
  * @param imageBase64 - Base64 encoded image data
  * @param mimeType - Image MIME type (image/jpeg, image/png, etc.)
  * @param options - Optional parsing configuration
- * @returns ParseResponse with workout, warnings, and confidence
+ * @returns ParseResponse with workout, warnings, and confidence (and every
+ *   workout when the image holds several)
  */
 export async function parseWorkoutImage(
   imageBase64: string,
   mimeType: string,
   options: ParseOptions = {}
 ): Promise<ParseResponse> {
-  const openai = getOpenAI();
+  const provider = options.provider ?? getVisionProvider();
+  const prompt = getPromptTemplate(options.promptVersion);
 
-  // Build user prompt with optional context
-  let userPrompt = "Analyze this cycling workout image and extract the structured workout data.";
-  
-  if (options.ftp) {
-    userPrompt += ` The user's FTP is ${options.ftp} watts - convert any absolute watt values to percentages.`;
-  }
-  
-  if (options.locale && options.locale !== "en") {
-    userPrompt += ` The workout text may be in ${options.locale}.`;
-  }
-  
-  if (options.notes) {
-    userPrompt += ` Additional context: ${options.notes}`;
-  }
+  try {
+    const request: VisionRequest = {
+      systemPrompt: prompt.systemPrompt,
+      userPrompt: prompt.buildUserPrompt({ locale: options.locale, notes: options.notes }),
+      imageBase64,
+      mimeType,
+      responseSchema: { name: "workout", schema: VISION_OUTPUT_JSON_SCHEMA },
+      signal: options.signal,
+    };
+    let output = await readModelOutput(await provider.complete(request), provider.name);
 
-  userPrompt += "\n\nRespond ONLY with the JSON object, no other text.";
+    // Quote the validation issues back to the model, a bounded number of times
+    const repairWarnings: ParseWarning[] = [];
+    const history: VisionMessage[] = [];
+    for (let attempt = 1; output.issues.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      await options.onRepair?.(attempt);
+      repairWarnings.push(createWarning("REPAIR_ATTEMPT", { attempt, issues: output.issues.join("; ") }));
+      history.push(
+        { role: "assistant", content: output.content },
+        { role: "user", content: prompt.buildRepairPrompt(output.issues) }
+      );
+      output = await readModelOutput(await provider.complete({ ...request, history }), provider.name);
+    }
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT,
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: userPrompt,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${imageBase64}`,
-                detail: "high",
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 2000,
-      temperature: 0.1, // Low temperature for consistent structured output
-    });
-
-    const content = response.choices[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error("No response from OpenAI");
+    if (output.parsed.length === 0) {
+      throw new Error(output.issues[0]);
     }
 
-    // Parse JSON response
-    const parsed = parseJsonResponse(content);
-    
-    // Validate against our schema
-    const validatedWorkout = WorkoutSchema.safeParse(parsed);
-    
-    if (!validatedWorkout.success) {
-      // Add validation errors as warnings
-      const warnings = [
-        ...parsed.warnings,
-        "Some parsed data required adjustment to match schema",
-      ];
-      
-      // Attempt to fix common issues
-      const fixedWorkout = fixWorkoutData(parsed);
-      
-      return {
-        workout: fixedWorkout,
-        warnings,
-        confidence: Math.min(parsed.confidence, 0.6), // Lower confidence due to fixes
-      };
+    const detected = output.parsed
+      .map((parsed, i) => toDetectedWorkout(parsed, output.workouts[i], repairWarnings, options))
+      .filter((workout): workout is DetectedWorkout => workout !== null);
+    if (detected.length === 0) {
+      throw new Error(output.issues[0] ?? "No usable workout in the response");
     }
 
+    // Top-level fields stay the first workout for single-workout clients
+    const [first] = detected;
+    const response: ParseResponse = {
+      workout: first.workout,
+      warnings: first.warnings,
+      confidence: first.confidence,
+      step_sources: first.step_sources,
+      printed_duration_s: first.printed_duration_s,
+      prompt_version: prompt.version,
+    };
+    if (detected.length === 1) {
+      return response;
+    }
     return {
-      workout: validatedWorkout.data,
-      warnings: parsed.warnings || [],
-      confidence: parsed.confidence || 0.5,
+      ...response,
+      warnings: [...first.warnings, createWarning("MULTIPLE_WORKOUTS", { count: detected.length })],
+      workouts: detected,
     };
   } catch (error) {
     // Re-throw with more context
@@ -233,9 +325,143 @@ export async function parseWorkoutImage(
 // ============================================================================
 
 /**
- * Parse JSON from OpenAI response, handling potential formatting issues
+ * Model output read as far as possible: parsed JSON of each workout, the
+ * validated workouts (null where invalid) and the issues preventing them
+ */
+interface ModelOutput {
+  content: string;
+  parsed: OpenAIWorkoutResponse[];
+  workouts: Array<Workout | null>;
+  issues: string[];
+}
+
+function readModelOutput(content: string | null, providerName: string): ModelOutput {
+  if (!content) {
+    throw new Error(`No response from ${providerName} vision provider`);
+  }
+
+  let response: OpenAIResponse | OpenAIWorkoutResponse;
+  try {
+    response = stripNulls(parseJsonResponse(content)) as OpenAIResponse | OpenAIWorkoutResponse;
+  } catch (error) {
+    return { content, parsed: [], workouts: [], issues: [(error as Error).message] };
+  }
+
+  if (!isObject(response)) {
+    return { content, parsed: [], workouts: [], issues: ["Response must be a JSON object"] };
+  }
+
+  // A bare workout object (older prompts, local models) is the only workout
+  if (!("workouts" in response)) {
+    return { content, ...validateWorkouts([response], "") };
+  }
+  if (!Array.isArray(response.workouts) || response.workouts.length === 0) {
+    return { content, parsed: [], workouts: [], issues: ["workouts: Must list at least one workout"] };
+  }
+
+  const entries = response.workouts.filter(isObject);
+  const output = { content, ...validateWorkouts(entries, "workouts.") };
+  if (entries.length < response.workouts.length) {
+    output.issues.unshift("workouts: Every entry must be a workout object");
+  }
+  return output;
+}
+
+function isObject<T>(value: T): value is T & object {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Steps as listed by the model, none when the list is missing or malformed
+ */
+function listedSteps(steps: unknown): OpenAIStep[] {
+  return Array.isArray(steps) ? steps : [];
+}
+
+/**
+ * Drop null fields, which strict outputs give for what they leave out
+ */
+function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNulls);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== null)
+      .map(([key, field]) => [key, stripNulls(field)])
+  );
+}
+
+/**
+ * Validate each workout; issues are prefixed with their path in the output
+ */
+function validateWorkouts(
+  parsed: OpenAIWorkoutResponse[],
+  pathPrefix: string
+): Omit<ModelOutput, "content"> {
+  const issues: string[] = [];
+  const workouts = parsed.map((entry, i) => {
+    const validated = WorkoutSchema.safeParse(entry);
+    if (validated.success) {
+      return validated.data;
+    }
+
+    const prefix = pathPrefix && `${pathPrefix}${i}.`;
+    issues.push(
+      ...validated.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${prefix}${issue.path.join(".")}: ${issue.message}` : `${prefix}${issue.message}`
+      )
+    );
+    return null;
+  });
+  return { parsed, workouts, issues: issues.slice(0, MAX_REPORTED_ISSUES) };
+}
+
+/**
+ * One workout of the output with its warnings, fixed when it failed
+ * validation; null when even the fixed workout is not valid
  */
-function parseJsonResponse(content: string): OpenAIWorkoutResponse {
+function toDetectedWorkout(
+  parsed: OpenAIWorkoutResponse,
+  workout: Workout | null,
+  repairWarnings: ParseWarning[],
+  options: ParseOptions
+): DetectedWorkout | null {
+  const day = typeof parsed.day === "string" ? parsed.day.trim().slice(0, MAX_DAY_LENGTH) || undefined : undefined;
+  const warnings = [...repairWarnings, ...fixModelWarnings(parsed.warnings, listedSteps(parsed.steps).length)];
+
+  // A missing or malformed confidence reads as unsure
+  let confidence = typeof parsed.confidence === "number" && isFinite(parsed.confidence)
+    ? Math.max(0, Math.min(1, parsed.confidence))
+    : 0.5;
+  if (!workout) {
+    // Attempt to fix common issues, reporting each fix
+    warnings.push(createWarning("SCHEMA_FIXED"));
+    const fixed = WorkoutSchema.safeParse(fixWorkoutData(parsed, warnings));
+    if (!fixed.success) {
+      return null;
+    }
+    workout = fixed.data;
+    confidence = Math.min(confidence, 0.6); // Lower confidence due to fixes
+  }
+
+  // Merged steps take their warnings and sources along
+  const normalized = normalizeWorkout(withZoneModel(workout, options), options.normalize);
+  const printedDurationS = fixPrintedDuration(parsed.total_duration_s);
+  const issues = checkWorkout(normalized.workout, { printedDurationS });
+  return {
+    day,
+    workout: normalized.workout,
+    warnings: [...remapWarnings(warnings, normalized.origins), ...normalized.changes, ...issues],
+    confidence: applySanityPenalty(confidence, issues),
+    step_sources: mergeStepSources(fixStepSources(listedSteps(parsed.steps), confidence), normalized.origins),
+    printed_duration_s: printedDurationS,
+  };
+}
+
+/**
+ * Parse JSON from the model response, handling potential formatting issues
+ */
+function parseJsonResponse(content: string): OpenAIResponse | OpenAIWorkoutResponse {
   // Remove potential markdown code fences
   let cleaned = content.trim();
   
@@ -254,62 +480,290 @@ function parseJsonResponse(content: string): OpenAIWorkoutResponse {
   try {
     return JSON.parse(cleaned);
   } catch {
-    throw new Error("Failed to parse OpenAI response as JSON");
+    throw new Error("Failed to parse vision model response as JSON");
   }
 }
 
+/**
+ * Zone targets are resolved with the rider's zone model, not the model's guess
+ */
+function withZoneModel(workout: Workout, options: ParseOptions): Workout {
+  return { ...workout, steps: resolveZoneTargets(workout.steps, options.zoneModel) };
+}
+
+/**
+ * Keep the model's own warnings, coded and pointed at an existing step
+ */
+function fixModelWarnings(warnings: OpenAIWorkoutResponse["warnings"], stepCount: number): ParseWarning[] {
+  if (!Array.isArray(warnings)) return [];
+
+  return warnings.flatMap((warning) => {
+    const { code, step_index, message } = typeof warning === "string" ? { message: warning } as OpenAIWarning : warning ?? {};
+    const note = typeof message === "string" ? message.trim() : "";
+    if (!note) return [];
+
+    const stepIndex = Number.isInteger(step_index) && step_index! >= 0 && step_index! < stepCount
+      ? step_index
+      : undefined;
+    return [createWarning(MODEL_WARNING_CODES.find((known) => known === code) ?? "MODEL_NOTE", { note }, stepIndex)];
+  });
+}
+
 /**
  * Attempt to fix common issues in parsed workout data
  */
-function fixWorkoutData(data: OpenAIWorkoutResponse): Workout {
+function fixWorkoutData(data: OpenAIWorkoutResponse, warnings: ParseWarning[]): Workout {
+  if (!data.name) {
+    warnings.push(createWarning("DEFAULT_NAME"));
+  }
+
   return {
     name: data.name?.slice(0, 100) || "Untitled Workout",
     description: data.description,
-    steps: data.steps.map((step) => {
-      // Ensure all values are within bounds
-      const clampPower = (val: number | undefined, def: number) => 
-        Math.max(0, Math.min(200, val ?? def));
-      
-      const clampDuration = (val: number | undefined, def: number) =>
-        Math.max(1, val ?? def);
-
-      switch (step.type) {
-        case "warmup":
-          return {
-            type: "warmup" as const,
-            duration_s: clampDuration(step.duration_s, 300),
-            power_start_pct: clampPower(step.power_start_pct, 50),
-            power_end_pct: clampPower(step.power_end_pct, 75),
-          };
-        case "cooldown":
-          return {
-            type: "cooldown" as const,
-            duration_s: clampDuration(step.duration_s, 300),
-            power_start_pct: clampPower(step.power_start_pct, 70),
-            power_end_pct: clampPower(step.power_end_pct, 40),
-          };
-        case "steady":
-          return {
-            type: "steady" as const,
-            duration_s: clampDuration(step.duration_s, 300),
-            power_pct: clampPower(step.power_pct, 75),
-          };
-        case "intervals":
-          return {
-            type: "intervals" as const,
-            repeat: Math.max(1, step.repeat ?? 1),
-            on_duration_s: clampDuration(step.on_duration_s, 60),
-            off_duration_s: clampDuration(step.off_duration_s, 60),
-            on_power_pct: clampPower(step.on_power_pct, 100),
-            off_power_pct: clampPower(step.off_power_pct, 50),
-          };
-        case "freeride":
-        default:
+    sport: SportSchema.safeParse(data.sport).data,
+    // Without steps the workout stays invalid and is dropped
+    steps: fixSteps(listedSteps(data.steps), warnings),
+  };
+}
+
+/**
+ * Per-step confidence and image region, one entry per top-level step.
+ * A missing step confidence falls back to the workout's; regions are
+ * clipped to the image and dropped when malformed.
+ */
+function fixStepSources(steps: OpenAIStep[], confidence: number): StepSource[] {
+  return steps.map((step) => {
+    const stepConfidence = typeof step.confidence === "number" && !isNaN(step.confidence)
+      ? Math.max(0, Math.min(1, step.confidence))
+      : confidence;
+    return { confidence: stepConfidence, region: fixRegion(step.region) };
+  });
+}
+
+function fixRegion(region: OpenAIStep["region"]): SourceRegion | undefined {
+  const clip = (value: number | undefined) =>
+    typeof value === "number" && !isNaN(value) ? Math.max(0, Math.min(1, value)) : undefined;
+  const x = clip(region?.x);
+  const y = clip(region?.y);
+  const width = clip(region?.width);
+  const height = clip(region?.height);
+  if (x === undefined || y === undefined || width === undefined || height === undefined) {
+    return undefined;
+  }
+
+  const clipped = { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  return clipped.width > 0 && clipped.height > 0 ? SourceRegionSchema.parse(clipped) : undefined;
+}
+
+/**
+ * Printed total duration, dropped when not a positive number of seconds
+ */
+function fixPrintedDuration(value: unknown): number | undefined {
+  return typeof value === "number" && isFinite(value) && value > 0 ? Math.round(value) : undefined;
+}
+
+/**
+ * Keep well-formed messages, trimmed and placed inside the step
+ */
+function fixMessages(messages: OpenAIStep["messages"], duration_s: number): TextEvent[] | undefined {
+  if (!Array.isArray(messages)) return undefined;
+
+  const fixed = messages
+    .filter((event) => typeof event?.message === "string" && event.message.trim())
+    .map((event) => ({
+      offset_s: Math.max(0, Math.min(duration_s - 1, Math.round(event.offset_s ?? 0) || 0)),
+      message: event.message!.trim().slice(0, 200),
+    }));
+  return fixed.length > 0 ? fixed : undefined;
+}
+
+/**
+ * Clamp step values into schema bounds, recursing into repeat blocks.
+ * Every clamp or default is reported against the top-level step.
+ */
+function fixSteps(steps: OpenAIStep[], warnings: ParseWarning[], parentIndex?: number): Step[] {
+  return steps.map((step, index): Step => {
+    const warn = (code: WarningCode, params?: WarningParams) =>
+      warnings.push(createWarning(code, params, parentIndex ?? index));
+    const isNumber = (val: unknown): val is number => typeof val === "number" && !isNaN(val);
+    const isMissing = (val: unknown) => val === undefined || val === null;
+
+    // Targets stay in their unit; %FTP is the default and is left implicit
+    const unit = TargetUnitSchema.safeParse(step.target_unit).data;
+    if (!isMissing(step.target_unit) && !unit) {
+      warn("UNKNOWN_UNIT", { value: String(step.target_unit) });
+    }
+    const target_unit: TargetUnit | undefined = unit === "ftp_pct" ? undefined : unit;
+    const limits = TARGET_LIMITS[unit ?? "ftp_pct"];
+
+    // Ensure all values are within bounds
+    const clampPower = (val: number | undefined, def: number) => {
+      if (!isNumber(val)) {
+        warn("DEFAULT_TARGET", { value: formatTargetValue(def, unit) });
+        return def;
+      }
+      const clamped = Math.max(limits.min, Math.min(limits.max, val));
+      if (clamped !== val) {
+        warn("CLAMPED_POWER", { value: formatTargetValue(val, unit), clamped: formatTargetValue(clamped, unit) });
+      }
+      return clamped;
+    };
+    
+    const clampDuration = (val: number | undefined, def: number) => {
+      if (!isNumber(val)) {
+        warn("DEFAULT_DURATION", { value: def });
+        return def;
+      }
+      if (val < 1) {
+        warn("CLAMPED_DURATION", { value: val, clamped: 1 });
+        return 1;
+      }
+      return val;
+    };
+
+    const clampRepeat = (val: number | undefined) => {
+      if (!isNumber(val)) {
+        warn("DEFAULT_REPEAT", { value: 1 });
+        return 1;
+      }
+      const clamped = Math.max(1, Math.min(MAX_REPEAT, Math.round(val)));
+      if (clamped !== val) {
+        warn("CLAMPED_REPEAT", { value: val, clamped });
+      }
+      return clamped;
+    };
+
+    // Bands and zones are optional: drop anything malformed
+    const optionalPower = (val: number | undefined, field: string) => {
+      if (isMissing(val)) return undefined;
+      if (!isNumber(val)) {
+        warn("INVALID_VALUE", { field, value: String(val) });
+        return undefined;
+      }
+      return clampPower(val, 0);
+    };
+
+    const zone = (val: string | undefined): PowerZone | undefined => {
+      if (isMissing(val)) return undefined;
+      const parsed = PowerZoneSchema.safeParse(String(val).toUpperCase());
+      if (!parsed.success) {
+        warn("INVALID_VALUE", { field: "zone", value: String(val) });
+      }
+      return parsed.data;
+    };
+
+    // Cadence is optional: drop anything that is not a number
+    const clampCadence = (val: number | undefined) => {
+      if (isMissing(val)) return undefined;
+      if (!isNumber(val)) {
+        warn("INVALID_VALUE", { field: "cadence", value: String(val) });
+        return undefined;
+      }
+      const clamped = Math.max(20, Math.min(200, Math.round(val)));
+      if (clamped !== val) {
+        warn("CLAMPED_CADENCE", { value: val, clamped });
+      }
+      return clamped;
+    };
+
+    const cadenceLow = clampCadence(step.cadence_low_rpm);
+    const cadenceHigh = clampCadence(step.cadence_high_rpm);
+    // An inverted range is read as written the other way round
+    const cadence = {
+      cadence_rpm: clampCadence(step.cadence_rpm),
+      cadence_low_rpm: cadenceLow !== undefined && cadenceHigh !== undefined ? Math.min(cadenceLow, cadenceHigh) : cadenceLow,
+      cadence_high_rpm: cadenceLow !== undefined && cadenceHigh !== undefined ? Math.max(cadenceLow, cadenceHigh) : cadenceHigh,
+    };
+
+    switch (step.type) {
+      case "warmup": {
+        const duration_s = clampDuration(step.duration_s, 300);
+        return {
+          type: "warmup" as const,
+          duration_s,
+          power_start_pct: clampPower(step.power_start_pct, 50),
+          power_end_pct: clampPower(step.power_end_pct, 75),
+          target_unit,
+          ...cadence,
+          messages: fixMessages(step.messages, duration_s),
+        };
+      }
+      case "cooldown": {
+        const duration_s = clampDuration(step.duration_s, 300);
+        return {
+          type: "cooldown" as const,
+          duration_s,
+          power_start_pct: clampPower(step.power_start_pct, 70),
+          power_end_pct: clampPower(step.power_end_pct, 40),
+          target_unit,
+          ...cadence,
+          messages: fixMessages(step.messages, duration_s),
+        };
+      }
+      case "steady": {
+        const duration_s = clampDuration(step.duration_s, 300);
+        return {
+          type: "steady" as const,
+          duration_s,
+          power_pct: clampPower(step.power_pct, 75),
+          power_low_pct: optionalPower(step.power_low_pct, "power_low_pct"),
+          power_high_pct: optionalPower(step.power_high_pct, "power_high_pct"),
+          power_zone: zone(step.power_zone),
+          target_unit,
+          ...cadence,
+          messages: fixMessages(step.messages, duration_s),
+        };
+      }
+      case "intervals": {
+        const repeat = clampRepeat(step.repeat);
+        const on_duration_s = clampDuration(step.on_duration_s, 60);
+        const off_duration_s = clampDuration(step.off_duration_s, 60);
+        return {
+          type: "intervals" as const,
+          repeat,
+          on_duration_s,
+          off_duration_s,
+          on_power_pct: clampPower(step.on_power_pct, 100),
+          off_power_pct: clampPower(step.off_power_pct, 50),
+          on_power_low_pct: optionalPower(step.on_power_low_pct, "on_power_low_pct"),
+          on_power_high_pct: optionalPower(step.on_power_high_pct, "on_power_high_pct"),
+          on_power_zone: zone(step.on_power_zone),
+          off_power_low_pct: optionalPower(step.off_power_low_pct, "off_power_low_pct"),
+          off_power_high_pct: optionalPower(step.off_power_high_pct, "off_power_high_pct"),
+          off_power_zone: zone(step.off_power_zone),
+          target_unit,
+          on_cadence_rpm: clampCadence(step.on_cadence_rpm),
+          off_cadence_rpm: clampCadence(step.off_cadence_rpm),
+          messages: fixMessages(step.messages, (on_duration_s + off_duration_s) * repeat),
+        };
+      }
+      case "repeat":
+        // An empty block cannot be repeated: ride its time as free ride
+        if (listedSteps(step.steps).length > 0) {
           return {
-            type: "freeride" as const,
-            duration_s: clampDuration(step.duration_s, 300),
+            type: "repeat" as const,
+            repeat: clampRepeat(step.repeat),
+            steps: fixSteps(listedSteps(step.steps), warnings, parentIndex ?? index),
           };
+        }
+        warn("EMPTY_REPEAT");
+        return {
+          type: "freeride" as const,
+          duration_s: clampDuration(step.duration_s, 300),
+        };
+      case "freeride":
+      default: {
+        if (step.type !== "freeride") {
+          warn("UNKNOWN_STEP_TYPE", { value: String(step.type) });
+        }
+        const duration_s = clampDuration(step.duration_s, 300);
+        return {
+          type: "freeride" as const,
+          duration_s,
+          ...cadence,
+          messages: fixMessages(step.messages, duration_s),
+        };
       }
-    }),
-  };
+    }
+  });
 }
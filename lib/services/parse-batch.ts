@@ -0,0 +1,110 @@
+/**
+ * Parse Batch Service
+ *
+ * Parses several images (e.g. a week's plan sent as screenshots) into one
+ * workout each, a few at a time, within the user's remaining quota.
+ *
+ * Constitution Principle I: Security-First API
+ * - Each image goes through the same pipeline as a single parse
+ * - Model calls stop once the quota left at the start of the batch is used;
+ *   cached images are still answered
+ *
+ * @see lib/services/parse-pipeline.ts
+ */
+
+import type { BatchParseItem } from "@/lib/schemas";
+import { runParsePipeline, type ParseInput } from "./parse-pipeline";
+import { checkRateLimitAsync, type RateLimitResult } from "./rate-limit";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParseBatchOptions extends Omit<ParseInput, "file"> {
+  /** Images parsed at the same time */
+  concurrency?: number;
+}
+
+export interface ParseBatchResult {
+  /** One item per file, in upload order */
+  items: BatchParseItem[];
+  /** Quota state after the batch, null when rate limiting is disabled */
+  rateLimit: RateLimitResult | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_BATCH_FILES = 10;
+
+// Bounded so a batch does not hog the model endpoint
+const DEFAULT_CONCURRENCY = 2;
+
+// ============================================================================
+// Batch
+// ============================================================================
+
+/**
+ * Parse every file, keeping the results in upload order
+ */
+export async function parseBatch(files: File[], options: ParseBatchOptions): Promise<ParseBatchResult> {
+  const { concurrency = DEFAULT_CONCURRENCY, ...input } = options;
+
+  // Model calls this batch may still make; images reserve one when they reach the model
+  let budget = input.userId ? (await checkRateLimitAsync(input.userId)).remaining : Infinity;
+
+  const parseItem = async (file: File): Promise<BatchParseItem> => {
+    const controller = new AbortController();
+    let reserved = false;
+
+    try {
+      const outcome = await runParsePipeline(
+        { ...input, file },
+        {
+          signal: controller.signal,
+          onStage: (stage) => {
+            if (stage !== "model") return;
+            if (budget <= 0) {
+              controller.abort();
+            } else {
+              budget--;
+              reserved = true;
+            }
+          },
+        }
+      );
+
+      if (outcome.ok) {
+        return { filename: file.name, result: outcome.response };
+      }
+
+      // A failed model call uses no quota
+      if (reserved) budget++;
+      return { filename: file.name, error: outcome.error };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return {
+          filename: file.name,
+          error: { error: "Daily limit reached. Please try again tomorrow.", code: "RATE_LIMITED" },
+        };
+      }
+      console.error("Batch parse error:", error);
+      return { filename: file.name, error: { error: "An unexpected error occurred", code: "INTERNAL_ERROR" } };
+    }
+  };
+
+  // Workers take the next file until none is left
+  const items: BatchParseItem[] = new Array(files.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const index = next++;
+      items[index] = await parseItem(files[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+
+  const rateLimit = input.userId ? await checkRateLimitAsync(input.userId) : null;
+  return { items, rateLimit };
+}
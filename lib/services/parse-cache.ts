@@ -0,0 +1,178 @@
+/**
+ * Parse Cache Service
+ *
+ * Caches parse results so re-uploading the same image neither calls the
+ * vision model again nor consumes a quota slot.
+ *
+ * Supports two storage backends:
+ * - Redis (shared between instances, entries expire after the TTL)
+ * - In-memory (fallback, also bounded by a maximum number of entries)
+ *
+ * Constitution Principle V: Privacy by Default
+ * - Only the parse result is stored, keyed by a hash: never the image itself
+ */
+
+import { createHash } from "crypto";
+import { getServerEnv } from "@/lib/utils/env";
+import { ParseResponseSchema, type ParseResponse } from "@/lib/schemas";
+import { getRedisClient } from "./redis";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParseCacheKeyInput {
+  /** Preprocessed image bytes, as sent to the model */
+  image: Buffer;
+  locale?: string;
+  notes?: string;
+  zoneModel?: string;
+  /** Prompt version, so a prompt change invalidates old results */
+  promptVersion: string;
+  /** Normalizer rules applied to the result */
+  normalize?: readonly string[];
+  /** Vision provider and model, results of different models are not shared */
+  model: string;
+}
+
+interface CacheRecord {
+  response: ParseResponse;
+  expiresAt: number; // timestamp
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PARSE_CACHE_PREFIX = "parsecache:";
+
+// ============================================================================
+// In-Memory Storage (Fallback)
+// ============================================================================
+
+// Map keeps insertion order: the first entry is the least recently used
+const cacheStore = new Map<string, CacheRecord>();
+
+function getCachedParseMemory(key: string): ParseResponse | null {
+  const record = cacheStore.get(key);
+  if (!record) return null;
+
+  if (record.expiresAt < Date.now()) {
+    cacheStore.delete(key);
+    return null;
+  }
+
+  // Move to the end, most recently used
+  cacheStore.delete(key);
+  cacheStore.set(key, record);
+  return record.response;
+}
+
+function setCachedParseMemory(key: string, response: ParseResponse): void {
+  const env = getServerEnv();
+
+  cacheStore.delete(key);
+  cacheStore.set(key, { response, expiresAt: Date.now() + env.PARSE_CACHE_TTL * 1000 });
+
+  // Evict the least recently used entries
+  while (cacheStore.size > env.PARSE_CACHE_MAX_ENTRIES) {
+    const oldest = cacheStore.keys().next().value;
+    if (oldest === undefined) break;
+    cacheStore.delete(oldest);
+  }
+}
+
+// ============================================================================
+// Redis Operations
+// ============================================================================
+
+/**
+ * Read a cached result from Redis
+ * Returns undefined if Redis is unavailable, null on a miss
+ */
+async function getCachedParseRedis(key: string): Promise<ParseResponse | null | undefined> {
+  const redis = getRedisClient();
+  if (!redis) return undefined;
+
+  try {
+    const value = await redis.get(`${PARSE_CACHE_PREFIX}${key}`);
+    if (!value) return null;
+
+    // Entries written by an older schema are treated as misses
+    const parsed = ParseResponseSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    console.error("Redis getCachedParse error:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Store a result in Redis
+ * Returns false if Redis is unavailable
+ */
+async function setCachedParseRedis(key: string, response: ParseResponse): Promise<boolean> {
+  const redis = getRedisClient();
+  if (!redis) return false;
+
+  try {
+    const env = getServerEnv();
+    await redis.set(`${PARSE_CACHE_PREFIX}${key}`, JSON.stringify(response), "EX", env.PARSE_CACHE_TTL);
+    return true;
+  } catch (error) {
+    console.error("Redis setCachedParse error:", error);
+    return false;
+  }
+}
+
+// ============================================================================
+// Public API (with Redis fallback to Memory)
+// ============================================================================
+
+/**
+ * Build the cache key of a parse: SHA-256 of the image and every input that
+ * changes the result
+ */
+export function createParseCacheKey(input: ParseCacheKeyInput): string {
+  const hash = createHash("sha256");
+  hash.update(input.image);
+  hash.update(
+    JSON.stringify([
+      input.locale ?? "",
+      input.notes ?? "",
+      input.zoneModel ?? "",
+      input.promptVersion,
+      input.model,
+      input.normalize ?? [],
+    ])
+  );
+  return hash.digest("hex");
+}
+
+/**
+ * Get a cached parse result
+ * Uses Redis if available, falls back to in-memory
+ */
+export async function getCachedParseAsync(key: string): Promise<ParseResponse | null> {
+  const redisResult = await getCachedParseRedis(key);
+  if (redisResult !== undefined) return redisResult;
+
+  return getCachedParseMemory(key);
+}
+
+/**
+ * Cache a parse result
+ * Uses Redis if available, falls back to in-memory
+ */
+export async function setCachedParseAsync(key: string, response: ParseResponse): Promise<void> {
+  if (await setCachedParseRedis(key, response)) return;
+
+  setCachedParseMemory(key, response);
+}
+
+/**
+ * Clear the in-memory cache (tests)
+ */
+export function clearParseCache(): void {
+  cacheStore.clear();
+}
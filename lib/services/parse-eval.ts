@@ -0,0 +1,405 @@
+/**
+ * Parse Evaluation Service
+ *
+ * Measures how accurately workout images are parsed, against golden
+ * fixtures: images with the workouts they should give. Cases run offline
+ * with the model answers recorded for them, or live against the configured
+ * vision provider to judge a prompt change before it ships. Each prompt
+ * version has its own recordings, so versions are compared case by case.
+ *
+ * A case is a directory of fixtures/eval holding:
+ * - image.png or image.jpg: the workout image
+ * - expected.json: the workout, or the list of workouts the image holds
+ * - recorded.<prompt version>.json: the raw model answer to that prompt,
+ *   replayed offline (optional)
+ *
+ * Constitution Principle II: Honest AI
+ * - Prompt changes are judged on measured accuracy, not on a few images
+ *
+ * @see __tests__/eval/parse-accuracy.test.ts
+ */
+
+import { readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { WorkoutSchema, type Step, type TargetUnit, type Workout } from "@/lib/schemas";
+import { flattenSteps } from "@/lib/utils/steps";
+import { getTargetUnit } from "@/lib/utils/targets";
+import { DEFAULT_PROMPT_VERSION } from "@/lib/prompts";
+import { parseWorkoutImage } from "./openai";
+import { preprocessImage } from "./image-preprocess";
+import { getVisionProvider, type VisionProvider } from "./vision";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EvalMode = "recorded" | "live";
+
+export interface EvalCase {
+  id: string;
+  dir: string;
+  image: Buffer;
+  /** Workouts the image holds, in reading order */
+  expected: Workout[];
+  /** Raw model answers replayed offline, by prompt version */
+  recorded: Record<string, string>;
+}
+
+export interface EvalTolerances {
+  /** Relative duration error accepted (0.05 = 5%) */
+  duration: number;
+  /** Duration error always accepted, in seconds (rounding of short steps) */
+  durationS: number;
+  /** Relative target error accepted, in the unit of the step */
+  target: number;
+}
+
+export interface WorkoutScore {
+  /** Mean of structure, durations and powers, from 0 to 1 */
+  score: number;
+  /** Similarity of the top-level step types */
+  structure: number;
+  /** Share of ridden segments with the expected duration */
+  durations: number;
+  /** Share of ridden segments with the expected target */
+  powers: number;
+}
+
+export interface EvalCaseResult extends WorkoutScore {
+  id: string;
+  expectedWorkouts: number;
+  parsedWorkouts: number;
+  /** Why the case could not be parsed; it then scores 0 */
+  error?: string;
+}
+
+export interface EvalReport {
+  mode: EvalMode;
+  promptVersion: string;
+  cases: EvalCaseResult[];
+  /** Mean over the cases */
+  aggregate: WorkoutScore;
+}
+
+export interface RunEvalOptions {
+  mode: EvalMode;
+  /** Prompt template evaluated, the default one when omitted */
+  promptVersion?: string;
+  /** Longest image edge sent to the model, as IMAGE_MAX_EDGE */
+  maxEdge?: number;
+  tolerances?: Partial<EvalTolerances>;
+  /** Live mode: save each final model answer as the case's recorded answer to the prompt */
+  record?: boolean;
+}
+
+/**
+ * One stretch of the ride: intervals are split into their on and off parts
+ */
+interface Segment {
+  kind: "ramp" | "steady" | "free";
+  duration_s: number;
+  unit: TargetUnit | null;
+  start: number | null;
+  end: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_EVAL_TOLERANCES: EvalTolerances = {
+  duration: 0.05,
+  durationS: 5,
+  target: 0.03,
+};
+
+const DEFAULT_MAX_EDGE = 2048;
+
+const IMAGE_FILES = ["image.png", "image.jpg"];
+
+// recorded.<prompt version>.json
+const RECORDED_FILE = /^recorded\.(.+)\.json$/;
+
+const ExpectedSchema = z.union([WorkoutSchema, z.array(WorkoutSchema).min(1)]);
+
+const ZERO_SCORE: WorkoutScore = { score: 0, structure: 0, durations: 0, powers: 0 };
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Expand a workout into the segments ridden, repeats and intervals included
+ */
+function toSegments(steps: Step[]): Segment[] {
+  return flattenSteps(steps).flatMap((step): Segment[] => {
+    const unit = getTargetUnit(step);
+    switch (step.type) {
+      case "warmup":
+      case "cooldown":
+        return [{ kind: "ramp", duration_s: step.duration_s, unit, start: step.power_start_pct, end: step.power_end_pct }];
+      case "steady":
+        return [{ kind: "steady", duration_s: step.duration_s, unit, start: step.power_pct, end: step.power_pct }];
+      case "intervals":
+        return Array.from({ length: step.repeat }, (): Segment[] => [
+          { kind: "steady", duration_s: step.on_duration_s, unit, start: step.on_power_pct, end: step.on_power_pct },
+          { kind: "steady", duration_s: step.off_duration_s, unit, start: step.off_power_pct, end: step.off_power_pct },
+        ]).flat();
+      default:
+        return [{ kind: "free", duration_s: step.duration_s, unit: null, start: null, end: null }];
+    }
+  });
+}
+
+/**
+ * Align two sequences with the fewest insertions, deletions and
+ * substitutions; returns the pairs that match and the edit distance
+ */
+function align<T>(a: T[], b: T[], same: (x: T, y: T) => boolean): { pairs: [T, T][]; distance: number } {
+  const cost = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + (same(a[i - 1], b[j - 1]) ? 0 : 1)
+      );
+    }
+  }
+
+  // Walk back through the table, keeping the matching pairs
+  const pairs: [T, T][] = [];
+  for (let i = a.length, j = b.length; i > 0 && j > 0; ) {
+    const match = same(a[i - 1], b[j - 1]);
+    if (cost[i][j] === cost[i - 1][j - 1] + (match ? 0 : 1)) {
+      if (match) pairs.unshift([a[i - 1], b[j - 1]]);
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return { pairs, distance: cost[a.length][b.length] };
+}
+
+function within(actual: number, expected: number, relative: number, absolute = 0): boolean {
+  return Math.abs(actual - expected) <= Math.max(Math.abs(expected) * relative, absolute);
+}
+
+/**
+ * Score a parsed workout against the expected one. Segments missing or
+ * added count against durations and powers; a free ride matches any
+ * target-less segment.
+ */
+export function scoreWorkout(
+  expected: Workout,
+  actual: Workout,
+  tolerances: EvalTolerances = DEFAULT_EVAL_TOLERANCES
+): WorkoutScore {
+  const expectedTypes = expected.steps.map((step) => step.type);
+  const actualTypes = actual.steps.map((step) => step.type);
+  const longestTypes = Math.max(expectedTypes.length, actualTypes.length);
+  const structure = longestTypes === 0
+    ? 1
+    : 1 - align(expectedTypes, actualTypes, (x, y) => x === y).distance / longestTypes;
+
+  const expectedSegments = toSegments(expected.steps);
+  const actualSegments = toSegments(actual.steps);
+  const longestSegments = Math.max(expectedSegments.length, actualSegments.length);
+  const { pairs } = align(expectedSegments, actualSegments, (x, y) => x.kind === y.kind);
+
+  const durationMatches = pairs.filter(([want, got]) =>
+    within(got.duration_s, want.duration_s, tolerances.duration, tolerances.durationS)
+  ).length;
+  const powerMatches = pairs.filter(([want, got]) =>
+    want.unit === got.unit &&
+    (want.start === null || (got.start !== null && within(got.start, want.start, tolerances.target))) &&
+    (want.end === null || (got.end !== null && within(got.end, want.end, tolerances.target)))
+  ).length;
+
+  const durations = longestSegments === 0 ? 1 : durationMatches / longestSegments;
+  const powers = longestSegments === 0 ? 1 : powerMatches / longestSegments;
+  return { score: (structure + durations + powers) / 3, structure, durations, powers };
+}
+
+/**
+ * Mean of the scores, with missing entries counted as 0
+ */
+function meanScore(scores: WorkoutScore[], count: number = scores.length): WorkoutScore {
+  if (count === 0) return ZERO_SCORE;
+  const mean = (key: keyof WorkoutScore) => scores.reduce((sum, score) => sum + score[key], 0) / count;
+  return { score: mean("score"), structure: mean("structure"), durations: mean("durations"), powers: mean("powers") };
+}
+
+/**
+ * Score the workouts read from an image against the expected ones, in
+ * reading order. Missing and extra workouts score 0.
+ */
+export function scoreWorkouts(
+  expected: Workout[],
+  actual: Workout[],
+  tolerances: EvalTolerances = DEFAULT_EVAL_TOLERANCES
+): WorkoutScore {
+  const scores = expected.flatMap((workout, i) => (actual[i] ? [scoreWorkout(workout, actual[i], tolerances)] : []));
+  return meanScore(scores, Math.max(expected.length, actual.length));
+}
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+/**
+ * Load every case directory of the fixtures directory, sorted by name
+ */
+export async function loadEvalCases(dir: string): Promise<EvalCase[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const ids = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+
+  return Promise.all(
+    ids.map(async (id): Promise<EvalCase> => {
+      const caseDir = path.join(dir, id);
+      const image = await readFirst(IMAGE_FILES.map((file) => path.join(caseDir, file)));
+      if (!image) {
+        throw new Error(`Eval case "${id}" has no ${IMAGE_FILES.join(" or ")}`);
+      }
+
+      const expected = ExpectedSchema.safeParse(JSON.parse(await readFile(path.join(caseDir, "expected.json"), "utf8")));
+      if (!expected.success) {
+        throw new Error(`Eval case "${id}" has an invalid expected.json: ${expected.error.issues[0]?.message}`);
+      }
+
+      const recorded: Record<string, string> = {};
+      for (const file of (await readdir(caseDir)).sort()) {
+        const version = file.match(RECORDED_FILE)?.[1];
+        if (version) {
+          recorded[version] = await readFile(path.join(caseDir, file), "utf8");
+        }
+      }
+
+      return {
+        id,
+        dir: caseDir,
+        image,
+        expected: Array.isArray(expected.data) ? expected.data : [expected.data],
+        recorded,
+      };
+    })
+  );
+}
+
+async function readFirst(files: string[]): Promise<Buffer | null> {
+  for (const file of files) {
+    try {
+      return await readFile(file);
+    } catch {
+      // Try the next file
+    }
+  }
+  return null;
+}
+
+/**
+ * Provider answering every request with a recorded model answer, whatever
+ * the image bytes (preprocessing may change them between versions)
+ */
+function createRecordedVisionProvider(recorded: string): VisionProvider {
+  return {
+    name: "stub",
+    model: "recorded",
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      return recorded;
+    },
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Parse every case the way the app does (preprocessing included) and score it
+ */
+export async function runEvaluation(cases: EvalCase[], options: RunEvalOptions): Promise<EvalReport> {
+  const tolerances = { ...DEFAULT_EVAL_TOLERANCES, ...options.tolerances };
+  const promptVersion = options.promptVersion ?? DEFAULT_PROMPT_VERSION;
+  const results: EvalCaseResult[] = [];
+
+  // One case at a time, to stay within the provider's rate limits
+  for (const evalCase of cases) {
+    const base = { id: evalCase.id, expectedWorkouts: evalCase.expected.length };
+    try {
+      const provider = resolveProvider(evalCase, options.mode, promptVersion);
+      let answer: string | null = null;
+      const image = await preprocessImage(evalCase.image, { maxEdge: options.maxEdge ?? DEFAULT_MAX_EDGE });
+      const response = await parseWorkoutImage(image.data.toString("base64"), image.mimeType, {
+        provider: {
+          ...provider,
+          complete: async (request) => (answer = await provider.complete(request)),
+        },
+        promptVersion,
+      });
+
+      if (options.mode === "live" && options.record && answer) {
+        await writeFile(path.join(evalCase.dir, `recorded.${promptVersion}.json`), answer);
+      }
+
+      const parsed = response.workouts?.map((detected) => detected.workout) ?? [response.workout];
+      results.push({
+        ...base,
+        parsedWorkouts: parsed.length,
+        ...scoreWorkouts(evalCase.expected, parsed, tolerances),
+      });
+    } catch (error) {
+      results.push({
+        ...base,
+        parsedWorkouts: 0,
+        ...ZERO_SCORE,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { mode: options.mode, promptVersion, cases: results, aggregate: meanScore(results) };
+}
+
+function resolveProvider(evalCase: EvalCase, mode: EvalMode, promptVersion: string): VisionProvider {
+  if (mode === "live") {
+    return getVisionProvider();
+  }
+  const recorded = evalCase.recorded[promptVersion];
+  if (recorded === undefined) {
+    throw new Error(`No answer recorded for prompt ${promptVersion}, run the evaluation live with recording on`);
+  }
+  return createRecordedVisionProvider(recorded);
+}
+
+/**
+ * Render the report as a plain-text table, one line per case and the mean
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const idWidth = Math.max(9, ...report.cases.map((result) => result.id.length));
+  const percent = (value: number) => `${Math.round(value * 100)}%`.padStart(9);
+  const row = (id: string, score: WorkoutScore, note = "") =>
+    `${id.padEnd(idWidth)}  ${percent(score.score)}  ${percent(score.structure)}  ${percent(score.durations)}  ${percent(score.powers)}  ${note}`.trimEnd();
+
+  return [
+    `Parse evaluation (${report.mode}, prompt ${report.promptVersion}, ${report.cases.length} cases)`,
+    `${"case".padEnd(idWidth)}  ${"score".padStart(9)}  ${"structure".padStart(9)}  ${"durations".padStart(9)}  ${"powers".padStart(9)}`,
+    ...report.cases.map((result) =>
+      row(
+        result.id,
+        result,
+        result.error ?? (result.expectedWorkouts > 1 || result.parsedWorkouts > 1
+          ? `${result.parsedWorkouts}/${result.expectedWorkouts} workouts`
+          : "")
+      )
+    ),
+    row("aggregate", report.aggregate),
+  ].join("\n");
+}
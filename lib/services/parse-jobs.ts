@@ -0,0 +1,231 @@
+/**
+ * Parse Jobs Service
+ *
+ * Runs image parses in the background and records the stage they reached,
+ * so the client can show real progress and cancel a parse.
+ *
+ * Supports two storage backends:
+ * - Redis (jobs can be followed and cancelled from any instance)
+ * - In-memory (fallback for development/single-instance)
+ *
+ * Constitution Principle V: Privacy by Default
+ * - Jobs hold the parse result only, the image stays in memory while the job runs
+ */
+
+import { randomUUID } from "crypto";
+import { ParseJobSchema, type ParseJob } from "@/lib/schemas";
+import { getRedisClient } from "./redis";
+import { runParsePipeline, toRateLimitInfo, type ParseInput } from "./parse-pipeline";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PARSE_JOB_PREFIX = "parsejob:";
+
+// Jobs are only followed while the user waits
+const PARSE_JOB_TTL = 60 * 60; // 1 hour, in seconds
+
+const FINAL_STAGES: ReadonlySet<ParseJob["stage"]> = new Set(["done", "failed", "cancelled"]);
+
+// A stage update retries when another write landed between its read and its write
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Sets KEYS[1] to ARGV[2] only if it still holds ARGV[1] (compare-and-set)
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+end
+return nil
+`;
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const jobStore = new Map<string, ParseJob>();
+
+// Cleanup old jobs every 10 minutes
+const CLEANUP_INTERVAL = 10 * 60 * 1000;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+function startCleanup() {
+  if (cleanupTimer) return;
+
+  cleanupTimer = setInterval(() => {
+    const expiredBefore = Date.now() - PARSE_JOB_TTL * 1000;
+    for (const [id, job] of jobStore.entries()) {
+      if (Date.parse(job.updated_at) < expiredBefore) {
+        jobStore.delete(id);
+      }
+    }
+  }, CLEANUP_INTERVAL);
+
+  // Don't prevent process from exiting
+  cleanupTimer.unref();
+}
+
+// Start cleanup on module load
+startCleanup();
+
+// Abort controllers of the jobs running on this instance
+const runningJobs = new Map<string, AbortController>();
+
+/**
+ * Store a job, in Redis if available, otherwise in memory
+ */
+async function saveJob(job: ParseJob): Promise<void> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      await redis.set(`${PARSE_JOB_PREFIX}${job.id}`, JSON.stringify(job), "EX", PARSE_JOB_TTL);
+      return;
+    } catch (error) {
+      console.error("Redis saveJob error:", error);
+    }
+  }
+
+  jobStore.set(job.id, job);
+}
+
+function applyChanges(job: ParseJob, changes: Partial<ParseJob>): ParseJob {
+  return { ...job, ...changes, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Record changes of a job that is not final yet
+ * Returns null if the job is unknown or already final (e.g. cancelled)
+ *
+ * The check and the write are atomic: a stage update never overwrites a
+ * cancel recorded in between, from this instance or another one
+ */
+async function updateParseJob(id: string, changes: Partial<ParseJob>): Promise<ParseJob | null> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      const key = `${PARSE_JOB_PREFIX}${id}`;
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const value = await redis.get(key);
+        if (!value) break;
+
+        const parsed = ParseJobSchema.safeParse(JSON.parse(value));
+        if (!parsed.success || isFinalStage(parsed.data.stage)) return null;
+
+        const updated = applyChanges(parsed.data, changes);
+        if (await redis.eval(COMPARE_AND_SET_SCRIPT, 1, key, value, JSON.stringify(updated), PARSE_JOB_TTL)) {
+          return updated;
+        }
+      }
+    } catch (error) {
+      console.error("Redis updateParseJob error:", error);
+    }
+  }
+
+  // No await between the check and the write
+  const job = jobStore.get(id);
+  if (!job || isFinalStage(job.stage)) return null;
+
+  const updated = applyChanges(job, changes);
+  jobStore.set(id, updated);
+  return updated;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether a job stage is final: done, failed or cancelled
+ */
+export function isFinalStage(stage: ParseJob["stage"]): boolean {
+  return FINAL_STAGES.has(stage);
+}
+
+/**
+ * Create a queued job
+ */
+export async function createParseJob(): Promise<ParseJob> {
+  const now = new Date().toISOString();
+  const job: ParseJob = { id: randomUUID(), stage: "queued", created_at: now, updated_at: now };
+  await saveJob(job);
+  return job;
+}
+
+/**
+ * Get a job
+ * Uses Redis if available, falls back to in-memory
+ */
+export async function getParseJobAsync(id: string): Promise<ParseJob | null> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      const value = await redis.get(`${PARSE_JOB_PREFIX}${id}`);
+      if (value) {
+        const parsed = ParseJobSchema.safeParse(JSON.parse(value));
+        return parsed.success ? parsed.data : null;
+      }
+    } catch (error) {
+      console.error("Redis getParseJob error:", error);
+    }
+  }
+
+  return jobStore.get(id) ?? null;
+}
+
+/**
+ * Cancel a job: aborts it if it runs on this instance, otherwise the
+ * instance running it stops at its next stage
+ * Returns the job as it is after the request, or null if unknown
+ */
+export async function cancelParseJob(id: string): Promise<ParseJob | null> {
+  runningJobs.get(id)?.abort();
+  return (await updateParseJob(id, { stage: "cancelled", attempt: undefined })) ?? getParseJobAsync(id);
+}
+
+/**
+ * Run the parse of a created job, recording each stage and the outcome
+ */
+export async function runParseJob(id: string, input: ParseInput): Promise<void> {
+  const controller = new AbortController();
+  runningJobs.set(id, controller);
+
+  try {
+    const outcome = await runParsePipeline(input, {
+      signal: controller.signal,
+      onStage: async (stage, attempt) => {
+        // Cancelled, possibly from another instance
+        if (!(await updateParseJob(id, { stage, attempt }))) {
+          controller.abort();
+        }
+      },
+      checkCancelled: async () => {
+        // Cancelled from another instance while the model ran
+        if ((await getParseJobAsync(id))?.stage === "cancelled") {
+          controller.abort();
+        }
+      },
+    });
+
+    const rateLimit = outcome.rateLimit ? toRateLimitInfo(outcome.rateLimit) : undefined;
+    await updateParseJob(
+      id,
+      outcome.ok
+        ? { stage: "done", attempt: undefined, result: outcome.response, rateLimit }
+        : { stage: "failed", attempt: undefined, error: outcome.error, rateLimit }
+    );
+  } catch (error) {
+    if (controller.signal.aborted) {
+      await updateParseJob(id, { stage: "cancelled", attempt: undefined });
+    } else {
+      console.error("Parse job error:", error);
+      await updateParseJob(id, {
+        stage: "failed",
+        attempt: undefined,
+        error: { error: "An unexpected error occurred", code: "INTERNAL_ERROR" },
+      });
+    }
+  } finally {
+    runningJobs.delete(id);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Parse Log Service
+ *
+ * Keeps the latest image parse outcomes with the prompt version and model
+ * that produced them, so prompt versions running side by side (A/B split)
+ * can be compared on real uploads.
+ *
+ * Supports two storage backends:
+ * - Redis (one list shared between instances, trimmed to the maximum size)
+ * - In-memory (fallback, bounded by the same maximum)
+ *
+ * Constitution Principle V: Privacy by Default
+ * - Only outcome metrics are logged: never the user, the image or the workout
+ */
+
+import { z } from "zod";
+import { getServerEnv } from "@/lib/utils/env";
+import { ErrorCodeSchema } from "@/lib/schemas";
+import { getRedisClient } from "./redis";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const ParseLogEntrySchema = z.object({
+  /** ISO timestamp */
+  at: z.string(),
+  prompt_version: z.string(),
+  /** Vision provider and model */
+  model: z.string(),
+  /** "cached" results were produced earlier by the same prompt version */
+  outcome: z.enum(["parsed", "cached", "failed"]),
+  confidence: z.number().optional(),
+  warnings: z.number().int().optional(),
+  workouts: z.number().int().optional(),
+  duration_ms: z.number(),
+  error_code: ErrorCodeSchema.optional(),
+});
+
+export type ParseLogEntry = z.infer<typeof ParseLogEntrySchema>;
+
+export interface PromptVersionSummary {
+  prompt_version: string;
+  parsed: number;
+  cached: number;
+  failed: number;
+  /**
+   * Mean confidence of the parsed results, null without any. Cache hits
+   * replay an earlier result: counting them would weigh it twice
+   */
+  average_confidence: number | null;
+  /** Mean duration of the model calls, null without any */
+  average_duration_ms: number | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PARSE_LOG_KEY = "parselog";
+
+// ============================================================================
+// In-Memory Storage (Fallback)
+// ============================================================================
+
+// Newest entry first, like the Redis list
+const logStore: ParseLogEntry[] = [];
+
+// ============================================================================
+// Public API (with Redis fallback to Memory)
+// ============================================================================
+
+/**
+ * Log a parse outcome
+ * Uses Redis if available, falls back to in-memory
+ */
+export async function logParseAsync(entry: ParseLogEntry): Promise<void> {
+  const env = getServerEnv();
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      await redis.lpush(PARSE_LOG_KEY, JSON.stringify(entry));
+      await redis.ltrim(PARSE_LOG_KEY, 0, env.PARSE_LOG_MAX_ENTRIES - 1);
+      return;
+    } catch (error) {
+      console.error("Redis logParse error:", error);
+    }
+  }
+
+  logStore.unshift(entry);
+  logStore.length = Math.min(logStore.length, env.PARSE_LOG_MAX_ENTRIES);
+}
+
+/**
+ * Get the logged parse outcomes, newest first
+ * Uses Redis if available, falls back to in-memory
+ */
+export async function getParseLogAsync(): Promise<ParseLogEntry[]> {
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      const values = await redis.lrange(PARSE_LOG_KEY, 0, -1);
+      // Corrupt entries and entries written by an older schema are skipped
+      return values.flatMap((value) => {
+        try {
+          const parsed = ParseLogEntrySchema.safeParse(JSON.parse(value));
+          return parsed.success ? [parsed.data] : [];
+        } catch {
+          return [];
+        }
+      });
+    } catch (error) {
+      console.error("Redis getParseLog error:", error);
+    }
+  }
+
+  return [...logStore];
+}
+
+/**
+ * Group parse outcomes by prompt version, in order of first appearance
+ */
+export function summarizeParseLog(entries: ParseLogEntry[]): PromptVersionSummary[] {
+  const groups = new Map<string, ParseLogEntry[]>();
+  for (const entry of entries) {
+    groups.set(entry.prompt_version, [...(groups.get(entry.prompt_version) ?? []), entry]);
+  }
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return [...groups].map(([version, group]) => ({
+    prompt_version: version,
+    parsed: group.filter((entry) => entry.outcome === "parsed").length,
+    cached: group.filter((entry) => entry.outcome === "cached").length,
+    failed: group.filter((entry) => entry.outcome === "failed").length,
+    average_confidence: mean(
+      group.flatMap((entry) => (entry.outcome === "parsed" && entry.confidence !== undefined ? [entry.confidence] : []))
+    ),
+    average_duration_ms: mean(
+      group.filter((entry) => entry.outcome !== "cached").map((entry) => entry.duration_ms)
+    ),
+  }));
+}
+
+/**
+ * Clear the in-memory log (tests)
+ */
+export function clearParseLog(): void {
+  logStore.length = 0;
+}
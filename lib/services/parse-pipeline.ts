@@ -0,0 +1,216 @@
+/**
+ * Parse Pipeline Service
+ *
+ * The steps of an image parse, shared by the synchronous parse route and
+ * parse jobs: validation, quota, preprocessing, cache, model call. Each
+ * cache hit and model call is logged with its prompt version.
+ *
+ * Constitution Principle I: Security-First API
+ * - File validation before processing
+ * - Quota is only consumed by actual model calls
+ *
+ * @see app/api/workouts/parse/route.ts
+ * @see lib/services/parse-jobs.ts
+ */
+
+import { getServerEnv } from "@/lib/utils/env";
+import type { ParseError, ParseResponse, RateLimitInfo, ZoneModelName } from "@/lib/schemas";
+import { selectPromptVersion } from "@/lib/prompts";
+import { parseWorkoutImage } from "./openai";
+import { getVisionProvider } from "./vision";
+import { preprocessImage } from "./image-preprocess";
+import { createParseCacheKey, getCachedParseAsync, setCachedParseAsync } from "./parse-cache";
+import { logParseAsync, type ParseLogEntry } from "./parse-log";
+import { checkRateLimitAsync, consumeRateLimitAsync, type RateLimitResult } from "./rate-limit";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParseStage = "validating" | "preprocessing" | "model" | "repair";
+
+export interface ParseInput {
+  file: File;
+  locale?: string;
+  notes?: string;
+  zoneModel?: ZoneModelName;
+  /** Rate limited user, null when rate limiting is disabled */
+  userId: string | null;
+}
+
+export interface ParseHooks {
+  /** Called when a stage starts, with the attempt number for repairs */
+  onStage?: (stage: ParseStage, attempt?: number) => void | Promise<void>;
+  /** Stops the pipeline between stages and aborts the model call */
+  signal?: AbortSignal;
+  /**
+   * Called before quota is used and before the cache is written, to look
+   * for a cancel made elsewhere: aborts `signal` when there was one
+   */
+  checkCancelled?: () => Promise<void>;
+}
+
+export type ParseOutcome =
+  | { ok: true; response: ParseResponse; rateLimit: RateLimitResult | null }
+  | { ok: false; error: ParseError; status: number; rateLimit?: RateLimitResult };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Below this confidence the result is reported as partial (422) and not cached
+export const MIN_CONFIDENCE = 0.5;
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+function failure(
+  message: string,
+  code: ParseError["code"],
+  status: number,
+  rateLimit?: RateLimitResult
+): ParseOutcome {
+  return { ok: false, error: { error: message, code }, status, rateLimit };
+}
+
+function toLogEntry(
+  outcome: ParseLogEntry["outcome"],
+  promptVersion: string,
+  model: string,
+  startedAt: number,
+  response?: ParseResponse
+): ParseLogEntry {
+  return {
+    at: new Date().toISOString(),
+    prompt_version: promptVersion,
+    model,
+    outcome,
+    confidence: response?.confidence,
+    warnings: response?.warnings.length,
+    workouts: response && (response.workouts?.length ?? 1),
+    duration_ms: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Run an image parse
+ *
+ * Re-uploads of a cached image are answered before the quota check: they use
+ * no quota. Throws only when aborted.
+ */
+export async function runParsePipeline(input: ParseInput, hooks: ParseHooks = {}): Promise<ParseOutcome> {
+  const env = getServerEnv();
+  const { file, userId } = input;
+  const { onStage, signal, checkCancelled } = hooks;
+
+  await onStage?.("validating");
+
+  // Validate file type
+  if (!env.ALLOWED_IMAGE_FORMATS.includes(file.type)) {
+    return failure(`Invalid file type. Accepted: ${env.ALLOWED_IMAGE_FORMATS.join(", ")}`, "INVALID_FORMAT", 400);
+  }
+
+  // Validate file size
+  if (file.size > env.MAX_FILE_SIZE) {
+    return failure(
+      `File too large. Maximum size: ${Math.round(env.MAX_FILE_SIZE / 1024 / 1024)}MB`,
+      "FILE_TOO_LARGE",
+      413
+    );
+  }
+
+  signal?.throwIfAborted();
+  await onStage?.("preprocessing");
+
+  // Orient, strip metadata and downsize before sending to the model
+  let image;
+  try {
+    image = await preprocessImage(Buffer.from(await file.arrayBuffer()), {
+      maxEdge: env.IMAGE_MAX_EDGE,
+      contrastBoost: env.IMAGE_CONTRAST_BOOST,
+    });
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : "Unreadable image file", "INVALID_IMAGE", 400);
+  }
+
+  // A user stays on one prompt version, anonymous uploads are split by image
+  const promptVersion = selectPromptVersion(userId ?? image.data, {
+    version: env.PROMPT_VERSION,
+    split: env.PROMPT_SPLIT,
+  });
+  const options = {
+    locale: input.locale,
+    notes: input.notes,
+    zoneModel: input.zoneModel,
+    promptVersion,
+    normalize: env.PARSE_NORMALIZE_RULES,
+  };
+  const provider = getVisionProvider();
+  const model = `${provider.name}:${provider.model}`;
+  const cacheKey = env.PARSE_CACHE_ENABLED ? createParseCacheKey({ image: image.data, ...options, model }) : null;
+  const startedAt = Date.now();
+
+  if (cacheKey) {
+    const cached = await getCachedParseAsync(cacheKey);
+    if (cached) {
+      await logParseAsync(toLogEntry("cached", promptVersion, model, startedAt, cached));
+      const rateLimit = userId ? await checkRateLimitAsync(userId) : null;
+      return { ok: true, response: { ...cached, cached: true }, rateLimit };
+    }
+  }
+
+  // Rate limiting check
+  if (userId) {
+    const rateLimitCheck = await checkRateLimitAsync(userId);
+    if (!rateLimitCheck.allowed) {
+      return failure("Daily limit reached. Please try again tomorrow.", "RATE_LIMITED", 429, rateLimitCheck);
+    }
+  }
+
+  signal?.throwIfAborted();
+  await onStage?.("model");
+
+  let response;
+  try {
+    response = await parseWorkoutImage(image.data.toString("base64"), image.mimeType, {
+      ...options,
+      onRepair: (attempt) => onStage?.("repair", attempt),
+      signal,
+    });
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Parse error:", error);
+    await logParseAsync({ ...toLogEntry("failed", promptVersion, model, startedAt), error_code: "PARSE_FAILED" });
+    return failure(error instanceof Error ? error.message : "An unexpected error occurred", "PARSE_FAILED", 500);
+  }
+
+  // A result nobody waits for anymore does not use quota
+  await checkCancelled?.();
+  signal?.throwIfAborted();
+
+  await logParseAsync(toLogEntry("parsed", promptVersion, model, startedAt, response));
+
+  // Consume rate limit after successful parsing
+  const rateLimit = userId ? await consumeRateLimitAsync(userId) : null;
+
+  // Only confident results are worth reusing, and only if still wanted
+  if (cacheKey && response.confidence >= MIN_CONFIDENCE) {
+    await checkCancelled?.();
+    signal?.throwIfAborted();
+    await setCachedParseAsync(cacheKey, response);
+  }
+
+  return { ok: true, response, rateLimit };
+}
+
+/**
+ * Quota state as returned to the client
+ */
+export function toRateLimitInfo(rateLimit: RateLimitResult): RateLimitInfo {
+  return {
+    remaining: rateLimit.remaining,
+    limit: rateLimit.limit,
+    resetAt: rateLimit.resetAt.toISOString(),
+  };
+}
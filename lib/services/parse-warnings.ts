@@ -0,0 +1,134 @@
+/**
+ * Parse Warnings Service
+ *
+ * Builds the structured warnings returned with a parsed workout and renders
+ * them in the user's language. A warning carries a code, a severity, the
+ * top-level step it is about and the values its message needs.
+ *
+ * Constitution Principle II: Honest AI
+ * - Every clamp, default and dropped value is reported, never applied silently
+ *
+ * @see lib/i18n/translations.ts
+ */
+
+import type { ParseWarning, WarningCode, WarningParams, WarningSeverity } from "@/lib/schemas";
+import { translations, type TranslationKey } from "@/lib/i18n/translations";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const WARNING_SEVERITY: Record<WarningCode, WarningSeverity> = {
+  ILLEGIBLE_SECTION: "warning",
+  AMBIGUOUS_VALUE: "warning",
+  MODEL_NOTE: "info",
+  REPAIR_ATTEMPT: "info",
+  SCHEMA_FIXED: "warning",
+  DEFAULT_NAME: "info",
+  CLAMPED_POWER: "warning",
+  CLAMPED_DURATION: "warning",
+  CLAMPED_CADENCE: "warning",
+  CLAMPED_REPEAT: "warning",
+  DEFAULT_TARGET: "info",
+  DEFAULT_DURATION: "warning",
+  DEFAULT_REPEAT: "info",
+  INVALID_VALUE: "warning",
+  UNKNOWN_UNIT: "warning",
+  UNKNOWN_STEP_TYPE: "warning",
+  EMPTY_REPEAT: "warning",
+  MULTIPLE_WORKOUTS: "info",
+  ROUNDED_DURATIONS: "info",
+  ROUNDED_TARGETS: "info",
+  MERGED_STEPS: "info",
+  DETECTED_REPEAT: "info",
+  COLLAPSED_STAIRS: "info",
+  LONG_WORKOUT: "warning",
+  LONG_HARD_EFFORT: "warning",
+  WARMUP_RAMPS_DOWN: "warning",
+  COOLDOWN_RAMPS_UP: "warning",
+  OFF_ABOVE_ON: "warning",
+  TOTAL_MISMATCH: "warning",
+  NO_TARGET_FREERIDE: "warning",
+  UNPARSED_TEXT: "error",
+  MISSING_DURATION: "error",
+  UNSUPPORTED_ELEMENT: "warning",
+  ELEMENT_SKIPPED: "error",
+  UNSUPPORTED_SPORT: "warning",
+};
+
+const WARNING_MESSAGES: Record<WarningCode, TranslationKey> = {
+  ILLEGIBLE_SECTION: "warningIllegibleSection",
+  AMBIGUOUS_VALUE: "warningAmbiguousValue",
+  MODEL_NOTE: "warningModelNote",
+  REPAIR_ATTEMPT: "warningRepairAttempt",
+  SCHEMA_FIXED: "warningSchemaFixed",
+  DEFAULT_NAME: "warningDefaultName",
+  CLAMPED_POWER: "warningClampedPower",
+  CLAMPED_DURATION: "warningClampedDuration",
+  CLAMPED_CADENCE: "warningClampedCadence",
+  CLAMPED_REPEAT: "warningClampedRepeat",
+  DEFAULT_TARGET: "warningDefaultTarget",
+  DEFAULT_DURATION: "warningDefaultDuration",
+  DEFAULT_REPEAT: "warningDefaultRepeat",
+  INVALID_VALUE: "warningInvalidValue",
+  UNKNOWN_UNIT: "warningUnknownUnit",
+  UNKNOWN_STEP_TYPE: "warningUnknownStepType",
+  EMPTY_REPEAT: "warningEmptyRepeat",
+  MULTIPLE_WORKOUTS: "warningMultipleWorkouts",
+  ROUNDED_DURATIONS: "warningRoundedDurations",
+  ROUNDED_TARGETS: "warningRoundedTargets",
+  MERGED_STEPS: "warningMergedSteps",
+  DETECTED_REPEAT: "warningDetectedRepeat",
+  COLLAPSED_STAIRS: "warningCollapsedStairs",
+  LONG_WORKOUT: "warningLongWorkout",
+  LONG_HARD_EFFORT: "warningLongHardEffort",
+  WARMUP_RAMPS_DOWN: "warningWarmupRampsDown",
+  COOLDOWN_RAMPS_UP: "warningCooldownRampsUp",
+  OFF_ABOVE_ON: "warningOffAboveOn",
+  TOTAL_MISMATCH: "warningTotalMismatch",
+  NO_TARGET_FREERIDE: "warningNoTargetFreeride",
+  UNPARSED_TEXT: "warningUnparsedText",
+  MISSING_DURATION: "warningMissingDuration",
+  UNSUPPORTED_ELEMENT: "warningUnsupportedElement",
+  ELEMENT_SKIPPED: "warningElementSkipped",
+  UNSUPPORTED_SPORT: "warningUnsupportedSport",
+};
+
+// ============================================================================
+// Warnings
+// ============================================================================
+
+/**
+ * Fill {name} placeholders of a message template; unknown names are kept
+ */
+export function fillTemplate(template: string, params: WarningParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Create a warning with its default severity and English message
+ *
+ * @param stepIndex - Top-level step the warning is about, if any
+ */
+export function createWarning(
+  code: WarningCode,
+  params: WarningParams = {},
+  stepIndex?: number
+): ParseWarning {
+  return {
+    code,
+    severity: WARNING_SEVERITY[code],
+    ...(stepIndex !== undefined && { step_index: stepIndex }),
+    params,
+    message: fillTemplate(translations.en[WARNING_MESSAGES[code]], params),
+  };
+}
+
+/**
+ * Render a warning with the given translate function
+ */
+export function formatWarning(warning: ParseWarning, t: (key: TranslationKey) => string): string {
+  return fillTemplate(t(WARNING_MESSAGES[warning.code]), warning.params);
+}
@@ -0,0 +1,436 @@
+/**
+ * Text Workout Parser Service
+ *
+ * Deterministic, grammar-based parser for workout shorthand such as
+ * "WU 10' 50-75%, 5x(3' @110%, 2' @55%), CD 10'".
+ * Runs locally: no OpenAI call, no API key, no daily quota.
+ *
+ * Supported shorthand:
+ * - Durations: 10', 3'30, 30", 1h30, 5min, 90s, 5:00
+ * - Targets: 88%, 50-75%, Z1–Z7 / "zone 3", 250W, 85% LTHR, 140 bpm, "@" optional
+ *   (watts and heart rate are kept in their own unit)
+ * - Repeats: 5x(...), 3 sets of (...), 4 x 30" 150% / 30" 50%, nested
+ * - Labels: WU / warmup / échauffement, CD / cooldown / retour au calme,
+ *   récup / recovery / rest, free ride / libre
+ *
+ * Constitution Principle II: Honest AI
+ * - Every default or approximation is reported as a warning
+ * - Confidence reflects the share of text that could be parsed
+ */
+
+import type {
+  Step,
+  ParseResponse,
+  ParseWarning,
+  PowerTarget,
+  TargetUnit,
+  WarningCode,
+  WarningParams,
+  ZoneModelName,
+} from "@/lib/schemas";
+import { WorkoutSchema, TARGET_LIMITS, MAX_REPEAT } from "@/lib/schemas";
+import { rangeTarget, zoneTarget, type PowerZone } from "@/lib/utils/zones";
+import { steadyPairToIntervals } from "@/lib/utils/steps";
+import { createWarning } from "./parse-warnings";
+import type { ParseOptions } from "./openai";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TextParseOptions extends ParseOptions {
+  /** Workout name; defaults to a title line or "Text Workout" */
+  name?: string;
+}
+
+type SegmentLabel = "warmup" | "cooldown" | "recovery" | "freeride" | null;
+
+type Target =
+  | { kind: "fixed"; pct: number; unit?: TargetUnit }
+  | { kind: "range"; low: number; high: number; unit?: TargetUnit }
+  | { kind: "zone"; zone: PowerZone }
+  | { kind: "none" };
+
+interface ParseContext {
+  zoneModel?: ZoneModelName;
+  warnings: ParseWarning[];
+  /** Index of the top-level step being parsed */
+  stepIndex?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_WORKOUT_NAME = "Text Workout";
+const RECOVERY_POWER_PCT = 50;
+
+const TOP_LEVEL_SEPARATORS = [",", ";", "\n", "+"];
+const REPEAT_SEPARATORS = [",", ";", "\n", "+", "/"];
+
+const REPEAT_PATTERN = /^(\d+)\s*(?:x|sets? of|series? de|fois)\s*(.+)$/;
+
+const LABEL_PATTERNS: Array<[Exclude<SegmentLabel, null>, RegExp]> = [
+  ["warmup", /\b(wu|warm[\s-]?up|echauf\w*)\b/],
+  ["cooldown", /\b(cd|cool[\s-]?down|retour au calme|rac)\b/],
+  ["freeride", /\b(free[\s-]?ride|libre)\b/],
+  ["recovery", /\b(recup\w*|recovery|rec|rest|repos|r)\b/],
+];
+
+// A recovery written after an effort: "10' @95% recup 5'"
+const RECOVERY_SPLIT_PATTERN = /\s(?:recup\w*|recovery|rec|rest|repos|r)\b/;
+
+// Ordered: the first matching pattern wins
+const DURATION_PATTERNS: Array<[RegExp, (m: RegExpMatchArray) => number]> = [
+  [/(\d+)\s*h\s*(?:(\d{1,2})\s*(?:min|mn|m|')?)?(?![\d%a-z])/, (m) => parseInt(m[1], 10) * 3600 + parseInt(m[2] ?? "0", 10) * 60],
+  [/(\d+):(\d{2})(?::(\d{2}))?/, (m) => m[3] !== undefined
+    ? parseInt(m[1], 10) * 3600 + parseInt(m[2], 10) * 60 + parseInt(m[3], 10)
+    : parseInt(m[1], 10) * 60 + parseInt(m[2], 10)],
+  [/(\d+)'(\d{1,2})?"?/, (m) => parseInt(m[1], 10) * 60 + parseInt(m[2] ?? "0", 10)],
+  [/(\d+)\s*m(?:in)?\s*(\d+)\s*s(?![a-z])/, (m) => parseInt(m[1], 10) * 60 + parseInt(m[2], 10)],
+  [/(\d+(?:[.,]\d+)?)\s*(?:min|mn|m)(?![a-z])/, (m) => Math.round(parseFloat(m[1].replace(",", ".")) * 60)],
+  [/(\d+)\s*(?:"|sec(?:onde)?s?|s)(?![a-z])/, (m) => parseInt(m[1], 10)],
+];
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+/**
+ * Normalize typographic quotes and accents so the grammar stays ASCII
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/[’‘`´′]/g, "'")
+    .replace(/''/g, '"')
+    .replace(/[″“”]/g, '"')
+    .replace(/×/g, "x")
+    .replace(/[–—]/g, "-")
+    .replace(/\u00a0/g, " ");
+}
+
+function stripAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Lowercase text without accents, one character for each character of the
+ * text: offsets into the result stay valid in the text. Characters that
+ * would change length ("İ", lone combining marks) are kept as they are.
+ */
+function foldText(text: string): string {
+  return Array.from(text, (char) => {
+    const folded = stripAccents(char.toLowerCase());
+    return folded.length === char.length ? folded : char;
+  }).join("");
+}
+
+/**
+ * Split on separators that are not inside parentheses or brackets
+ */
+function splitTopLevel(text: string, separators: string[]): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && separators.includes(char)) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function unwrap(text: string): string {
+  const trimmed = text.trim();
+  if (/^[([][\s\S]*[)\]]$/.test(trimmed)) {
+    return trimmed.slice(1, -1).trim();
+  }
+  return trimmed;
+}
+
+// ============================================================================
+// Segment Parsing
+// ============================================================================
+
+function detectLabel(segment: string): SegmentLabel {
+  for (const [label, pattern] of LABEL_PATTERNS) {
+    if (pattern.test(segment)) return label;
+  }
+  return null;
+}
+
+/**
+ * Find the duration and return it with the remaining text
+ */
+function extractDuration(segment: string): { seconds: number; rest: string } | null {
+  for (const [pattern, toSeconds] of DURATION_PATTERNS) {
+    const match = segment.match(pattern);
+    if (match && match.index !== undefined) {
+      const seconds = toSeconds(match);
+      if (seconds <= 0) continue;
+      const rest = segment.slice(0, match.index) + " " + segment.slice(match.index + match[0].length);
+      return { seconds, rest };
+    }
+  }
+  return null;
+}
+
+function extractTarget(text: string): Target {
+  const num = (value: string) => parseFloat(value.replace(",", "."));
+
+  // Heart rate and watts before plain percentages ("85% lthr" is not 85% FTP)
+  const unitPatterns: Array<[TargetUnit, RegExp, RegExp]> = [
+    ["lthr_pct", /(\d+)\s*(?:-|a|to)\s*(\d+)\s*%\s*lthr\b/, /(\d+)\s*%\s*lthr\b/],
+    ["bpm", /(\d+)\s*(?:-|a|to)\s*(\d+)\s*bpm\b/, /(\d+)\s*bpm\b/],
+    ["watts", /(\d+)\s*(?:-|a|to)\s*(\d+)\s*w(?:atts?)?\b/, /(\d+)\s*w(?:atts?)?\b/],
+  ];
+  for (const [unit, rangePattern, singlePattern] of unitPatterns) {
+    const range = text.match(rangePattern);
+    if (range) return { kind: "range", low: num(range[1]), high: num(range[2]), unit };
+    const single = text.match(singlePattern);
+    if (single) return { kind: "fixed", pct: num(single[1]), unit };
+  }
+
+  const pctRange = text.match(/(\d+(?:[.,]\d+)?)\s*(?:-|a|to)\s*(\d+(?:[.,]\d+)?)\s*%/);
+  if (pctRange) return { kind: "range", low: num(pctRange[1]), high: num(pctRange[2]) };
+
+  const pct = text.match(/(\d+(?:[.,]\d+)?)\s*%/) ?? text.match(/@\s*(\d+(?:[.,]\d+)?)(?!\s*w)/);
+  if (pct) return { kind: "fixed", pct: num(pct[1]) };
+
+  const zone = text.match(/\bz(?:one)?\s*([1-7])\b/);
+  if (zone) return { kind: "zone", zone: `Z${zone[1]}` as PowerZone };
+
+  return { kind: "none" };
+}
+
+const clampPower = (value: number, unit: TargetUnit = "ftp_pct") =>
+  Math.round(Math.max(TARGET_LIMITS[unit].min, Math.min(TARGET_LIMITS[unit].max, value)));
+
+/** %FTP is the default unit and stays implicit on steps */
+const unitField = (unit: TargetUnit | undefined) =>
+  unit && unit !== "ftp_pct" ? { target_unit: unit } : {};
+
+/**
+ * Report a default or approximation against the step being parsed
+ */
+function warn(ctx: ParseContext, code: WarningCode, params?: WarningParams): void {
+  ctx.warnings.push(createWarning(code, params, ctx.stepIndex));
+}
+
+/**
+ * Resolve a target to a step power target: a value, a band or a zone,
+ * in the unit it was written in
+ */
+function resolvePower(target: Target, ctx: ParseContext): (PowerTarget & { target_unit?: TargetUnit }) | null {
+  switch (target.kind) {
+    case "fixed":
+      return { power_pct: clampPower(target.pct, target.unit), ...unitField(target.unit) };
+    case "range":
+      return {
+        ...rangeTarget(clampPower(target.low, target.unit), clampPower(target.high, target.unit)),
+        ...unitField(target.unit),
+      };
+    case "zone":
+      return zoneTarget(target.zone, ctx.zoneModel);
+    case "none":
+      return null;
+  }
+}
+
+/**
+ * Parse a single (non-repeat) segment into a step
+ */
+function parseSimpleSegment(raw: string, ctx: ParseContext): Step | null {
+  const segment = stripAccents(raw.toLowerCase());
+
+  const duration = extractDuration(segment);
+  if (!duration) return null;
+
+  const duration_s = duration.seconds;
+  const kind = detectLabel(segment);
+  const target = extractTarget(duration.rest);
+
+  // A second duration is a step of its own that could not be told apart
+  if (extractDuration(duration.rest)) {
+    warn(ctx, "UNPARSED_TEXT", { text: raw.trim() });
+  }
+
+  if (kind === "freeride") {
+    return { type: "freeride", duration_s };
+  }
+
+  if (kind === "warmup" || kind === "cooldown") {
+    if (target.kind === "range") {
+      return {
+        type: kind,
+        duration_s,
+        power_start_pct: clampPower(target.low, target.unit),
+        power_end_pct: clampPower(target.high, target.unit),
+        ...unitField(target.unit),
+      };
+    }
+    if (target.kind === "none") {
+      const [start, end] = kind === "warmup" ? [50, 75] : [70, 40];
+      warn(ctx, "DEFAULT_TARGET", { value: `${start}-${end}%` });
+      return { type: kind, duration_s, power_start_pct: start, power_end_pct: end };
+    }
+    return { type: "steady", duration_s, ...resolvePower(target, ctx)! };
+  }
+
+  const power = resolvePower(target, ctx);
+  if (power !== null) {
+    return { type: "steady", duration_s, ...power };
+  }
+
+  if (kind === "recovery") {
+    warn(ctx, "DEFAULT_TARGET", { value: `${RECOVERY_POWER_PCT}%` });
+    return { type: "steady", duration_s, power_pct: RECOVERY_POWER_PCT };
+  }
+
+  warn(ctx, "NO_TARGET_FREERIDE");
+  return { type: "freeride", duration_s };
+}
+
+/**
+ * Parse a repeat segment ("5x(3' @110%, 2' @55%)") into steps.
+ * Children may themselves be repeats: "3 sets of (4x(30" 150% / 30" 50%), 5' rec)"
+ */
+function parseRepeatSegment(repeat: number, body: string, ctx: ParseContext): Step[] | null {
+  const children: Step[] = [];
+  for (const part of splitTopLevel(unwrap(body), REPEAT_SEPARATORS)) {
+    const steps = parseSegment(part, ctx);
+    if (!steps) {
+      warn(ctx, "UNPARSED_TEXT", { text: part });
+      return null;
+    }
+    children.push(...steps);
+  }
+
+  if (children.length === 0) return null;
+
+  const [on, off] = children;
+  if (
+    children.length === 2 &&
+    on.type === "steady" &&
+    off.type === "steady" &&
+    on.target_unit === off.target_unit
+  ) {
+    return [steadyPairToIntervals(repeat, on, off)];
+  }
+
+  return [{ type: "repeat", repeat, steps: children }];
+}
+
+function parseSegment(raw: string, ctx: ParseContext): Step[] | null {
+  // Composed accents keep foldText from changing the length
+  const text = raw.normalize("NFC");
+  const segment = foldText(text);
+  const repeat = segment.match(REPEAT_PATTERN);
+
+  if (repeat) {
+    const count = parseInt(repeat[1], 10);
+    // Keep original casing/accents of the body for warning messages
+    const body = text.slice(text.length - repeat[2].length);
+    if (count >= 1 && count <= MAX_REPEAT) {
+      return parseRepeatSegment(count, body, ctx);
+    }
+  }
+
+  const recovery = splitRecovery(text);
+  if (recovery) {
+    const steps = recovery.map((part) => parseSimpleSegment(part, ctx));
+    return steps.every((step) => step !== null) ? (steps as Step[]) : null;
+  }
+
+  const step = parseSimpleSegment(raw, ctx);
+  return step ? [step] : null;
+}
+
+/**
+ * Split an effort from the recovery written after it, when both have
+ * a duration: "10' @95% recup 5'" is two steps
+ */
+function splitRecovery(text: string): [string, string] | null {
+  const match = foldText(text).match(RECOVERY_SPLIT_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  const effort = text.slice(0, match.index).trim();
+  const recovery = text.slice(match.index).trim();
+  const hasDuration = (part: string) => extractDuration(stripAccents(part.toLowerCase())) !== null;
+  return hasDuration(effort) && hasDuration(recovery) ? [effort, recovery] : null;
+}
+
+// ============================================================================
+// Main Parser
+// ============================================================================
+
+/**
+ * Parse workout shorthand text into a ParseResponse
+ *
+ * @throws Error when no step can be parsed from the text
+ */
+export function parseWorkoutText(text: string, options: TextParseOptions = {}): ParseResponse {
+  const ctx: ParseContext = { zoneModel: options.zoneModel, warnings: [] };
+  const lines = normalize(text).split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+  // A first line without any number is a title, not a step
+  let name = options.name?.trim();
+  if (lines.length > 1 && !/\d/.test(lines[0])) {
+    name = name || lines[0];
+    lines.shift();
+  }
+
+  const segments = splitTopLevel(lines.join("\n"), TOP_LEVEL_SEPARATORS);
+  const steps: Step[] = [];
+  let parsedCount = 0;
+
+  for (const segment of segments) {
+    const firstWarning = ctx.warnings.length;
+    ctx.stepIndex = steps.length;
+    const parsed = parseSegment(segment, ctx);
+    if (parsed) {
+      steps.push(...parsed);
+      parsedCount++;
+    } else {
+      // No step was added: warnings about this segment point at none
+      for (const warning of ctx.warnings.slice(firstWarning)) {
+        delete warning.step_index;
+      }
+      ctx.stepIndex = undefined;
+      warn(ctx, "UNPARSED_TEXT", { text: segment });
+    }
+  }
+
+  if (steps.length === 0) {
+    throw new Error("No workout steps found in text");
+  }
+
+  const validated = WorkoutSchema.safeParse({
+    name: (name || DEFAULT_WORKOUT_NAME).slice(0, 100),
+    steps,
+  });
+  if (!validated.success) {
+    // Steps are valid one by one: only the size of the workout can fail
+    throw new Error(validated.error.issues[0].message);
+  }
+  const workout = validated.data;
+
+  // Share of segments understood, slightly lowered by approximations
+  const coverage = parsedCount / segments.length;
+  const confidence = Math.round(coverage * (ctx.warnings.length > 0 ? 0.9 : 1) * 100) / 100;
+
+  return {
+    workout,
+    warnings: ctx.warnings,
+    confidence,
+  };
+}
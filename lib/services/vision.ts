@@ -0,0 +1,210 @@
+/**
+ * Vision Provider Service
+ *
+ * Server-side only - abstracts the vision model used to read workout images.
+ * Selected with the VISION_PROVIDER environment variable:
+ * - "openai": OpenAI API (gpt-4o by default)
+ * - "openai-compatible": any OpenAI-compatible endpoint (Ollama, vLLM...)
+ *   configured with VISION_BASE_URL and VISION_MODEL
+ * - "stub": deterministic, fixture-backed responses for tests and offline dev
+ *
+ * Providers only return the raw model text; prompting, JSON extraction,
+ * repair requests and schema fixes stay in the parse service so they run
+ * the same for all providers.
+ *
+ * Constitution Principle I: Security-First API
+ * - API keys never exposed to client
+ *
+ * @see lib/services/openai.ts
+ */
+
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import OpenAI from "openai";
+import { getServerEnv } from "@/lib/utils/env";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VisionProviderName = "openai" | "openai-compatible" | "stub";
+
+export interface VisionMessage {
+  role: "assistant" | "user";
+  content: string;
+}
+
+export interface VisionResponseSchema {
+  /** a-z, A-Z, 0-9, underscores and dashes, max 64 characters */
+  name: string;
+  /**
+   * JSON schema the output must follow, in the strict subset: every
+   * property required (optional ones nullable) and no extra properties
+   */
+  schema: Record<string, unknown>;
+}
+
+export interface VisionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  /** Base64 encoded image data */
+  imageBase64: string;
+  mimeType: string;
+  /** Constrains the output where the endpoint supports structured outputs */
+  responseSchema?: VisionResponseSchema;
+  /** Earlier answers and follow-up requests (e.g. repairs), after the image */
+  history?: VisionMessage[];
+  /** Aborts the model call (cancelled parse jobs) */
+  signal?: AbortSignal;
+}
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  readonly model: string;
+  /** Returns the raw model text, or null when the model returned nothing */
+  complete(request: VisionRequest): Promise<string | null>;
+}
+
+interface OpenAIProviderConfig {
+  name: "openai" | "openai-compatible";
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+const DEFAULT_FIXTURE = "default";
+
+// The SDK requires a key even when a self-hosted server ignores it
+const PLACEHOLDER_API_KEY = "not-needed";
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * OpenAI chat completions provider, also used for compatible endpoints
+ */
+export function createOpenAIVisionProvider(config: OpenAIProviderConfig): VisionProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(request) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages: [
+          {
+            role: "system",
+            content: request.systemPrompt,
+          },
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: request.userPrompt,
+              },
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:${request.mimeType};base64,${request.imageBase64}`,
+                  detail: "high",
+                },
+              },
+            ],
+          },
+          ...(request.history ?? []),
+        ],
+        max_tokens: 2000,
+        temperature: 0.1, // Low temperature for consistent structured output
+        ...(request.responseSchema && {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: { ...request.responseSchema, strict: true },
+          },
+        }),
+      }, { signal: request.signal });
+
+      return response.choices[0]?.message?.content ?? null;
+    },
+  };
+}
+
+/**
+ * Fixture-backed provider: returns `<sha256 of image>.json` from the
+ * fixtures directory, or `default.json` when no fixture matches the image.
+ * Fixture files hold the raw model text, so JSON cleanup and fixes still run.
+ * The Nth repair request reads `<fixture>.repair-N.json` when it exists,
+ * and otherwise gets the same answer again.
+ */
+export function createStubVisionProvider(fixturesDir: string): VisionProvider {
+  return {
+    name: "stub",
+    model: "stub",
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      const hash = createHash("sha256")
+        .update(Buffer.from(request.imageBase64, "base64"))
+        .digest("hex");
+      const repair = request.history?.filter((message) => message.role === "assistant").length ?? 0;
+
+      for (const fixture of [hash, DEFAULT_FIXTURE]) {
+        const candidates = repair > 0 ? [`${fixture}.repair-${repair}`, fixture] : [fixture];
+        for (const candidate of candidates) {
+          try {
+            return await readFile(path.resolve(fixturesDir, `${candidate}.json`), "utf8");
+          } catch {
+            // Try the next candidate
+          }
+        }
+      }
+
+      throw new Error(`No stub fixture found in ${fixturesDir} (image sha256: ${hash})`);
+    },
+  };
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+let cachedProvider: VisionProvider | null = null;
+
+/**
+ * Get the vision provider configured by VISION_PROVIDER
+ */
+export function getVisionProvider(): VisionProvider {
+  const env = getServerEnv();
+
+  // Stub reads fixtures on each call, no client to reuse
+  if (env.VISION_PROVIDER === "stub") {
+    return createStubVisionProvider(env.VISION_FIXTURES_DIR);
+  }
+
+  if (!cachedProvider || cachedProvider.name !== env.VISION_PROVIDER) {
+    cachedProvider = env.VISION_PROVIDER === "openai"
+      ? createOpenAIVisionProvider({
+          name: "openai",
+          apiKey: env.OPENAI_API_KEY!,
+          model: env.VISION_MODEL ?? DEFAULT_OPENAI_MODEL,
+        })
+      : createOpenAIVisionProvider({
+          name: "openai-compatible",
+          apiKey: env.OPENAI_API_KEY || PLACEHOLDER_API_KEY,
+          model: env.VISION_MODEL!,
+          baseURL: env.VISION_BASE_URL,
+        });
+  }
+
+  return cachedProvider;
+}
@@ -0,0 +1,165 @@
+/**
+ * Workout Checks Service
+ *
+ * Sanity rules flagging valid but implausible workouts: schema validation
+ * only bounds each value, these rules look at the workout as a whole (a 9 h
+ * session, 20 minutes at 120%, a warmup ramping down...). Parse results
+ * lose confidence for each issue found, and the editor runs the same rules
+ * on every change.
+ *
+ * Constitution Principle II: Honest AI
+ * - A result that does not make sense is flagged, not presented as certain
+ *
+ * @see lib/services/openai.ts
+ * @see components/workout-editor.tsx
+ */
+
+import type { ParseWarning, Step, WarningCode, Workout } from "@/lib/schemas";
+import { getTotalDuration } from "@/lib/utils/steps";
+import { getTargetUnit, isPaceUnit, TARGET_UNITS } from "@/lib/utils/targets";
+import { createWarning } from "./parse-warnings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkoutCheckContext {
+  /** Total duration printed on the source image, in seconds */
+  printedDurationS?: number;
+}
+
+/**
+ * A sanity rule: the warnings it raises on a workout
+ */
+type WorkoutCheck = (workout: Workout, context: WorkoutCheckContext) => ParseWarning[];
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Codes of the warnings raised by the checks */
+export const SANITY_WARNING_CODES: readonly WarningCode[] = [
+  "LONG_WORKOUT",
+  "LONG_HARD_EFFORT",
+  "WARMUP_RAMPS_DOWN",
+  "COOLDOWN_RAMPS_UP",
+  "OFF_ABOVE_ON",
+  "TOTAL_MISMATCH",
+];
+
+/** Confidence lost by a parse result for each issue found */
+export const SANITY_CONFIDENCE_PENALTY = 0.1;
+
+const MAX_WORKOUT_S = 6 * 60 * 60;
+
+/** Efforts at or above this share of threshold are not held for long */
+const HARD_EFFORT_PCT = 120;
+const MAX_HARD_EFFORT_S = 20 * 60;
+
+/** Difference from a printed total accepted: rounding of the steps */
+const TOTAL_TOLERANCE_S = 60;
+const TOTAL_TOLERANCE = 0.05;
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+const checkTotalDuration: WorkoutCheck = (workout) => {
+  const total = getTotalDuration(workout.steps);
+  return total > MAX_WORKOUT_S ? [createWarning("LONG_WORKOUT", { minutes: toMinutes(total) })] : [];
+};
+
+const checkHardEfforts: WorkoutCheck = (workout) =>
+  workout.steps.flatMap((step, index) =>
+    findHardEfforts(step).map((effort) =>
+      createWarning("LONG_HARD_EFFORT", { value: effort.value, minutes: toMinutes(effort.duration_s) }, index)
+    )
+  );
+
+const checkRampDirections: WorkoutCheck = (workout) =>
+  workout.steps.flatMap((step, index) => {
+    if (step.type !== "warmup" && step.type !== "cooldown") return [];
+    const rise = intensity(step, step.power_end_pct) - intensity(step, step.power_start_pct);
+    if (step.type === "warmup" && rise < 0) return [createWarning("WARMUP_RAMPS_DOWN", {}, index)];
+    if (step.type === "cooldown" && rise > 0) return [createWarning("COOLDOWN_RAMPS_UP", {}, index)];
+    return [];
+  });
+
+// Repeat blocks are left out: their first step may well be the recovery
+const checkIntervalPowers: WorkoutCheck = (workout) =>
+  workout.steps.flatMap((step, index) =>
+    step.type === "intervals" && intensity(step, step.off_power_pct) > intensity(step, step.on_power_pct)
+      ? [createWarning("OFF_ABOVE_ON", {}, index)]
+      : []
+  );
+
+const checkPrintedTotal: WorkoutCheck = (workout, { printedDurationS }) => {
+  if (printedDurationS === undefined) return [];
+  const total = getTotalDuration(workout.steps);
+  const tolerance = Math.max(TOTAL_TOLERANCE_S, printedDurationS * TOTAL_TOLERANCE);
+  return Math.abs(total - printedDurationS) > tolerance
+    ? [createWarning("TOTAL_MISMATCH", { total: toMinutes(total), printed: toMinutes(printedDurationS) })]
+    : [];
+};
+
+const WORKOUT_CHECKS: WorkoutCheck[] = [
+  checkTotalDuration,
+  checkHardEfforts,
+  checkRampDirections,
+  checkIntervalPowers,
+  checkPrintedTotal,
+];
+
+/**
+ * Run every sanity rule on a workout
+ */
+export function checkWorkout(workout: Workout, context: WorkoutCheckContext = {}): ParseWarning[] {
+  return WORKOUT_CHECKS.flatMap((check) => check(workout, context));
+}
+
+/**
+ * Confidence of a result once its sanity issues are counted
+ */
+export function applySanityPenalty(confidence: number, issues: ParseWarning[]): number {
+  const penalty = issues.filter((issue) => SANITY_WARNING_CODES.includes(issue.code)).length * SANITY_CONFIDENCE_PENALTY;
+  return Math.max(0, Math.round((confidence - penalty) * 100) / 100);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toMinutes(seconds: number): number {
+  return Math.round(seconds / 60);
+}
+
+/**
+ * A target as an intensity, higher is harder: absolute paces are faster
+ * when lower, so they are negated
+ */
+function intensity(step: Step, value: number): number {
+  const unit = getTargetUnit(step);
+  return unit && isPaceUnit(unit) && !TARGET_UNITS[unit].relative ? -value : value;
+}
+
+/**
+ * Efforts of a step held at or above HARD_EFFORT_PCT for MAX_HARD_EFFORT_S
+ * or more, repeat blocks included. Only relative targets
+ * (%FTP, % threshold pace) tell how hard an effort is.
+ */
+function findHardEfforts(step: Step): Array<{ value: number; duration_s: number }> {
+  if (step.type === "repeat") {
+    return step.steps.flatMap(findHardEfforts);
+  }
+
+  const unit = getTargetUnit(step);
+  if (unit !== "ftp_pct" && unit !== "pace_pct") return [];
+
+  const effort =
+    step.type === "steady"
+      ? { value: step.power_pct, duration_s: step.duration_s }
+      : step.type === "intervals"
+        ? { value: step.on_power_pct, duration_s: step.on_duration_s }
+        : null;
+  return effort && effort.value >= HARD_EFFORT_PCT && effort.duration_s >= MAX_HARD_EFFORT_S ? [effort] : [];
+}
@@ -0,0 +1,455 @@
+/**
+ * Workout Normalizer Service
+ *
+ * Tidies a validated workout: rounds durations and targets, merges identical
+ * adjacent steps, folds alternating steady steps into intervals and, on
+ * request, collapses stair-stepped warmups and cooldowns into ramps. Each
+ * rule can be turned on or off. Runs after parsing and from the editor's
+ * "Optimize" action.
+ *
+ * Steps are merged at the top level only; rounding also applies inside
+ * repeat blocks.
+ *
+ * Constitution Principle II: Honest AI
+ * - Every change is reported as a warning, never applied silently
+ *
+ * @see lib/services/openai.ts
+ * @see components/workout-editor.tsx
+ */
+
+import type {
+  ParseWarning,
+  Step,
+  SourceRegion,
+  StepSource,
+  SteadyStep,
+  TextEvent,
+  Workout,
+} from "@/lib/schemas";
+import { MAX_REPEAT } from "@/lib/schemas";
+import { steadyPairToIntervals } from "@/lib/utils/steps";
+import { getTargetUnit } from "@/lib/utils/targets";
+import { createWarning } from "./parse-warnings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NormalizeRule = (typeof NORMALIZE_RULES)[number];
+
+export interface NormalizeResult {
+  workout: Workout;
+  /** One info warning per change, pointing at the normalized step */
+  changes: ParseWarning[];
+  /** For each normalized top-level step, the original steps it was made of */
+  origins: number[][];
+}
+
+/**
+ * A top-level step being normalized, with the original steps it comes from
+ */
+interface Item {
+  step: Step;
+  from: number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NORMALIZE_RULES = [
+  "round-durations",
+  "round-power",
+  "merge-duplicates",
+  "detect-repeats",
+  "collapse-stairs",
+] as const;
+
+/** Rules applied after parsing: collapsing stairs loses the steps, so it is opt-in */
+export const DEFAULT_NORMALIZE_RULES: readonly NormalizeRule[] = [
+  "round-durations",
+  "round-power",
+  "merge-duplicates",
+  "detect-repeats",
+];
+
+const DURATION_STEP_S = 5;
+
+// Alternating on/off pairs needed before they are read as intervals
+const MIN_DETECTED_REPEATS = 2;
+
+// Steady steps needed to read a stair-stepped warmup or cooldown
+const MIN_STAIR_STEPS = 3;
+
+// Difference between the rises of a stair, in target units
+const STAIR_RISE_TOLERANCE = 1;
+
+// How much longer than the previous one a stair step may be
+const MAX_STAIR_LENGTHENING = 2;
+
+const DURATION_FIELDS = ["duration_s", "on_duration_s", "off_duration_s"] as const;
+
+const TARGET_FIELDS = [
+  "power_pct",
+  "power_low_pct",
+  "power_high_pct",
+  "power_start_pct",
+  "power_end_pct",
+  "on_power_pct",
+  "off_power_pct",
+  "on_power_low_pct",
+  "on_power_high_pct",
+  "off_power_low_pct",
+  "off_power_high_pct",
+] as const;
+
+// ============================================================================
+// Normalizer
+// ============================================================================
+
+export function isNormalizeRule(rule: string): rule is NormalizeRule {
+  return (NORMALIZE_RULES as readonly string[]).includes(rule);
+}
+
+/**
+ * Apply the enabled rules, in the order of NORMALIZE_RULES: values are
+ * rounded first so that steps differing by a rounding error are merged
+ */
+export function normalizeWorkout(
+  workout: Workout,
+  rules: readonly NormalizeRule[] = DEFAULT_NORMALIZE_RULES
+): NormalizeResult {
+  let items: Item[] = workout.steps.map((step, index) => ({ step, from: [index] }));
+  const changes: Array<{ item: Item; warning: ParseWarning }> = [];
+  const enabled = new Set(rules);
+
+  if (enabled.has("round-durations")) {
+    items = roundValues(items, roundDuration, DURATION_FIELDS, (item, count) =>
+      changes.push({ item, warning: createWarning("ROUNDED_DURATIONS", { count }) })
+    );
+  }
+  if (enabled.has("round-power")) {
+    items = roundValues(items, Math.round, TARGET_FIELDS, (item, count) =>
+      changes.push({ item, warning: createWarning("ROUNDED_TARGETS", { count }) })
+    );
+  }
+  if (enabled.has("merge-duplicates")) {
+    items = mergeDuplicates(items, (item, count) =>
+      changes.push({ item, warning: createWarning("MERGED_STEPS", { count }) })
+    );
+  }
+  if (enabled.has("detect-repeats")) {
+    items = detectRepeats(items, (item, repeat) =>
+      changes.push({ item, warning: createWarning("DETECTED_REPEAT", { repeat }) })
+    );
+  }
+  if (enabled.has("collapse-stairs")) {
+    items = collapseStairs(items, (item, count) =>
+      changes.push({ item, warning: createWarning("COLLAPSED_STAIRS", { count }) })
+    );
+  }
+
+  // A warning points at the step that ended up holding its change
+  const origins = items.map((item) => item.from);
+  return {
+    workout: { ...workout, steps: items.map((item) => item.step) },
+    changes: changes.map(({ item, warning }) => ({
+      ...warning,
+      step_index: items.findIndex((candidate) => candidate.from.includes(item.from[0])),
+    })),
+    origins,
+  };
+}
+
+/**
+ * Index of the normalized step an original step ended up in
+ */
+export function remapStepIndex(origins: number[][], index: number): number | undefined {
+  const remapped = origins.findIndex((from) => from.includes(index));
+  return remapped === -1 ? undefined : remapped;
+}
+
+/**
+ * Point warnings at the normalized steps
+ */
+export function remapWarnings(warnings: ParseWarning[], origins: number[][]): ParseWarning[] {
+  return warnings.map((warning) => {
+    if (warning.step_index === undefined) return warning;
+    const { step_index, ...rest } = warning;
+    const remapped = remapStepIndex(origins, step_index);
+    return remapped === undefined ? rest : { ...rest, step_index: remapped };
+  });
+}
+
+/**
+ * Combine the sources of merged steps: the lowest confidence, and the
+ * region covering all of theirs
+ */
+export function mergeStepSources(sources: StepSource[], origins: number[][]): StepSource[];
+export function mergeStepSources(
+  sources: Array<StepSource | undefined>,
+  origins: number[][]
+): Array<StepSource | undefined>;
+export function mergeStepSources(
+  sources: Array<StepSource | undefined>,
+  origins: number[][]
+): Array<StepSource | undefined> {
+  return origins.map((from) => {
+    const merged = from.map((index) => sources[index]).filter((source): source is StepSource => !!source);
+    if (merged.length === 0) return undefined;
+    if (merged.length === 1) return merged[0];
+
+    const regions = merged.map((source) => source.region);
+    const confidence = Math.min(...merged.map((source) => source.confidence));
+    if (!regions.every((region): region is SourceRegion => region !== undefined)) {
+      return { confidence };
+    }
+
+    const x = Math.min(...regions.map((region) => region.x));
+    const y = Math.min(...regions.map((region) => region.y));
+    return {
+      confidence,
+      region: {
+        x,
+        y,
+        width: Math.max(...regions.map((region) => region.x + region.width)) - x,
+        height: Math.max(...regions.map((region) => region.y + region.height)) - y,
+      },
+    };
+  });
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function roundDuration(duration_s: number): number {
+  return Math.max(DURATION_STEP_S, Math.round(duration_s / DURATION_STEP_S) * DURATION_STEP_S);
+}
+
+/**
+ * Round the given numeric fields of every step, inside repeat blocks too,
+ * reporting the number of changed values per top-level step
+ */
+function roundValues(
+  items: Item[],
+  round: (value: number) => number,
+  fields: readonly string[],
+  report: (item: Item, count: number) => void
+): Item[] {
+  return items.map((item) => {
+    let count = 0;
+    const roundStep = (step: Step): Step => {
+      if (step.type === "repeat") {
+        return { ...step, steps: step.steps.map(roundStep) };
+      }
+      const rounded: Record<string, unknown> = { ...step };
+      for (const field of fields) {
+        const value = rounded[field];
+        if (typeof value === "number" && round(value) !== value) {
+          rounded[field] = round(value);
+          count++;
+        }
+      }
+      // Messages stay inside a shortened step
+      if (step.messages && "duration_s" in rounded) {
+        rounded.messages = clampMessages(step.messages, rounded.duration_s as number);
+      }
+      return rounded as Step;
+    };
+
+    const normalized = { ...item, step: roundStep(item.step) };
+    if (count > 0) report(normalized, count);
+    return normalized;
+  });
+}
+
+function clampMessages(messages: TextEvent[], duration_s: number): TextEvent[] {
+  return messages.map((event) => ({ ...event, offset_s: Math.max(0, Math.min(duration_s - 1, event.offset_s)) }));
+}
+
+/**
+ * Merge adjacent steady or free ride steps with the same target into one
+ * longer step, and adjacent identical intervals into more repetitions
+ */
+function mergeDuplicates(items: Item[], report: (item: Item, count: number) => void): Item[] {
+  const merged: Array<Item & { count: number }> = [];
+  for (const item of items) {
+    const previous = merged[merged.length - 1];
+    const step = previous && mergeSteps(previous.step, item.step);
+    if (previous && step) {
+      merged[merged.length - 1] = { step, from: [...previous.from, ...item.from], count: previous.count + 1 };
+    } else {
+      merged.push({ ...item, count: 1 });
+    }
+  }
+
+  return merged.map(({ count, ...item }) => {
+    if (count > 1) report(item, count);
+    return item;
+  });
+}
+
+function mergeSteps(a: Step, b: Step): Step | null {
+  if ((a.type === "steady" || a.type === "freeride") && a.type === b.type) {
+    if (!sameFields(a, b, ["duration_s", "messages"])) return null;
+    const messages = [
+      ...(a.messages ?? []),
+      ...(b.messages ?? []).map((event) => ({ ...event, offset_s: event.offset_s + a.duration_s })),
+    ];
+    return { ...a, duration_s: a.duration_s + b.duration_s, ...(messages.length > 0 && { messages }) };
+  }
+  if (a.type === "intervals" && b.type === "intervals" && !a.messages && !b.messages) {
+    return sameFields(a, b, ["repeat"]) && a.repeat + b.repeat <= MAX_REPEAT ? { ...a, repeat: a.repeat + b.repeat } : null;
+  }
+  return null;
+}
+
+/**
+ * Fold runs of the same two steady steps, alternating, into intervals;
+ * both steps must share a target unit, as intervals have only one
+ */
+function detectRepeats(items: Item[], report: (item: Item, repeat: number) => void): Item[] {
+  const result: Item[] = [];
+  let index = 0;
+  while (index < items.length) {
+    const on = items[index].step;
+    const off = items[index + 1]?.step;
+
+    let repeat = 0;
+    if (
+      isFoldableSteady(on) &&
+      off &&
+      isFoldableSteady(off) &&
+      getTargetUnit(on) === getTargetUnit(off) &&
+      !sameFields(on, off, [])
+    ) {
+      while (
+        repeat < MAX_REPEAT &&
+        index + 2 * repeat + 1 < items.length &&
+        sameFields(items[index + 2 * repeat].step, on, []) &&
+        sameFields(items[index + 2 * repeat + 1].step, off, [])
+      ) {
+        repeat++;
+      }
+    }
+
+    if (repeat >= MIN_DETECTED_REPEATS) {
+      const folded = items.slice(index, index + 2 * repeat);
+      const item = {
+        step: steadyPairToIntervals(repeat, on as SteadyStep, off as SteadyStep),
+        from: folded.flatMap((candidate) => candidate.from),
+      };
+      report(item, repeat);
+      result.push(item);
+      index += 2 * repeat;
+    } else {
+      result.push(items[index]);
+      index++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace steady steps climbing at the start of the workout by a warmup
+ * ramp, and steady steps descending at its end by a cooldown ramp
+ */
+function collapseStairs(items: Item[], report: (item: Item, count: number) => void): Item[] {
+  // A stair climbs by the same amount at every step, and no step lasts much
+  // longer than the previous one: the main set that follows is not a stair
+  const stairLength = (candidates: Item[]) => {
+    let length = 0;
+    let rise: number | null = null;
+    while (length < candidates.length) {
+      const step = candidates[length].step;
+      const previous = candidates[length - 1]?.step as SteadyStep | undefined;
+      if (!isPlainSteady(step)) break;
+      if (previous) {
+        const stepRise = step.power_pct - previous.power_pct;
+        if (
+          previous.target_unit !== step.target_unit ||
+          stepRise <= 0 ||
+          (rise !== null && Math.abs(stepRise - rise) > STAIR_RISE_TOLERANCE) ||
+          step.duration_s > previous.duration_s * MAX_STAIR_LENGTHENING
+        ) {
+          break;
+        }
+        rise = stepRise;
+      }
+      length++;
+    }
+    return length;
+  };
+
+  const toRamp = (stairs: Item[], type: "warmup" | "cooldown"): Item => {
+    const steps = stairs.map((item) => item.step as SteadyStep);
+    const item: Item = {
+      step: {
+        type,
+        duration_s: steps.reduce((sum, step) => sum + step.duration_s, 0),
+        power_start_pct: steps[0].power_pct,
+        power_end_pct: steps[steps.length - 1].power_pct,
+        ...(steps[0].target_unit && { target_unit: steps[0].target_unit }),
+      },
+      from: stairs.flatMap((stair) => stair.from),
+    };
+    report(item, stairs.length);
+    return item;
+  };
+
+  let result = items;
+  const warmup = stairLength(result);
+  if (warmup >= MIN_STAIR_STEPS) {
+    result = [toRamp(result.slice(0, warmup), "warmup"), ...result.slice(warmup)];
+  }
+
+  // A descending stair read backwards climbs
+  const cooldown = stairLength([...result].reverse());
+  if (cooldown >= MIN_STAIR_STEPS && result.length - cooldown >= 1) {
+    result = [...result.slice(0, -cooldown), toRamp(result.slice(-cooldown), "cooldown")];
+  }
+  return result;
+}
+
+/**
+ * A steady step an intervals step can hold as its on or off part: no
+ * cadence range or message
+ */
+function isFoldableSteady(step: Step): step is SteadyStep {
+  return (
+    step.type === "steady" &&
+    step.cadence_low_rpm === undefined &&
+    step.cadence_high_rpm === undefined &&
+    !step.messages
+  );
+}
+
+/**
+ * A steady step a ramp can replace: a single target, no zone, cadence or
+ * message
+ */
+function isPlainSteady(step: Step): step is SteadyStep {
+  return (
+    step.type === "steady" &&
+    step.power_low_pct === undefined &&
+    step.power_high_pct === undefined &&
+    step.power_zone === undefined &&
+    step.cadence_rpm === undefined &&
+    step.cadence_low_rpm === undefined &&
+    step.cadence_high_rpm === undefined &&
+    !step.messages
+  );
+}
+
+/**
+ * True when both steps have the same values, ignoring the given fields;
+ * unset and undefined fields are the same
+ */
+function sameFields(a: Step, b: Step, ignored: string[]): boolean {
+  const values = (step: Step) =>
+    Object.entries(step)
+      .filter(([key, value]) => value !== undefined && !ignored.includes(key))
+      .sort(([x], [y]) => x.localeCompare(y));
+  return JSON.stringify(values(a)) === JSON.stringify(values(b));
+}
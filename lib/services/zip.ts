@@ -0,0 +1,159 @@
+/**
+ * ZIP Archive Service
+ *
+ * Bundles exported workout files into a single ZIP download. Files are
+ * stored uncompressed: workout files are small and the archive only saves
+ * the rider from downloading them one by one.
+ *
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  data: Uint8Array | string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_FILE_HEADER_SIZE = 30;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+const ZIP_VERSION = 20; // 2.0
+const UTF8_FLAG = 0x0800; // File names are UTF-8
+const METHOD_STORE = 0;
+
+// CRC-32 lookup table (IEEE 802.3 polynomial, reflected)
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * CRC-32 of the data, as stored in ZIP headers
+ */
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date of a timestamp, as stored in ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Suffix repeated names ("workout.zwo", "workout-2.zwo") so no entry
+ * overwrites another on extraction
+ */
+export function uniqueFilenames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const dot = name.lastIndexOf(".");
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+    let candidate = name;
+    for (let i = 2; used.has(candidate); i++) {
+      candidate = `${base}-${i}${extension}`;
+    }
+    used.add(candidate);
+    return candidate;
+  });
+}
+
+/**
+ * Create a ZIP archive of the entries
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modified);
+  const files = entries.map((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const dataSize = files.reduce((sum, file) => sum + LOCAL_FILE_HEADER_SIZE + file.name.length + file.data.length, 0);
+  const directorySize = files.reduce((sum, file) => sum + CENTRAL_DIRECTORY_HEADER_SIZE + file.name.length, 0);
+  const zip = new Uint8Array(dataSize + directorySize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(zip.buffer);
+
+  // Local file headers and data
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, METHOD_STORE, true);
+    view.setUint16(offset + 10, dos.time, true);
+    view.setUint16(offset + 12, dos.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true); // Compressed size
+    view.setUint32(offset + 22, file.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    zip.set(file.name, offset + LOCAL_FILE_HEADER_SIZE);
+    zip.set(file.data, offset + LOCAL_FILE_HEADER_SIZE + file.name.length);
+    offset += LOCAL_FILE_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const directoryOffset = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true); // Version made by
+    view.setUint16(offset + 6, ZIP_VERSION, true); // Version needed
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, METHOD_STORE, true);
+    view.setUint16(offset + 12, dos.time, true);
+    view.setUint16(offset + 14, dos.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, offsets[i], true);
+    zip.set(file.name, offset + CENTRAL_DIRECTORY_HEADER_SIZE);
+    offset += CENTRAL_DIRECTORY_HEADER_SIZE + file.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, files.length, true); // Entries on this disk
+  view.setUint16(offset + 10, files.length, true); // Total entries
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, directoryOffset, true);
+
+  return zip;
+}
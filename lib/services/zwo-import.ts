@@ -0,0 +1,431 @@
+/**
+ * ZWO Import Service
+ *
+ * Converts Zwift .zwo XML back into the canonical Workout JSON,
+ * so existing files can be opened in the editor and re-exported.
+ * Run workouts keep their targets as % threshold pace.
+ *
+ * Constitution Principle II: Honest AI
+ * - Unsupported elements are reported as warnings, never silently dropped
+ *
+ * @see lib/services/zwo.ts
+ */
+
+import type { Workout, Step, ParseWarning } from "@/lib/schemas";
+import { MAX_REPEAT, SportSchema, WorkoutSchema } from "@/lib/schemas";
+import { getStepDuration } from "@/lib/utils/steps";
+import { formatTargetValue } from "@/lib/utils/targets";
+import { createWarning } from "./parse-warnings";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZwoImportResult {
+  workout: Workout;
+  warnings: ParseWarning[];
+}
+
+interface XmlTag {
+  name: string;
+  attributes: Record<string, string>;
+  closing: boolean;
+  selfClosing: boolean;
+}
+
+interface TimedEvent {
+  /** Seconds from the start of the workout */
+  time_s: number;
+  message: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_WORKOUT_NAME = "Imported Workout";
+const MIN_CADENCE_RPM = 20;
+const MAX_CADENCE_RPM = 200;
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w.-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// ============================================================================
+// XML Utilities
+// ============================================================================
+
+/**
+ * Unescape XML entities (inverse of escapeXml in zwo.ts)
+ */
+function unescapeXml(str: string): string {
+  return str
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Parse tag attributes, keyed by lowercase name
+ * (ZWO files in the wild mix "Duration" and "duration")
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = unescapeXml(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Extract the text content of the first <tag>...</tag> occurrence
+ */
+function readTextElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  if (!match) return undefined;
+
+  const text = match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim();
+  return text ? unescapeXml(text) : undefined;
+}
+
+/**
+ * Tokenize the content of the <workout> element into tags
+ */
+function tokenize(xml: string): XmlTag[] {
+  const tags: XmlTag[] = [];
+  for (const match of xml.matchAll(TAG_PATTERN)) {
+    tags.push({
+      name: match[2],
+      attributes: parseAttributes(match[3]),
+      closing: match[1] === "/",
+      selfClosing: match[4] === "/",
+    });
+  }
+  return tags;
+}
+
+// ============================================================================
+// Value Conversion
+// ============================================================================
+
+/**
+ * Convert ZWO decimal (0.00-2.00) to percentage (0-200)
+ */
+function decimalToPower(value: string | undefined, warnings: ParseWarning[]): number | undefined {
+  if (value === undefined) return undefined;
+
+  const decimal = parseFloat(value);
+  if (isNaN(decimal)) {
+    warnings.push(createWarning("INVALID_VALUE", { field: "power", value }));
+    return undefined;
+  }
+
+  const pct = Math.round(decimal * 100);
+  if (pct < 0 || pct > 200) {
+    const clamped = Math.max(0, Math.min(200, pct));
+    warnings.push(createWarning("CLAMPED_POWER", { value: formatTargetValue(pct), clamped: formatTargetValue(clamped) }));
+    return clamped;
+  }
+  return pct;
+}
+
+/**
+ * Read a positive duration in seconds
+ */
+function readDuration(value: string | undefined, warnings: ParseWarning[], element: string): number | undefined {
+  const duration = value !== undefined ? Math.round(parseFloat(value)) : NaN;
+  if (isNaN(duration) || duration <= 0) {
+    warnings.push(createWarning("MISSING_DURATION", { element }));
+    return undefined;
+  }
+  return duration;
+}
+
+/**
+ * Read the power of a steady block, accepting either Power or a PowerLow/PowerHigh pair
+ */
+function readSteadyPower(attrs: Record<string, string>, warnings: ParseWarning[]): number | undefined {
+  if (attrs.power !== undefined) {
+    return decimalToPower(attrs.power, warnings);
+  }
+
+  const low = decimalToPower(attrs.powerlow, warnings);
+  const high = decimalToPower(attrs.powerhigh, warnings);
+  if (low !== undefined && high !== undefined) {
+    return Math.round((low + high) / 2);
+  }
+  return low ?? high;
+}
+
+// ============================================================================
+// Element Converters
+// ============================================================================
+
+function convertRamp(
+  type: "warmup" | "cooldown",
+  attrs: Record<string, string>,
+  warnings: ParseWarning[],
+  element: string
+): Step | null {
+  const duration_s = readDuration(attrs.duration, warnings, element);
+  if (duration_s === undefined) return null;
+
+  const power_start_pct = decimalToPower(attrs.powerlow, warnings);
+  const power_end_pct = decimalToPower(attrs.powerhigh, warnings);
+  if (power_start_pct === undefined || power_end_pct === undefined) {
+    warnings.push(createWarning("NO_TARGET_FREERIDE"));
+    return { type: "freeride", duration_s };
+  }
+
+  return { type, duration_s, power_start_pct, power_end_pct };
+}
+
+/**
+ * Read an rpm attribute, ignoring values outside the schema bounds
+ */
+function readRpm(value: string | undefined, warnings: ParseWarning[]): number | undefined {
+  if (value === undefined) return undefined;
+  const rpm = Math.round(parseFloat(value));
+  if (isNaN(rpm) || rpm < MIN_CADENCE_RPM || rpm > MAX_CADENCE_RPM) {
+    warnings.push(createWarning("INVALID_VALUE", { field: "cadence", value }));
+    return undefined;
+  }
+  return rpm;
+}
+
+/**
+ * Copy Cadence / CadenceLow / CadenceHigh / CadenceResting onto the step
+ */
+function addCadence(step: Step, attrs: Record<string, string>, warnings: ParseWarning[]): Step {
+  if (step.type === "repeat") return step;
+
+  if (step.type === "intervals") {
+    const on_cadence_rpm = readRpm(attrs.cadence, warnings);
+    const off_cadence_rpm = readRpm(attrs.cadenceresting, warnings);
+    return {
+      ...step,
+      ...(on_cadence_rpm !== undefined && { on_cadence_rpm }),
+      ...(off_cadence_rpm !== undefined && { off_cadence_rpm }),
+    };
+  }
+
+  const cadence_rpm = readRpm(attrs.cadence, warnings);
+  const low = readRpm(attrs.cadencelow, warnings);
+  const high = readRpm(attrs.cadencehigh, warnings);
+  // Some editors write the range the other way round
+  const [cadence_low_rpm, cadence_high_rpm] =
+    low !== undefined && high !== undefined ? [Math.min(low, high), Math.max(low, high)] : [low, high];
+  return {
+    ...step,
+    ...(cadence_rpm !== undefined && { cadence_rpm }),
+    ...(cadence_low_rpm !== undefined && { cadence_low_rpm }),
+    ...(cadence_high_rpm !== undefined && { cadence_high_rpm }),
+  };
+}
+
+/**
+ * Convert a ZWO element into a step, or null when it cannot be represented
+ */
+function elementToStep(tag: XmlTag, warnings: ParseWarning[]): Step | null {
+  const step = convertElement(tag, warnings, tag.name);
+  return step ? addCadence(step, tag.attributes, warnings) : null;
+}
+
+function convertElement(tag: XmlTag, warnings: ParseWarning[], element: string): Step | null {
+  const attrs = tag.attributes;
+
+  switch (tag.name.toLowerCase()) {
+    case "warmup":
+      return convertRamp("warmup", attrs, warnings, element);
+
+    case "cooldown":
+      return convertRamp("cooldown", attrs, warnings, element);
+
+    case "ramp": {
+      // Ramps have no direction of their own: infer warmup/cooldown from the slope
+      const low = parseFloat(attrs.powerlow ?? "");
+      const high = parseFloat(attrs.powerhigh ?? "");
+      return convertRamp(high < low ? "cooldown" : "warmup", attrs, warnings, element);
+    }
+
+    case "steadystate": {
+      const duration_s = readDuration(attrs.duration, warnings, element);
+      if (duration_s === undefined) return null;
+
+      const power_pct = readSteadyPower(attrs, warnings);
+      if (power_pct === undefined) {
+        warnings.push(createWarning("NO_TARGET_FREERIDE"));
+        return { type: "freeride", duration_s };
+      }
+      return { type: "steady", duration_s, power_pct };
+    }
+
+    case "intervalst": {
+      const on_duration_s = readDuration(attrs.onduration, warnings, element);
+      const off_duration_s = readDuration(attrs.offduration, warnings, element);
+      if (on_duration_s === undefined || off_duration_s === undefined) return null;
+
+      const on_power_pct = decimalToPower(attrs.onpower ?? attrs.poweronhigh ?? attrs.poweronlow, warnings);
+      const off_power_pct = decimalToPower(attrs.offpower ?? attrs.poweroffhigh ?? attrs.powerofflow, warnings);
+      const written = Math.max(1, parseInt(attrs.repeat ?? "1", 10) || 1);
+      const repeat = Math.min(MAX_REPEAT, written);
+      if (repeat !== written) {
+        warnings.push(createWarning("CLAMPED_REPEAT", { value: written, clamped: repeat }));
+      }
+
+      if (on_power_pct === undefined || off_power_pct === undefined) {
+        warnings.push(createWarning("NO_TARGET_FREERIDE"));
+        return { type: "freeride", duration_s: (on_duration_s + off_duration_s) * repeat };
+      }
+
+      return {
+        type: "intervals",
+        repeat,
+        on_duration_s,
+        off_duration_s,
+        on_power_pct,
+        off_power_pct,
+      };
+    }
+
+    case "freeride": {
+      const duration_s = readDuration(attrs.duration, warnings, element);
+      return duration_s === undefined ? null : { type: "freeride", duration_s };
+    }
+
+    default: {
+      // Keep the timeline intact for unknown timed elements (e.g. MaxEffort)
+      const duration_s = attrs.duration !== undefined ? Math.round(parseFloat(attrs.duration)) : NaN;
+      if (!isNaN(duration_s) && duration_s > 0) {
+        warnings.push(createWarning("UNSUPPORTED_ELEMENT", { element }));
+        return { type: "freeride", duration_s };
+      }
+      warnings.push(createWarning("ELEMENT_SKIPPED", { element }));
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// Main Parser
+// ============================================================================
+
+/**
+ * Convert ZWO XML into a Workout
+ *
+ * @param xml - Raw .zwo file content
+ * @returns Workout plus warnings for anything that could not be mapped
+ * @throws Error when the file is not a ZWO workout or yields no steps
+ */
+export function zwoToWorkout(xml: string): ZwoImportResult {
+  const warnings: ParseWarning[] = [];
+
+  if (!/<workout_file[\s>]/i.test(xml)) {
+    throw new Error("Not a ZWO file: missing <workout_file> element");
+  }
+
+  const body = xml.match(/<workout(?:\s[^>]*)?>([\s\S]*?)<\/workout>/i);
+  if (!body) {
+    throw new Error("Not a ZWO file: missing <workout> element");
+  }
+
+  const steps: Step[] = [];
+  const stepStarts: number[] = [];
+  const textEvents: TimedEvent[] = [];
+  let elapsed = 0;
+  let currentStepStart = 0;
+  let insideElement = false;
+
+  for (const tag of tokenize(body[1])) {
+    const name = tag.name.toLowerCase();
+
+    if (name === "textevent") {
+      const offset = parseFloat(tag.attributes.timeoffset ?? "0") || 0;
+      const message = tag.attributes.message;
+      if (message) {
+        textEvents.push({
+          time_s: Math.round((insideElement ? currentStepStart : 0) + offset),
+          message,
+        });
+      }
+      continue;
+    }
+
+    if (tag.closing) {
+      insideElement = false;
+      continue;
+    }
+
+    const elementWarnings: ParseWarning[] = [];
+    const step = elementToStep(tag, elementWarnings);
+    insideElement = !tag.selfClosing;
+    currentStepStart = elapsed;
+
+    // Warnings point at the step the element became, if any
+    warnings.push(...elementWarnings.map((warning) => (step ? { ...warning, step_index: steps.length } : warning)));
+
+    if (step) {
+      steps.push(step);
+      stepStarts.push(elapsed);
+      elapsed += getStepDuration(step);
+    }
+  }
+
+  if (steps.length === 0) {
+    throw new Error("ZWO file contains no supported workout steps");
+  }
+
+  attachTextEvents(steps, stepStarts, textEvents);
+
+  const name = readTextElement(xml, "name")?.slice(0, 100) || DEFAULT_WORKOUT_NAME;
+  const description = readTextElement(xml, "description");
+
+  const sportType = readTextElement(xml, "sportType");
+  const sport = SportSchema.safeParse(sportType?.toLowerCase()).data;
+  if (sportType && !sport) {
+    warnings.push(createWarning("UNSUPPORTED_SPORT", { value: sportType }));
+  }
+
+  const validated = WorkoutSchema.safeParse({
+    name,
+    description,
+    ...(sport === "run" && { sport }),
+    steps: sport === "run" ? steps.map(toPaceStep) : steps,
+  });
+  if (!validated.success) {
+    throw new Error(validated.error.issues[0]?.message || "Invalid workout structure");
+  }
+
+  return { workout: validated.data, warnings };
+}
+
+/**
+ * On runs, Zwift reads power values as % threshold pace
+ */
+function toPaceStep(step: Step): Step {
+  return step.type === "freeride" || step.type === "repeat" ? step : { ...step, target_unit: "pace_pct" };
+}
+
+/**
+ * Attach each text event to the step playing at its time, with an offset
+ * relative to that step. Events are nested inside elements in most files,
+ * but some place them at the top level with absolute offsets.
+ */
+function attachTextEvents(steps: Step[], stepStarts: number[], events: TimedEvent[]): void {
+  for (const event of events) {
+    let index = stepStarts.findLastIndex((start) => start <= event.time_s);
+    if (index < 0) index = 0;
+
+    const step = steps[index];
+    if (step.type === "repeat") continue;
+
+    const offset_s = Math.min(
+      Math.max(0, event.time_s - stepStarts[index]),
+      Math.max(0, getStepDuration(step) - 1)
+    );
+    step.messages = [...(step.messages ?? []), { offset_s, message: event.message }];
+  }
+}
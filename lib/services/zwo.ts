@@ -6,19 +6,22 @@
  * Constitution Principle III: Valid Export
  * - XML escaping for special characters
  * - Proper power conversion (% to decimal)
+ * - Run workouts use <sportType>run</sportType>, where Zwift reads the
+ *   power values as % threshold pace (1.00 = threshold pace)
  * - Valid ZWO structure
  * 
  * @see specs/001-workout-image-to-zwo/contracts/export.md
  */
 
-import type { Workout, Step } from "@/lib/schemas";
+import type { Workout, Step, CadenceTarget, TextEvent } from "@/lib/schemas";
+import { DEFAULT_SPORT } from "@/lib/schemas";
+import { isSimpleOnOffRepeat, steadyPairToIntervals } from "@/lib/utils/steps";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 const ZWO_AUTHOR = "ImageToWo";
-const ZWO_SPORT_TYPE = "bike";
 
 // ============================================================================
 // XML Utilities
@@ -37,38 +40,105 @@ function escapeXml(str: string): string {
 }
 
 /**
- * Convert percentage (0-200) to ZWO decimal (0.00-2.00)
+ * Convert percentage (0-200) to ZWO decimal (0.00-2.00),
+ * of FTP on bike workouts or of threshold pace on runs
  */
 function powerToDecimal(pct: number): string {
   return (pct / 100).toFixed(2);
 }
 
+/**
+ * Cadence attributes: Cadence="90" or CadenceLow="85" CadenceHigh="95"
+ */
+function cadenceAttributes(target: CadenceTarget): string {
+  const { cadence_rpm, cadence_low_rpm, cadence_high_rpm } = target;
+  if (cadence_low_rpm !== undefined && cadence_high_rpm !== undefined) {
+    return ` CadenceLow="${cadence_low_rpm}" CadenceHigh="${cadence_high_rpm}"`;
+  }
+  const single = cadence_rpm ?? cadence_low_rpm ?? cadence_high_rpm;
+  return single !== undefined ? ` Cadence="${single}"` : "";
+}
+
+/**
+ * Build a step element; messages are nested as <textevent> children
+ */
+function element(tag: string, attributes: string, messages: TextEvent[] = []): string {
+  if (messages.length === 0) {
+    return `    <${tag} ${attributes}/>`;
+  }
+  const events = messages.map(
+    (event) => `      <textevent timeoffset="${Math.round(event.offset_s)}" message="${escapeXml(event.message)}"/>`
+  );
+  return [`    <${tag} ${attributes}>`, ...events, `    </${tag}>`].join("\n");
+}
+
 // ============================================================================
 // Step Generators
 // ============================================================================
 
 function generateWarmup(step: Extract<Step, { type: "warmup" }>): string {
-  return `    <Warmup Duration="${step.duration_s}" PowerLow="${powerToDecimal(step.power_start_pct)}" PowerHigh="${powerToDecimal(step.power_end_pct)}"/>`;
+  return element(
+    "Warmup",
+    `Duration="${step.duration_s}" PowerLow="${powerToDecimal(step.power_start_pct)}" PowerHigh="${powerToDecimal(step.power_end_pct)}"${cadenceAttributes(step)}`,
+    step.messages
+  );
 }
 
 function generateCooldown(step: Extract<Step, { type: "cooldown" }>): string {
-  return `    <Cooldown Duration="${step.duration_s}" PowerLow="${powerToDecimal(step.power_start_pct)}" PowerHigh="${powerToDecimal(step.power_end_pct)}"/>`;
+  return element(
+    "Cooldown",
+    `Duration="${step.duration_s}" PowerLow="${powerToDecimal(step.power_start_pct)}" PowerHigh="${powerToDecimal(step.power_end_pct)}"${cadenceAttributes(step)}`,
+    step.messages
+  );
 }
 
 function generateSteady(step: Extract<Step, { type: "steady" }>): string {
-  return `    <SteadyState Duration="${step.duration_s}" Power="${powerToDecimal(step.power_pct)}"/>`;
+  return element(
+    "SteadyState",
+    `Duration="${step.duration_s}" Power="${powerToDecimal(step.power_pct)}"${cadenceAttributes(step)}`,
+    step.messages
+  );
 }
 
 function generateIntervals(step: Extract<Step, { type: "intervals" }>): string {
-  return `    <IntervalsT Repeat="${step.repeat}" OnDuration="${step.on_duration_s}" OffDuration="${step.off_duration_s}" OnPower="${powerToDecimal(step.on_power_pct)}" OffPower="${powerToDecimal(step.off_power_pct)}"/>`;
+  const cadence = [
+    step.on_cadence_rpm !== undefined ? ` Cadence="${step.on_cadence_rpm}"` : "",
+    step.off_cadence_rpm !== undefined ? ` CadenceResting="${step.off_cadence_rpm}"` : "",
+  ].join("");
+  return element(
+    "IntervalsT",
+    `Repeat="${step.repeat}" OnDuration="${step.on_duration_s}" OffDuration="${step.off_duration_s}" OnPower="${powerToDecimal(step.on_power_pct)}" OffPower="${powerToDecimal(step.off_power_pct)}"${cadence}`,
+    step.messages
+  );
 }
 
 function generateFreeride(step: Extract<Step, { type: "freeride" }>): string {
-  return `    <FreeRide Duration="${step.duration_s}"/>`;
+  return element("FreeRide", `Duration="${step.duration_s}"${cadenceAttributes(step)}`, step.messages);
+}
+
+/**
+ * ZWO has no nested blocks: a steady on/off pair becomes IntervalsT,
+ * anything else is unrolled into its child elements.
+ * Pairs with messages are unrolled too, so every round shows them, and
+ * pairs with cadence ranges, which IntervalsT cannot hold.
+ */
+function generateRepeat(step: Extract<Step, { type: "repeat" }>): string {
+  const hasMessages = step.steps.some((child) => child.type !== "repeat" && child.messages?.length);
+  // IntervalsT has one cadence per half, no range
+  const hasCadenceRange = step.steps.some(
+    (child) => child.type !== "repeat" && child.type !== "intervals" && (child.cadence_low_rpm !== undefined || child.cadence_high_rpm !== undefined)
+  );
+  if (isSimpleOnOffRepeat(step) && !hasMessages && !hasCadenceRange) {
+    const [on, off] = step.steps;
+    return generateIntervals(steadyPairToIntervals(step.repeat, on, off));
+  }
+
+  const children = step.steps.map(stepToZwoElement);
+  return Array.from({ length: step.repeat }, () => children).flat().join("\n");
 }
 
 /**
- * Generate ZWO XML element for a single step
+ * Generate ZWO XML element(s) for a single step
  */
 function stepToZwoElement(step: Step): string {
   switch (step.type) {
@@ -82,6 +152,8 @@ function stepToZwoElement(step: Step): string {
       return generateIntervals(step);
     case "freeride":
       return generateFreeride(step);
+    case "repeat":
+      return generateRepeat(step);
     default:
       // TypeScript exhaustiveness check
       const _exhaustive: never = step;
@@ -95,6 +167,7 @@ function stepToZwoElement(step: Step): string {
 
 /**
  * Convert a Workout to ZWO XML format
+ * Targets must be in %FTP, or % threshold pace for runs (see toExportWorkout)
  */
 export function workoutToZwo(workout: Workout): string {
   const lines: string[] = [
@@ -109,7 +182,7 @@ export function workoutToZwo(workout: Workout): string {
     lines.push(`  <description>${escapeXml(workout.description)}</description>`);
   }
 
-  lines.push(`  <sportType>${ZWO_SPORT_TYPE}</sportType>`);
+  lines.push(`  <sportType>${workout.sport ?? DEFAULT_SPORT}</sportType>`);
   lines.push("  <workout>");
 
   // Generate step elements
@@ -133,9 +206,9 @@ export function workoutToZwo(workout: Workout): string {
  * 1. Convert to lowercase
  * 2. Replace spaces with hyphens
  * 3. Remove special characters
- * 4. Append .zwo extension
+ * 4. Append the extension
  */
-export function generateZwoFilename(name: string): string {
+export function generateWorkoutFilename(name: string, extension: string): string {
   const slug = name
     .toLowerCase()
     .replace(/\s+/g, "-")
@@ -143,5 +216,12 @@ export function generateZwoFilename(name: string): string {
     .replace(/-+/g, "-")
     .replace(/^-|-$/g, "");
 
-  return `${slug || "workout"}.zwo`;
+  return `${slug || "workout"}.${extension}`;
+}
+
+/**
+ * Generate a safe .zwo filename from workout name
+ */
+export function generateZwoFilename(name: string): string {
+  return generateWorkoutFilename(name, "zwo");
 }
@@ -3,10 +3,13 @@
 /**
  * Settings Context
  * 
- * Manages user settings like FTP with localStorage persistence.
+ * Manages user settings like FTP, LTHR, threshold pace and zone model with localStorage persistence.
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
+import { DEFAULT_ZONE_MODEL } from "@/lib/utils/zones";
+import type { TargetDisplay } from "@/lib/utils/targets";
+import type { ZoneModelName } from "@/lib/schemas";
 
 // ============================================================================
 // Types
@@ -14,6 +17,10 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 
 export interface UserSettings {
   ftp: number;           // Functional Threshold Power in watts
+  zoneModel: ZoneModelName; // Resolves zone targets ("Z3") to power ranges
+  lthr: number;          // Lactate Threshold Heart Rate in bpm
+  thresholdPace: number; // Running threshold pace in seconds per km
+  targetDisplay: TargetDisplay; // Show targets as %FTP/%LTHR/% pace or watts/bpm/pace
 }
 
 interface SettingsContextValue {
@@ -28,6 +35,10 @@ interface SettingsContextValue {
 
 const DEFAULT_SETTINGS: UserSettings = {
   ftp: 200,
+  zoneModel: DEFAULT_ZONE_MODEL,
+  lthr: 170,
+  thresholdPace: 300,
+  targetDisplay: "relative",
 };
 
 const STORAGE_KEY = "imagetowo-settings";
@@ -1,34 +1,131 @@
 import { z } from "zod";
+import { isPromptVersion, parsePromptSplit, PROMPT_VERSIONS } from "@/lib/prompts";
+import {
+  DEFAULT_NORMALIZE_RULES,
+  isNormalizeRule,
+  NORMALIZE_RULES,
+  type NormalizeRule,
+} from "@/lib/services/workout-normalizer";
 
 /**
  * Environment variable schema with validation
  * Follows Constitution Principle #1: Security-First API
  * - Server-only validation to prevent key exposure
  */
-const envSchema = z.object({
-  // Required
-  OPENAI_API_KEY: z
-    .string()
-    .min(1, "OPENAI_API_KEY is required")
-    .startsWith("sk-", "OPENAI_API_KEY must start with 'sk-'"),
-
-  // Optional with defaults
-  MAX_FILE_SIZE: z.coerce.number().default(10 * 1024 * 1024), // 10MB
-  ALLOWED_IMAGE_FORMATS: z
-    .string()
-    .default("image/jpeg,image/png,image/webp,image/heic")
-    .transform((val) => val.split(",")),
-  
-  // Rate limiting
-  DAILY_PARSE_LIMIT: z.coerce.number().default(5), // 5 analyses per day per user
-  RATE_LIMIT_ENABLED: z
-    .string()
-    .default("true")
-    .transform((val) => val.toLowerCase() === "true"),
-  
-  // Redis (optional - falls back to in-memory if not provided)
-  REDIS_URL: z.string().url().optional(),
-});
+const envSchema = z
+  .object({
+    // Vision provider: "openai" (default), "openai-compatible" (Ollama, vLLM...)
+    // or "stub" (fixture-backed, for tests and offline dev)
+    VISION_PROVIDER: z.enum(["openai", "openai-compatible", "stub"]).default("openai"),
+
+    // Required for the "openai" provider, optional for "openai-compatible"
+    OPENAI_API_KEY: z.string().optional(),
+
+    // OpenAI-compatible provider
+    VISION_BASE_URL: z.string().url().optional(),
+    VISION_MODEL: z.string().min(1).optional(),
+
+    // Stub provider
+    VISION_FIXTURES_DIR: z.string().default("fixtures/vision"),
+
+    // Prompt of the image parse: a pinned version, or a weighted A/B split
+    // ("2026-10-2=90,2026-10-3=10") that keeps each user on one version
+    PROMPT_VERSION: z.string().optional(),
+    PROMPT_SPLIT: z
+      .string()
+      .optional()
+      .transform((val, ctx) => {
+        if (!val) return undefined;
+        try {
+          return parsePromptSplit(val);
+        } catch (error) {
+          ctx.addIssue({ code: "custom", message: (error as Error).message });
+          return z.NEVER;
+        }
+      }),
+
+    // Optional with defaults
+    MAX_FILE_SIZE: z.coerce.number().default(10 * 1024 * 1024), // 10MB
+    ALLOWED_IMAGE_FORMATS: z
+      .string()
+      .default("image/jpeg,image/png,image/webp,image/heic")
+      .transform((val) => val.split(",")),
+
+    // Image preprocessing: longest edge sent to the model, contrast boost for screenshots
+    IMAGE_MAX_EDGE: z.coerce.number().int().min(256).default(2048),
+    IMAGE_CONTRAST_BOOST: z
+      .string()
+      .default("true")
+      .transform((val) => val.toLowerCase() === "true"),
+    
+    // Rate limiting
+    DAILY_PARSE_LIMIT: z.coerce.number().default(5), // 5 analyses per day per user
+    RATE_LIMIT_ENABLED: z
+      .string()
+      .default("true")
+      .transform((val) => val.toLowerCase() === "true"),
+    
+    // Parse cache: identical uploads reuse the previous result without using quota
+    PARSE_CACHE_ENABLED: z
+      .string()
+      .default("true")
+      .transform((val) => val.toLowerCase() === "true"),
+    PARSE_CACHE_TTL: z.coerce.number().int().positive().default(7 * 24 * 60 * 60), // seconds, 7 days
+    PARSE_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(500), // in-memory only
+
+    // Normalizer rules applied to parsed workouts ("none" to keep the model output as is)
+    PARSE_NORMALIZE_RULES: z
+      .string()
+      .default(DEFAULT_NORMALIZE_RULES.join(","))
+      .transform((val, ctx) => {
+        const rules = val.split(",").map((rule) => rule.trim()).filter((rule) => rule && rule !== "none");
+        const unknown = rules.filter((rule) => !isNormalizeRule(rule));
+        if (unknown.length > 0) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Unknown normalizer rule ${unknown.join(", ")}. Known rules: ${NORMALIZE_RULES.join(", ")}`,
+          });
+          return z.NEVER;
+        }
+        return rules as NormalizeRule[];
+      }),
+
+    // Parse log: latest parse outcomes with their prompt version, to compare versions
+    PARSE_LOG_MAX_ENTRIES: z.coerce.number().int().positive().default(1000),
+    // Bearer token of GET /api/workouts/parse/log, which is off without it
+    PARSE_LOG_TOKEN: z.string().min(16).optional(),
+    
+    // Redis (optional - falls back to in-memory if not provided)
+    REDIS_URL: z.string().url().optional(),
+  })
+  .superRefine((env, ctx) => {
+    const unknownPrompts = [env.PROMPT_VERSION, ...(env.PROMPT_SPLIT ?? []).map((entry) => entry.version)]
+      .filter((version): version is string => version !== undefined && !isPromptVersion(version));
+    if (unknownPrompts.length > 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: [env.PROMPT_SPLIT ? "PROMPT_SPLIT" : "PROMPT_VERSION"],
+        message: `Unknown prompt version ${unknownPrompts.join(", ")}. Known versions: ${PROMPT_VERSIONS.join(", ")}`,
+      });
+    }
+
+    if (env.VISION_PROVIDER === "openai") {
+      if (!env.OPENAI_API_KEY) {
+        ctx.addIssue({ code: "custom", path: ["OPENAI_API_KEY"], message: "OPENAI_API_KEY is required" });
+      } else if (!env.OPENAI_API_KEY.startsWith("sk-")) {
+        ctx.addIssue({ code: "custom", path: ["OPENAI_API_KEY"], message: "OPENAI_API_KEY must start with 'sk-'" });
+      }
+    }
+
+    if (env.VISION_PROVIDER === "openai-compatible") {
+      if (!env.VISION_BASE_URL) {
+        ctx.addIssue({ code: "custom", path: ["VISION_BASE_URL"], message: "VISION_BASE_URL is required for openai-compatible" });
+      }
+      if (!env.VISION_MODEL) {
+        ctx.addIssue({ code: "custom", path: ["VISION_MODEL"], message: "VISION_MODEL is required for openai-compatible" });
+      }
+    }
+  });
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -9,22 +9,78 @@
  * - TSS = (duration_s × NP × IF) / (FTP × 3600) × 100
  * 
  * For structured workouts, we estimate NP from the power targets.
+ * Heart rate targets count at the same relative intensity (85% LTHR as
+ * 85% FTP), which gives hrTSS for workouts written in heart rate, and
+ * pace targets at their % threshold pace, which gives rTSS for runs.
  */
 
-import type { Workout, Step } from "@/lib/schemas";
+import type { Workout } from "@/lib/schemas";
+import { flattenSteps, getStepDuration, getTotalDuration, type LeafStep } from "./steps";
+import { convertStepTargets, getDisplayUnit, getTargetUnit, isHeartRateUnit, isPaceUnit } from "./targets";
 
 export interface WorkoutMetrics {
   totalDuration: number;     // seconds
   normalizedPower: number;   // watts (estimated)
   intensityFactor: number;   // decimal (0-2)
-  tss: number;               // Training Stress Score
+  tss: number;               // Training Stress Score (hrTSS / rTSS when heart rate / pace based)
   averagePower: number;      // watts (estimated)
+  averageHeartRate: number | null; // bpm over heart rate steps, null without any
+  heartRateBased: boolean;   // every target is a heart rate target
+  averagePace: number | null; // s/km over pace steps, null without any
+  paceBased: boolean;        // every target is a pace target
 }
 
 /**
- * Get the average power for a step (in % FTP)
+ * A step with its targets relative to FTP, LTHR or threshold pace; targets
+ * that cannot be converted (bpm without LTHR) are ridden as free ride
  */
-function getStepAveragePower(step: Step): number {
+function toRelativeStep(step: LeafStep, ftp: number, lthr?: number, thresholdPace?: number): LeafStep {
+  const unit = getTargetUnit(step);
+  if (unit === null) return step;
+  return convertStepTargets(step, getDisplayUnit(unit, "relative"), { ftp, lthr, thresholdPace })
+    ?? { type: "freeride", duration_s: getStepDuration(step) };
+}
+
+/**
+ * Average pace of the pace steps (s/km), from their duration-weighted
+ * average speed relative to threshold
+ */
+function calculateAveragePace(steps: LeafStep[], thresholdPace?: number): number | null {
+  const paceSteps = steps.filter((step) => isPaceUnit(getTargetUnit(step)));
+  if (paceSteps.length === 0 || !thresholdPace) return null;
+
+  let sum = 0;
+  let totalDuration = 0;
+  for (const step of paceSteps) {
+    const duration = getStepDuration(step);
+    sum += getStepAveragePower(step) * duration;
+    totalDuration += duration;
+  }
+  const averagePct = totalDuration > 0 ? sum / totalDuration : 0;
+  return averagePct > 0 ? (thresholdPace * 100) / averagePct : null;
+}
+
+/**
+ * Duration-weighted average heart rate of the heart rate steps (bpm)
+ */
+function calculateAverageHeartRate(steps: LeafStep[], lthr?: number): number | null {
+  const heartRateSteps = steps.filter((step) => isHeartRateUnit(getTargetUnit(step)));
+  if (heartRateSteps.length === 0 || !lthr) return null;
+
+  let sum = 0;
+  let totalDuration = 0;
+  for (const step of heartRateSteps) {
+    const duration = getStepDuration(step);
+    sum += (getStepAveragePower(step) / 100) * lthr * duration;
+    totalDuration += duration;
+  }
+  return totalDuration > 0 ? sum / totalDuration : null;
+}
+
+/**
+ * Get the average target for a step (in % FTP, % LTHR or % threshold pace)
+ */
+function getStepAveragePower(step: LeafStep): number {
   switch (step.type) {
     case "warmup":
     case "cooldown":
@@ -47,16 +103,6 @@ function getStepAveragePower(step: Step): number {
   }
 }
 
-/**
- * Get the duration of a step in seconds
- */
-function getStepDuration(step: Step): number {
-  if (step.type === "intervals") {
-    return (step.on_duration_s + step.off_duration_s) * step.repeat;
-  }
-  return step.duration_s;
-}
-
 /**
  * Calculate estimated Normalized Power for a workout
  * 
@@ -64,7 +110,7 @@ function getStepDuration(step: Step): number {
  * - Weight higher intensities more (4th power averaging approximation)
  * - This gives a reasonable NP estimate without actual power data
  */
-function calculateNormalizedPower(steps: Step[], ftp: number): number {
+function calculateNormalizedPower(steps: LeafStep[], ftp: number): number {
   if (steps.length === 0) return 0;
 
   let weightedPowerSum = 0;
@@ -100,7 +146,7 @@ function calculateNormalizedPower(steps: Step[], ftp: number): number {
 /**
  * Calculate average power for a workout
  */
-function calculateAveragePower(steps: Step[], ftp: number): number {
+function calculateAveragePower(steps: LeafStep[], ftp: number): number {
   if (steps.length === 0) return 0;
 
   let powerSum = 0;
@@ -122,10 +168,20 @@ function calculateAveragePower(steps: Step[], ftp: number): number {
 /**
  * Calculate all workout metrics
  */
-export function calculateWorkoutMetrics(workout: Workout, ftp: number): WorkoutMetrics {
-  const totalDuration = workout.steps.reduce((sum, step) => sum + getStepDuration(step), 0);
-  const normalizedPower = calculateNormalizedPower(workout.steps, ftp);
-  const averagePower = calculateAveragePower(workout.steps, ftp);
+export function calculateWorkoutMetrics(
+  workout: Workout,
+  ftp: number,
+  lthr?: number,
+  thresholdPace?: number
+): WorkoutMetrics {
+  // Repeat blocks are expanded so each ridden step is weighted by its duration
+  const steps = flattenSteps(workout.steps).map((step) => toRelativeStep(step, ftp, lthr, thresholdPace));
+  const targetUnits = steps.map(getTargetUnit).filter((unit) => unit !== null);
+  const totalDuration = getTotalDuration(steps);
+  const normalizedPower = calculateNormalizedPower(steps, ftp);
+  const averagePower = calculateAveragePower(steps, ftp);
+  const averageHeartRate = calculateAverageHeartRate(steps, lthr);
+  const averagePace = calculateAveragePace(steps, thresholdPace);
   
   // Intensity Factor = NP / FTP
   const intensityFactor = ftp > 0 ? normalizedPower / ftp : 0;
@@ -141,6 +197,10 @@ export function calculateWorkoutMetrics(workout: Workout, ftp: number): WorkoutM
     averagePower: Math.round(averagePower),
     intensityFactor: Math.round(intensityFactor * 100) / 100,
     tss: Math.round(tss),
+    averageHeartRate: averageHeartRate !== null ? Math.round(averageHeartRate) : null,
+    heartRateBased: targetUnits.length > 0 && targetUnits.every(isHeartRateUnit),
+    averagePace: averagePace !== null ? Math.round(averagePace) : null,
+    paceBased: targetUnits.length > 0 && targetUnits.every(isPaceUnit),
   };
 }
 
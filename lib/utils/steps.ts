@@ -0,0 +1,198 @@
+/**
+ * Step Utilities
+ *
+ * Helpers for walking workout steps, including nested repeat blocks.
+ */
+
+import type { Step, RepeatStep, SteadyStep, IntervalsStep, CadenceTarget, PowerTarget } from "@/lib/schemas";
+import { DEFAULT_TARGET_UNIT, formatTargetNumber, formatTargetValue, type TargetUnit } from "./targets";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Any step that is not a repeat block
+ */
+export type LeafStep = Exclude<Step, RepeatStep>;
+
+/**
+ * A band of targets, in the unit of its step
+ */
+export interface PowerBand {
+  low_pct: number;
+  high_pct: number;
+}
+
+/**
+ * A step message placed on the workout timeline
+ */
+export interface TimedMessage {
+  /** Seconds from the start of the workout */
+  time_s: number;
+  message: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Expand repeat blocks (recursively) into the sequence of steps ridden.
+ * Intervals steps are kept as-is.
+ */
+export function flattenSteps(steps: Step[]): LeafStep[] {
+  return steps.flatMap((step) => {
+    if (step.type !== "repeat") {
+      return [step];
+    }
+    const children = flattenSteps(step.steps);
+    return Array.from({ length: step.repeat }, () => children).flat();
+  });
+}
+
+/**
+ * Get the duration of a step in seconds, including all repetitions
+ */
+export function getStepDuration(step: Step): number {
+  switch (step.type) {
+    case "intervals":
+      return (step.on_duration_s + step.off_duration_s) * step.repeat;
+    case "repeat":
+      return step.steps.reduce((sum, child) => sum + getStepDuration(child), 0) * step.repeat;
+    default:
+      return step.duration_s;
+  }
+}
+
+/**
+ * Get the total duration of a list of steps in seconds
+ */
+export function getTotalDuration(steps: Step[]): number {
+  return steps.reduce((sum, step) => sum + getStepDuration(step), 0);
+}
+
+/**
+ * True when a repeat block is a plain on/off pair of steady steps in the
+ * same target unit, which every format can represent as a single intervals
+ * step (intervals have one unit for both halves)
+ */
+export function isSimpleOnOffRepeat(
+  step: RepeatStep
+): step is RepeatStep & { steps: [Extract<Step, { type: "steady" }>, Extract<Step, { type: "steady" }>] } {
+  const [on, off] = step.steps;
+  return (
+    step.steps.length === 2 &&
+    on.type === "steady" &&
+    off.type === "steady" &&
+    (on.target_unit ?? DEFAULT_TARGET_UNIT) === (off.target_unit ?? DEFAULT_TARGET_UNIT)
+  );
+}
+
+/**
+ * Get the power target of a steady step or of one half of an intervals step,
+ * or null for ramps and free rides
+ */
+export function getPowerTarget(step: LeafStep, part: "on" | "off" = "on"): PowerTarget | null {
+  switch (step.type) {
+    case "steady":
+      return {
+        power_pct: step.power_pct,
+        power_low_pct: step.power_low_pct,
+        power_high_pct: step.power_high_pct,
+        power_zone: step.power_zone,
+      };
+    case "intervals":
+      return part === "on"
+        ? {
+            power_pct: step.on_power_pct,
+            power_low_pct: step.on_power_low_pct,
+            power_high_pct: step.on_power_high_pct,
+            power_zone: step.on_power_zone,
+          }
+        : {
+            power_pct: step.off_power_pct,
+            power_low_pct: step.off_power_low_pct,
+            power_high_pct: step.off_power_high_pct,
+            power_zone: step.off_power_zone,
+          };
+    default:
+      return null;
+  }
+}
+
+/**
+ * The band a target asks for, or null when it is a single value
+ */
+export function getPowerBand(target: PowerTarget | null): PowerBand | null {
+  if (!target || target.power_low_pct === undefined || target.power_high_pct === undefined) {
+    return null;
+  }
+  const low_pct = Math.min(target.power_low_pct, target.power_high_pct);
+  const high_pct = Math.max(target.power_low_pct, target.power_high_pct);
+  return low_pct === high_pct ? null : { low_pct, high_pct };
+}
+
+/**
+ * Format a target as "91%", "88-94%" or "Z3 (76-90%)",
+ * or "200-250 W", "140 bpm", "4:20-4:40/km"... in other units
+ */
+export function formatPowerTarget(target: PowerTarget, unit: TargetUnit = DEFAULT_TARGET_UNIT): string {
+  const band = getPowerBand(target);
+  const value = band
+    ? `${formatTargetNumber(band.low_pct, unit)}-${formatTargetValue(band.high_pct, unit)}`
+    : formatTargetValue(target.power_pct, unit);
+  return target.power_zone ? `${target.power_zone} (${value})` : value;
+}
+
+/**
+ * Fold a steady on/off pair repeated N times into one intervals step,
+ * keeping power bands, zones and single cadence values (not cadence ranges)
+ */
+export function steadyPairToIntervals(repeat: number, on: SteadyStep, off: SteadyStep): IntervalsStep {
+  return {
+    type: "intervals",
+    repeat,
+    on_duration_s: on.duration_s,
+    off_duration_s: off.duration_s,
+    on_power_pct: on.power_pct,
+    off_power_pct: off.power_pct,
+    on_power_low_pct: on.power_low_pct,
+    on_power_high_pct: on.power_high_pct,
+    on_power_zone: on.power_zone,
+    off_power_low_pct: off.power_low_pct,
+    off_power_high_pct: off.power_high_pct,
+    off_power_zone: off.power_zone,
+    target_unit: on.target_unit,
+    on_cadence_rpm: on.cadence_rpm,
+    off_cadence_rpm: off.cadence_rpm,
+  };
+}
+
+/**
+ * Format a cadence target as "90 rpm" or "85-95 rpm", or null when unset
+ */
+export function formatCadence(target: CadenceTarget): string | null {
+  const { cadence_rpm, cadence_low_rpm, cadence_high_rpm } = target;
+  if (cadence_low_rpm !== undefined && cadence_high_rpm !== undefined) {
+    return `${cadence_low_rpm}-${cadence_high_rpm} rpm`;
+  }
+  const single = cadence_rpm ?? cadence_low_rpm ?? cadence_high_rpm;
+  return single !== undefined ? `${single} rpm` : null;
+}
+
+/**
+ * List every step message at its absolute time, in timeline order.
+ * Messages inside repeat blocks appear once per round.
+ */
+export function getTimedMessages(steps: Step[]): TimedMessage[] {
+  const timed: TimedMessage[] = [];
+  let elapsed = 0;
+  for (const step of flattenSteps(steps)) {
+    for (const event of step.messages ?? []) {
+      timed.push({ time_s: elapsed + event.offset_s, message: event.message });
+    }
+    elapsed += getStepDuration(step);
+  }
+  return timed.sort((a, b) => a.time_s - b.time_s);
+}
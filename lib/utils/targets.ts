@@ -0,0 +1,286 @@
+/**
+ * Target Units
+ *
+ * Steps keep their targets in the unit of the source workout: %FTP,
+ * absolute watts, %LTHR, bpm, % threshold pace or pace per km/mile.
+ * These helpers convert between units of the same kind using the
+ * athlete's FTP, LTHR and threshold pace. Power, heart rate and pace
+ * never convert into each other.
+ *
+ * % threshold pace follows Zwift's run convention: it is a percentage of
+ * threshold speed, so 110% is faster than threshold (a shorter pace).
+ */
+
+import type { Step, TargetUnit } from "@/lib/schemas";
+import type { LeafStep } from "./steps";
+
+export type { TargetUnit };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TargetKind = "power" | "heart_rate" | "pace";
+
+/** Show targets relative to FTP/LTHR/threshold pace, or in watts/bpm/pace */
+export type TargetDisplay = "relative" | "absolute";
+
+/** Rider values used to convert between relative and absolute units */
+export interface TargetReferences {
+  /** Functional Threshold Power in watts */
+  ftp?: number;
+  /** Lactate Threshold Heart Rate in bpm */
+  lthr?: number;
+  /** Running threshold pace in seconds per km */
+  thresholdPace?: number;
+}
+
+interface TargetUnitInfo {
+  kind: TargetKind;
+  relative: boolean;
+  suffix: string;
+  /** Distance of an absolute pace unit, in km */
+  distanceKm?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_TARGET_UNIT: TargetUnit = "ftp_pct";
+
+export const TARGET_UNITS: Record<TargetUnit, TargetUnitInfo> = {
+  ftp_pct: { kind: "power", relative: true, suffix: "%" },
+  watts: { kind: "power", relative: false, suffix: " W" },
+  lthr_pct: { kind: "heart_rate", relative: true, suffix: "% LTHR" },
+  bpm: { kind: "heart_rate", relative: false, suffix: " bpm" },
+  pace_pct: { kind: "pace", relative: true, suffix: "% pace" },
+  sec_per_km: { kind: "pace", relative: false, suffix: "/km", distanceKm: 1 },
+  sec_per_mile: { kind: "pace", relative: false, suffix: "/mi", distanceKm: 1.609344 },
+};
+
+/** Relative and default absolute unit of each kind */
+const KIND_UNITS: Record<TargetKind, { relative: TargetUnit; absolute: TargetUnit }> = {
+  power: { relative: "ftp_pct", absolute: "watts" },
+  heart_rate: { relative: "lthr_pct", absolute: "bpm" },
+  pace: { relative: "pace_pct", absolute: "sec_per_km" },
+};
+
+/** Target fields of each step type, whatever their unit */
+const TARGET_FIELDS: Record<LeafStep["type"], readonly string[]> = {
+  warmup: ["power_start_pct", "power_end_pct"],
+  cooldown: ["power_start_pct", "power_end_pct"],
+  steady: ["power_pct", "power_low_pct", "power_high_pct"],
+  intervals: [
+    "on_power_pct",
+    "off_power_pct",
+    "on_power_low_pct",
+    "on_power_high_pct",
+    "off_power_low_pct",
+    "off_power_high_pct",
+  ],
+  freeride: [],
+};
+
+const ZONE_FIELDS = ["power_zone", "on_power_zone", "off_power_zone"];
+
+const ALL_TARGET_FIELDS: ReadonlySet<string> = new Set(Object.values(TARGET_FIELDS).flat());
+
+// ============================================================================
+// Units
+// ============================================================================
+
+/**
+ * Unit of a step's targets, or null for steps without targets
+ */
+export function getTargetUnit(step: Step): TargetUnit | null {
+  switch (step.type) {
+    case "warmup":
+    case "cooldown":
+    case "steady":
+    case "intervals":
+      return step.target_unit ?? DEFAULT_TARGET_UNIT;
+    default:
+      return null;
+  }
+}
+
+export function isHeartRateUnit(unit: TargetUnit | null): boolean {
+  return unit !== null && TARGET_UNITS[unit].kind === "heart_rate";
+}
+
+export function isPaceUnit(unit: TargetUnit | null): boolean {
+  return unit !== null && TARGET_UNITS[unit].kind === "pace";
+}
+
+/**
+ * The unit of the same kind shown for a display mode:
+ * %FTP ↔ watts, %LTHR ↔ bpm, % threshold pace ↔ min/km (min/mile kept)
+ */
+export function getDisplayUnit(unit: TargetUnit, display: TargetDisplay): TargetUnit {
+  const relative = display === "relative";
+  const info = TARGET_UNITS[unit];
+  if (info.relative === relative) return unit;
+  return relative ? KIND_UNITS[info.kind].relative : KIND_UNITS[info.kind].absolute;
+}
+
+/**
+ * Format a pace in seconds as "4:30"
+ */
+export function formatPace(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parse a pace typed as "4:30" (or plain seconds) into seconds
+ */
+export function parsePace(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2}):([0-5]\d)$/);
+  if (match) return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  const seconds = Number(text.trim());
+  return text.trim() !== "" && Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * A target value without its suffix: "88", or "4:30" for absolute pace
+ */
+export function formatTargetNumber(value: number, unit: TargetUnit = DEFAULT_TARGET_UNIT): string {
+  return TARGET_UNITS[unit].distanceKm ? formatPace(value) : `${Math.round(value)}`;
+}
+
+/**
+ * Format a target value with its unit
+ * ("88%", "250 W", "85% LTHR", "150 bpm", "105% pace", "4:30/km")
+ */
+export function formatTargetValue(value: number, unit: TargetUnit = DEFAULT_TARGET_UNIT): string {
+  return `${formatTargetNumber(value, unit)}${TARGET_UNITS[unit].suffix}`;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function referenceFor(kind: TargetKind, references: TargetReferences): number | undefined {
+  switch (kind) {
+    case "power":
+      return references.ftp;
+    case "heart_rate":
+      return references.lthr;
+    case "pace":
+      return references.thresholdPace;
+  }
+}
+
+/**
+ * Convert a target value between units of the same kind.
+ * Returns null across kinds or when the reference value is missing.
+ * Pace is inverse to speed: halving the pace doubles % threshold pace.
+ */
+export function convertTargetValue(
+  value: number,
+  from: TargetUnit,
+  to: TargetUnit,
+  references: TargetReferences
+): number | null {
+  if (from === to) return value;
+
+  const source = TARGET_UNITS[from];
+  const target = TARGET_UNITS[to];
+  if (source.kind !== target.kind) return null;
+
+  // min/km ↔ min/mile needs no reference
+  if (source.distanceKm && target.distanceKm) {
+    return Math.round((value / source.distanceKm) * target.distanceKm);
+  }
+
+  const reference = referenceFor(source.kind, references);
+  if (!reference || reference <= 0) return null;
+
+  const distanceKm = source.distanceKm ?? target.distanceKm;
+  if (distanceKm) {
+    // Threshold pace over the unit's distance, divided by the pace (or the other way round)
+    if (value <= 0) return null;
+    return Math.round(((reference * distanceKm) / value) * 100);
+  }
+
+  return Math.round(source.relative ? (value / 100) * reference : (value / reference) * 100);
+}
+
+/**
+ * Convert every target of a step to another unit of the same kind.
+ * Returns null when a value cannot be converted.
+ */
+export function convertStepTargets<T extends LeafStep>(
+  step: T,
+  to: TargetUnit,
+  references: TargetReferences
+): T | null {
+  const from = getTargetUnit(step);
+  if (from === null || from === to) return step;
+
+  const converted: Record<string, unknown> = { ...step, target_unit: to };
+  if (to === DEFAULT_TARGET_UNIT) {
+    delete converted.target_unit;
+  }
+
+  for (const field of TARGET_FIELDS[step.type]) {
+    const value = converted[field];
+    if (typeof value !== "number") continue;
+    const result = convertTargetValue(value, from, to, references);
+    if (result === null) return null;
+    converted[field] = result;
+  }
+
+  return converted as T;
+}
+
+/**
+ * Convert the target fields of partial step values (edits made in another
+ * unit), leaving the other fields as they are
+ */
+export function convertTargetUpdates<T extends object>(
+  updates: T,
+  from: TargetUnit,
+  to: TargetUnit,
+  references: TargetReferences
+): T {
+  if (from === to) return updates;
+
+  const converted: Record<string, unknown> = { ...(updates as Record<string, unknown>) };
+  for (const [field, value] of Object.entries(updates)) {
+    if (ALL_TARGET_FIELDS.has(field) && typeof value === "number") {
+      converted[field] = convertTargetValue(value, from, to, references) ?? value;
+    }
+  }
+  return converted as T;
+}
+
+/**
+ * Switch a step to another unit, for the editor.
+ * Within a kind the values are converted; across kinds the relative
+ * values carry over as they are (85% FTP becomes 85% LTHR), and zones,
+ * which only describe power, are dropped.
+ */
+export function changeStepTargetUnit<T extends LeafStep>(
+  step: T,
+  to: TargetUnit,
+  references: TargetReferences
+): T {
+  const from = getTargetUnit(step);
+  if (from === null || from === to) return step;
+
+  if (TARGET_UNITS[from].kind === TARGET_UNITS[to].kind) {
+    return convertStepTargets(step, to, references) ?? step;
+  }
+
+  const relative = convertStepTargets(step, getDisplayUnit(from, "relative"), references) ?? step;
+  const relabeled: Record<string, unknown> = { ...relative, target_unit: getDisplayUnit(to, "relative") };
+  if (relabeled.target_unit === DEFAULT_TARGET_UNIT) {
+    delete relabeled.target_unit;
+  }
+  for (const field of ZONE_FIELDS) {
+    delete relabeled[field];
+  }
+  return convertStepTargets(relabeled as T, to, references) ?? (relabeled as T);
+}
@@ -0,0 +1,135 @@
+/**
+ * Power Zones
+ *
+ * 7-zone models as percentages of FTP, used to resolve zone names
+ * ("Z3", "zone 3") written on workouts into power targets.
+ * The rider picks the model in settings; Coggan is the default.
+ */
+
+import type { Step, PowerZone, PowerTarget, ZoneModelName } from "@/lib/schemas";
+
+export type { PowerZone, ZoneModelName };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ZoneRange {
+  low_pct: number;
+  high_pct: number;
+}
+
+export type ZoneModel = Record<PowerZone, ZoneRange>;
+
+// ============================================================================
+// Zone Models
+// ============================================================================
+
+export const ZONE_MODELS: Record<ZoneModelName, ZoneModel> = {
+  coggan: {
+    Z1: { low_pct: 40, high_pct: 55 },  // Active Recovery
+    Z2: { low_pct: 56, high_pct: 75 },  // Endurance
+    Z3: { low_pct: 76, high_pct: 90 },  // Tempo
+    Z4: { low_pct: 91, high_pct: 105 }, // Threshold
+    Z5: { low_pct: 106, high_pct: 120 }, // VO2max
+    Z6: { low_pct: 121, high_pct: 150 }, // Anaerobic
+    Z7: { low_pct: 151, high_pct: 170 }, // Neuromuscular
+  },
+  // Splits tempo and threshold around a dedicated sweet spot zone
+  "sweet-spot": {
+    Z1: { low_pct: 40, high_pct: 55 },  // Active Recovery
+    Z2: { low_pct: 56, high_pct: 75 },  // Endurance
+    Z3: { low_pct: 76, high_pct: 87 },  // Tempo
+    Z4: { low_pct: 88, high_pct: 94 },  // Sweet Spot
+    Z5: { low_pct: 95, high_pct: 105 }, // Threshold
+    Z6: { low_pct: 106, high_pct: 120 }, // VO2max
+    Z7: { low_pct: 121, high_pct: 150 }, // Anaerobic
+  },
+};
+
+export const DEFAULT_ZONE_MODEL: ZoneModelName = "coggan";
+
+export const POWER_ZONES: ZoneModel = ZONE_MODELS[DEFAULT_ZONE_MODEL];
+
+/**
+ * Parse "Z3", "z3" or "zone 3" into a zone name
+ */
+export function parseZone(value: string): PowerZone | null {
+  const match = value.trim().match(/^z(?:one)?\s*([1-7])$/i);
+  return match ? (`Z${match[1]}` as PowerZone) : null;
+}
+
+/**
+ * Nominal target for a zone: the rounded midpoint of its range
+ */
+export function getZoneMidpoint(zone: PowerZone, model: ZoneModelName = DEFAULT_ZONE_MODEL): number {
+  const range = ZONE_MODELS[model][zone];
+  return Math.round((range.low_pct + range.high_pct) / 2);
+}
+
+// ============================================================================
+// Power Targets
+// ============================================================================
+
+/**
+ * Target for a band of power, with its midpoint as nominal value
+ */
+export function rangeTarget(low: number, high: number): PowerTarget {
+  const power_low_pct = Math.min(low, high);
+  const power_high_pct = Math.max(low, high);
+  if (power_low_pct === power_high_pct) {
+    return { power_pct: power_low_pct };
+  }
+  return {
+    power_pct: Math.round((power_low_pct + power_high_pct) / 2),
+    power_low_pct,
+    power_high_pct,
+  };
+}
+
+/**
+ * Target for a named zone, resolved with the given zone model
+ */
+export function zoneTarget(zone: PowerZone, model: ZoneModelName = DEFAULT_ZONE_MODEL): PowerTarget {
+  const range = ZONE_MODELS[model][zone];
+  return { ...rangeTarget(range.low_pct, range.high_pct), power_zone: zone };
+}
+
+/**
+ * Re-resolve every zone target (recursively) with the given zone model,
+ * so the stored band always matches the rider's zones.
+ * Steps in watts keep their band: it cannot be re-resolved without the FTP.
+ */
+export function resolveZoneTargets(steps: Step[], model: ZoneModelName = DEFAULT_ZONE_MODEL): Step[] {
+  return steps.map((step): Step => {
+    if ("target_unit" in step && step.target_unit && step.target_unit !== "ftp_pct") {
+      return step;
+    }
+
+    switch (step.type) {
+      case "steady":
+        return step.power_zone ? { ...step, ...zoneTarget(step.power_zone, model) } : step;
+      case "intervals": {
+        const on = step.on_power_zone && zoneTarget(step.on_power_zone, model);
+        const off = step.off_power_zone && zoneTarget(step.off_power_zone, model);
+        return {
+          ...step,
+          ...(on && {
+            on_power_pct: on.power_pct,
+            on_power_low_pct: on.power_low_pct,
+            on_power_high_pct: on.power_high_pct,
+          }),
+          ...(off && {
+            off_power_pct: off.power_pct,
+            off_power_low_pct: off.power_low_pct,
+            off_power_high_pct: off.power_high_pct,
+          }),
+        };
+      }
+      case "repeat":
+        return { ...step, steps: resolveZoneTargets(step.steps, model) };
+      default:
+        return step;
+    }
+  });
+}